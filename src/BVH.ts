@@ -0,0 +1,824 @@
+import type { Box3 } from "./Box3";
+import { range, sum } from "./functions";
+import type { Ray } from "./Ray";
+import type { RayTriangleOptions } from "./Ray";
+import type { Sphere } from "./Sphere";
+import { Triangle } from "./Triangle";
+import { Vector3 } from "./Vector3";
+
+const EPSILON = 1.0e-8;
+const DEFAULT_MAX_LEAF_SIZE = 4;
+const DEFAULT_BIN_COUNT = 12;
+const DEFAULT_MAX_DISTANCE = Infinity;
+
+/**
+ * Options for building a bounding volume hierarchy.
+ */
+type BVHOptions = {
+  /**
+   * Maximum number of triangles in a leaf.
+   * Nodes with more triangles are split unless all of their centroids coincide.
+   * 
+   * @default 4
+   */
+  maxLeafSize?: number;
+
+  /**
+   * Number of bins per axis to evaluate the surface area heuristic.
+   * More bins give a better tree at a higher build cost.
+   * 
+   * @default 12
+   */
+  binCount?: number;
+};
+
+/**
+ * Options for casting a ray against a bounding volume hierarchy.
+ */
+type BVHRaycastOptions = RayTriangleOptions & {
+  /**
+   * Hits farther than this ray parameter are ignored.
+   * 
+   * @default Infinity
+   */
+  maxDistance?: number;
+};
+
+/**
+ * Scratch buffers shared by all nodes during a build.
+ */
+type BuildScratch = {
+  /** `[minX, minY, minZ, maxX, maxY, maxZ]` enclosing each triangle, in original order */
+  boxes: Float32Array;
+  /** number of triangles whose centroid falls into each bin */
+  counts: Uint32Array;
+  /** `[minX, minY, minZ, maxX, maxY, maxZ]` enclosing the triangles of each bin */
+  binBounds: Float32Array;
+  /** half surface area enclosing each bin and all bins above it */
+  rightAreas: Float64Array;
+  maxLeafSize: number;
+  /** centroid extent along an axis below which the axis is not split, relative to the size of the mesh */
+  minExtent: number;
+};
+
+/**
+ * Bounding volume hierarchy over a triangle mesh, built by binned surface area heuristic.
+ * 
+ * Triangles are reported by their index, i.e. triangle `i` consists of the vertices
+ * `indices[3 * i]`, `indices[3 * i + 1]` and `indices[3 * i + 2]`, or `3 * i`, `3 * i + 1` and `3 * i + 2` without indices.
+ * 
+ * The positions and indices are referenced, not copied.
+ * After moving vertices in place, call {@link BVH.refit} to update the bounds without rebuilding;
+ * rebuild when the triangles have moved far enough to degrade the tree.
+ */
+class BVH {
+  /**
+   * @example
+   * ```ts
+   * const bvh = new BVH(positions);
+   * console.log(bvh.positions === positions); // true
+   * ```
+   */
+  readonly positions: Float32Array;
+
+  /**
+   * @example
+   * ```ts
+   * const bvh = new BVH(positions, indices);
+   * console.log(bvh.indices === indices); // true
+   * ```
+   */
+  readonly indices: Uint32Array | Uint16Array | null;
+
+  /** triangle indices ordered so that each leaf owns a contiguous range */
+  private readonly triangles: Uint32Array;
+
+  /** `[minX, minY, minZ, maxX, maxY, maxZ]` for each node */
+  private readonly bounds: Float32Array;
+
+  /** `[first, count]` in triangles for a leaf, `[right child, 0]` for an internal node whose left child is the next node */
+  private readonly nodes: Uint32Array;
+
+  private nodeCount = 0;
+
+  /** traversal stack, reused across queries */
+  private readonly stack: number[] = [];
+
+  private static _tmpTriangle?: Triangle;
+  private static get tmpTriangle(): Triangle {
+    if (!this._tmpTriangle) {
+      this._tmpTriangle = new Triangle(Vector3.zero(), Vector3.zero(), Vector3.zero());
+    }
+    return this._tmpTriangle;
+  }
+
+  private static _tmpVertices?: Float64Array;
+  private static get tmpVertices(): Float64Array {
+    if (!this._tmpVertices) {
+      this._tmpVertices = new Float64Array(9);
+    }
+    return this._tmpVertices;
+  }
+
+  private static _tmpVector?: Vector3;
+  private static get tmpVector(): Vector3 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector3.zero();
+    }
+    return this._tmpVector;
+  }
+
+  /**
+   * Builds a new bounding volume hierarchy. The positions and indices are referenced, not copied.
+   * @param positions flat array of positions `[x0, y0, z0, x1, y1, z1, ...]`
+   * @param indices flat array of vertex indices, three per triangle; omit for non-indexed triangles
+   * @param options options for building
+   * 
+   * @example
+   * ```ts
+   * const bvh = new BVH(mesh.positions, mesh.indices);
+   * const point = Vector3.zero();
+   * const triangle = bvh.raycast(pickingRay, point);
+   * if (triangle !== null) {
+   *   select(triangle, point);
+   * }
+   * ```
+   */
+  constructor(positions: Float32Array, indices?: Uint32Array | Uint16Array, options?: BVHOptions) {
+    this.positions = positions;
+    this.indices = indices ?? null;
+    const count = Math.floor((indices ? indices.length : positions.length / 3) / 3);
+    const maxNodeCount = Math.max(2 * count - 1, 0);
+    this.triangles = new Uint32Array(count);
+    this.bounds = new Float32Array(6 * maxNodeCount);
+    this.nodes = new Uint32Array(2 * maxNodeCount);
+    this.build(options);
+  }
+
+  /**
+   * Gets the number of triangles.
+   */
+  get triangleCount(): number {
+    return this.triangles.length;
+  }
+
+  /**
+   * Calculates the box enclosing all triangles (mutates out)
+   * @param out box instance to receive the bounds, empty if there are no triangles
+   * @returns out box
+   */
+  boundingBox(out: Box3): Box3 {
+    if (this.nodeCount === 0) {
+      return out.setEmpty();
+    }
+    const {bounds} = this;
+    out.min.set(bounds[0], bounds[1], bounds[2]);
+    out.max.set(bounds[3], bounds[4], bounds[5]);
+    return out;
+  }
+
+  /**
+   * Finds the closest triangle hit by ray (mutates outPoint, outNormal)
+   * @param ray ray
+   * @param outPoint vector instance to receive the hit point
+   * @param outNormal vector instance to receive the unit normal of the front face of the triangle hit
+   * @param options options for the ray cast
+   * @returns index of the triangle hit, `null` if the ray hits nothing
+   * 
+   * @example
+   * ```ts
+   * const bvh = new BVH(Float32Array.of(0, 0, 0, 1, 0, 0, 0, 1, 0));
+   * const ray = new Ray(new Vector3(0.2, 0.2, 5), new Vector3(0, 0, -1));
+   * const point = Vector3.zero();
+   * console.log(bvh.raycast(ray, point)); // 0
+   * console.log(point); // (0.2, 0.2, 0)
+   * ```
+   */
+  raycast(ray: Ray, outPoint?: Vector3, outNormal?: Vector3, options?: BVHRaycastOptions): number | null {
+    if (this.nodeCount === 0) {
+      return null;
+    }
+    const {tmpTriangle} = BVH;
+    const {nodes, triangles, stack} = this;
+    let closest = options?.maxDistance ?? DEFAULT_MAX_DISTANCE;
+    let hit: number | null = null;
+
+    stack.length = 0;
+    stack.push(0);
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (this.intersectNodeRay(node, ray, closest) === null) {
+        continue;
+      }
+
+      const count = nodes[2 * node + 1];
+      if (count > 0) {
+        const first = nodes[2 * node];
+        for (const index of range(first + count, {start: first})) {
+          const triangle = triangles[index];
+          this.loadTriangle(triangle, tmpTriangle);
+          const t = ray.intersectTriangle(tmpTriangle.a, tmpTriangle.b, tmpTriangle.c, undefined, undefined, options);
+          if (t !== null && t <= closest) {
+            closest = t;
+            hit = triangle;
+          }
+        }
+        continue;
+      }
+
+      // visits the nearer child first
+      const left = node + 1;
+      const right = nodes[2 * node];
+      const leftDistance = this.intersectNodeRay(left, ray, closest);
+      const rightDistance = this.intersectNodeRay(right, ray, closest);
+      if (leftDistance !== null && rightDistance !== null) {
+        const leftFirst = leftDistance <= rightDistance;
+        stack.push(leftFirst ? right : left, leftFirst ? left : right);
+      } else if (leftDistance !== null) {
+        stack.push(left);
+      } else if (rightDistance !== null) {
+        stack.push(right);
+      }
+    }
+
+    if (hit !== null && (outPoint || outNormal)) {
+      this.loadTriangle(hit, tmpTriangle);
+      ray.intersectTriangle(tmpTriangle.a, tmpTriangle.b, tmpTriangle.c, outPoint, outNormal, options);
+    }
+    return hit;
+  }
+
+  /**
+   * Checks whether ray hits any triangle (pure)
+   * 
+   * Stops at the first hit found, which is faster than {@link BVH.raycast} for occlusion and shadow rays.
+   * @param ray ray
+   * @param options options for the ray cast
+   * @returns `true` if the ray hits a triangle
+   * 
+   * @example
+   * ```ts
+   * const shadowRay = new Ray(surfacePoint, toLight);
+   * const shadowed = bvh.raycastAny(shadowRay, {maxDistance: lightDistance});
+   * ```
+   */
+  raycastAny(ray: Ray, options?: BVHRaycastOptions): boolean {
+    if (this.nodeCount === 0) {
+      return false;
+    }
+    const {tmpTriangle} = BVH;
+    const {nodes, triangles, stack} = this;
+    const maxDistance = options?.maxDistance ?? DEFAULT_MAX_DISTANCE;
+
+    stack.length = 0;
+    stack.push(0);
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (this.intersectNodeRay(node, ray, maxDistance) === null) {
+        continue;
+      }
+
+      const count = nodes[2 * node + 1];
+      if (count > 0) {
+        const first = nodes[2 * node];
+        for (const index of range(first + count, {start: first})) {
+          this.loadTriangle(triangles[index], tmpTriangle);
+          const t = ray.intersectTriangle(tmpTriangle.a, tmpTriangle.b, tmpTriangle.c, undefined, undefined, options);
+          if (t !== null && t <= maxDistance) {
+            return true;
+          }
+        }
+        continue;
+      }
+      stack.push(nodes[2 * node], node + 1);
+    }
+    return false;
+  }
+
+  /**
+   * Collects the triangles overlapping or touching box (mutates out)
+   * @param box axis-aligned box
+   * @param out array to receive the triangle indices, cleared first
+   * @returns out array
+   * 
+   * @example
+   * ```ts
+   * const triangles: number[] = [];
+   * bvh.overlapBox(selectionBox, triangles);
+   * ```
+   */
+  overlapBox(box: Box3, out: number[]): number[] {
+    out.length = 0;
+    if (this.nodeCount === 0 || box.isEmpty()) {
+      return out;
+    }
+    const {tmpTriangle} = BVH;
+    const {bounds, nodes, triangles, stack} = this;
+    const {min, max} = box;
+
+    stack.length = 0;
+    stack.push(0);
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const offset = 6 * node;
+      if (
+        bounds[offset] > max.x || bounds[offset + 3] < min.x ||
+        bounds[offset + 1] > max.y || bounds[offset + 4] < min.y ||
+        bounds[offset + 2] > max.z || bounds[offset + 5] < min.z
+      ) {
+        continue;
+      }
+
+      const count = nodes[2 * node + 1];
+      if (count > 0) {
+        const first = nodes[2 * node];
+        for (const index of range(first + count, {start: first})) {
+          const triangle = triangles[index];
+          if (BVH.triangleIntersectsBox(this.loadTriangle(triangle, tmpTriangle), box)) {
+            out.push(triangle);
+          }
+        }
+        continue;
+      }
+      stack.push(nodes[2 * node], node + 1);
+    }
+    return out;
+  }
+
+  /**
+   * Collects the triangles overlapping or touching sphere (mutates out)
+   * @param sphere sphere
+   * @param out array to receive the triangle indices, cleared first
+   * @returns out array
+   * 
+   * @example
+   * ```ts
+   * const triangles: number[] = [];
+   * bvh.overlapSphere(new Sphere(brushCenter, brushRadius), triangles);
+   * ```
+   */
+  overlapSphere(sphere: Sphere, out: number[]): number[] {
+    out.length = 0;
+    if (this.nodeCount === 0 || sphere.isEmpty()) {
+      return out;
+    }
+    const {tmpTriangle, tmpVector} = BVH;
+    const {bounds, nodes, triangles, stack} = this;
+    const {center} = sphere;
+    const squaredRadius = sphere.radius ** 2;
+
+    stack.length = 0;
+    stack.push(0);
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const offset = 6 * node;
+      const dx = Math.max(bounds[offset] - center.x, 0, center.x - bounds[offset + 3]);
+      const dy = Math.max(bounds[offset + 1] - center.y, 0, center.y - bounds[offset + 4]);
+      const dz = Math.max(bounds[offset + 2] - center.z, 0, center.z - bounds[offset + 5]);
+      if (dx ** 2 + dy ** 2 + dz ** 2 > squaredRadius) {
+        continue;
+      }
+
+      const count = nodes[2 * node + 1];
+      if (count > 0) {
+        const first = nodes[2 * node];
+        for (const index of range(first + count, {start: first})) {
+          const triangle = triangles[index];
+          this.loadTriangle(triangle, tmpTriangle).closestPointToPoint(center, tmpVector).subtract(center);
+          if (tmpVector.dot(tmpVector) <= squaredRadius) {
+            out.push(triangle);
+          }
+        }
+        continue;
+      }
+      stack.push(nodes[2 * node], node + 1);
+    }
+    return out;
+  }
+
+  /**
+   * Updates the bounds of all nodes to the current positions, keeping the tree structure (mutates this)
+   * 
+   * Much faster than rebuilding, but queries slow down as the triangles drift away from their original layout.
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * skin(mesh.positions, pose);
+   * bvh.refit();
+   * ```
+   */
+  refit(): BVH {
+    const {bounds, nodes, triangles} = this;
+    // children always follow their parent, so a backward pass sees children first
+    for (const node of range(-1, {start: this.nodeCount - 1, step: -1})) {
+      const offset = 6 * node;
+      const count = nodes[2 * node + 1];
+      if (count > 0) {
+        const first = nodes[2 * node];
+        this.resetBounds(offset);
+        for (const index of range(first + count, {start: first})) {
+          this.expandBoundsByTriangle(offset, triangles[index]);
+        }
+        continue;
+      }
+      const left = 6 * (node + 1);
+      const right = 6 * nodes[2 * node];
+      for (const axis of range(3)) {
+        bounds[offset + axis] = Math.min(bounds[left + axis], bounds[right + axis]);
+        bounds[offset + axis + 3] = Math.max(bounds[left + axis + 3], bounds[right + axis + 3]);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Builds all nodes from scratch
+   */
+  private build(options?: BVHOptions): void {
+    const maxLeafSize = Math.max(options?.maxLeafSize ?? DEFAULT_MAX_LEAF_SIZE, 1);
+    const binCount = Math.max(options?.binCount ?? DEFAULT_BIN_COUNT, 2);
+    const {triangles} = this;
+    const count = triangles.length;
+    this.nodeCount = 0;
+    if (count === 0) {
+      return;
+    }
+
+    const scratch: BuildScratch = {
+      boxes: new Float32Array(6 * count),
+      counts: new Uint32Array(binCount),
+      binBounds: new Float32Array(6 * binCount),
+      rightAreas: new Float64Array(binCount),
+      maxLeafSize,
+      minExtent: 0,
+    };
+    const {boxes} = scratch;
+    for (const triangle of range(count)) {
+      triangles[triangle] = triangle;
+      const {a, b, c} = this.loadTriangle(triangle, BVH.tmpTriangle);
+      const offset = 6 * triangle;
+      boxes[offset] = Math.min(a.x, b.x, c.x);
+      boxes[offset + 1] = Math.min(a.y, b.y, c.y);
+      boxes[offset + 2] = Math.min(a.z, b.z, c.z);
+      boxes[offset + 3] = Math.max(a.x, b.x, c.x);
+      boxes[offset + 4] = Math.max(a.y, b.y, c.y);
+      boxes[offset + 5] = Math.max(a.z, b.z, c.z);
+    }
+    let size = 0;
+    for (const axis of range(3)) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const triangle of range(count)) {
+        min = Math.min(min, boxes[6 * triangle + axis]);
+        max = Math.max(max, boxes[6 * triangle + axis + 3]);
+      }
+      size = Math.max(size, max - min);
+    }
+    scratch.minExtent = EPSILON * size;
+    this.buildNode(0, count, scratch);
+  }
+
+  /**
+   * Builds the node owning the triangles in range [first, first + count), then its descendants recursively
+   */
+  private buildNode(first: number, count: number, scratch: BuildScratch): number {
+    const {bounds, nodes, triangles} = this;
+    const {boxes} = scratch;
+    const node = this.nodeCount++;
+    const offset = 6 * node;
+    this.resetBounds(offset);
+    let centroidMinX = Infinity, centroidMinY = Infinity, centroidMinZ = Infinity;
+    let centroidMaxX = -Infinity, centroidMaxY = -Infinity, centroidMaxZ = -Infinity;
+    for (const index of range(first + count, {start: first})) {
+      const box = 6 * triangles[index];
+      bounds[offset] = Math.min(bounds[offset], boxes[box]);
+      bounds[offset + 1] = Math.min(bounds[offset + 1], boxes[box + 1]);
+      bounds[offset + 2] = Math.min(bounds[offset + 2], boxes[box + 2]);
+      bounds[offset + 3] = Math.max(bounds[offset + 3], boxes[box + 3]);
+      bounds[offset + 4] = Math.max(bounds[offset + 4], boxes[box + 4]);
+      bounds[offset + 5] = Math.max(bounds[offset + 5], boxes[box + 5]);
+      const x = BVH.centroid(boxes, box, 0);
+      const y = BVH.centroid(boxes, box, 1);
+      const z = BVH.centroid(boxes, box, 2);
+      centroidMinX = Math.min(centroidMinX, x);
+      centroidMinY = Math.min(centroidMinY, y);
+      centroidMinZ = Math.min(centroidMinZ, z);
+      centroidMaxX = Math.max(centroidMaxX, x);
+      centroidMaxY = Math.max(centroidMaxY, y);
+      centroidMaxZ = Math.max(centroidMaxZ, z);
+    }
+
+    nodes[2 * node] = first;
+    nodes[2 * node + 1] = count;
+    if (count <= scratch.maxLeafSize) {
+      return node;
+    }
+
+    // finds the cheapest split plane among the bin boundaries of all axes
+    const binCount = scratch.counts.length;
+    const centroidMin = [centroidMinX, centroidMinY, centroidMinZ];
+    const extent = [centroidMaxX - centroidMinX, centroidMaxY - centroidMinY, centroidMaxZ - centroidMinZ];
+    let bestAxis = -1;
+    let bestSplit = 0;
+    let bestCost = Infinity;
+    for (const axis of range(3)) {
+      if (extent[axis] <= scratch.minExtent) {
+        continue;
+      }
+      this.fillBins(first, count, scratch, axis, centroidMin[axis], binCount / extent[axis]);
+      const split = BVH.cheapestSplit(scratch);
+      if (split.cost < bestCost) {
+        bestCost = split.cost;
+        bestAxis = axis;
+        bestSplit = split.index;
+      }
+    }
+    if (bestAxis < 0) {
+      // all centroids coincide
+      return node;
+    }
+
+    // partitions the triangles by the chosen bin boundary
+    const scale = binCount / extent[bestAxis];
+    const min = centroidMin[bestAxis];
+    let middle = first;
+    for (const index of range(first + count, {start: first})) {
+      const triangle = triangles[index];
+      const bin = Math.min(Math.floor((BVH.centroid(boxes, 6 * triangle, bestAxis) - min) * scale), binCount - 1);
+      if (bin < bestSplit) {
+        triangles[index] = triangles[middle];
+        triangles[middle] = triangle;
+        middle++;
+      }
+    }
+    if (middle === first || middle === first + count) {
+      middle = first + (count >> 1);
+    }
+
+    this.buildNode(first, middle - first, scratch);
+    const right = this.buildNode(middle, first + count - middle, scratch);
+    nodes[2 * node] = right;
+    nodes[2 * node + 1] = 0;
+    return node;
+  }
+
+  /**
+   * Counts the triangles and accumulates their bounds per bin along axis
+   */
+  private fillBins(first: number, count: number, scratch: BuildScratch, axis: number, min: number, scale: number): void {
+    const {triangles} = this;
+    const {boxes, counts, binBounds} = scratch;
+    const binCount = counts.length;
+    counts.fill(0);
+    for (const bin of range(binCount)) {
+      for (const component of range(3)) {
+        binBounds[6 * bin + component] = Infinity;
+        binBounds[6 * bin + component + 3] = -Infinity;
+      }
+    }
+    for (const index of range(first + count, {start: first})) {
+      const box = 6 * triangles[index];
+      const bin = Math.min(Math.floor((BVH.centroid(boxes, box, axis) - min) * scale), binCount - 1);
+      const offset = 6 * bin;
+      counts[bin]++;
+      binBounds[offset] = Math.min(binBounds[offset], boxes[box]);
+      binBounds[offset + 1] = Math.min(binBounds[offset + 1], boxes[box + 1]);
+      binBounds[offset + 2] = Math.min(binBounds[offset + 2], boxes[box + 2]);
+      binBounds[offset + 3] = Math.max(binBounds[offset + 3], boxes[box + 3]);
+      binBounds[offset + 4] = Math.max(binBounds[offset + 4], boxes[box + 4]);
+      binBounds[offset + 5] = Math.max(binBounds[offset + 5], boxes[box + 5]);
+    }
+  }
+
+  /**
+   * Gets the center of the triangle box at offset along axis, which stands in for the centroid of the triangle
+   */
+  private static centroid(boxes: Float32Array, offset: number, axis: number): number {
+    return (boxes[offset + axis] + boxes[offset + axis + 3]) / 2;
+  }
+
+  /**
+   * Evaluates the surface area heuristic at every bin boundary
+   * @returns the cheapest boundary, splitting bins below `index` from the others
+   */
+  private static cheapestSplit(scratch: BuildScratch): {index: number; cost: number} {
+    const {counts, binBounds, rightAreas} = scratch;
+    const binCount = counts.length;
+
+    // sweeps from the right to record the area enclosing bins at and above each boundary
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    for (const bin of range(0, {start: binCount - 1, step: -1})) {
+      if (counts[bin] > 0) {
+        minX = Math.min(minX, binBounds[6 * bin]);
+        minY = Math.min(minY, binBounds[6 * bin + 1]);
+        minZ = Math.min(minZ, binBounds[6 * bin + 2]);
+        maxX = Math.max(maxX, binBounds[6 * bin + 3]);
+        maxY = Math.max(maxY, binBounds[6 * bin + 4]);
+        maxZ = Math.max(maxZ, binBounds[6 * bin + 5]);
+      }
+      rightAreas[bin] = BVH.halfArea(maxX - minX, maxY - minY, maxZ - minZ);
+    }
+
+    // sweeps from the left, combining with the recorded right side
+    let bestIndex = 1;
+    let bestCost = Infinity;
+    let leftCount = 0;
+    let rightCount = sum(counts);
+    minX = Infinity; minY = Infinity; minZ = Infinity;
+    maxX = -Infinity; maxY = -Infinity; maxZ = -Infinity;
+    for (const bin of range(binCount - 1)) {
+      if (counts[bin] > 0) {
+        minX = Math.min(minX, binBounds[6 * bin]);
+        minY = Math.min(minY, binBounds[6 * bin + 1]);
+        minZ = Math.min(minZ, binBounds[6 * bin + 2]);
+        maxX = Math.max(maxX, binBounds[6 * bin + 3]);
+        maxY = Math.max(maxY, binBounds[6 * bin + 4]);
+        maxZ = Math.max(maxZ, binBounds[6 * bin + 5]);
+      }
+      leftCount += counts[bin];
+      rightCount -= counts[bin];
+      if (leftCount === 0 || rightCount === 0) {
+        continue;
+      }
+      const cost = leftCount * BVH.halfArea(maxX - minX, maxY - minY, maxZ - minZ) + rightCount * rightAreas[bin + 1];
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIndex = bin + 1;
+      }
+    }
+    return {index: bestIndex, cost: bestCost};
+  }
+
+  /**
+   * Calculates half the surface area of a box with the given extents
+   */
+  private static halfArea(x: number, y: number, z: number): number {
+    return x * y + y * z + z * x;
+  }
+
+  /**
+   * Calculates the ray parameter entering the bounds of node, clamped to `0` when the origin is inside
+   * @returns ray parameter, `null` if the ray misses the node or enters it beyond maxDistance
+   */
+  private intersectNodeRay(node: number, ray: Ray, maxDistance: number): number | null {
+    const {bounds} = this;
+    const {origin, direction} = ray;
+    const offset = 6 * node;
+    let tEnter = 0;
+    let tExit = Infinity;
+    for (const axis of range(3)) {
+      const o = origin.elements[axis];
+      const d = direction.elements[axis];
+      const lower = bounds[offset + axis];
+      const upper = bounds[offset + axis + 3];
+      if (Math.abs(d) < EPSILON) {
+        if (o < lower || o > upper) {
+          return null;
+        }
+        continue;
+      }
+      const t1 = (lower - o) / d;
+      const t2 = (upper - o) / d;
+      tEnter = Math.max(tEnter, Math.min(t1, t2));
+      tExit = Math.min(tExit, Math.max(t1, t2));
+      if (tEnter > tExit) {
+        return null;
+      }
+    }
+    return tEnter <= maxDistance ? tEnter : null;
+  }
+
+  /**
+   * Gets the index of the corner-th vertex of triangle
+   */
+  private vertexIndex(triangle: number, corner: number): number {
+    const {indices} = this;
+    return indices ? indices[3 * triangle + corner] : 3 * triangle + corner;
+  }
+
+  /**
+   * Copies the vertices of triangle into out
+   */
+  private loadTriangle(triangle: number, out: Triangle): Triangle {
+    const {positions} = this;
+    const a = 3 * this.vertexIndex(triangle, 0);
+    const b = 3 * this.vertexIndex(triangle, 1);
+    const c = 3 * this.vertexIndex(triangle, 2);
+    out.a.set(positions[a], positions[a + 1], positions[a + 2]);
+    out.b.set(positions[b], positions[b + 1], positions[b + 2]);
+    out.c.set(positions[c], positions[c + 1], positions[c + 2]);
+    return out;
+  }
+
+  /**
+   * Makes the bounds at offset empty
+   */
+  private resetBounds(offset: number): void {
+    const {bounds} = this;
+    for (const axis of range(3)) {
+      bounds[offset + axis] = Infinity;
+      bounds[offset + axis + 3] = -Infinity;
+    }
+  }
+
+  /**
+   * Expands the bounds at offset to enclose triangle
+   */
+  private expandBoundsByTriangle(offset: number, triangle: number): void {
+    const {bounds, positions} = this;
+    for (const corner of range(3)) {
+      const vertex = 3 * this.vertexIndex(triangle, corner);
+      for (const axis of range(3)) {
+        const value = positions[vertex + axis];
+        bounds[offset + axis] = Math.min(bounds[offset + axis], value);
+        bounds[offset + axis + 3] = Math.max(bounds[offset + axis + 3], value);
+      }
+    }
+  }
+
+  /**
+   * Checks whether triangle and box overlap by the separating axis theorem.
+   * 
+   * Tests the box axes, the triangle normal and the nine cross products of their edges.
+   */
+  private static triangleIntersectsBox(triangle: Triangle, box: Box3): boolean {
+    const {min, max} = box;
+    const cx = (min.x + max.x) / 2;
+    const cy = (min.y + max.y) / 2;
+    const cz = (min.z + max.z) / 2;
+    const hx = (max.x - min.x) / 2;
+    const hy = (max.y - min.y) / 2;
+    const hz = (max.z - min.z) / 2;
+
+    // vertices relative to the box center
+    const {a, b, c} = triangle;
+    const v0x = a.x - cx, v0y = a.y - cy, v0z = a.z - cz;
+    const v1x = b.x - cx, v1y = b.y - cy, v1z = b.z - cz;
+    const v2x = c.x - cx, v2y = c.y - cy, v2z = c.z - cz;
+
+    // box axes
+    if (Math.min(v0x, v1x, v2x) > hx || Math.max(v0x, v1x, v2x) < -hx) {
+      return false;
+    }
+    if (Math.min(v0y, v1y, v2y) > hy || Math.max(v0y, v1y, v2y) < -hy) {
+      return false;
+    }
+    if (Math.min(v0z, v1z, v2z) > hz || Math.max(v0z, v1z, v2z) < -hz) {
+      return false;
+    }
+
+    // cross products of the box axes and the triangle edges
+    const {tmpVertices} = BVH;
+    tmpVertices[0] = v0x;
+    tmpVertices[1] = v0y;
+    tmpVertices[2] = v0z;
+    tmpVertices[3] = v1x;
+    tmpVertices[4] = v1y;
+    tmpVertices[5] = v1z;
+    tmpVertices[6] = v2x;
+    tmpVertices[7] = v2y;
+    tmpVertices[8] = v2z;
+    for (const edge of range(3)) {
+      const next = (edge + 1) % 3;
+      const ex = tmpVertices[3 * next] - tmpVertices[3 * edge];
+      const ey = tmpVertices[3 * next + 1] - tmpVertices[3 * edge + 1];
+      const ez = tmpVertices[3 * next + 2] - tmpVertices[3 * edge + 2];
+      if (
+        BVH.separatesBox(tmpVertices, 0, -ez, ey, hx, hy, hz) ||
+        BVH.separatesBox(tmpVertices, ez, 0, -ex, hx, hy, hz) ||
+        BVH.separatesBox(tmpVertices, -ey, ex, 0, hx, hy, hz)
+      ) {
+        return false;
+      }
+    }
+
+    // triangle normal
+    const e0x = v1x - v0x, e0y = v1y - v0y, e0z = v1z - v0z;
+    const e1x = v2x - v1x, e1y = v2y - v1y, e1z = v2z - v1z;
+    return !BVH.separatesBox(
+      tmpVertices,
+      e0y * e1z - e0z * e1y,
+      e0z * e1x - e0x * e1z,
+      e0x * e1y - e0y * e1x,
+      hx,
+      hy,
+      hz
+    );
+  }
+
+  /**
+   * Checks whether axis separates the triangle with vertices relative to the box center from the box with half extents
+   */
+  private static separatesBox(vertices: Float64Array, px: number, py: number, pz: number, hx: number, hy: number, hz: number): boolean {
+    const p0 = px * vertices[0] + py * vertices[1] + pz * vertices[2];
+    const p1 = px * vertices[3] + py * vertices[4] + pz * vertices[5];
+    const p2 = px * vertices[6] + py * vertices[7] + pz * vertices[8];
+    const r = hx * Math.abs(px) + hy * Math.abs(py) + hz * Math.abs(pz);
+    return Math.min(p0, p1, p2) > r || Math.max(p0, p1, p2) < -r;
+  }
+}
+
+export {BVH};
+export type {BVHOptions, BVHRaycastOptions};
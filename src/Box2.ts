@@ -0,0 +1,372 @@
+import type { Clonable } from "./Clonable";
+import { range } from "./functions";
+import type { Matrix3 } from "./Matrix3";
+import { Vector2 } from "./Vector2";
+
+/**
+ * Axis-aligned bounding box in 2D space, spanned by `min` and `max` corners.
+ * 
+ * A box whose `min` exceeds `max` on any axis is empty. {@link Box2.empty} creates the canonical
+ * empty box (`min` = +∞, `max` = -∞), which becomes the exact bounds when expanded by points.
+ */
+class Box2 implements Clonable<Box2> {
+  /**
+   * @example
+   * ```ts
+   * const b = new Box2(new Vector2(-1, -2), new Vector2(1, 2));
+   * console.log(b.min); // (-1, -2)
+   * ```
+   */
+  readonly min: Vector2;
+
+  /**
+   * @example
+   * ```ts
+   * const b = new Box2(new Vector2(-1, -2), new Vector2(1, 2));
+   * console.log(b.max); // (1, 2)
+   * ```
+   */
+  readonly max: Vector2;
+
+  private static _tmpMin?: Vector2;
+  private static get tmpMin(): Vector2 {
+    if (!this._tmpMin) {
+      this._tmpMin = Vector2.zero();
+    }
+    return this._tmpMin;
+  }
+
+  private static _tmpMax?: Vector2;
+  private static get tmpMax(): Vector2 {
+    if (!this._tmpMax) {
+      this._tmpMax = Vector2.zero();
+    }
+    return this._tmpMax;
+  }
+
+  /**
+   * Creates a new box. The vectors are copied, not referenced.
+   * @param min minimum corner
+   * @param max maximum corner
+   * 
+   * @example
+   * ```ts
+   * const b = new Box2(new Vector2(-1, -1), new Vector2(1, 1));
+   * ```
+   */
+  constructor(min: Vector2, max: Vector2) {
+    this.min = min.clone();
+    this.max = max.clone();
+  }
+
+  /**
+   * Creates a new empty box
+   * @returns new empty box instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const b = Box2.empty();
+   * console.log(b.isEmpty()); // true
+   * ```
+   */
+  static empty(): Box2 {
+    const box = new Box2(Vector2.zero(), Vector2.zero());
+    return box.setEmpty();
+  }
+
+  /**
+   * Creates a new box enclosing positions
+   * @param positions flat array of positions `[x0, y0, x1, y1, ...]`
+   * @returns new box instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const positions = Float32Array.of(0, 0, 1, 2, -1, 0);
+   * const b = Box2.fromPositions(positions);
+   * console.log(b.min); // (-1, 0)
+   * console.log(b.max); // (1, 2)
+   * ```
+   */
+  static fromPositions(positions: Float32Array): Box2 {
+    const box = Box2.empty();
+    return box.setFromPositions(positions);
+  }
+
+  /**
+   * Creates new instance has same corners (pure)
+   * @returns new cloned box instance
+   */
+  clone(): Box2 {
+    return new Box2(this.min, this.max);
+  }
+
+  /**
+   * Sets corners (mutates this)
+   * @param min minimum corner
+   * @param max maximum corner
+   * @returns this instance, for method chaining
+   */
+  set(min: Vector2, max: Vector2): Box2 {
+    this.min.copy(min);
+    this.max.copy(max);
+    return this;
+  }
+
+  /**
+   * Copies corners from other box (mutates this)
+   * @param other other box
+   * @returns this instance, for method chaining
+   */
+  copy(other: Box2): Box2 {
+    return this.set(other.min, other.max);
+  }
+
+  /**
+   * Makes this box empty (mutates this)
+   * @returns this instance, for method chaining
+   */
+  setEmpty(): Box2 {
+    this.min.set(Infinity, Infinity);
+    this.max.set(-Infinity, -Infinity);
+    return this;
+  }
+
+  /**
+   * Sets this box to enclose positions (mutates this)
+   * @param positions flat array of positions `[x0, y0, x1, y1, ...]`
+   * @returns this instance, for method chaining
+   */
+  setFromPositions(positions: Float32Array): Box2 {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const index of range(positions.length - 1, {step: 2})) {
+      const x = positions[index];
+      const y = positions[index + 1];
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+    this.min.set(minX, minY);
+    this.max.set(maxX, maxY);
+    return this;
+  }
+
+  /**
+   * Checks whether this box is empty (pure)
+   * @returns `true` if `min` exceeds `max` on any axis
+   */
+  isEmpty(): boolean {
+    const {min, max} = this;
+    return max.x < min.x || max.y < min.y;
+  }
+
+  /**
+   * Calculates center of this box (mutates out)
+   * @param out vector instance to receive center
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const b = new Box2(new Vector2(0, 0), new Vector2(2, 4));
+   * const c = Vector2.zero();
+   * b.center(c);
+   * console.log(c); // (1, 2)
+   * ```
+   */
+  center(out: Vector2): Vector2 {
+    if (this.isEmpty()) {
+      return out.set(0, 0);
+    }
+    return out.copy(this.min).add(this.max).multiplyScalar(0.5);
+  }
+
+  /**
+   * Calculates size of this box along each axis (mutates out)
+   * @param out vector instance to receive size
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const b = new Box2(new Vector2(0, 0), new Vector2(2, 4));
+   * const s = Vector2.zero();
+   * b.size(s);
+   * console.log(s); // (2, 4)
+   * ```
+   */
+  size(out: Vector2): Vector2 {
+    if (this.isEmpty()) {
+      return out.set(0, 0);
+    }
+    return out.copy(this.max).subtract(this.min);
+  }
+
+  /**
+   * Expands this box to contain point (mutates this)
+   * @param point point to enclose
+   * @returns this instance, for method chaining
+   */
+  expandByPoint(point: Vector2): Box2 {
+    this.min.min(point);
+    this.max.max(point);
+    return this;
+  }
+
+  /**
+   * Sets union of this and other box (mutates this)
+   * @param other other box
+   * @returns this instance, for method chaining
+   */
+  union(other: Box2): Box2 {
+    this.min.min(other.min);
+    this.max.max(other.max);
+    return this;
+  }
+
+  /**
+   * Sets intersection of this and other box (mutates this)
+   * 
+   * The result is empty if the boxes do not overlap.
+   * @param other other box
+   * @returns this instance, for method chaining
+   */
+  intersect(other: Box2): Box2 {
+    this.min.max(other.min);
+    this.max.min(other.max);
+    if (this.isEmpty()) {
+      this.setEmpty();
+    }
+    return this;
+  }
+
+  /**
+   * Checks whether point is inside or on the boundary of this box (pure)
+   * @param point point
+   * @returns `true` if this box contains point
+   */
+  containsPoint(point: Vector2): boolean {
+    const {min, max} = this;
+    const {x, y} = point;
+    return (
+      x >= min.x && x <= max.x &&
+      y >= min.y && y <= max.y
+    );
+  }
+
+  /**
+   * Checks whether other box is entirely inside this box (pure)
+   * @param other other box
+   * @returns `true` if this box contains other box
+   */
+  containsBox(other: Box2): boolean {
+    return this.containsPoint(other.min) && this.containsPoint(other.max);
+  }
+
+  /**
+   * Checks whether this and other box overlap or touch (pure)
+   * @param other other box
+   * @returns `true` if the boxes intersect
+   */
+  intersectsBox(other: Box2): boolean {
+    const {min, max} = this;
+    return (
+      other.max.x >= min.x && other.min.x <= max.x &&
+      other.max.y >= min.y && other.min.y <= max.y
+    );
+  }
+
+  /**
+   * Calculates the closest point in this box to point (mutates out)
+   * @param point point
+   * @param out vector instance to receive the clamped point
+   * @returns out vector
+   */
+  clampPoint(point: Vector2, out: Vector2): Vector2 {
+    return out.copy(point).clamp(this.min, this.max);
+  }
+
+  /**
+   * Calculates squared distance from this box to point (pure)
+   * @param point point
+   * @returns squared distance, `0` if point is inside
+   */
+  squaredDistanceToPoint(point: Vector2): number {
+    const {min, max} = this;
+    const dx = Math.max(min.x - point.x, 0, point.x - max.x);
+    const dy = Math.max(min.y - point.y, 0, point.y - max.y);
+    return dx ** 2 + dy ** 2;
+  }
+
+  /**
+   * Calculates distance from this box to point (pure)
+   * @param point point
+   * @returns distance, `0` if point is inside
+   * 
+   * @example
+   * ```ts
+   * const b = new Box2(new Vector2(0, 0), new Vector2(1, 1));
+   * console.log(b.distanceToPoint(new Vector2(4, 5))); // 5
+   * ```
+   */
+  distanceToPoint(point: Vector2): number {
+    return Math.sqrt(this.squaredDistanceToPoint(point));
+  }
+
+  /**
+   * Transforms this box by 2D affine matrix, and sets the axis-aligned box enclosing the result (mutates this)
+   * 
+   * Uses Arvo's method, which gives the same bounds as transforming all four corners,
+   * by accumulating the extreme contribution of each matrix element.
+   * @param matrix 2D affine transformation matrix in homogeneous coordinates
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const b = new Box2(new Vector2(-1, -1), new Vector2(1, 1));
+   * const m = Matrix3.identity().setRotation2D(Math.PI / 4);
+   * b.applyMatrix3(m);
+   * console.log(b.max); // (√2, √2)
+   * ```
+   */
+  applyMatrix3(matrix: Matrix3): Box2 {
+    if (this.isEmpty()) {
+      return this;
+    }
+
+    const {tmpMin, tmpMax} = Box2;
+    const {min, max} = this;
+    const {elements} = matrix;
+    for (const row of range(2)) {
+      // starts from translation
+      let lower = elements[6 + row];
+      let upper = lower;
+      for (const column of range(2)) {
+        const element = elements[column * 3 + row];
+        const a = element * min.elements[column];
+        const b = element * max.elements[column];
+        lower += Math.min(a, b);
+        upper += Math.max(a, b);
+      }
+      tmpMin.elements[row] = lower;
+      tmpMax.elements[row] = upper;
+    }
+    return this.set(tmpMin, tmpMax);
+  }
+
+  /**
+   * Translates this box (mutates this)
+   * @param offset translation vector
+   * @returns this instance, for method chaining
+   */
+  translate(offset: Vector2): Box2 {
+    this.min.add(offset);
+    this.max.add(offset);
+    return this;
+  }
+}
+
+export {Box2};
@@ -0,0 +1,406 @@
+import type { Clonable } from "./Clonable";
+import type { Convex } from "./Convex";
+import { range } from "./functions";
+import type { Matrix4 } from "./Matrix4";
+import { Vector3 } from "./Vector3";
+
+/**
+ * Axis-aligned bounding box in 3D space, spanned by `min` and `max` corners.
+ * 
+ * A box whose `min` exceeds `max` on any axis is empty. {@link Box3.empty} creates the canonical
+ * empty box (`min` = +∞, `max` = -∞), which becomes the exact bounds when expanded by points.
+ */
+class Box3 implements Clonable<Box3>, Convex {
+  /**
+   * @example
+   * ```ts
+   * const b = new Box3(new Vector3(-1, -2, -3), new Vector3(1, 2, 3));
+   * console.log(b.min); // (-1, -2, -3)
+   * ```
+   */
+  readonly min: Vector3;
+
+  /**
+   * @example
+   * ```ts
+   * const b = new Box3(new Vector3(-1, -2, -3), new Vector3(1, 2, 3));
+   * console.log(b.max); // (1, 2, 3)
+   * ```
+   */
+  readonly max: Vector3;
+
+  private static _tmpMin?: Vector3;
+  private static get tmpMin(): Vector3 {
+    if (!this._tmpMin) {
+      this._tmpMin = Vector3.zero();
+    }
+    return this._tmpMin;
+  }
+
+  private static _tmpMax?: Vector3;
+  private static get tmpMax(): Vector3 {
+    if (!this._tmpMax) {
+      this._tmpMax = Vector3.zero();
+    }
+    return this._tmpMax;
+  }
+
+  /**
+   * Creates a new box. The vectors are copied, not referenced.
+   * @param min minimum corner
+   * @param max maximum corner
+   * 
+   * @example
+   * ```ts
+   * const b = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+   * ```
+   */
+  constructor(min: Vector3, max: Vector3) {
+    this.min = min.clone();
+    this.max = max.clone();
+  }
+
+  /**
+   * Creates a new empty box
+   * @returns new empty box instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const b = Box3.empty();
+   * console.log(b.isEmpty()); // true
+   * ```
+   */
+  static empty(): Box3 {
+    const box = new Box3(Vector3.zero(), Vector3.zero());
+    return box.setEmpty();
+  }
+
+  /**
+   * Creates a new box enclosing positions
+   * @param positions flat array of positions `[x0, y0, z0, x1, y1, z1, ...]`
+   * @returns new box instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const positions = Float32Array.of(0, 0, 0, 1, 2, 3, -1, 0, 1);
+   * const b = Box3.fromPositions(positions);
+   * console.log(b.min); // (-1, 0, 0)
+   * console.log(b.max); // (1, 2, 3)
+   * ```
+   */
+  static fromPositions(positions: Float32Array): Box3 {
+    const box = Box3.empty();
+    return box.setFromPositions(positions);
+  }
+
+  /**
+   * Creates new instance has same corners (pure)
+   * @returns new cloned box instance
+   */
+  clone(): Box3 {
+    return new Box3(this.min, this.max);
+  }
+
+  /**
+   * Sets corners (mutates this)
+   * @param min minimum corner
+   * @param max maximum corner
+   * @returns this instance, for method chaining
+   */
+  set(min: Vector3, max: Vector3): Box3 {
+    this.min.copy(min);
+    this.max.copy(max);
+    return this;
+  }
+
+  /**
+   * Copies corners from other box (mutates this)
+   * @param other other box
+   * @returns this instance, for method chaining
+   */
+  copy(other: Box3): Box3 {
+    return this.set(other.min, other.max);
+  }
+
+  /**
+   * Makes this box empty (mutates this)
+   * @returns this instance, for method chaining
+   */
+  setEmpty(): Box3 {
+    this.min.set(Infinity, Infinity, Infinity);
+    this.max.set(-Infinity, -Infinity, -Infinity);
+    return this;
+  }
+
+  /**
+   * Sets this box to enclose positions (mutates this)
+   * @param positions flat array of positions `[x0, y0, z0, x1, y1, z1, ...]`
+   * @returns this instance, for method chaining
+   */
+  setFromPositions(positions: Float32Array): Box3 {
+    let minX = Infinity;
+    let minY = Infinity;
+    let minZ = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    let maxZ = -Infinity;
+    for (const index of range(positions.length - 2, {step: 3})) {
+      const x = positions[index];
+      const y = positions[index + 1];
+      const z = positions[index + 2];
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      minZ = Math.min(minZ, z);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+      maxZ = Math.max(maxZ, z);
+    }
+    this.min.set(minX, minY, minZ);
+    this.max.set(maxX, maxY, maxZ);
+    return this;
+  }
+
+  /**
+   * Checks whether this box is empty (pure)
+   * @returns `true` if `min` exceeds `max` on any axis
+   */
+  isEmpty(): boolean {
+    const {min, max} = this;
+    return max.x < min.x || max.y < min.y || max.z < min.z;
+  }
+
+  /**
+   * Calculates center of this box (mutates out)
+   * @param out vector instance to receive center
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const b = new Box3(new Vector3(0, 0, 0), new Vector3(2, 4, 6));
+   * const c = Vector3.zero();
+   * b.center(c);
+   * console.log(c); // (1, 2, 3)
+   * ```
+   */
+  center(out: Vector3): Vector3 {
+    if (this.isEmpty()) {
+      return out.set(0, 0, 0);
+    }
+    return out.copy(this.min).add(this.max).multiplyScalar(0.5);
+  }
+
+  /**
+   * Calculates size of this box along each axis (mutates out)
+   * @param out vector instance to receive size
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const b = new Box3(new Vector3(0, 0, 0), new Vector3(2, 4, 6));
+   * const s = Vector3.zero();
+   * b.size(s);
+   * console.log(s); // (2, 4, 6)
+   * ```
+   */
+  size(out: Vector3): Vector3 {
+    if (this.isEmpty()) {
+      return out.set(0, 0, 0);
+    }
+    return out.copy(this.max).subtract(this.min);
+  }
+
+  /**
+   * Expands this box to contain point (mutates this)
+   * @param point point to enclose
+   * @returns this instance, for method chaining
+   */
+  expandByPoint(point: Vector3): Box3 {
+    this.min.min(point);
+    this.max.max(point);
+    return this;
+  }
+
+  /**
+   * Sets union of this and other box (mutates this)
+   * @param other other box
+   * @returns this instance, for method chaining
+   */
+  union(other: Box3): Box3 {
+    this.min.min(other.min);
+    this.max.max(other.max);
+    return this;
+  }
+
+  /**
+   * Sets intersection of this and other box (mutates this)
+   * 
+   * The result is empty if the boxes do not overlap.
+   * @param other other box
+   * @returns this instance, for method chaining
+   */
+  intersect(other: Box3): Box3 {
+    this.min.max(other.min);
+    this.max.min(other.max);
+    if (this.isEmpty()) {
+      this.setEmpty();
+    }
+    return this;
+  }
+
+  /**
+   * Checks whether point is inside or on the boundary of this box (pure)
+   * @param point point
+   * @returns `true` if this box contains point
+   */
+  containsPoint(point: Vector3): boolean {
+    const {min, max} = this;
+    const {x, y, z} = point;
+    return (
+      x >= min.x && x <= max.x &&
+      y >= min.y && y <= max.y &&
+      z >= min.z && z <= max.z
+    );
+  }
+
+  /**
+   * Checks whether other box is entirely inside this box (pure)
+   * @param other other box
+   * @returns `true` if this box contains other box
+   */
+  containsBox(other: Box3): boolean {
+    return this.containsPoint(other.min) && this.containsPoint(other.max);
+  }
+
+  /**
+   * Checks whether this and other box overlap or touch (pure)
+   * @param other other box
+   * @returns `true` if the boxes intersect
+   */
+  intersectsBox(other: Box3): boolean {
+    const {min, max} = this;
+    return (
+      other.max.x >= min.x && other.min.x <= max.x &&
+      other.max.y >= min.y && other.min.y <= max.y &&
+      other.max.z >= min.z && other.min.z <= max.z
+    );
+  }
+
+  /**
+   * Calculates the closest point in this box to point (mutates out)
+   * @param point point
+   * @param out vector instance to receive the clamped point
+   * @returns out vector
+   */
+  clampPoint(point: Vector3, out: Vector3): Vector3 {
+    return out.copy(point).clamp(this.min, this.max);
+  }
+
+  /**
+   * Calculates squared distance from this box to point (pure)
+   * @param point point
+   * @returns squared distance, `0` if point is inside
+   */
+  squaredDistanceToPoint(point: Vector3): number {
+    const {min, max} = this;
+    const dx = Math.max(min.x - point.x, 0, point.x - max.x);
+    const dy = Math.max(min.y - point.y, 0, point.y - max.y);
+    const dz = Math.max(min.z - point.z, 0, point.z - max.z);
+    return dx ** 2 + dy ** 2 + dz ** 2;
+  }
+
+  /**
+   * Calculates distance from this box to point (pure)
+   * @param point point
+   * @returns distance, `0` if point is inside
+   * 
+   * @example
+   * ```ts
+   * const b = new Box3(new Vector3(0, 0, 0), new Vector3(1, 1, 1));
+   * console.log(b.distanceToPoint(new Vector3(4, 5, 1))); // 5
+   * ```
+   */
+  distanceToPoint(point: Vector3): number {
+    return Math.sqrt(this.squaredDistanceToPoint(point));
+  }
+
+  /**
+   * Transforms this box by matrix, and sets the axis-aligned box enclosing the result (mutates this)
+   * 
+   * Uses Arvo's method, which gives the same bounds as transforming all eight corners,
+   * by accumulating the extreme contribution of each matrix element.
+   * @param matrix affine transformation matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const b = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+   * const m = Matrix4.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 4));
+   * b.applyMatrix4(m);
+   * console.log(b.max); // (√2, √2, 1)
+   * ```
+   */
+  applyMatrix4(matrix: Matrix4): Box3 {
+    if (this.isEmpty()) {
+      return this;
+    }
+
+    const {tmpMin, tmpMax} = Box3;
+    const {min, max} = this;
+    const {elements} = matrix;
+    for (const row of range(3)) {
+      // starts from translation
+      let lower = elements[12 + row];
+      let upper = lower;
+      for (const column of range(3)) {
+        const element = elements[column * 4 + row];
+        const a = element * min.elements[column];
+        const b = element * max.elements[column];
+        lower += Math.min(a, b);
+        upper += Math.max(a, b);
+      }
+      tmpMin.elements[row] = lower;
+      tmpMax.elements[row] = upper;
+    }
+    return this.set(tmpMin, tmpMax);
+  }
+
+  /**
+   * Translates this box (mutates this)
+   * @param offset translation vector
+   * @returns this instance, for method chaining
+   */
+  translate(offset: Vector3): Box3 {
+    this.min.add(offset);
+    this.max.add(offset);
+    return this;
+  }
+
+  /**
+   * Calculates the farthest corner of this box in direction (mutates out)
+   * 
+   * Used as the support function of {@link GJK}.
+   * @param direction search direction, need not be normalized
+   * @param out vector instance to receive the support point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const b = new Box3(new Vector3(-1, -2, -3), new Vector3(1, 2, 3));
+   * const p = Vector3.zero();
+   * b.support(new Vector3(1, -1, 1), p);
+   * console.log(p); // (1, -2, 3)
+   * ```
+   */
+  support(direction: Vector3, out: Vector3): Vector3 {
+    const {min, max} = this;
+    return out.set(
+      direction.x >= 0 ? max.x : min.x,
+      direction.y >= 0 ? max.y : min.y,
+      direction.z >= 0 ? max.z : min.z
+    );
+  }
+}
+
+export {Box3};
@@ -0,0 +1,300 @@
+import type { Clonable } from "./Clonable";
+import type { Convex } from "./Convex";
+import type { Plane } from "./Plane";
+import { Segment3 } from "./Segment3";
+import type { Sphere } from "./Sphere";
+import type { Triangle } from "./Triangle";
+import { Vector2 } from "./Vector2";
+import { Vector3 } from "./Vector3";
+
+const EPSILON = 1.0e-8;
+
+/**
+ * Capsule in 3D space, the set of points within `radius` of the segment from `start` to `end`.
+ * 
+ * The usual collision shape of a character; the intersection tests reduce to distances from the center segment.
+ */
+class Capsule implements Clonable<Capsule>, Convex {
+  /**
+   * @example
+   * ```ts
+   * const c = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+   * console.log(c.start); // (0, 0, 0)
+   * ```
+   */
+  readonly start: Vector3;
+
+  /**
+   * @example
+   * ```ts
+   * const c = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+   * console.log(c.end); // (0, 2, 0)
+   * ```
+   */
+  readonly end: Vector3;
+
+  private _radius: number;
+
+  private static _tmpVector?: Vector3;
+  private static get tmpVector(): Vector3 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector3.zero();
+    }
+    return this._tmpVector;
+  }
+
+  private static _tmpParameters?: Vector2;
+  private static get tmpParameters(): Vector2 {
+    if (!this._tmpParameters) {
+      this._tmpParameters = Vector2.zero();
+    }
+    return this._tmpParameters;
+  }
+
+  private static _tmpSegment?: Segment3;
+  private static get tmpSegment(): Segment3 {
+    if (!this._tmpSegment) {
+      this._tmpSegment = new Segment3(Vector3.zero(), Vector3.zero());
+    }
+    return this._tmpSegment;
+  }
+
+  private static _tmpOtherSegment?: Segment3;
+  private static get tmpOtherSegment(): Segment3 {
+    if (!this._tmpOtherSegment) {
+      this._tmpOtherSegment = new Segment3(Vector3.zero(), Vector3.zero());
+    }
+    return this._tmpOtherSegment;
+  }
+
+  /**
+   * Creates a new capsule. The vectors are copied, not referenced.
+   * @param start start point of the center segment
+   * @param end end point of the center segment
+   * @param radius radius
+   * 
+   * @example
+   * ```ts
+   * // a standing character of height 2
+   * const c = new Capsule(new Vector3(0, 0.5, 0), new Vector3(0, 1.5, 0), 0.5);
+   * ```
+   */
+  constructor(start: Vector3, end: Vector3, radius: number) {
+    this.start = start.clone();
+    this.end = end.clone();
+    this._radius = radius;
+  }
+
+  /**
+   * Gets radius.
+   */
+  get radius(): number {
+    return this._radius;
+  }
+
+  /**
+   * Sets radius.
+   */
+  set radius(value: number) {
+    this._radius = value;
+  }
+
+  /**
+   * Creates new instance has same segment and radius (pure)
+   * @returns new cloned capsule instance
+   */
+  clone(): Capsule {
+    return new Capsule(this.start, this.end, this.radius);
+  }
+
+  /**
+   * Sets segment and radius (mutates this)
+   * @param start start point of the center segment
+   * @param end end point of the center segment
+   * @param radius radius
+   * @returns this instance, for method chaining
+   */
+  set(start: Vector3, end: Vector3, radius: number): Capsule {
+    this.start.copy(start);
+    this.end.copy(end);
+    this.radius = radius;
+    return this;
+  }
+
+  /**
+   * Copies segment and radius from other capsule (mutates this)
+   * @param other other capsule
+   * @returns this instance, for method chaining
+   */
+  copy(other: Capsule): Capsule {
+    return this.set(other.start, other.end, other.radius);
+  }
+
+  /**
+   * Checks whether point is inside or on the surface of this capsule (pure)
+   * @param point point
+   * @returns `true` if this capsule contains point
+   * 
+   * @example
+   * ```ts
+   * const c = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+   * console.log(c.containsPoint(new Vector3(0.5, 1, 0))); // true
+   * console.log(c.containsPoint(new Vector3(0, 2.6, 0))); // false
+   * ```
+   */
+  containsPoint(point: Vector3): boolean {
+    return this.segment().squaredDistanceToPoint(point) <= this.radius ** 2;
+  }
+
+  /**
+   * Checks whether this and other capsule overlap or touch (pure)
+   * @param other other capsule
+   * @returns `true` if the capsules intersect
+   * 
+   * @example
+   * ```ts
+   * const c1 = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+   * const c2 = new Capsule(new Vector3(0.9, 1, -1), new Vector3(0.9, 1, 1), 0.5);
+   * console.log(c1.intersectsCapsule(c2)); // true
+   * ```
+   */
+  intersectsCapsule(other: Capsule): boolean {
+    const {tmpOtherSegment, tmpParameters} = Capsule;
+    tmpOtherSegment.set(other.start, other.end);
+    const squaredDistance = this.segment().closestPointsToSegment(tmpOtherSegment, tmpParameters);
+    return squaredDistance <= (this.radius + other.radius) ** 2;
+  }
+
+  /**
+   * Checks whether this capsule and sphere overlap or touch (pure)
+   * @param sphere sphere
+   * @returns `true` if this capsule intersects sphere, always `false` for an empty sphere
+   * 
+   * @example
+   * ```ts
+   * const c = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+   * console.log(c.intersectsSphere(new Sphere(new Vector3(1, 3, 0), 1))); // true
+   * ```
+   */
+  intersectsSphere(sphere: Sphere): boolean {
+    if (sphere.isEmpty()) {
+      return false;
+    }
+    const squaredDistance = this.segment().squaredDistanceToPoint(sphere.center);
+    return squaredDistance <= (this.radius + sphere.radius) ** 2;
+  }
+
+  /**
+   * Checks whether this capsule and triangle overlap or touch (pure)
+   * @param triangle triangle
+   * @returns `true` if this capsule intersects triangle
+   * 
+   * @example
+   * ```ts
+   * const c = new Capsule(new Vector3(0, 0.5, 0), new Vector3(0, 1.5, 0), 0.5);
+   * const floor = new Triangle(new Vector3(-5, 0, 5), new Vector3(5, 0, 5), new Vector3(0, 0, -5));
+   * console.log(c.intersectsTriangle(floor)); // true
+   * ```
+   */
+  intersectsTriangle(triangle: Triangle): boolean {
+    return this.squaredDistanceToTriangle(triangle) <= this.radius ** 2;
+  }
+
+  /**
+   * Checks whether this capsule crosses or touches plane (pure)
+   * @param plane plane with normalized normal
+   * @returns `true` if this capsule intersects plane
+   * 
+   * @example
+   * ```ts
+   * const c = new Capsule(new Vector3(0, 0.5, 0), new Vector3(0, 1.5, 0), 0.5);
+   * console.log(c.intersectsPlane(new Plane(new Vector3(0, 1, 0), 0))); // true
+   * ```
+   */
+  intersectsPlane(plane: Plane): boolean {
+    const startDistance = plane.signedDistanceToPoint(this.start);
+    const endDistance = plane.signedDistanceToPoint(this.end);
+    if (startDistance * endDistance <= 0) {
+      return true;
+    }
+    return Math.min(Math.abs(startDistance), Math.abs(endDistance)) <= this.radius;
+  }
+
+  /**
+   * Calculates the farthest point of this capsule in direction (mutates out)
+   * 
+   * Used as the support function of {@link GJK}.
+   * @param direction search direction, need not be normalized
+   * @param out vector instance to receive the support point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const c = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+   * const p = Vector3.zero();
+   * c.support(new Vector3(0, 1, 0), p);
+   * console.log(p); // (0, 2.5, 0)
+   * ```
+   */
+  support(direction: Vector3, out: Vector3): Vector3 {
+    const {start, end} = this;
+    out.copy(direction.dot(end) > direction.dot(start) ? end : start);
+    const length = direction.length();
+    if (length <= 0) {
+      return out;
+    }
+    const scale = this.radius / length;
+    return out.set(
+      out.x + direction.x * scale,
+      out.y + direction.y * scale,
+      out.z + direction.z * scale
+    );
+  }
+
+  /**
+   * Copies the center segment into the shared temporary segment
+   */
+  private segment(): Segment3 {
+    return Capsule.tmpSegment.set(this.start, this.end);
+  }
+
+  /**
+   * Calculates squared distance between the center segment and triangle.
+   * 
+   * The distance is zero if the segment pierces the triangle,
+   * otherwise it is attained at an end point of the segment or on an edge of the triangle.
+   */
+  private squaredDistanceToTriangle(triangle: Triangle): number {
+    const {tmpVector, tmpOtherSegment, tmpParameters} = Capsule;
+    const {start, end} = this;
+    const {a, b, c} = triangle;
+
+    const normal = triangle.normal(tmpVector);
+    const startDistance = normal.x * (start.x - a.x) + normal.y * (start.y - a.y) + normal.z * (start.z - a.z);
+    const endDistance = normal.x * (end.x - a.x) + normal.y * (end.y - a.y) + normal.z * (end.z - a.z);
+    const denominator = startDistance - endDistance;
+    if (startDistance * endDistance <= 0 && Math.abs(denominator) >= EPSILON) {
+      const t = startDistance / denominator;
+      tmpVector.set(
+        start.x + t * (end.x - start.x),
+        start.y + t * (end.y - start.y),
+        start.z + t * (end.z - start.z)
+      );
+      if (triangle.containsPoint(tmpVector)) {
+        return 0;
+      }
+    }
+
+    triangle.closestPointToPoint(start, tmpVector).subtract(start);
+    let min = tmpVector.dot(tmpVector);
+    triangle.closestPointToPoint(end, tmpVector).subtract(end);
+    min = Math.min(min, tmpVector.dot(tmpVector));
+    const segment = this.segment();
+    min = Math.min(min, segment.closestPointsToSegment(tmpOtherSegment.set(a, b), tmpParameters));
+    min = Math.min(min, segment.closestPointsToSegment(tmpOtherSegment.set(b, c), tmpParameters));
+    min = Math.min(min, segment.closestPointsToSegment(tmpOtherSegment.set(c, a), tmpParameters));
+    return min;
+  }
+}
+
+export {Capsule};
@@ -0,0 +1,7 @@
+import type { Vector3 } from "./Vector3";
+
+interface Convex {
+  support(direction: Vector3, out: Vector3): Vector3;
+}
+
+export type {Convex};
@@ -0,0 +1,105 @@
+import type { Clonable } from "./Clonable";
+import type { Convex } from "./Convex";
+import { range } from "./functions";
+import type { Matrix4 } from "./Matrix4";
+import { Vector3 } from "./Vector3";
+
+/**
+ * Convex hull of a point cloud.
+ * 
+ * The hull is never built explicitly; the support function scans all positions,
+ * so the positions need not be the hull vertices only, but fewer positions are faster.
+ */
+class ConvexHull implements Clonable<ConvexHull>, Convex {
+  /**
+   * @example
+   * ```ts
+   * const h = new ConvexHull(Float32Array.of(0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1));
+   * console.log(h.positions.length); // 12
+   * ```
+   */
+  readonly positions: Float32Array;
+
+  private static _tmpVector?: Vector3;
+  private static get tmpVector(): Vector3 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector3.zero();
+    }
+    return this._tmpVector;
+  }
+
+  /**
+   * Creates a new convex hull. The positions are copied, not referenced.
+   * @param positions flat array of positions `[x0, y0, z0, x1, y1, z1, ...]`
+   * 
+   * @example
+   * ```ts
+   * // tetrahedron
+   * const h = new ConvexHull(Float32Array.of(0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1));
+   * ```
+   */
+  constructor(positions: Float32Array) {
+    this.positions = positions.slice();
+  }
+
+  /**
+   * Creates new instance has same positions (pure)
+   * @returns new cloned convex hull instance
+   */
+  clone(): ConvexHull {
+    return new ConvexHull(this.positions);
+  }
+
+  /**
+   * Transforms all positions by matrix (mutates this)
+   * @param matrix transformation matrix
+   * @returns this instance, for method chaining
+   */
+  applyMatrix4(matrix: Matrix4): ConvexHull {
+    const {tmpVector} = ConvexHull;
+    const {positions} = this;
+    for (const index of range(positions.length - 2, {step: 3})) {
+      tmpVector.set(positions[index], positions[index + 1], positions[index + 2]).applyMatrix4(matrix);
+      positions[index] = tmpVector.x;
+      positions[index + 1] = tmpVector.y;
+      positions[index + 2] = tmpVector.z;
+    }
+    return this;
+  }
+
+  /**
+   * Calculates the farthest position in direction (mutates out)
+   * 
+   * Used as the support function of {@link GJK}.
+   * @param direction search direction, need not be normalized
+   * @param out vector instance to receive the support point, unchanged if there are no positions
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const h = new ConvexHull(Float32Array.of(0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1));
+   * const p = Vector3.zero();
+   * h.support(new Vector3(0, 1, 0), p);
+   * console.log(p); // (0, 1, 0)
+   * ```
+   */
+  support(direction: Vector3, out: Vector3): Vector3 {
+    const {positions} = this;
+    const {x, y, z} = direction;
+    let farthest = -1;
+    let max = -Infinity;
+    for (const index of range(positions.length - 2, {step: 3})) {
+      const projection = positions[index] * x + positions[index + 1] * y + positions[index + 2] * z;
+      if (projection > max) {
+        max = projection;
+        farthest = index;
+      }
+    }
+    if (farthest < 0) {
+      return out;
+    }
+    return out.set(positions[farthest], positions[farthest + 1], positions[farthest + 2]);
+  }
+}
+
+export {ConvexHull};
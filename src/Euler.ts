@@ -0,0 +1,419 @@
+import type { Clonable } from "./Clonable";
+import { clamp } from "./functions";
+import { Matrix3 } from "./Matrix3";
+import { Matrix4 } from "./Matrix4";
+import { Quaternion } from "./Quaternion";
+
+const DEFAULT_ORDER = 'XYZ';
+const DEFAULT_INTRINSIC = true;
+const GIMBAL_LOCK_THRESHOLD = 1 - 1.0e-7;
+const EPSILON = 1.0e-8;
+
+/**
+ * Order of the three elemental rotations.
+ * 
+ * The first letter is the axis rotated about first.
+ */
+type EulerOrder = 'XYZ' | 'YXZ' | 'ZXY' | 'ZYX' | 'YZX' | 'XZY';
+
+/**
+ * Intrinsic rotations about `order` are the same as extrinsic rotations about the reversed order.
+ */
+const REVERSED_ORDER: Record<EulerOrder, EulerOrder> = {
+  XYZ: 'ZYX',
+  YXZ: 'ZXY',
+  ZXY: 'YXZ',
+  ZYX: 'XYZ',
+  YZX: 'XZY',
+  XZY: 'YZX',
+};
+
+/**
+ * Represents a rotation by three angles about the x, y and z axes, applied in a selectable order.
+ * 
+ * - **intrinsic** (default): each rotation is about the axes of the already rotated frame,
+ *   so `XYZ` gives the rotation matrix `Rx * Ry * Rz`.
+ * - **extrinsic**: each rotation is about the fixed world axes,
+ *   so `XYZ` gives the rotation matrix `Rz * Ry * Rx`.
+ */
+class Euler implements Clonable<Euler> {
+  private _x: number;
+  private _y: number;
+  private _z: number;
+  private _order: EulerOrder;
+  private _intrinsic: boolean;
+
+  private static _tmpQuaternion?: Quaternion;
+  private static get tmpQuaternion(): Quaternion {
+    if (!this._tmpQuaternion) {
+      this._tmpQuaternion = Quaternion.identity();
+    }
+    return this._tmpQuaternion;
+  }
+
+  private static _tmpAxisQuaternion?: Quaternion;
+  private static get tmpAxisQuaternion(): Quaternion {
+    if (!this._tmpAxisQuaternion) {
+      this._tmpAxisQuaternion = Quaternion.identity();
+    }
+    return this._tmpAxisQuaternion;
+  }
+
+  private static _tmpMatrix4?: Matrix4;
+  private static get tmpMatrix4(): Matrix4 {
+    if (!this._tmpMatrix4) {
+      this._tmpMatrix4 = Matrix4.identity();
+    }
+    return this._tmpMatrix4;
+  }
+
+  /**
+   * @param x rotation angle about x axis in radians
+   * @param y rotation angle about y axis in radians
+   * @param z rotation angle about z axis in radians
+   * @param order order of the elemental rotations (default `'XYZ'`)
+   * @param intrinsic `true` (default) for rotations about the rotated axes, `false` for rotations about the fixed axes
+   * 
+   * @example
+   * ```ts
+   * const e = new Euler(0, Math.PI / 2, 0, 'YXZ');
+   * ```
+   */
+  constructor(
+    x: number,
+    y: number,
+    z: number,
+    order: EulerOrder = DEFAULT_ORDER,
+    intrinsic: boolean = DEFAULT_INTRINSIC
+  ) {
+    this._x = x;
+    this._y = y;
+    this._z = z;
+    this._order = order;
+    this._intrinsic = intrinsic;
+  }
+
+  /**
+   * Gets rotation angle about x axis in radians.
+   */
+  get x(): number {
+    return this._x;
+  }
+
+  /**
+   * Sets rotation angle about x axis in radians.
+   */
+  set x(value: number) {
+    this._x = value;
+  }
+
+  /**
+   * Gets rotation angle about y axis in radians.
+   */
+  get y(): number {
+    return this._y;
+  }
+
+  /**
+   * Sets rotation angle about y axis in radians.
+   */
+  set y(value: number) {
+    this._y = value;
+  }
+
+  /**
+   * Gets rotation angle about z axis in radians.
+   */
+  get z(): number {
+    return this._z;
+  }
+
+  /**
+   * Sets rotation angle about z axis in radians.
+   */
+  set z(value: number) {
+    this._z = value;
+  }
+
+  /**
+   * Gets order of the elemental rotations.
+   */
+  get order(): EulerOrder {
+    return this._order;
+  }
+
+  /**
+   * Sets order of the elemental rotations. Angles are kept as they are.
+   */
+  set order(value: EulerOrder) {
+    this._order = value;
+  }
+
+  /**
+   * Gets whether rotations are about the rotated axes (`true`) or the fixed axes (`false`).
+   */
+  get intrinsic(): boolean {
+    return this._intrinsic;
+  }
+
+  /**
+   * Sets whether rotations are about the rotated axes (`true`) or the fixed axes (`false`). Angles are kept as they are.
+   */
+  set intrinsic(value: boolean) {
+    this._intrinsic = value;
+  }
+
+  /**
+   * Creates a zero rotation instance
+   * @param order order of the elemental rotations (default `'XYZ'`)
+   * @param intrinsic `true` (default) for rotations about the rotated axes, `false` for rotations about the fixed axes
+   * @returns new zero rotation instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const e = Euler.zero();
+   * console.log(e); // (0, 0, 0, 'XYZ')
+   * ```
+   */
+  static zero(order: EulerOrder = DEFAULT_ORDER, intrinsic: boolean = DEFAULT_INTRINSIC): Euler {
+    return new Euler(0, 0, 0, order, intrinsic);
+  }
+
+  /**
+   * Creates new instance has same angles and order (pure)
+   * @returns new cloned euler instance
+   * 
+   * @example
+   * ```ts
+   * const e = new Euler(1, 2, 3, 'ZYX');
+   * const c = e.clone();
+   * console.log(c); // (1, 2, 3, 'ZYX')
+   * ```
+   */
+  clone(): Euler {
+    const {x, y, z, order, intrinsic} = this;
+    return new Euler(x, y, z, order, intrinsic);
+  }
+
+  /**
+   * Sets all angles (mutates this)
+   * @param x rotation angle about x axis in radians
+   * @param y rotation angle about y axis in radians
+   * @param z rotation angle about z axis in radians
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const e = Euler.zero();
+   * e.set(1, 2, 3);
+   * console.log(e); // (1, 2, 3, 'XYZ')
+   * ```
+   */
+  set(x: number, y: number, z: number): Euler {
+    this._x = x;
+    this._y = y;
+    this._z = z;
+    return this;
+  }
+
+  /**
+   * Copies all angles, order and intrinsic flag from other euler (mutates this)
+   * @param other other euler
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const e1 = Euler.zero();
+   * const e2 = new Euler(1, 2, 3, 'ZYX');
+   * e1.copy(e2);
+   * console.log(e1); // (1, 2, 3, 'ZYX')
+   * ```
+   */
+  copy(other: Euler): Euler {
+    const {x, y, z, order, intrinsic} = other;
+    this._order = order;
+    this._intrinsic = intrinsic;
+    return this.set(x, y, z);
+  }
+
+  /**
+   * Sets angles from rotation quaternion, keeping the current order (mutates this)
+   * @param quaternion rotation quaternion
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const q = Quaternion.fromAxisAndAngle(new Vector3(0, 1, 0), Math.PI / 2);
+   * const e = Euler.zero();
+   * e.setFromQuaternion(q);
+   * console.log(e); // (0, π/2, 0, 'XYZ')
+   * ```
+   */
+  setFromQuaternion(quaternion: Quaternion): Euler {
+    const {tmpMatrix4} = Euler;
+    tmpMatrix4.setRotation(quaternion);
+    return this.setFromMatrix4(tmpMatrix4);
+  }
+
+  /**
+   * Sets angles from rotation matrix, keeping the current order (mutates this)
+   * 
+   * At gimbal lock (the middle rotation is ±π/2) the angle of the last intrinsic rotation is set to `0`.
+   * @param matrix rotation matrix, scale in its columns is ignored
+   * @returns this instance, for method chaining
+   */
+  setFromMatrix3(matrix: Matrix3): Euler {
+    const [e00, e01, e02, e10, e11, e12, e20, e21, e22] = matrix.elements;
+    return this.setFromRotation(e00, e01, e02, e10, e11, e12, e20, e21, e22);
+  }
+
+  /**
+   * Sets angles from the upper-left 3x3 rotation part of matrix, keeping the current order (mutates this)
+   * 
+   * At gimbal lock (the middle rotation is ±π/2) the angle of the last intrinsic rotation is set to `0`.
+   * @param matrix transformation matrix, scale in its columns is ignored
+   * @returns this instance, for method chaining
+   */
+  setFromMatrix4(matrix: Matrix4): Euler {
+    const [e00, e01, e02, _e03, e10, e11, e12, _e13, e20, e21, e22] = matrix.elements;
+    return this.setFromRotation(e00, e01, e02, e10, e11, e12, e20, e21, e22);
+  }
+
+  /**
+   * Converts to rotation quaternion and stores result in `out` quaternion (mutates out)
+   * @param out quaternion instance to receive result
+   * @returns out instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const e = new Euler(0, Math.PI / 2, 0);
+   * const q = Quaternion.identity();
+   * e.toQuaternion(q);
+   * console.log(q); // (0.7071, 0, 0.7071, 0)
+   * ```
+   */
+  toQuaternion(out: Quaternion): Quaternion {
+    const {tmpAxisQuaternion} = Euler;
+    const {x, y, z} = this;
+    const {cos, sin} = Math;
+    out.set(1, 0, 0, 0);
+    for (const axis of this.intrinsicOrder()) {
+      switch (axis) {
+        case 'X':
+          tmpAxisQuaternion.set(cos(x / 2), sin(x / 2), 0, 0);
+          break;
+        case 'Y':
+          tmpAxisQuaternion.set(cos(y / 2), 0, sin(y / 2), 0);
+          break;
+        case 'Z':
+          tmpAxisQuaternion.set(cos(z / 2), 0, 0, sin(z / 2));
+          break;
+      }
+      out.multiply(tmpAxisQuaternion);
+    }
+    return out;
+  }
+
+  /**
+   * Converts to rotation matrix and stores result in `out` matrix (mutates out)
+   * @param out matrix instance to receive result
+   * @returns out instance, for method chaining
+   */
+  toMatrix3(out: Matrix3): Matrix3 {
+    const {tmpMatrix4} = Euler;
+    this.toMatrix4(tmpMatrix4);
+    return out.setFromMatrix4(tmpMatrix4);
+  }
+
+  /**
+   * Converts to rotation matrix and stores result in `out` matrix (mutates out)
+   * @param out matrix instance to receive result
+   * @returns out instance, for method chaining
+   */
+  toMatrix4(out: Matrix4): Matrix4 {
+    const {tmpQuaternion} = Euler;
+    this.toQuaternion(tmpQuaternion);
+    return out.setRotation(tmpQuaternion);
+  }
+
+  private intrinsicOrder(): EulerOrder {
+    const {order, intrinsic} = this;
+    return intrinsic ? order : REVERSED_ORDER[order];
+  }
+
+  /**
+   * Sets angles from 3x3 matrix elements `e(column)(row)`
+   */
+  private setFromRotation(
+    e00: number,
+    e01: number,
+    e02: number,
+    e10: number,
+    e11: number,
+    e12: number,
+    e20: number,
+    e21: number,
+    e22: number
+  ): Euler {
+    const lengthX = Math.sqrt(e00 ** 2 + e01 ** 2 + e02 ** 2);
+    const lengthY = Math.sqrt(e10 ** 2 + e11 ** 2 + e12 ** 2);
+    const lengthZ = Math.sqrt(e20 ** 2 + e21 ** 2 + e22 ** 2);
+    if (lengthX < EPSILON || lengthY < EPSILON || lengthZ < EPSILON) {
+      return this.set(0, 0, 0);
+    }
+
+    const m00 = e00 / lengthX;
+    const m01 = e01 / lengthX;
+    const m02 = e02 / lengthX;
+    const m10 = e10 / lengthY;
+    const m11 = e11 / lengthY;
+    const m12 = e12 / lengthY;
+    const m20 = e20 / lengthZ;
+    const m21 = e21 / lengthZ;
+    const m22 = e22 / lengthZ;
+
+    const {asin, atan2, abs} = Math;
+    switch (this.intrinsicOrder()) {
+      case 'XYZ': {
+        const y = asin(clamp(m20, -1, 1));
+        return abs(m20) < GIMBAL_LOCK_THRESHOLD
+          ? this.set(atan2(-m21, m22), y, atan2(-m10, m00))
+          : this.set(atan2(m12, m11), y, 0);
+      }
+      case 'YXZ': {
+        const x = asin(-clamp(m21, -1, 1));
+        return abs(m21) < GIMBAL_LOCK_THRESHOLD
+          ? this.set(x, atan2(m20, m22), atan2(m01, m11))
+          : this.set(x, atan2(-m02, m00), 0);
+      }
+      case 'ZXY': {
+        const x = asin(clamp(m12, -1, 1));
+        return abs(m12) < GIMBAL_LOCK_THRESHOLD
+          ? this.set(x, atan2(-m02, m22), atan2(-m10, m11))
+          : this.set(x, 0, atan2(m01, m00));
+      }
+      case 'ZYX': {
+        const y = asin(-clamp(m02, -1, 1));
+        return abs(m02) < GIMBAL_LOCK_THRESHOLD
+          ? this.set(atan2(m12, m22), y, atan2(m01, m00))
+          : this.set(0, y, atan2(-m10, m11));
+      }
+      case 'YZX': {
+        const z = asin(clamp(m01, -1, 1));
+        return abs(m01) < GIMBAL_LOCK_THRESHOLD
+          ? this.set(atan2(-m21, m11), atan2(-m02, m00), z)
+          : this.set(0, atan2(m20, m22), z);
+      }
+      case 'XZY': {
+        const z = asin(-clamp(m10, -1, 1));
+        return abs(m10) < GIMBAL_LOCK_THRESHOLD
+          ? this.set(atan2(m12, m11), atan2(m20, m00), z)
+          : this.set(atan2(-m21, m22), 0, z);
+      }
+    }
+  }
+}
+
+export {Euler};
+export type {EulerOrder};
@@ -0,0 +1,321 @@
+import type { Box3 } from "./Box3";
+import type { Clonable } from "./Clonable";
+import { range } from "./functions";
+import { DEFAULT_DEPTH_ZERO_TO_ONE, DEFAULT_REVERSED_Z } from "./Matrix4";
+import type { Matrix4 } from "./Matrix4";
+import type { ProjectionOptions } from "./Matrix4";
+import { Plane } from "./Plane";
+import type { Sphere } from "./Sphere";
+import { Vector3 } from "./Vector3";
+
+const EPSILON = 1.0e-8;
+
+const INDEX_LEFT = 0;
+const INDEX_RIGHT = 1;
+const INDEX_BOTTOM = 2;
+const INDEX_TOP = 3;
+const INDEX_NEAR = 4;
+const INDEX_FAR = 5;
+
+/**
+ * Depth, horizontal and vertical plane meeting at each corner
+ */
+const CORNER_PLANES = [
+  [INDEX_NEAR, INDEX_LEFT, INDEX_BOTTOM],
+  [INDEX_NEAR, INDEX_RIGHT, INDEX_BOTTOM],
+  [INDEX_NEAR, INDEX_RIGHT, INDEX_TOP],
+  [INDEX_NEAR, INDEX_LEFT, INDEX_TOP],
+  [INDEX_FAR, INDEX_LEFT, INDEX_BOTTOM],
+  [INDEX_FAR, INDEX_RIGHT, INDEX_BOTTOM],
+  [INDEX_FAR, INDEX_RIGHT, INDEX_TOP],
+  [INDEX_FAR, INDEX_LEFT, INDEX_TOP],
+] as const;
+
+/**
+ * Result of classifying a volume against a frustum.
+ * 
+ * - `'inside'`: The volume is entirely inside the frustum.
+ * - `'outside'`: The volume is entirely outside the frustum.
+ * - `'intersecting'`: The volume may cross the boundary of the frustum.
+ */
+type FrustumIntersection = 'inside' | 'outside' | 'intersecting';
+
+/**
+ * View frustum bounded by six planes whose normals point inward.
+ * 
+ * The planes are ordered as left, right, bottom, top, near and far.
+ * Tests against spheres and boxes are conservative: a volume near a corner of the frustum may be reported
+ * as `'intersecting'` while it is actually outside, which is harmless for culling.
+ */
+class Frustum implements Clonable<Frustum> {
+  /**
+   * @example
+   * ```ts
+   * const f = Frustum.fromMatrix4(viewProjection);
+   * const [left, right, bottom, top, near, far] = f.planes;
+   * ```
+   */
+  readonly planes: [Plane, Plane, Plane, Plane, Plane, Plane];
+
+  /**
+   * Creates a new frustum. The planes are copied, not referenced.
+   * @param left left plane
+   * @param right right plane
+   * @param bottom bottom plane
+   * @param top top plane
+   * @param near near plane
+   * @param far far plane
+   */
+  constructor(left: Plane, right: Plane, bottom: Plane, top: Plane, near: Plane, far: Plane) {
+    this.planes = [left.clone(), right.clone(), bottom.clone(), top.clone(), near.clone(), far.clone()];
+  }
+
+  /**
+   * Creates a new frustum from view-projection matrix
+   * @param viewProjection product of projection and view matrix, `projection * view`
+   * @param options options the projection matrix was generated with
+   * @returns new frustum instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const viewProjection = projection.clone().multiply(view);
+   * const frustum = Frustum.fromMatrix4(viewProjection);
+   * ```
+   */
+  static fromMatrix4(viewProjection: Matrix4, options?: ProjectionOptions): Frustum {
+    const plane = new Plane(Vector3.zero(), 0);
+    const frustum = new Frustum(plane, plane, plane, plane, plane, plane);
+    return frustum.setFromMatrix4(viewProjection, options);
+  }
+
+  /**
+   * Creates new instance has same planes (pure)
+   * @returns new cloned frustum instance
+   */
+  clone(): Frustum {
+    const [left, right, bottom, top, near, far] = this.planes;
+    return new Frustum(left, right, bottom, top, near, far);
+  }
+
+  /**
+   * Copies planes from other frustum (mutates this)
+   * @param other other frustum
+   * @returns this instance, for method chaining
+   */
+  copy(other: Frustum): Frustum {
+    for (const index of range(6)) {
+      this.planes[index].copy(other.planes[index]);
+    }
+    return this;
+  }
+
+  /**
+   * Sets planes extracted from view-projection matrix by Gribb/Hartmann method (mutates this)
+   * 
+   * With model-view-projection matrix, the planes are in object space instead of world space.
+   * @param viewProjection product of projection and view matrix, `projection * view`
+   * @param options options the projection matrix was generated with
+   * @returns this instance, for method chaining
+   */
+  setFromMatrix4(viewProjection: Matrix4, options?: ProjectionOptions): Frustum {
+    const depthZeroToOne = options?.depthZeroToOne ?? DEFAULT_DEPTH_ZERO_TO_ONE;
+    const reversedZ = options?.reversedZ ?? DEFAULT_REVERSED_Z;
+    const [
+      e00, e01, e02, e03,
+      e10, e11, e12, e13,
+      e20, e21, e22, e23,
+      e30, e31, e32, e33,
+    ] = viewProjection.elements;
+    const {planes} = this;
+
+    // -w <= x <= w, -w <= y <= w
+    this.setPlane(INDEX_LEFT, e03 + e00, e13 + e10, e23 + e20, e33 + e30);
+    this.setPlane(INDEX_RIGHT, e03 - e00, e13 - e10, e23 - e20, e33 - e30);
+    this.setPlane(INDEX_BOTTOM, e03 + e01, e13 + e11, e23 + e21, e33 + e31);
+    this.setPlane(INDEX_TOP, e03 - e01, e13 - e11, e23 - e21, e33 - e31);
+
+    // lower <= z <= w, where lower is 0 or -w, and reversed-Z swaps near and far
+    const lowerIndex = reversedZ ? INDEX_FAR : INDEX_NEAR;
+    const upperIndex = reversedZ ? INDEX_NEAR : INDEX_FAR;
+    if (depthZeroToOne) {
+      this.setPlane(lowerIndex, e02, e12, e22, e32);
+    } else {
+      this.setPlane(lowerIndex, e03 + e02, e13 + e12, e23 + e22, e33 + e32);
+    }
+    this.setPlane(upperIndex, e03 - e02, e13 - e12, e23 - e22, e33 - e32);
+
+    for (const plane of planes) {
+      plane.normalize();
+    }
+    return this;
+  }
+
+  /**
+   * Checks whether point is inside or on the boundary of this frustum (pure)
+   * @param point point
+   * @returns `true` if this frustum contains point
+   */
+  containsPoint(point: Vector3): boolean {
+    for (const plane of this.planes) {
+      if (plane.signedDistanceToPoint(point) < 0) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Classifies sphere against this frustum (pure)
+   * @param sphere sphere
+   * @returns `'inside'`, `'outside'` or `'intersecting'`
+   * 
+   * @example
+   * ```ts
+   * if (frustum.classifySphere(mesh.boundingSphere) !== 'outside') {
+   *   draw(mesh);
+   * }
+   * ```
+   */
+  classifySphere(sphere: Sphere): FrustumIntersection {
+    if (sphere.isEmpty()) {
+      return 'outside';
+    }
+    const {center, radius} = sphere;
+    let result: FrustumIntersection = 'inside';
+    for (const plane of this.planes) {
+      const distance = plane.signedDistanceToPoint(center);
+      if (distance < -radius) {
+        return 'outside';
+      }
+      if (distance < radius) {
+        result = 'intersecting';
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Checks whether sphere is at least partially inside this frustum (pure)
+   * @param sphere sphere
+   * @returns `true` unless the sphere is entirely outside
+   */
+  intersectsSphere(sphere: Sphere): boolean {
+    return this.classifySphere(sphere) !== 'outside';
+  }
+
+  /**
+   * Classifies axis-aligned box against this frustum (pure)
+   * 
+   * For each plane, the corner farthest along the normal decides whether the box is outside,
+   * and the opposite corner decides whether the box crosses the plane.
+   * @param box axis-aligned box
+   * @returns `'inside'`, `'outside'` or `'intersecting'`
+   */
+  classifyBox(box: Box3): FrustumIntersection {
+    if (box.isEmpty()) {
+      return 'outside';
+    }
+    const {min, max} = box;
+    let result: FrustumIntersection = 'inside';
+    for (const plane of this.planes) {
+      const {normal, constant} = plane;
+      const {x, y, z} = normal;
+      const farthest = (
+        x * (x >= 0 ? max.x : min.x) +
+        y * (y >= 0 ? max.y : min.y) +
+        z * (z >= 0 ? max.z : min.z) +
+        constant
+      );
+      if (farthest < 0) {
+        return 'outside';
+      }
+      const nearest = (
+        x * (x >= 0 ? min.x : max.x) +
+        y * (y >= 0 ? min.y : max.y) +
+        z * (z >= 0 ? min.z : max.z) +
+        constant
+      );
+      if (nearest < 0) {
+        result = 'intersecting';
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Checks whether axis-aligned box is at least partially inside this frustum (pure)
+   * @param box axis-aligned box
+   * @returns `true` unless the box is found entirely outside
+   */
+  intersectsBox(box: Box3): boolean {
+    return this.classifyBox(box) !== 'outside';
+  }
+
+  /**
+   * Calculates the eight corner points of this frustum (mutates out)
+   * 
+   * The order is near bottom-left, near bottom-right, near top-right, near top-left,
+   * then the same for the far plane. The far corners of a projection with infinite far plane
+   * are at infinity, so they are set to `(NaN, NaN, NaN)`, as is any corner whose planes do not meet.
+   * @param out array of vector instances to receive corners, missing instances up to eight are created
+   * @returns out array
+   * 
+   * @example
+   * ```ts
+   * const corners = Array.from({length: 8}, () => Vector3.zero());
+   * frustum.corners(corners);
+   * ```
+   */
+  corners(out: Vector3[]): Vector3[] {
+    const {planes} = this;
+    for (const [index, [depth, horizontal, vertical]] of CORNER_PLANES.entries()) {
+      const corner = out[index] ?? (out[index] = Vector3.zero());
+      Frustum.intersectPlanes(planes[depth], planes[horizontal], planes[vertical], corner);
+    }
+    return out;
+  }
+
+  private setPlane(index: number, x: number, y: number, z: number, constant: number): void {
+    const plane = this.planes[index];
+    plane.normal.set(x, y, z);
+    plane.constant = constant;
+  }
+
+  /**
+   * Calculates the common point of three planes
+   * 
+   * `p = -(d1 (n2 × n3) + d2 (n3 × n1) + d3 (n1 × n2)) / (n1 · (n2 × n3))`
+   */
+  private static intersectPlanes(plane1: Plane, plane2: Plane, plane3: Plane, out: Vector3): void {
+    const {x: ax, y: ay, z: az} = plane1.normal;
+    const {x: bx, y: by, z: bz} = plane2.normal;
+    const {x: cx, y: cy, z: cz} = plane3.normal;
+    const bcx = by * cz - bz * cy;
+    const bcy = bz * cx - bx * cz;
+    const bcz = bx * cy - by * cx;
+    const determinant = ax * bcx + ay * bcy + az * bcz;
+    if (Math.abs(determinant) < EPSILON) {
+      out.set(NaN, NaN, NaN);
+      return;
+    }
+
+    const cax = cy * az - cz * ay;
+    const cay = cz * ax - cx * az;
+    const caz = cx * ay - cy * ax;
+    const abx = ay * bz - az * by;
+    const aby = az * bx - ax * bz;
+    const abz = ax * by - ay * bx;
+    const d1 = plane1.constant;
+    const d2 = plane2.constant;
+    const d3 = plane3.constant;
+    out.set(
+      -(d1 * bcx + d2 * cax + d3 * abx) / determinant,
+      -(d1 * bcy + d2 * cay + d3 * aby) / determinant,
+      -(d1 * bcz + d2 * caz + d3 * abz) / determinant
+    );
+  }
+}
+
+export {Frustum};
+export type {FrustumIntersection};
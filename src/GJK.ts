@@ -0,0 +1,772 @@
+import type { Convex } from "./Convex";
+import { range } from "./functions";
+import { Vector3 } from "./Vector3";
+
+const EPSILON = 1.0e-8;
+const TOLERANCE = 1.0e-6;
+const MAX_GJK_ITERATIONS = 64;
+const MAX_EPA_ITERATIONS = 64;
+const MAX_VERTICES = MAX_EPA_ITERATIONS + 4;
+const MAX_FACES = 2 * MAX_VERTICES;
+const MAX_EDGES = 3 * MAX_FACES;
+
+/**
+ * Faces `(i, j, k)` of a simplex tetrahedron, each followed by its opposite vertex
+ */
+const TETRAHEDRON_FACES = [
+  [0, 1, 2, 3],
+  [0, 1, 3, 2],
+  [0, 2, 3, 1],
+  [1, 2, 3, 0],
+] as const;
+
+/**
+ * Faces of the initial EPA tetrahedron, counter-clockwise seen from outside
+ * when the fourth vertex is behind the first face
+ */
+const ORIENTED_TETRAHEDRON_FACES = [
+  [0, 1, 2],
+  [0, 3, 1],
+  [0, 2, 3],
+  [1, 3, 2],
+] as const;
+
+/**
+ * Search directions to grow a degenerate simplex into a tetrahedron
+ */
+const AXES = [
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+] as const;
+
+/**
+ * Collision detection between convex shapes by the Gilbert–Johnson–Keerthi (GJK) algorithm
+ * and the expanding polytope algorithm (EPA).
+ * 
+ * Shapes are given only by their support functions, see {@link Convex}.
+ * Both algorithms work on the Minkowski difference `a - b`, which contains the origin iff the shapes intersect.
+ * Working memory is allocated once and reused between queries.
+ */
+class GJK {
+  private static count = 0;
+  private static faceCount = 0;
+  private static edgeCount = 0;
+
+  private static _vertices?: Vector3[];
+  private static get vertices(): Vector3[] {
+    if (!this._vertices) {
+      this._vertices = Array.from({length: MAX_VERTICES}, () => Vector3.zero());
+    }
+    return this._vertices;
+  }
+
+  private static _verticesA?: Vector3[];
+  private static get verticesA(): Vector3[] {
+    if (!this._verticesA) {
+      this._verticesA = Array.from({length: MAX_VERTICES}, () => Vector3.zero());
+    }
+    return this._verticesA;
+  }
+
+  private static _verticesB?: Vector3[];
+  private static get verticesB(): Vector3[] {
+    if (!this._verticesB) {
+      this._verticesB = Array.from({length: MAX_VERTICES}, () => Vector3.zero());
+    }
+    return this._verticesB;
+  }
+
+  private static _weights?: Float64Array;
+  private static get weights(): Float64Array {
+    if (!this._weights) {
+      this._weights = new Float64Array(4);
+    }
+    return this._weights;
+  }
+
+  private static _tmpWeights?: Float64Array;
+  private static get tmpWeights(): Float64Array {
+    if (!this._tmpWeights) {
+      this._tmpWeights = new Float64Array(4);
+    }
+    return this._tmpWeights;
+  }
+
+  /**
+   * Vertex indices of EPA faces, 3 per face
+   */
+  private static _faces?: Int32Array;
+  private static get faces(): Int32Array {
+    if (!this._faces) {
+      this._faces = new Int32Array(MAX_FACES * 3);
+    }
+    return this._faces;
+  }
+
+  /**
+   * Outward unit normals and distances from the origin of EPA faces, 4 per face
+   */
+  private static _planes?: Float64Array;
+  private static get planes(): Float64Array {
+    if (!this._planes) {
+      this._planes = new Float64Array(MAX_FACES * 4);
+    }
+    return this._planes;
+  }
+
+  /**
+   * Vertex indices of horizon edges, 2 per edge
+   */
+  private static _edges?: Int32Array;
+  private static get edges(): Int32Array {
+    if (!this._edges) {
+      this._edges = new Int32Array(MAX_EDGES * 2);
+    }
+    return this._edges;
+  }
+
+  private static _closest?: Vector3;
+  private static get closest(): Vector3 {
+    if (!this._closest) {
+      this._closest = Vector3.zero();
+    }
+    return this._closest;
+  }
+
+  private static _direction?: Vector3;
+  private static get direction(): Vector3 {
+    if (!this._direction) {
+      this._direction = Vector3.zero();
+    }
+    return this._direction;
+  }
+
+  private static _tmpVector?: Vector3;
+  private static get tmpVector(): Vector3 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector3.zero();
+    }
+    return this._tmpVector;
+  }
+
+  private static _tmpNegated?: Vector3;
+  private static get tmpNegated(): Vector3 {
+    if (!this._tmpNegated) {
+      this._tmpNegated = Vector3.zero();
+    }
+    return this._tmpNegated;
+  }
+
+  /**
+   * Checks whether two convex shapes overlap or touch
+   * @param a first shape
+   * @param b second shape
+   * @returns `true` if the shapes intersect
+   * 
+   * @example
+   * ```ts
+   * const sphere = new Sphere(new Vector3(0, 0, 0), 1);
+   * const box = new Box3(new Vector3(0.5, 0.5, 0.5), new Vector3(2, 2, 2));
+   * console.log(GJK.intersects(sphere, box)); // true
+   * ```
+   */
+  static intersects(a: Convex, b: Convex): boolean {
+    return GJK.run(a, b, true) === 0;
+  }
+
+  /**
+   * Calculates distance between two convex shapes (mutates outPointA, outPointB)
+   * @param a first shape
+   * @param b second shape
+   * @param outPointA vector instance to receive the closest point on a, only set when the shapes are apart
+   * @param outPointB vector instance to receive the closest point on b, only set when the shapes are apart
+   * @returns distance between the shapes, `0` if they intersect
+   * 
+   * @example
+   * ```ts
+   * const s1 = new Sphere(new Vector3(0, 0, 0), 1);
+   * const s2 = new Sphere(new Vector3(5, 0, 0), 1);
+   * const p1 = Vector3.zero();
+   * const p2 = Vector3.zero();
+   * console.log(GJK.distance(s1, s2, p1, p2)); // 3
+   * console.log(p1); // (1, 0, 0)
+   * console.log(p2); // (4, 0, 0)
+   * ```
+   */
+  static distance(a: Convex, b: Convex, outPointA?: Vector3, outPointB?: Vector3): number {
+    const squaredDistance = GJK.run(a, b, false);
+    if (squaredDistance === 0) {
+      return 0;
+    }
+    const {count, weights, verticesA, verticesB} = GJK;
+    outPointA?.set(0, 0, 0);
+    outPointB?.set(0, 0, 0);
+    for (const index of range(count)) {
+      const weight = weights[index];
+      const pointA = verticesA[index];
+      const pointB = verticesB[index];
+      outPointA?.set(outPointA.x + weight * pointA.x, outPointA.y + weight * pointA.y, outPointA.z + weight * pointA.z);
+      outPointB?.set(outPointB.x + weight * pointB.x, outPointB.y + weight * pointB.y, outPointB.z + weight * pointB.z);
+    }
+    return Math.sqrt(squaredDistance);
+  }
+
+  /**
+   * Calculates penetration depth and contact normal of two intersecting convex shapes by EPA (mutates outNormal, outPointA, outPointB)
+   * 
+   * Translating `b` by `normal * depth` separates the shapes.
+   * When the shapes only touch, or the Minkowski difference is flat, the depth is `0` and the normal is zero.
+   * Curved shapes are approximated by a polytope, so depth and normal have small errors for them.
+   * @param a first shape
+   * @param b second shape
+   * @param outNormal vector instance to receive the unit contact normal, pointing from a toward b
+   * @param outPointA vector instance to receive the deepest point of a inside b
+   * @param outPointB vector instance to receive the deepest point of b inside a
+   * @returns penetration depth if the shapes intersect, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const s1 = new Sphere(new Vector3(0, 0, 0), 1);
+   * const s2 = new Sphere(new Vector3(1.5, 0, 0), 1);
+   * const normal = Vector3.zero();
+   * const depth = GJK.penetration(s1, s2, normal);
+   * console.log(depth); // about 0.5
+   * console.log(normal); // about (1, 0, 0)
+   * ```
+   */
+  static penetration(a: Convex, b: Convex, outNormal: Vector3, outPointA?: Vector3, outPointB?: Vector3): number | null {
+    if (GJK.run(a, b, true) !== 0) {
+      return null;
+    }
+    if (!GJK.growSimplex(a, b)) {
+      outNormal.set(0, 0, 0);
+      GJK.setWitnessPoints(0, outPointA, outPointB);
+      return 0;
+    }
+
+    const {vertices, faces, planes} = GJK;
+    GJK.faceCount = 0;
+    for (const [i, j, k] of ORIENTED_TETRAHEDRON_FACES) {
+      GJK.addFace(i, j, k);
+    }
+
+    let vertexCount = 4;
+    let nearest = GJK.nearestFace();
+    for (const _iteration of range(MAX_EPA_ITERATIONS)) {
+      const offset = nearest * 4;
+      const normal = GJK.direction.set(planes[offset], planes[offset + 1], planes[offset + 2]);
+      const distance = planes[offset + 3];
+      if (vertexCount >= MAX_VERTICES) {
+        break;
+      }
+      GJK.support(a, b, normal, vertexCount);
+      const support = vertices[vertexCount];
+      if (support.dot(normal) - distance <= TOLERANCE * Math.max(1, distance)) {
+        break;
+      }
+      if (!GJK.expandPolytope(vertexCount)) {
+        nearest = GJK.nearestFace();
+        break;
+      }
+      vertexCount++;
+      nearest = GJK.nearestFace();
+    }
+
+    const offset = nearest * 4;
+    const distance = Math.max(planes[offset + 3], 0);
+    outNormal.set(planes[offset], planes[offset + 1], planes[offset + 2]);
+
+    // the point of the Minkowski difference closest to the origin gives the contact points
+    const i = faces[nearest * 3];
+    const j = faces[nearest * 3 + 1];
+    const k = faces[nearest * 3 + 2];
+    GJK.faceWeights(i, j, k, GJK.tmpVector.copy(outNormal).multiplyScalar(distance));
+    GJK.interpolateVertices(GJK.verticesA, i, j, k, outPointA);
+    GJK.interpolateVertices(GJK.verticesB, i, j, k, outPointB);
+    return distance;
+  }
+
+  /**
+   * Runs GJK until the point of the Minkowski difference closest to the origin is found,
+   * or the origin is found inside the simplex.
+   * @param earlyOut stops as soon as a separating direction is found, leaving the distance inexact
+   * @returns squared distance, `0` if the shapes intersect
+   */
+  private static run(a: Convex, b: Convex, earlyOut: boolean): number {
+    const {vertices, weights, closest, direction} = GJK;
+    GJK.support(a, b, direction.set(1, 0, 0), 0);
+    GJK.count = 1;
+    weights[0] = 1;
+    closest.copy(vertices[0]);
+
+    let squaredDistance = closest.dot(closest);
+    for (const _iteration of range(MAX_GJK_ITERATIONS)) {
+      // relative to the simplex size, so that small shapes close to each other are not taken as touching
+      if (squaredDistance <= EPSILON * GJK.maxSquaredLength(GJK.count)) {
+        return 0;
+      }
+
+      const index = GJK.count;
+      GJK.support(a, b, direction.copy(closest).negate(), index);
+      const projection = closest.dot(vertices[index]);
+      if (earlyOut && projection > 0) {
+        // the origin lies beyond the farthest point toward it
+        return squaredDistance;
+      }
+      if (squaredDistance - projection <= TOLERANCE * squaredDistance) {
+        return squaredDistance;
+      }
+
+      GJK.count++;
+      if (!GJK.reduceSimplex()) {
+        return 0;
+      }
+      const previous = squaredDistance;
+      squaredDistance = closest.dot(closest);
+      if (squaredDistance >= previous) {
+        // no more progress due to rounding errors
+        return previous;
+      }
+    }
+    return squaredDistance;
+  }
+
+  /**
+   * Sets vertex of Minkowski difference `a - b` farthest in direction
+   */
+  private static support(a: Convex, b: Convex, direction: Vector3, index: number): void {
+    const {vertices, verticesA, verticesB, tmpNegated} = GJK;
+    a.support(direction, verticesA[index]);
+    b.support(tmpNegated.copy(direction).negate(), verticesB[index]);
+    vertices[index].copy(verticesA[index]).subtract(verticesB[index]);
+  }
+
+  /**
+   * Reduces the simplex to the smallest sub-simplex containing its point closest to the origin,
+   * and updates the closest point and the barycentric weights
+   * @returns `false` if the origin is inside the tetrahedron
+   */
+  private static reduceSimplex(): boolean {
+    const {weights, tmpWeights} = GJK;
+    switch (GJK.count) {
+      case 2: {
+        GJK.closestOnSegment(0, 1, weights);
+        break;
+      }
+      case 3: {
+        GJK.closestOnTriangle(0, 1, 2, weights);
+        break;
+      }
+      default: {
+        const {vertices, tmpVector} = GJK;
+        const tolerance = EPSILON * GJK.maxSquaredLength(4) ** 1.5;
+        let best = Infinity;
+        for (const [i, j, k, opposite] of TETRAHEDRON_FACES) {
+          // the face matters only if the origin is on the other side of it than the opposite vertex
+          const origin = GJK.faceSide(i, j, k, tmpVector.set(0, 0, 0));
+          const vertex = GJK.faceSide(i, j, k, vertices[opposite]);
+          if (origin * vertex > 0 && Math.abs(vertex) > tolerance) {
+            continue;
+          }
+          tmpWeights.fill(0);
+          const squaredDistance = GJK.closestOnTriangle(i, j, k, tmpWeights);
+          if (squaredDistance < best) {
+            best = squaredDistance;
+            weights.set(tmpWeights);
+          }
+        }
+        if (best === Infinity) {
+          return false;
+        }
+      }
+    }
+    GJK.compactSimplex();
+    return true;
+  }
+
+  /**
+   * Calculates `((vj - vi) × (vk - vi)) · (point - vi)`
+   */
+  private static faceSide(i: number, j: number, k: number, point: Vector3): number {
+    const {vertices} = GJK;
+    const a = vertices[i];
+    const b = vertices[j];
+    const c = vertices[k];
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const acx = c.x - a.x;
+    const acy = c.y - a.y;
+    const acz = c.z - a.z;
+    return (
+      (aby * acz - abz * acy) * (point.x - a.x) +
+      (abz * acx - abx * acz) * (point.y - a.y) +
+      (abx * acy - aby * acx) * (point.z - a.z)
+    );
+  }
+
+  /**
+   * Sets weights of the point on segment closest to the origin
+   * @returns squared distance to the origin
+   */
+  private static closestOnSegment(i: number, j: number, out: Float64Array): number {
+    const {vertices} = GJK;
+    const a = vertices[i];
+    const b = vertices[j];
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const squaredLength = abx ** 2 + aby ** 2 + abz ** 2;
+    const t = squaredLength <= EPSILON * Math.max(a.dot(a), b.dot(b)) ? 0 : Math.min(Math.max(-a.dot(GJK.tmpVector.set(abx, aby, abz)) / squaredLength, 0), 1);
+    out[i] = 1 - t;
+    out[j] = t;
+    return (a.x + t * abx) ** 2 + (a.y + t * aby) ** 2 + (a.z + t * abz) ** 2;
+  }
+
+  /**
+   * Sets weights of the point on triangle closest to the origin, by its Voronoi regions
+   * @returns squared distance to the origin
+   */
+  private static closestOnTriangle(i: number, j: number, k: number, out: Float64Array): number {
+    const {vertices} = GJK;
+    const a = vertices[i];
+    const b = vertices[j];
+    const c = vertices[k];
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const acx = c.x - a.x;
+    const acy = c.y - a.y;
+    const acz = c.z - a.z;
+
+    let u = 0;
+    let v = 0;
+    let w = 0;
+    const d1 = -(abx * a.x + aby * a.y + abz * a.z);
+    const d2 = -(acx * a.x + acy * a.y + acz * a.z);
+    const d3 = -(abx * b.x + aby * b.y + abz * b.z);
+    const d4 = -(acx * b.x + acy * b.y + acz * b.z);
+    const d5 = -(abx * c.x + aby * c.y + abz * c.z);
+    const d6 = -(acx * c.x + acy * c.y + acz * c.z);
+    const va = d3 * d6 - d5 * d4;
+    const vb = d5 * d2 - d1 * d6;
+    const vc = d1 * d4 - d3 * d2;
+    if (d1 <= 0 && d2 <= 0) {
+      u = 1;
+    } else if (d3 >= 0 && d4 <= d3) {
+      v = 1;
+    } else if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+      v = d1 / (d1 - d3);
+      u = 1 - v;
+    } else if (d6 >= 0 && d5 <= d6) {
+      w = 1;
+    } else if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+      w = d2 / (d2 - d6);
+      u = 1 - w;
+    } else if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+      w = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+      v = 1 - w;
+    } else {
+      const denominator = va + vb + vc;
+      v = vb / denominator;
+      w = vc / denominator;
+      u = 1 - v - w;
+    }
+    out[i] = u;
+    out[j] = v;
+    out[k] = w;
+    const x = u * a.x + v * b.x + w * c.x;
+    const y = u * a.y + v * b.y + w * c.y;
+    const z = u * a.z + v * b.z + w * c.z;
+    return x ** 2 + y ** 2 + z ** 2;
+  }
+
+  /**
+   * Removes vertices of zero weight, and updates the closest point
+   */
+  private static compactSimplex(): void {
+    const {vertices, verticesA, verticesB, weights, closest} = GJK;
+    let kept = 0;
+    closest.set(0, 0, 0);
+    for (const index of range(GJK.count)) {
+      const weight = weights[index];
+      if (weight <= 0) {
+        continue;
+      }
+      if (kept !== index) {
+        vertices[kept].copy(vertices[index]);
+        verticesA[kept].copy(verticesA[index]);
+        verticesB[kept].copy(verticesB[index]);
+        weights[kept] = weight;
+      }
+      const vertex = vertices[kept];
+      closest.set(closest.x + weight * vertex.x, closest.y + weight * vertex.y, closest.z + weight * vertex.z);
+      kept++;
+    }
+    GJK.count = kept;
+  }
+
+  /**
+   * Grows the simplex enclosing the origin into a tetrahedron of positive volume, oriented for EPA
+   * @returns `false` if the Minkowski difference is flat
+   */
+  private static growSimplex(a: Convex, b: Convex): boolean {
+    const {vertices, direction, tmpVector} = GJK;
+    if (GJK.count === 1) {
+      for (const [x, y, z] of AXES) {
+        GJK.support(a, b, direction.set(x, y, z), 1);
+        if (tmpVector.copy(vertices[1]).subtract(vertices[0]).dot(tmpVector) > EPSILON * GJK.maxSquaredLength(2)) {
+          GJK.count = 2;
+          break;
+        }
+      }
+    }
+    if (GJK.count === 2) {
+      for (const [x, y, z] of AXES) {
+        const edge = tmpVector.copy(vertices[1]).subtract(vertices[0]);
+        direction.set(x, y, z).cross(edge);
+        if (direction.dot(direction) <= EPSILON * edge.dot(edge)) {
+          continue;
+        }
+        GJK.support(a, b, direction, 2);
+        if (GJK.closestOnSegmentTo(vertices[2]) > EPSILON * GJK.maxSquaredLength(3)) {
+          GJK.count = 3;
+          break;
+        }
+      }
+    }
+    if (GJK.count === 3) {
+      const normal = direction.copy(vertices[1]).subtract(vertices[0]).cross(tmpVector.copy(vertices[2]).subtract(vertices[0]));
+      for (const sign of [1, -1]) {
+        GJK.support(a, b, tmpVector.copy(normal).multiplyScalar(sign), 3);
+        if (GJK.faceSide(0, 1, 2, vertices[3]) ** 2 > EPSILON * normal.dot(normal) * GJK.maxSquaredLength(4)) {
+          GJK.count = 4;
+          break;
+        }
+      }
+    }
+    if (GJK.count < 4) {
+      return false;
+    }
+
+    // faces are outward when the fourth vertex is behind the first face
+    if (GJK.faceSide(0, 1, 2, vertices[3]) > 0) {
+      GJK.swapVertices(1, 2);
+    }
+    return true;
+  }
+
+  /**
+   * Calculates the largest squared length of the first vertices, as the scale of tolerances
+   */
+  private static maxSquaredLength(count: number): number {
+    const {vertices} = GJK;
+    let max = 0;
+    for (const index of range(count)) {
+      max = Math.max(max, vertices[index].dot(vertices[index]));
+    }
+    return max;
+  }
+
+  /**
+   * Calculates squared distance from point to the line through the first two vertices
+   */
+  private static closestOnSegmentTo(point: Vector3): number {
+    const {vertices} = GJK;
+    const a = vertices[0];
+    const b = vertices[1];
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const apx = point.x - a.x;
+    const apy = point.y - a.y;
+    const apz = point.z - a.z;
+    const cx = aby * apz - abz * apy;
+    const cy = abz * apx - abx * apz;
+    const cz = abx * apy - aby * apx;
+    return (cx ** 2 + cy ** 2 + cz ** 2) / (abx ** 2 + aby ** 2 + abz ** 2);
+  }
+
+  private static swapVertices(i: number, j: number): void {
+    const {vertices, verticesA, verticesB, tmpVector} = GJK;
+    for (const array of [vertices, verticesA, verticesB]) {
+      tmpVector.copy(array[i]);
+      array[i].copy(array[j]);
+      array[j].copy(tmpVector);
+    }
+  }
+
+  /**
+   * Adds EPA face whose vertices are counter-clockwise seen from outside
+   * @returns `false` if there is no room for the face
+   */
+  private static addFace(i: number, j: number, k: number): boolean {
+    if (GJK.faceCount >= MAX_FACES) {
+      return false;
+    }
+    const {vertices, faces, planes, tmpVector} = GJK;
+    const face = GJK.faceCount;
+    faces[face * 3] = i;
+    faces[face * 3 + 1] = j;
+    faces[face * 3 + 2] = k;
+
+    const a = vertices[i];
+    const b = vertices[j];
+    const c = vertices[k];
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const acx = c.x - a.x;
+    const acy = c.y - a.y;
+    const acz = c.z - a.z;
+    const normal = tmpVector.set(
+      aby * acz - abz * acy,
+      abz * acx - abx * acz,
+      abx * acy - aby * acx
+    );
+    const length = normal.length();
+    const degenerate = length <= EPSILON * Math.max(abx ** 2 + aby ** 2 + abz ** 2, acx ** 2 + acy ** 2 + acz ** 2);
+    planes[face * 4] = degenerate ? 0 : normal.x / length;
+    planes[face * 4 + 1] = degenerate ? 0 : normal.y / length;
+    planes[face * 4 + 2] = degenerate ? 0 : normal.z / length;
+
+    // a degenerate face is never chosen as the nearest
+    planes[face * 4 + 3] = degenerate ? Infinity : normal.dot(a) / length;
+    GJK.faceCount++;
+    return true;
+  }
+
+  private static nearestFace(): number {
+    const {planes} = GJK;
+    let nearest = 0;
+    for (const face of range(GJK.faceCount, {start: 1})) {
+      if (planes[face * 4 + 3] < planes[nearest * 4 + 3]) {
+        nearest = face;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Removes faces visible from the new vertex, and connects the new vertex to the horizon
+   * @returns `false` if there is no room for new faces
+   */
+  private static expandPolytope(vertex: number): boolean {
+    const {vertices, faces, planes, edges} = GJK;
+    const point = vertices[vertex];
+    GJK.edgeCount = 0;
+
+    let face = 0;
+    while (face < GJK.faceCount) {
+      const offset = face * 4;
+      const a = vertices[faces[face * 3]];
+      const visible = (
+        planes[offset] * (point.x - a.x) +
+        planes[offset + 1] * (point.y - a.y) +
+        planes[offset + 2] * (point.z - a.z)
+      ) > 0;
+      if (!visible) {
+        face++;
+        continue;
+      }
+
+      for (const edge of range(3)) {
+        GJK.toggleEdge(faces[face * 3 + edge], faces[face * 3 + (edge + 1) % 3]);
+      }
+
+      // removes the face by moving the last face into its place
+      const last = GJK.faceCount - 1;
+      faces.copyWithin(face * 3, last * 3, last * 3 + 3);
+      planes.copyWithin(offset, last * 4, last * 4 + 4);
+      GJK.faceCount--;
+    }
+
+    for (const edge of range(GJK.edgeCount)) {
+      if (!GJK.addFace(edges[edge * 2], edges[edge * 2 + 1], vertex)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Adds edge to the horizon, or removes it if the opposite edge is already there,
+   * since an edge shared by two removed faces is not on the horizon
+   */
+  private static toggleEdge(i: number, j: number): void {
+    const {edges} = GJK;
+    for (const edge of range(GJK.edgeCount)) {
+      if (edges[edge * 2] === j && edges[edge * 2 + 1] === i) {
+        const last = GJK.edgeCount - 1;
+        edges.copyWithin(edge * 2, last * 2, last * 2 + 2);
+        GJK.edgeCount--;
+        return;
+      }
+    }
+    if (GJK.edgeCount < MAX_EDGES) {
+      edges[GJK.edgeCount * 2] = i;
+      edges[GJK.edgeCount * 2 + 1] = j;
+      GJK.edgeCount++;
+    }
+  }
+
+  private static setWitnessPoints(index: number, outPointA?: Vector3, outPointB?: Vector3): void {
+    outPointA?.copy(GJK.verticesA[index]);
+    outPointB?.copy(GJK.verticesB[index]);
+  }
+
+  /**
+   * Sets `tmpWeights` to the barycentric weights of point projected onto the plane of face `(i, j, k)`,
+   * from the areas of the sub-triangles opposite to each vertex
+   */
+  private static faceWeights(i: number, j: number, k: number, point: Vector3): void {
+    const {vertices, tmpWeights} = GJK;
+    const a = vertices[i];
+    const b = vertices[j];
+    const c = vertices[k];
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const acx = c.x - a.x;
+    const acy = c.y - a.y;
+    const acz = c.z - a.z;
+    const nx = aby * acz - abz * acy;
+    const ny = abz * acx - abx * acz;
+    const nz = abx * acy - aby * acx;
+    const squaredArea = nx ** 2 + ny ** 2 + nz ** 2;
+    const apx = point.x - a.x;
+    const apy = point.y - a.y;
+    const apz = point.z - a.z;
+
+    // (ap × ac) · n and (ab × ap) · n are twice the signed areas opposite to b and c
+    const v = ((apy * acz - apz * acy) * nx + (apz * acx - apx * acz) * ny + (apx * acy - apy * acx) * nz) / squaredArea;
+    const w = ((aby * apz - abz * apy) * nx + (abz * apx - abx * apz) * ny + (abx * apy - aby * apx) * nz) / squaredArea;
+    tmpWeights[0] = 1 - v - w;
+    tmpWeights[1] = v;
+    tmpWeights[2] = w;
+  }
+
+  /**
+   * Sets point interpolated from three vertices by `tmpWeights`
+   */
+  private static interpolateVertices(array: Vector3[], i: number, j: number, k: number, out?: Vector3): void {
+    if (!out) {
+      return;
+    }
+    const {tmpWeights} = GJK;
+    const a = array[i];
+    const b = array[j];
+    const c = array[k];
+    out.set(
+      tmpWeights[0] * a.x + tmpWeights[1] * b.x + tmpWeights[2] * c.x,
+      tmpWeights[0] * a.y + tmpWeights[1] * b.y + tmpWeights[2] * c.y,
+      tmpWeights[0] * a.z + tmpWeights[1] * b.z + tmpWeights[2] * c.z
+    );
+  }
+}
+
+export {GJK};
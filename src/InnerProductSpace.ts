@@ -0,0 +1,18 @@
+import type { Normalizable } from "./Normalizable";
+
+/**
+ * Represents a vector space equipped with an inner product.
+ * 
+ * Types implementing this interface support:
+ * - Inner product: `a · b` produces a scalar
+ * - Angle, projection, rejection and reflection derived from the inner product
+ */
+interface InnerProductSpace<T> extends Normalizable<T> {
+  dot(other: T): number;
+  angleTo(other: T): number;
+  projectOnto(other: T): T;
+  rejectFrom(other: T): T;
+  reflect(normal: T): T;
+}
+
+export type {InnerProductSpace};
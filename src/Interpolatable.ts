@@ -0,0 +1,12 @@
+/**
+ * Represents a value that can be interpolated.
+ * 
+ * Types implementing this interface support:
+ * - Linear interpolation: `lerp(a, b, t) = a + (b - a) * t`
+ * - Endpoints: `t = 0` gives `a`, `t = 1` gives `b`
+ */
+interface Interpolatable<T> {
+  lerp(other: T, t: number): T;
+}
+
+export type {Interpolatable};
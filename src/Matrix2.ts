@@ -0,0 +1,412 @@
+import type { AdditiveGroup } from "./AdditiveGroup";
+import type { Clonable } from "./Clonable";
+import { range } from "./functions";
+import type { Matrix } from "./Matrix";
+import type { PartialMultiplicativeGroup } from "./PartialMultiplicativeGroup";
+import type { Scalable } from "./Scalable";
+import type { Vector2 } from "./Vector2";
+
+const EPSILON = 1.0e-8;
+
+/**
+ * 2x2 matrix class. It looks column-major order. And post multiplied.
+ */
+class Matrix2 implements Matrix<2>, AdditiveGroup<Matrix2>, PartialMultiplicativeGroup<Matrix2>, Scalable<Matrix2>, Clonable<Matrix2> {
+  /**
+   * @example
+   * ```ts
+   * const m = Matrix2.identity();
+   * console.log(m.order); // 2
+   * ```
+   */
+  readonly order = 2;
+
+  /**
+   * @example
+   * ```ts
+   * const m = Matrix2.identity();
+   * console.log(m.elements);
+   * // [ 1, 0,
+   * //   0, 1 ]
+   * ```
+   */
+  readonly elements: Float32Array;
+
+  private static _tmpMatrix?: Matrix2;
+  private static get tmpMatrix(): Matrix2 {
+    if (!this._tmpMatrix) {
+      this._tmpMatrix = Matrix2.identity();
+    }
+    return this._tmpMatrix;
+  }
+
+  /**
+   * Creates a new 2x2 matrix with the specified elements. \
+   * The internal data is stored in **column-major** order in a `Float32Array`.
+   * 
+   * The parameters `e(column)(row)` correspond to this following matrix positions: \
+   * ```
+   * | e00 e10 |
+   * | e01 e11 |
+   * ```
+   * 
+   * The `elements` array stores each column sequentialy: \
+   * `[e00, e01, e10, e11]`
+   * 
+   * @param e00 element in column 0, row 0
+   * @param e01 element in column 0, row 1
+   * @param e10 element in column 1, row 0
+   * @param e11 element in column 1, row 1
+   * 
+   * @example
+   * ```ts
+   * const m = new Matrix2(0, 1, 2, 3);
+   * console.log(m.elements);
+   * // [ 0, 1, 2, 3 ]
+   * ```
+   */
+  constructor(e00: number, e01: number, e10: number, e11: number) {
+    this.elements = Float32Array.of(e00, e01, e10, e11);
+  }
+
+  /**
+   * Creates a identity matrix instance
+   * @returns new identity matrix instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.identity();
+   * console.log(m.elements);
+   * // [ 1, 0,
+   * //   0, 1 ]
+   * ```
+   */
+  static identity(): Matrix2 {
+    const matrix = Matrix2.zero();
+    return matrix.setIdentity();
+  }
+
+  /**
+   * Creates a new zero matrix instance
+   * @returns new zero matrix instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.zero();
+   * console.log(m.elements);
+   * // [ 0, 0,
+   * //   0, 0 ]
+   * ```
+   */
+  static zero(): Matrix2 {
+    return new Matrix2(0, 0, 0, 0);
+  }
+
+  /**
+   * Creates new instance has same elements (pure)
+   * @returns new cloned matrix instance
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.identity();
+   * const c = m.clone();
+   * console.log(c.elements);
+   * // [ 1, 0,
+   * //   0, 1 ]
+   * ```
+   */
+  clone(): Matrix2 {
+    const [e00, e01, e10, e11] = this.elements;
+    return new Matrix2(e00, e01, e10, e11);
+  }
+
+  /**
+   * Sets all elements (mutates this)
+   * @param e00 element in column 0, row 0
+   * @param e01 element in column 0, row 1
+   * @param e10 element in column 1, row 0
+   * @param e11 element in column 1, row 1
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * const m = Matrix2.zero();
+   * m.set(0, 1, 2, 3);
+   * console.log(m.elements);
+   * // [ 0, 1,
+   * //   2, 3 ]
+   */
+  set(e00: number, e01: number, e10: number, e11: number): Matrix2 {
+    this.elements[0] = e00;
+    this.elements[1] = e01;
+    this.elements[2] = e10;
+    this.elements[3] = e11;
+    return this;
+  }
+
+  /**
+   * Copies all elements from other matrix (mutates this)
+   * @param other other matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.zero();
+   * const i = Matrix2.identity();
+   * m.copy(i);
+   * console.log(m.elements);
+   * // [ 1, 0,
+   * //   0, 1 ]
+   * ```
+   */
+  copy(other: Matrix2): Matrix2 {
+    const [e00, e01, e10, e11] = other.elements;
+    return this.set(e00, e01, e10, e11);
+  }
+
+  /**
+   * Sets identity matrix (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.zero();
+   * m.setIdentity();
+   * console.log(m.elements);
+   * // [ 1, 0,
+   * //   0, 1 ]
+   * ```
+   */
+  setIdentity(): Matrix2 {
+    return this.set(1, 0, 0, 1);
+  }
+
+  /**
+   * Sets rotation matrix (mutates this)
+   * @param radian angle in radians, measured counter-clockwise from the positive x-axis
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.zero();
+   * m.setRotation(Math.PI / 2);
+   * console.log(m.elements);
+   * // [  0, 1,
+   * //   -1, 0 ]
+   * ```
+   */
+  setRotation(radian: number): Matrix2 {
+    const cos = Math.cos(radian);
+    const sin = Math.sin(radian);
+    return this.set(cos, sin, -sin, cos);
+  }
+
+  /**
+   * Sets scale transformation matrix (mutates this)
+   * @param scale 2D scale vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.zero();
+   * m.setScale(new Vector2(2, 3));
+   * console.log(m.elements);
+   * // [ 2, 0,
+   * //   0, 3 ]
+   * ```
+   */
+  setScale(scale: Vector2): Matrix2 {
+    return this.set(scale.x, 0, 0, scale.y);
+  }
+
+  /**
+   * Sets shear transformation matrix (mutates this)
+   * 
+   * Maps `(x, y)` to `(x + shearX * y, y + shearY * x)`.
+   * @param shearX shear factor along x axis, proportional to y
+   * @param shearY shear factor along y axis, proportional to x
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.zero();
+   * m.setShear(2, 0);
+   * console.log(m.elements);
+   * // [ 1, 0,
+   * //   2, 1 ]
+   * ```
+   */
+  setShear(shearX: number, shearY: number): Matrix2 {
+    return this.set(1, shearY, shearX, 1);
+  }
+
+  /**
+   * Adds by other matrix (mutates this)
+   * @param other other matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m1 = Matrix2.zero();
+   * const m2 = Matrix2.identity();
+   * m1.add(m2);
+   * console.log(m1.elements);
+   * // [ 1, 0,
+   * //   0, 1 ]
+   * ```
+   */
+  add(other: Matrix2): Matrix2 {
+    const {order} = this;
+    for (const index of range(order ** 2)) {
+      this.elements[index] += other.elements[index];
+    }
+    return this;
+  }
+
+  /**
+   * Subtracts by other matrix (mutates this)
+   * @param other other matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m1 = Matrix2.zero();
+   * const m2 = Matrix2.identity();
+   * m1.subtract(m2);
+   * console.log(m1.elements);
+   * // [ -1,  0,
+   * //    0, -1 ]
+   * ```
+   */
+  subtract(other: Matrix2): Matrix2 {
+    const {order} = this;
+    for (const index of range(order ** 2)) {
+      this.elements[index] -= other.elements[index];
+    }
+    return this;
+  }
+
+  /**
+   * Multiplies all elements by scalar (mutates this)
+   * @param scalar
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.identity();
+   * m.multiplyScalar(2);
+   * console.log(m.elements);
+   * // [ 2, 0,
+   * //   0, 2 ]
+   * ```
+   */
+  multiplyScalar(scalar: number): Matrix2 {
+    const {order} = this;
+    for (const index of range(order ** 2)) {
+      this.elements[index] *= scalar;
+    }
+    return this;
+  }
+
+  /**
+   * Divides all elements by scalar (mutates this)
+   * @param scalar
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix2.identity();
+   * m.divideScalar(2);
+   * console.log(m.elements);
+   * // [ 0.5,   0,
+   * //     0, 0.5 ]
+   * ```
+   */
+  divideScalar(scalar: number): Matrix2 {
+    const {order} = this;
+    for (const index of range(order ** 2)) {
+      this.elements[index] /= scalar;
+    }
+    return this;
+  }
+
+  /**
+   * Multiplies this matrix by other matrix (mutates this)
+   * @param other other matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m1 = new Matrix2(1, 2, 3, 4);
+   * const m2 = new Matrix2(5, 6, 7, 8);
+   * m1.multiply(m2);
+   * console.log(m1.elements);
+   * // [ 23, 34,
+   * //   31, 46 ]
+   * ```
+   */
+  multiply(other: Matrix2): Matrix2 {
+    const [a00, a01, a10, a11] = this.elements;
+    const [b00, b01, b10, b11] = other.elements;
+    this.elements[0] = b00 * a00 + b01 * a10;
+    this.elements[1] = b00 * a01 + b01 * a11;
+    this.elements[2] = b10 * a00 + b11 * a10;
+    this.elements[3] = b10 * a01 + b11 * a11;
+    return this;
+  }
+
+  /**
+   * Calculates determinant of this matrix (pure)
+   * @returns determinant of this matrix
+   */
+  determinant(): number {
+    const [a00, a01, a10, a11] = this.elements;
+    return a00 * a11 - a01 * a10;
+  }
+
+  /**
+   * Sets inverse of this matrix to this instance (mutates this)
+   * @returns `this` instance for method chaining if this is invertible, `null` otherwise
+   */
+  invert(): Matrix2 | null {
+    const determinant = this.determinant();
+    if (Math.abs(determinant) < EPSILON) {
+      return null;
+    }
+
+    const [a00, a01, a10, a11] = this.elements;
+    this.elements[0] = a11 / determinant;
+    this.elements[1] = -a01 / determinant;
+    this.elements[2] = -a10 / determinant;
+    this.elements[3] = a00 / determinant;
+    return this;
+  }
+
+  /**
+   * Transposes this matrix (mutates this)
+   * @returns this instance, for method chaining
+   */
+  transpose(): Matrix2 {
+    const [_e00, e01, e10, _e11] = this.elements;
+    this.elements[1] = e10;
+    this.elements[2] = e01;
+    return this;
+  }
+
+  /**
+   * Divides by other matrix (mutates this)
+   * @param other other matrix
+   * @returns `this` instance for method chaining if other is invertible, `null` otherwise
+   */
+  divide(other: Matrix2): Matrix2 | null {
+    const {tmpMatrix} = Matrix2;
+    tmpMatrix.copy(other);
+    if (!tmpMatrix.invert()) {
+      return null;
+    }
+    return this.multiply(tmpMatrix);
+  }
+}
+
+export {Matrix2};
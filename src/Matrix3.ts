@@ -2,8 +2,11 @@ import type { AdditiveGroup } from "./AdditiveGroup";
 import type { Clonable } from "./Clonable";
 import { range } from "./functions";
 import type { Matrix } from "./Matrix";
+import { Matrix4 } from "./Matrix4";
 import type { PartialMultiplicativeGroup } from "./PartialMultiplicativeGroup";
+import type { Quaternion } from "./Quaternion";
 import type { Scalable } from "./Scalable";
+import type { Vector2 } from "./Vector2";
 import { Vector3 } from "./Vector3";
 
 const EPSILON = 1.0e-8;
@@ -41,6 +44,14 @@ class Matrix3 implements Matrix<3>, AdditiveGroup<Matrix3>, PartialMultiplicativ
     return this._tmpMatrix;
   }
 
+  private static _tmpMatrix4?: Matrix4;
+  private static get tmpMatrix4(): Matrix4 {
+    if (!this._tmpMatrix4) {
+      this._tmpMatrix4 = Matrix4.identity();
+    }
+    return this._tmpMatrix4;
+  }
+
   private static _tmpVector?: Vector3;
   private static get tmpVector(): Vector3 {
     if (!this._tmpVector) {
@@ -234,6 +245,163 @@ class Matrix3 implements Matrix<3>, AdditiveGroup<Matrix3>, PartialMultiplicativ
     return this;
   }
 
+  /**
+   * Sets the upper-left 3x3 part of 4x4 matrix (mutates this)
+   * @param matrix 4x4 matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m4 = Matrix4.identity();
+   * m4.setTranslation(new Vector3(1, 2, 3));
+   * const m3 = Matrix3.zero();
+   * m3.setFromMatrix4(m4);
+   * console.log(m3.elements);
+   * // [ 1, 0, 0,
+   * //   0, 1, 0,
+   * //   0, 0, 1 ]
+   * ```
+   */
+  setFromMatrix4(matrix: Matrix4): Matrix3 {
+    const [e00, e01, e02, _e03, e10, e11, e12, _e13, e20, e21, e22] = matrix.elements;
+    return this.set(e00, e01, e02, e10, e11, e12, e20, e21, e22);
+  }
+
+  /**
+   * Sets rotation matrix from quaternion (mutates this)
+   * @param rotation rotation quaternion, need not be normalized
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix3.zero();
+   * const q = Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 2);
+   * m.setRotation(q);
+   * console.log(m.elements);
+   * // [  0, 1, 0,
+   * //   -1, 0, 0,
+   * //    0, 0, 1 ]
+   * ```
+   */
+  setRotation(rotation: Quaternion): Matrix3 {
+    return this.setFromMatrix4(Matrix3.tmpMatrix4.setRotation(rotation));
+  }
+
+  /**
+   * Sets normal matrix, the inverse transpose of the upper-left 3x3 part of 4x4 matrix (mutates this)
+   * 
+   * Transforms normals correctly even when matrix has non-uniform scale.
+   * @param matrix model or model-view matrix
+   * @returns `this` instance for method chaining if the upper-left 3x3 part is invertible, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const model = Matrix4.identity();
+   * model.setScale(new Vector3(2, 4, 8));
+   * const normalMatrix = Matrix3.identity();
+   * normalMatrix.setNormalMatrix(model);
+   * console.log(normalMatrix.elements);
+   * // [ 0.5,    0,     0,
+   * //     0, 0.25,     0,
+   * //     0,    0, 0.125 ]
+   * ```
+   */
+  setNormalMatrix(matrix: Matrix4): Matrix3 | null {
+    const [e00, e01, e02, _e03, e10, e11, e12, _e13, e20, e21, e22] = matrix.elements;
+
+    // the inverse transpose has columns (c1 × c2, c2 × c0, c0 × c1) / det for columns c0, c1, c2
+    const x00 = e11 * e22 - e12 * e21;
+    const x01 = e12 * e20 - e10 * e22;
+    const x02 = e10 * e21 - e11 * e20;
+    const x10 = e21 * e02 - e22 * e01;
+    const x11 = e22 * e00 - e20 * e02;
+    const x12 = e20 * e01 - e21 * e00;
+    const x20 = e01 * e12 - e02 * e11;
+    const x21 = e02 * e10 - e00 * e12;
+    const x22 = e00 * e11 - e01 * e10;
+    const determinant = e00 * x00 + e01 * x01 + e02 * x02;
+
+    // relative to the cube of the norm, so that a uniformly scaled matrix is invertible at any scale
+    const squaredNorm = e00 ** 2 + e01 ** 2 + e02 ** 2 + e10 ** 2 + e11 ** 2 + e12 ** 2 + e20 ** 2 + e21 ** 2 + e22 ** 2;
+    if (Math.abs(determinant) <= EPSILON * squaredNorm ** 1.5) {
+      return null;
+    }
+    return this.set(
+      x00 / determinant,
+      x01 / determinant,
+      x02 / determinant,
+      x10 / determinant,
+      x11 / determinant,
+      x12 / determinant,
+      x20 / determinant,
+      x21 / determinant,
+      x22 / determinant
+    );
+  }
+
+  /**
+   * Sets 2D translation transformation matrix (mutates this)
+   * 
+   * The result is an affine matrix in homogeneous coordinates, to be applied to `Vector2` as a point.
+   * @param translation 2D translation vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix3.identity();
+   * m.setTranslation2D(new Vector2(2, 3));
+   * console.log(m.elements);
+   * // [ 1, 0, 0,
+   * //   0, 1, 0,
+   * //   2, 3, 1 ]
+   * ```
+   */
+  setTranslation2D(translation: Vector2): Matrix3 {
+    const {x, y} = translation;
+    return this.set(1, 0, 0, 0, 1, 0, x, y, 1);
+  }
+
+  /**
+   * Sets 2D rotation transformation matrix (mutates this)
+   * @param radian angle in radians, measured counter-clockwise from the positive x-axis
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix3.identity();
+   * m.setRotation2D(Math.PI / 2);
+   * console.log(m.elements);
+   * // [  0, 1, 0,
+   * //   -1, 0, 0,
+   * //    0, 0, 1 ]
+   * ```
+   */
+  setRotation2D(radian: number): Matrix3 {
+    const cos = Math.cos(radian);
+    const sin = Math.sin(radian);
+    return this.set(cos, sin, 0, -sin, cos, 0, 0, 0, 1);
+  }
+
+  /**
+   * Sets 2D scale transformation matrix (mutates this)
+   * @param scale 2D scale vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix3.identity();
+   * m.setScale2D(new Vector2(2, 3));
+   * console.log(m.elements);
+   * // [ 2, 0, 0,
+   * //   0, 3, 0,
+   * //   0, 0, 1 ]
+   * ```
+   */
+  setScale2D(scale: Vector2): Matrix3 {
+    const {x, y} = scale;
+    return this.set(x, 0, 0, 0, y, 0, 0, 0, 1);
+  }
+
   /**
    * Adds by other matrix (mutates this)
    * @param other other matrix
@@ -359,6 +527,33 @@ class Matrix3 implements Matrix<3>, AdditiveGroup<Matrix3>, PartialMultiplicativ
     return this;
   }
 
+  /**
+   * Multiplies 2D scale matrix to this instance (mutates this)
+   * @param scale 2D scale vector
+   * @returns this instance, for method chaining
+   */
+  multiplyScale2D(scale: Vector2): Matrix3 {
+    return this.multiply(Matrix3.tmpMatrix.setScale2D(scale));
+  }
+
+  /**
+   * Multiplies 2D translation matrix to this instance (mutates this)
+   * @param translation 2D translation vector
+   * @returns this instance, for method chaining
+   */
+  multiplyTranslation2D(translation: Vector2): Matrix3 {
+    return this.multiply(Matrix3.tmpMatrix.setTranslation2D(translation));
+  }
+
+  /**
+   * Multiplies 2D rotation matrix to this instance (mutates this)
+   * @param radian angle in radians, measured counter-clockwise from the positive x-axis
+   * @returns this instance, for method chaining
+   */
+  multiplyRotation2D(radian: number): Matrix3 {
+    return this.multiply(Matrix3.tmpMatrix.setRotation2D(radian));
+  }
+
   /**
    * Calculates determinant of this matrix (pure)
    * @returns determinant of this matrix
@@ -1,4 +1,5 @@
 import type { Matrix } from "./Matrix";
+import type { Matrix3 } from "./Matrix3";
 import type { AdditiveGroup } from "./AdditiveGroup";
 import type { Scalable } from "./Scalable";
 import type { Clonable } from "./Clonable";
@@ -10,6 +11,28 @@ import { Vector4 } from "./Vector4";
 
 const EPSILON = 1.0e-8;
 const DEFAULT_DEPTH_ZERO_TO_ONE = false;
+const DEFAULT_REVERSED_Z = false;
+const DEFAULT_HANDEDNESS: Handedness = 'right';
+
+/**
+ * Handedness of the view space coordinate system.
+ * 
+ * - `'right'`: Right-handed, the camera looks toward **-Z** (OpenGL, WebGL, glTF).
+ * - `'left'`: Left-handed, the camera looks toward **+Z** (DirectX, Unity).
+ */
+type Handedness = 'right' | 'left';
+
+/**
+ * Options for generating a view matrix.
+ */
+type LookAtOptions = {
+  /**
+   * Determines the handedness of the view space.
+   * 
+   * @default 'right'
+   */
+  handedness?: Handedness;
+};
 
 /**
  * Options for generating a projection matrix.
@@ -26,6 +49,28 @@ type ProjectionOptions = {
    * @default false
    */
   depthZeroToOne?: boolean;
+
+  /**
+   * Determines whether the depth is mapped in reverse order.
+   * 
+   * - `false` (default): The near plane is mapped to the lower end of the NDC Z range and the far plane to **1**.
+   * - `true`: The near plane is mapped to **1** and the far plane to the lower end of the NDC Z range.
+   *   Combined with `depthZeroToOne` and a floating-point depth buffer, this distributes depth precision
+   *   far more evenly. Pass `Infinity` as `far` of perspective projection for the infinite reversed-Z form.
+   * 
+   * @default false
+   */
+  reversedZ?: boolean;
+
+  /**
+   * Determines the handedness of the view space that the projection is applied to.
+   * 
+   * - `'right'` (default): Objects in front of the camera have negative Z.
+   * - `'left'`: Objects in front of the camera have positive Z.
+   * 
+   * @default 'right'
+   */
+  handedness?: Handedness;
 };
 
 /**
@@ -297,6 +342,28 @@ class Matrix4 implements Matrix<4>, AdditiveGroup<Matrix4>, PartialMultiplicativ
     return this;
   }
 
+  /**
+   * Sets 3x3 matrix to the upper-left part, and identity to the rest (mutates this)
+   * @param matrix 3x3 matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m3 = new Matrix3(1, 2, 3, 4, 5, 6, 7, 8, 9);
+   * const m4 = Matrix4.zero();
+   * m4.setFromMatrix3(m3);
+   * console.log(m4.elements);
+   * // [ 1, 2, 3, 0,
+   * //   4, 5, 6, 0,
+   * //   7, 8, 9, 0,
+   * //   0, 0, 0, 1 ]
+   * ```
+   */
+  setFromMatrix3(matrix: Matrix3): Matrix4 {
+    const [e00, e01, e02, e10, e11, e12, e20, e21, e22] = matrix.elements;
+    return this.set(e00, e01, e02, 0, e10, e11, e12, 0, e20, e21, e22, 0, 0, 0, 0, 1);
+  }
+
   /**
    * Sets scale transformation matrix (mutates this)
    * @param scale 3D scale vector
@@ -384,15 +451,15 @@ class Matrix4 implements Matrix<4>, AdditiveGroup<Matrix4>, PartialMultiplicativ
     const cd = c * d;
     this.set(
       1 - s * (c2 + d2),
-      -s * (bc - ad),
-      -s * (bd + ac),
+      s * (bc + ad),
+      s * (bd - ac),
       0,
-      -s * (bc + ad),
+      s * (bc - ad),
       1 - s * (b2 + d2),
-      -s * (cd - ab),
+      s * (cd + ab),
       0,
-      -s * (bd - ac),
-      -s * (cd + ab),
+      s * (bd + ac),
+      s * (cd - ab),
       1 - s * (b2 + c2),
       0,
       0,
@@ -403,6 +470,88 @@ class Matrix4 implements Matrix<4>, AdditiveGroup<Matrix4>, PartialMultiplicativ
     return this;
   }
 
+  /**
+   * Sets transformation matrix of translation, rotation and scale without matrix multiplications (mutates this)
+   * 
+   * Gives the same result as `setIdentity().multiplyTranslation(position).multiplyRotation(rotation).multiplyScale(scale)`.
+   * @param position translation vector
+   * @param rotation rotation quaternion
+   * @param scale 3D scale vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const position = new Vector3(1, 2, 3);
+   * const rotation = Quaternion.identity();
+   * const scale = new Vector3(2, 2, 2);
+   * const m = Matrix4.identity();
+   * m.compose(position, rotation, scale);
+   * console.log(m.elements);
+   * // [ 2, 0, 0, 0,
+   * //   0, 2, 0, 0,
+   * //   0, 0, 2, 0,
+   * //   1, 2, 3, 1 ]
+   * ```
+   */
+  compose(position: Vector3, rotation: Quaternion, scale: Vector3): Matrix4 {
+    const {elements} = this.setRotation(rotation);
+    const {x: sx, y: sy, z: sz} = scale;
+    for (const row of range(3)) {
+      elements[row] *= sx;
+      elements[4 + row] *= sy;
+      elements[8 + row] *= sz;
+    }
+    elements[12] = position.x;
+    elements[13] = position.y;
+    elements[14] = position.z;
+    return this;
+  }
+
+  /**
+   * Decomposes this affine transformation matrix into translation, rotation and scale (mutates outPosition, outRotation, outScale)
+   * 
+   * When the matrix mirrors (negative determinant), the x scale is negated so that the rotation stays proper.
+   * @param outPosition vector instance to receive translation
+   * @param outRotation quaternion instance to receive rotation
+   * @param outScale vector instance to receive scale
+   * @returns {void}
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix4.identity();
+   * m.compose(new Vector3(1, 2, 3), Quaternion.identity(), new Vector3(-2, 2, 2));
+   * 
+   * const position = Vector3.zero();
+   * const rotation = Quaternion.identity();
+   * const scale = Vector3.zero();
+   * m.decompose(position, rotation, scale);
+   * console.log(position); // (1, 2, 3)
+   * console.log(rotation); // (1, 0, 0, 0)
+   * console.log(scale); // (-2, 2, 2)
+   * ```
+   */
+  decompose(outPosition: Vector3, outRotation: Quaternion, outScale: Vector3): void {
+    const [e00, e01, e02, _e03, e10, e11, e12, _e13, e20, e21, e22, _e23, e30, e31, e32] = this.elements;
+    const determinant =
+      e00 * (e11 * e22 - e12 * e21) -
+      e10 * (e01 * e22 - e02 * e21) +
+      e20 * (e01 * e12 - e02 * e11);
+    const sign = determinant < 0 ? -1 : 1;
+    const sx = sign * Math.sqrt(e00 ** 2 + e01 ** 2 + e02 ** 2);
+    const sy = Math.sqrt(e10 ** 2 + e11 ** 2 + e12 ** 2);
+    const sz = Math.sqrt(e20 ** 2 + e21 ** 2 + e22 ** 2);
+
+    outPosition.set(e30, e31, e32);
+    outScale.set(sx, sy, sz);
+
+    const {tmpMatrix} = Matrix4;
+    tmpMatrix.copy(this);
+    tmpMatrix.elements[0] *= sign;
+    tmpMatrix.elements[1] *= sign;
+    tmpMatrix.elements[2] *= sign;
+    outRotation.setFromMatrix4(tmpMatrix);
+  }
+
   /**
    * Adds by other matrix (mutates this)
    * @param other other matrix
@@ -675,11 +824,68 @@ class Matrix4 implements Matrix<4>, AdditiveGroup<Matrix4>, PartialMultiplicativ
     return this.multiply(tmpMatrix);
   }
 
+  /**
+   * Sets conversion matrix from Y-up to Z-up coordinate system (mutates this)
+   * 
+   * Rotates +90 degrees around the X axis, so that `(x, y, z)` maps to `(x, -z, y)`. Handedness is preserved.
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix4.identity();
+   * m.setYUpToZUp();
+   * const up = new Vector3(0, 1, 0);
+   * up.applyMatrix4(m);
+   * console.log(up); // (0, 0, 1)
+   * ```
+   */
+  setYUpToZUp(): Matrix4 {
+    return this.set(1, 0, 0, 0, 0, 0, 1, 0, 0, -1, 0, 0, 0, 0, 0, 1);
+  }
+
+  /**
+   * Sets conversion matrix from Z-up to Y-up coordinate system (mutates this)
+   * 
+   * Rotates -90 degrees around the X axis, so that `(x, y, z)` maps to `(x, z, -y)`. Handedness is preserved.
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix4.identity();
+   * m.setZUpToYUp();
+   * const up = new Vector3(0, 0, 1);
+   * up.applyMatrix4(m);
+   * console.log(up); // (0, 1, 0)
+   * ```
+   */
+  setZUpToYUp(): Matrix4 {
+    return this.set(1, 0, 0, 0, 0, 0, -1, 0, 0, 1, 0, 0, 0, 0, 0, 1);
+  }
+
+  /**
+   * Sets conversion matrix between right-handed and left-handed coordinate systems (mutates this)
+   * 
+   * Mirrors the Z axis, so that `(x, y, z)` maps to `(x, y, -z)`. The matrix is its own inverse,
+   * and a transform `M` is converted to the other convention by `C * M * C`.
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const c = Matrix4.identity().setHandednessConversion();
+   * const m = Matrix4.identity().setRotation(rotation);
+   * const converted = c.clone().multiply(m).multiply(c);
+   * ```
+   */
+  setHandednessConversion(): Matrix4 {
+    return this.set(1, 0, 0, 0, 0, 1, 0, 0, 0, 0, -1, 0, 0, 0, 0, 1);
+  }
+
   /**
    * Sets view transformation matrix (mutates this)
    * @param position camera position
    * @param target camera target looking at
    * @param up up vector of camera
+   * @param options options for view matrix
    * @returns this instance, for method chaining
    * 
    * @example
@@ -689,14 +895,19 @@ class Matrix4 implements Matrix<4>, AdditiveGroup<Matrix4>, PartialMultiplicativ
    * const t = Vector3.zero();
    * const u = new Vector3(0, 0, 1);
    * m.lookAt(p, t, u);
+   * 
+   * // for DirectX-style left-handed view space
+   * m.lookAt(p, t, u, {handedness: 'left'});
    * ```
    */
-  lookAt(position: Vector3, target: Vector3, up: Vector3): Matrix4 {
+  lookAt(position: Vector3, target: Vector3, up: Vector3, options?: LookAtOptions): Matrix4 {
     const {x: px, y: py, z: pz} = position;
     const {x: ux, y: uy, z: uz} = up;
-    let cx = position.x - target.x;
-    let cy = position.y - target.y;
-    let cz = position.z - target.z;
+    const handedness = options?.handedness ?? DEFAULT_HANDEDNESS;
+    const sign = handedness === 'left' ? -1 : 1;
+    let cx = sign * (position.x - target.x);
+    let cy = sign * (position.y - target.y);
+    let cz = sign * (position.z - target.z);
     const cLength = Math.sqrt(cx ** 2 + cy ** 2 + cz ** 2);
     if (cLength < EPSILON) {
       return this;
@@ -754,16 +965,18 @@ class Matrix4 implements Matrix<4>, AdditiveGroup<Matrix4>, PartialMultiplicativ
     far: number,
     options?: ProjectionOptions
   ): Matrix4 {
-    const depthZeroToOne = options?.depthZeroToOne ?? DEFAULT_DEPTH_ZERO_TO_ONE;
+    const depthNear = Matrix4.nearDepth(options);
+    const depthFar = Matrix4.farDepth(options);
 
     const width = right - left;
     const height = top - bottom;
     const depth = far - near;
-    const e10 = (depthZeroToOne ? -1 : -2) / depth;
+    const e10 = (depthNear - depthFar) / depth;
     const e12 = -(right + left) / width;
     const e13 = -(top + bottom) / height;
-    const e14 = (depthZeroToOne ? -near : -(far + near)) / depth;
+    const e14 = depthNear + e10 * near;
     this.set(2 / width, 0, 0, 0, 0, 2 / height, 0, 0, 0, 0, e10, 0, e12, e13, e14, 1);
+    this.setProjectionHandedness(options);
     return this;
   }
 
@@ -800,20 +1013,113 @@ class Matrix4 implements Matrix<4>, AdditiveGroup<Matrix4>, PartialMultiplicativ
   ): Matrix4 {
     const f = 1.0 / Math.tan(verticalFov / 2);
     this.set(f / aspect, 0, 0, 0, 0, f, 0, 0, 0, 0, 1, -1, 0, 0, 1, 0);
+    this.setPerspectiveDepth(near, far, options);
+    this.setProjectionHandedness(options);
+    return this;
+  }
+
+  /**
+   * Sets projection matrix of perspective camera from an arbitrary, possibly asymmetric, view frustum (mutates this)
+   * 
+   * The boundaries are measured on the near plane, which makes off-axis projections
+   * such as stereo eyes or tiled rendering possible.
+   * @param left left boundary of the view frustum on the near plane
+   * @param right right boundary of the view frustum on the near plane
+   * @param bottom bottom boundary of the view frustum on the near plane
+   * @param top top boundary of the view frustum on the near plane
+   * @param near near clipping plane distance (positive value)
+   * @param far far clipping plane distance (positive value or `Infinity`)
+   * @param options options for perspective projection matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix4.identity();
+   * const near = 0.1;
+   * 
+   * // off-axis frustum of the left eye
+   * m.frustum(-0.06, 0.04, -0.05, 0.05, near, 100);
+   * 
+   * // infinite reversed-Z for WebGPU
+   * m.frustum(-0.06, 0.04, -0.05, 0.05, near, Infinity, {depthZeroToOne: true, reversedZ: true});
+   * ```
+   */
+  frustum(
+    left: number,
+    right: number,
+    bottom: number,
+    top: number,
+    near: number,
+    far: number,
+    options?: ProjectionOptions
+  ): Matrix4 {
+    const width = right - left;
+    const height = top - bottom;
+    const e00 = 2 * near / width;
+    const e11 = 2 * near / height;
+    const e20 = (right + left) / width;
+    const e21 = (top + bottom) / height;
+    this.set(e00, 0, 0, 0, 0, e11, 0, 0, e20, e21, 1, -1, 0, 0, 1, 0);
+    this.setPerspectiveDepth(near, far, options);
+    this.setProjectionHandedness(options);
+    return this;
+  }
+
+  /**
+   * Sets depth mapping elements of perspective projection matrix
+   * 
+   * Solves `ndcZ = (e22 * z + e32) / -z` so that `z = -near` and `z = -far`
+   * are mapped to the ends of the NDC Z range chosen by options.
+   */
+  private setPerspectiveDepth(near: number, far: number, options?: ProjectionOptions): void {
+    const depthNear = Matrix4.nearDepth(options);
+    const depthFar = Matrix4.farDepth(options);
 
+    const e22 = far !== Infinity
+      ? (near * depthNear - far * depthFar) / (far - near)
+      : -depthFar;
+    this.elements[10] = e22;
+    this.elements[14] = near * (depthNear + e22);
+  }
+
+  /**
+   * Converts right-handed projection matrix for left-handed view space if required by options
+   * 
+   * Multiplying by `diag(1, 1, -1, 1)` from the right flips the sign of view space Z,
+   * which negates the third column.
+   */
+  private setProjectionHandedness(options?: ProjectionOptions): void {
+    const handedness = options?.handedness ?? DEFAULT_HANDEDNESS;
+    if (handedness === 'right') {
+      return;
+    }
+    for (const index of range(12, {start: 8})) {
+      this.elements[index] *= -1;
+    }
+  }
+
+  /**
+   * Gets NDC Z value that near clipping plane is mapped to
+   */
+  private static nearDepth(options?: ProjectionOptions): number {
     const depthZeroToOne = options?.depthZeroToOne ?? DEFAULT_DEPTH_ZERO_TO_ONE;
-    const coefficient = depthZeroToOne ? 1 : 2;
-
-    if (far !== Infinity) {
-      const numerator = depthZeroToOne ? far : (far + near);
-      this.elements[10] = -numerator / (far - near);
-      this.elements[14] = -coefficient * far * near / (far - near);
-    } else {
-      this.elements[10] = -1;
-      this.elements[14] = -coefficient * near;
+    const reversedZ = options?.reversedZ ?? DEFAULT_REVERSED_Z;
+    if (reversedZ) {
+      return 1;
     }
+    return depthZeroToOne ? 0 : -1;
+  }
 
-    return this;
+  /**
+   * Gets NDC Z value that far clipping plane is mapped to
+   */
+  private static farDepth(options?: ProjectionOptions): number {
+    const depthZeroToOne = options?.depthZeroToOne ?? DEFAULT_DEPTH_ZERO_TO_ONE;
+    const reversedZ = options?.reversedZ ?? DEFAULT_REVERSED_Z;
+    if (!reversedZ) {
+      return 1;
+    }
+    return depthZeroToOne ? 0 : -1;
   }
 
   /** @ignore */
@@ -832,5 +1138,5 @@ class Matrix4 implements Matrix<4>, AdditiveGroup<Matrix4>, PartialMultiplicativ
   }
 }
 
-export {Matrix4};
-export type {ProjectionOptions};
+export {Matrix4, DEFAULT_DEPTH_ZERO_TO_ONE, DEFAULT_REVERSED_Z};
+export type {Handedness, LookAtOptions, ProjectionOptions};
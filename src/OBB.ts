@@ -0,0 +1,559 @@
+import type { Box3 } from "./Box3";
+import type { Clonable } from "./Clonable";
+import type { Convex } from "./Convex";
+import { clamp, range } from "./functions";
+import { Matrix3 } from "./Matrix3";
+import type { Matrix4 } from "./Matrix4";
+import { Vector3 } from "./Vector3";
+
+const EPSILON = 1.0e-8;
+const MAX_JACOBI_SWEEPS = 32;
+
+/**
+ * Off-diagonal elements `(p, q)` zeroed in turn by each Jacobi sweep
+ */
+const JACOBI_PAIRS = [[0, 1], [0, 2], [1, 2]] as const;
+
+/**
+ * Oriented bounding box in 3D space.
+ * 
+ * The columns of `rotation` are the local x, y and z axes of the box in world space,
+ * and `halfExtents` holds the half size of the box along each of them.
+ * `rotation` is expected to be orthonormal; an OBB is an AABB when it is the identity matrix.
+ */
+class OBB implements Clonable<OBB>, Convex {
+  /**
+   * @example
+   * ```ts
+   * const b = new OBB(new Vector3(1, 2, 3), new Vector3(1, 1, 1), Matrix3.identity());
+   * console.log(b.center); // (1, 2, 3)
+   * ```
+   */
+  readonly center: Vector3;
+
+  /**
+   * @example
+   * ```ts
+   * const b = new OBB(Vector3.zero(), new Vector3(2, 1, 0.5), Matrix3.identity());
+   * console.log(b.halfExtents); // (2, 1, 0.5)
+   * ```
+   */
+  readonly halfExtents: Vector3;
+
+  /**
+   * @example
+   * ```ts
+   * const r = Matrix3.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 1, 0), Math.PI / 4));
+   * const b = new OBB(Vector3.zero(), Vector3.one(), r);
+   * ```
+   */
+  readonly rotation: Matrix3;
+
+  private static _tmpVector?: Vector3;
+  private static get tmpVector(): Vector3 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector3.zero();
+    }
+    return this._tmpVector;
+  }
+
+  private static _tmpOBB?: OBB;
+  private static get tmpOBB(): OBB {
+    if (!this._tmpOBB) {
+      this._tmpOBB = new OBB(Vector3.zero(), Vector3.zero(), Matrix3.identity());
+    }
+    return this._tmpOBB;
+  }
+
+  private static _tmpRelativeRotation?: Float64Array;
+  private static get tmpRelativeRotation(): Float64Array {
+    if (!this._tmpRelativeRotation) {
+      this._tmpRelativeRotation = new Float64Array(9);
+    }
+    return this._tmpRelativeRotation;
+  }
+
+  private static _tmpAbsRelativeRotation?: Float64Array;
+  private static get tmpAbsRelativeRotation(): Float64Array {
+    if (!this._tmpAbsRelativeRotation) {
+      this._tmpAbsRelativeRotation = new Float64Array(9);
+    }
+    return this._tmpAbsRelativeRotation;
+  }
+
+  private static _tmpCovariance?: Float64Array;
+  private static get tmpCovariance(): Float64Array {
+    if (!this._tmpCovariance) {
+      this._tmpCovariance = new Float64Array(9);
+    }
+    return this._tmpCovariance;
+  }
+
+  private static _tmpEigenvectors?: Float64Array;
+  private static get tmpEigenvectors(): Float64Array {
+    if (!this._tmpEigenvectors) {
+      this._tmpEigenvectors = new Float64Array(9);
+    }
+    return this._tmpEigenvectors;
+  }
+
+  /**
+   * Creates a new oriented box. The vectors and matrix are copied, not referenced.
+   * @param center center of the box
+   * @param halfExtents half size along each local axis
+   * @param rotation orthonormal matrix whose columns are the local axes
+   * 
+   * @example
+   * ```ts
+   * const b = new OBB(Vector3.zero(), new Vector3(2, 1, 1), Matrix3.identity());
+   * ```
+   */
+  constructor(center: Vector3, halfExtents: Vector3, rotation: Matrix3) {
+    this.center = center.clone();
+    this.halfExtents = halfExtents.clone();
+    this.rotation = rotation.clone();
+  }
+
+  /**
+   * Creates a new oriented box equal to axis-aligned box
+   * @param box axis-aligned box
+   * @returns new oriented box instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const aabb = new Box3(new Vector3(-1, -2, -3), new Vector3(1, 2, 3));
+   * const b = OBB.fromBox3(aabb);
+   * console.log(b.halfExtents); // (1, 2, 3)
+   * ```
+   */
+  static fromBox3(box: Box3): OBB {
+    const obb = new OBB(Vector3.zero(), Vector3.zero(), Matrix3.identity());
+    return obb.setFromBox3(box);
+  }
+
+  /**
+   * Creates a new oriented box fitted to positions by principal component analysis
+   * @param positions flat array of positions `[x0, y0, z0, x1, y1, z1, ...]`
+   * @returns new oriented box instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const b = OBB.fromPositions(mesh.positions);
+   * ```
+   */
+  static fromPositions(positions: Float32Array): OBB {
+    const obb = new OBB(Vector3.zero(), Vector3.zero(), Matrix3.identity());
+    return obb.setFromPositions(positions);
+  }
+
+  /**
+   * Creates new instance has same center, half extents and rotation (pure)
+   * @returns new cloned oriented box instance
+   */
+  clone(): OBB {
+    return new OBB(this.center, this.halfExtents, this.rotation);
+  }
+
+  /**
+   * Sets center, half extents and rotation (mutates this)
+   * @param center center of the box
+   * @param halfExtents half size along each local axis
+   * @param rotation orthonormal matrix whose columns are the local axes
+   * @returns this instance, for method chaining
+   */
+  set(center: Vector3, halfExtents: Vector3, rotation: Matrix3): OBB {
+    this.center.copy(center);
+    this.halfExtents.copy(halfExtents);
+    this.rotation.copy(rotation);
+    return this;
+  }
+
+  /**
+   * Copies center, half extents and rotation from other oriented box (mutates this)
+   * @param other other oriented box
+   * @returns this instance, for method chaining
+   */
+  copy(other: OBB): OBB {
+    return this.set(other.center, other.halfExtents, other.rotation);
+  }
+
+  /**
+   * Sets this oriented box equal to axis-aligned box (mutates this)
+   * 
+   * An empty box results in a box of zero size at the origin.
+   * @param box axis-aligned box
+   * @returns this instance, for method chaining
+   */
+  setFromBox3(box: Box3): OBB {
+    box.center(this.center);
+    box.size(this.halfExtents).multiplyScalar(0.5);
+    this.rotation.setIdentity();
+    return this;
+  }
+
+  /**
+   * Sets this oriented box fitted to positions by principal component analysis (mutates this)
+   * 
+   * The local axes are the eigenvectors of the covariance matrix of the positions,
+   * found by Jacobi eigenvalue algorithm, and the extents enclose all positions along them.
+   * The fit is tight for elongated shapes, but not the minimum volume box in general.
+   * Empty positions result in a box of zero size at the origin.
+   * @param positions flat array of positions `[x0, y0, z0, x1, y1, z1, ...]`
+   * @returns this instance, for method chaining
+   */
+  setFromPositions(positions: Float32Array): OBB {
+    const {center, halfExtents, rotation} = this;
+    const count = Math.floor(positions.length / 3);
+    if (count === 0) {
+      center.set(0, 0, 0);
+      halfExtents.set(0, 0, 0);
+      rotation.setIdentity();
+      return this;
+    }
+
+    let meanX = 0;
+    let meanY = 0;
+    let meanZ = 0;
+    for (const index of range(count * 3, {step: 3})) {
+      meanX += positions[index];
+      meanY += positions[index + 1];
+      meanZ += positions[index + 2];
+    }
+    meanX /= count;
+    meanY /= count;
+    meanZ /= count;
+
+    let cxx = 0;
+    let cxy = 0;
+    let cxz = 0;
+    let cyy = 0;
+    let cyz = 0;
+    let czz = 0;
+    for (const index of range(count * 3, {step: 3})) {
+      const x = positions[index] - meanX;
+      const y = positions[index + 1] - meanY;
+      const z = positions[index + 2] - meanZ;
+      cxx += x * x;
+      cxy += x * y;
+      cxz += x * z;
+      cyy += y * y;
+      cyz += y * z;
+      czz += z * z;
+    }
+    // scaling by 1 / count is omitted, since it does not change eigenvectors
+    const covariance = OBB.tmpCovariance;
+    covariance.set([cxx, cxy, cxz, cxy, cyy, cyz, cxz, cyz, czz]);
+
+    const eigenvectors = OBB.tmpEigenvectors;
+    OBB.jacobiEigenvectors(covariance, eigenvectors);
+
+    // columns of eigenvectors are the axes, the third one is recomputed to make a right-handed basis
+    const [ax, ay, az, bx, by, bz] = eigenvectors;
+    rotation.set(
+      ax, ay, az,
+      bx, by, bz,
+      ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx
+    );
+
+    const {elements} = rotation;
+    center.set(0, 0, 0);
+    for (const axis of range(3)) {
+      const ux = elements[axis * 3];
+      const uy = elements[axis * 3 + 1];
+      const uz = elements[axis * 3 + 2];
+      let min = Infinity;
+      let max = -Infinity;
+      for (const index of range(count * 3, {step: 3})) {
+        const projection = positions[index] * ux + positions[index + 1] * uy + positions[index + 2] * uz;
+        min = Math.min(min, projection);
+        max = Math.max(max, projection);
+      }
+      const middle = (min + max) / 2;
+      center.set(center.x + middle * ux, center.y + middle * uy, center.z + middle * uz);
+      halfExtents.elements[axis] = (max - min) / 2;
+    }
+    return this;
+  }
+
+  /**
+   * Checks whether point is inside or on the boundary of this oriented box (pure)
+   * @param point point
+   * @returns `true` if this oriented box contains point
+   */
+  containsPoint(point: Vector3): boolean {
+    const {center, halfExtents} = this;
+    const {elements} = this.rotation;
+    const dx = point.x - center.x;
+    const dy = point.y - center.y;
+    const dz = point.z - center.z;
+    for (const axis of range(3)) {
+      const distance = dx * elements[axis * 3] + dy * elements[axis * 3 + 1] + dz * elements[axis * 3 + 2];
+      if (Math.abs(distance) > halfExtents.elements[axis]) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Calculates the closest point in this oriented box to point (mutates out)
+   * @param point point
+   * @param out vector instance to receive the closest point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const b = new OBB(Vector3.zero(), Vector3.one(), Matrix3.identity());
+   * const closest = Vector3.zero();
+   * b.closestPointToPoint(new Vector3(3, 0.5, -4), closest);
+   * console.log(closest); // (1, 0.5, -1)
+   * ```
+   */
+  closestPointToPoint(point: Vector3, out: Vector3): Vector3 {
+    const {center, halfExtents} = this;
+    const {elements} = this.rotation;
+    const dx = point.x - center.x;
+    const dy = point.y - center.y;
+    const dz = point.z - center.z;
+    let x = center.x;
+    let y = center.y;
+    let z = center.z;
+    for (const axis of range(3)) {
+      const ux = elements[axis * 3];
+      const uy = elements[axis * 3 + 1];
+      const uz = elements[axis * 3 + 2];
+      const extent = halfExtents.elements[axis];
+      const distance = clamp(dx * ux + dy * uy + dz * uz, -extent, extent);
+      x += distance * ux;
+      y += distance * uy;
+      z += distance * uz;
+    }
+    return out.set(x, y, z);
+  }
+
+  /**
+   * Calculates squared distance from this oriented box to point (pure)
+   * @param point point
+   * @returns squared distance, `0` if point is inside
+   */
+  squaredDistanceToPoint(point: Vector3): number {
+    const {tmpVector} = OBB;
+    this.closestPointToPoint(point, tmpVector);
+    return tmpVector.subtract(point).dot(tmpVector);
+  }
+
+  /**
+   * Calculates distance from this oriented box to point (pure)
+   * @param point point
+   * @returns distance, `0` if point is inside
+   */
+  distanceToPoint(point: Vector3): number {
+    return Math.sqrt(this.squaredDistanceToPoint(point));
+  }
+
+  /**
+   * Checks whether this and other oriented box overlap or touch by the separating axis theorem (pure)
+   * 
+   * Tests the 3 face axes of each box and the 9 cross products of their axes.
+   * @param other other oriented box
+   * @returns `true` if the boxes intersect
+   * 
+   * @example
+   * ```ts
+   * const r = Matrix3.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 4));
+   * const b1 = new OBB(Vector3.zero(), Vector3.one(), Matrix3.identity());
+   * const b2 = new OBB(new Vector3(2.3, 0, 0), Vector3.one(), r);
+   * console.log(b1.intersectsOBB(b2)); // true, since the corner of b2 reaches x = 2.3 - √2
+   * ```
+   */
+  intersectsOBB(other: OBB): boolean {
+    const {tmpRelativeRotation: r, tmpAbsRelativeRotation: absR} = OBB;
+    const a = this.rotation.elements;
+    const b = other.rotation.elements;
+    const ea = this.halfExtents.elements;
+    const eb = other.halfExtents.elements;
+
+    // r[i * 3 + j] expresses axis j of other in the frame of this
+    for (const i of range(3)) {
+      for (const j of range(3)) {
+        const value = a[i * 3] * b[j * 3] + a[i * 3 + 1] * b[j * 3 + 1] + a[i * 3 + 2] * b[j * 3 + 2];
+        r[i * 3 + j] = value;
+
+        // the epsilon counters arithmetic errors when two axes are parallel and their cross product is near zero
+        absR[i * 3 + j] = Math.abs(value) + EPSILON;
+      }
+    }
+
+    // translation in the frame of this
+    const dx = other.center.x - this.center.x;
+    const dy = other.center.y - this.center.y;
+    const dz = other.center.z - this.center.z;
+    const t0 = dx * a[0] + dy * a[1] + dz * a[2];
+    const t1 = dx * a[3] + dy * a[4] + dz * a[5];
+    const t2 = dx * a[6] + dy * a[7] + dz * a[8];
+    const t = OBB.tmpVector.set(t0, t1, t2).elements;
+
+    // axes of this
+    for (const i of range(3)) {
+      const rb = eb[0] * absR[i * 3] + eb[1] * absR[i * 3 + 1] + eb[2] * absR[i * 3 + 2];
+      if (Math.abs(t[i]) > ea[i] + rb) {
+        return false;
+      }
+    }
+
+    // axes of other
+    for (const j of range(3)) {
+      const ra = ea[0] * absR[j] + ea[1] * absR[3 + j] + ea[2] * absR[6 + j];
+      const distance = t0 * r[j] + t1 * r[3 + j] + t2 * r[6 + j];
+      if (Math.abs(distance) > ra + eb[j]) {
+        return false;
+      }
+    }
+
+    // cross products of axis i of this and axis j of other
+    for (const i of range(3)) {
+      const i1 = (i + 1) % 3;
+      const i2 = (i + 2) % 3;
+      for (const j of range(3)) {
+        const j1 = (j + 1) % 3;
+        const j2 = (j + 2) % 3;
+        const ra = ea[i1] * absR[i2 * 3 + j] + ea[i2] * absR[i1 * 3 + j];
+        const rb = eb[j1] * absR[i * 3 + j2] + eb[j2] * absR[i * 3 + j1];
+        const distance = t[i2] * r[i1 * 3 + j] - t[i1] * r[i2 * 3 + j];
+        if (Math.abs(distance) > ra + rb) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Checks whether this oriented box and axis-aligned box overlap or touch by the separating axis theorem (pure)
+   * @param box axis-aligned box
+   * @returns `true` if the boxes intersect, always `false` for an empty box
+   */
+  intersectsBox(box: Box3): boolean {
+    if (box.isEmpty()) {
+      return false;
+    }
+    return this.intersectsOBB(OBB.tmpOBB.setFromBox3(box));
+  }
+
+  /**
+   * Transforms this oriented box by matrix (mutates this)
+   * 
+   * Each local axis scaled by its half extent is transformed, and split again into a unit axis and a half extent.
+   * The result is exact for rotation, translation and scale along the local axes;
+   * for other scales or shear, the axes are no longer orthogonal and the result only approximates.
+   * @param matrix affine transformation matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const b = new OBB(Vector3.zero(), Vector3.one(), Matrix3.identity());
+   * const m = Matrix4.identity().setTranslation(new Vector3(0, 5, 0));
+   * b.applyMatrix4(m);
+   * console.log(b.center); // (0, 5, 0)
+   * ```
+   */
+  applyMatrix4(matrix: Matrix4): OBB {
+    const {tmpVector} = OBB;
+    const {center, halfExtents} = this;
+    const {elements} = this.rotation;
+    center.applyMatrix4(matrix);
+    for (const axis of range(3)) {
+      const extent = halfExtents.elements[axis];
+      tmpVector.set(elements[axis * 3], elements[axis * 3 + 1], elements[axis * 3 + 2]);
+      tmpVector.applyMatrix4(matrix, {asDirection: true});
+      const scale = tmpVector.length();
+      if (scale < EPSILON) {
+        halfExtents.elements[axis] = 0;
+        continue;
+      }
+      tmpVector.divideScalar(scale);
+      elements[axis * 3] = tmpVector.x;
+      elements[axis * 3 + 1] = tmpVector.y;
+      elements[axis * 3 + 2] = tmpVector.z;
+      halfExtents.elements[axis] = extent * scale;
+    }
+    return this;
+  }
+
+  /**
+   * Calculates the farthest corner of this oriented box in direction (mutates out)
+   * 
+   * Used as the support function of {@link GJK}.
+   * @param direction search direction, need not be normalized
+   * @param out vector instance to receive the support point
+   * @returns out vector
+   */
+  support(direction: Vector3, out: Vector3): Vector3 {
+    const {center, halfExtents} = this;
+    const {elements} = this.rotation;
+    let x = center.x;
+    let y = center.y;
+    let z = center.z;
+    for (const axis of range(3)) {
+      const ux = elements[axis * 3];
+      const uy = elements[axis * 3 + 1];
+      const uz = elements[axis * 3 + 2];
+      const projection = direction.x * ux + direction.y * uy + direction.z * uz;
+      const extent = projection >= 0 ? halfExtents.elements[axis] : -halfExtents.elements[axis];
+      x += extent * ux;
+      y += extent * uy;
+      z += extent * uz;
+    }
+    return out.set(x, y, z);
+  }
+
+  /**
+   * Calculates eigenvectors of symmetric 3x3 matrix by cyclic Jacobi eigenvalue algorithm
+   * @param matrix symmetric matrix, destroyed in the process
+   * @param out receives eigenvectors as columns
+   */
+  private static jacobiEigenvectors(matrix: Float64Array, out: Float64Array): void {
+    out.set([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+    const scale = Math.abs(matrix[0]) + Math.abs(matrix[4]) + Math.abs(matrix[8]);
+    for (const _sweep of range(MAX_JACOBI_SWEEPS)) {
+      const offDiagonal = matrix[1] ** 2 + matrix[2] ** 2 + matrix[5] ** 2;
+      if (offDiagonal <= (EPSILON * scale) ** 2) {
+        return;
+      }
+      for (const [p, q] of JACOBI_PAIRS) {
+        const apq = matrix[p * 3 + q];
+        if (apq === 0) {
+          continue;
+        }
+
+        // rotation (c, s) which zeroes element (p, q)
+        const theta = (matrix[q * 3 + q] - matrix[p * 3 + p]) / (2 * apq);
+        const tangent = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta ** 2 + 1));
+        const c = 1 / Math.sqrt(tangent ** 2 + 1);
+        const s = tangent * c;
+        for (const k of range(3)) {
+          const akp = matrix[k * 3 + p];
+          const akq = matrix[k * 3 + q];
+          matrix[k * 3 + p] = c * akp - s * akq;
+          matrix[k * 3 + q] = s * akp + c * akq;
+        }
+        for (const k of range(3)) {
+          const apk = matrix[p * 3 + k];
+          const aqk = matrix[q * 3 + k];
+          matrix[p * 3 + k] = c * apk - s * aqk;
+          matrix[q * 3 + k] = s * apk + c * aqk;
+        }
+        for (const k of range(3)) {
+          const vkp = out[p * 3 + k];
+          const vkq = out[q * 3 + k];
+          out[p * 3 + k] = c * vkp - s * vkq;
+          out[q * 3 + k] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+}
+
+export {OBB};
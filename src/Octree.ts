@@ -0,0 +1,480 @@
+import { Box3 } from "./Box3";
+import { range } from "./functions";
+import { considerNearest } from "./SpatialIndex";
+import type { SpatialIndex } from "./SpatialIndex";
+import { Vector3 } from "./Vector3";
+
+const DEFAULT_MAX_ITEMS = 8;
+const DEFAULT_MAX_DEPTH = 8;
+
+/**
+ * Options for constructing an octree.
+ */
+type OctreeOptions = {
+  /**
+   * Number of items a leaf holds before it is split into eight children.
+   * 
+   * @default 8
+   */
+  maxItems?: number;
+
+  /**
+   * Depth below which leaves are never split, however many items they hold.
+   * 
+   * @default 8
+   */
+  maxDepth?: number;
+};
+
+/**
+ * Node of an octree, a leaf holding items or an internal node with eight children.
+ */
+class OctreeNode<T> {
+  readonly bounds: Box3;
+  readonly center: Vector3;
+  readonly depth: number;
+  readonly parent: OctreeNode<T> | null;
+
+  /** items of a leaf, empty for an internal node */
+  items: T[] = [];
+
+  /** children indexed by octant, `1` for the upper x half, `2` for y and `4` for z */
+  children: OctreeNode<T>[] | null = null;
+
+  /** number of items in this subtree */
+  count = 0;
+
+  constructor(bounds: Box3, depth: number, parent: OctreeNode<T> | null) {
+    this.bounds = bounds;
+    this.center = bounds.center(Vector3.zero());
+    this.depth = depth;
+    this.parent = parent;
+  }
+
+  octant(position: Vector3): number {
+    const {center} = this;
+    return (position.x >= center.x ? 1 : 0) | (position.y >= center.y ? 2 : 0) | (position.z >= center.z ? 4 : 0);
+  }
+}
+
+/**
+ * Entry of an item, `node` is `null` while the item lies outside the bounds of the octree.
+ */
+type OctreeEntry<T> = {
+  position: Vector3;
+  node: OctreeNode<T> | null;
+};
+
+/**
+ * Octree of items keyed by their positions, for broad-phase queries over moving points.
+ * 
+ * Leaves split into eight children when they hold too many items, and merge back when their parent holds few enough.
+ * Items are identified by reference, so an item can be in the octree at most once.
+ * Items outside the bounds are kept in a flat list, which every query scans.
+ */
+class Octree<T> implements SpatialIndex<T> {
+  /**
+   * @example
+   * ```ts
+   * const octree = new Octree<Agent>(new Box3(new Vector3(-100, -100, -100), new Vector3(100, 100, 100)));
+   * console.log(octree.bounds.max); // (100, 100, 100)
+   * ```
+   */
+  readonly bounds: Box3;
+
+  private readonly maxItems: number;
+  private readonly maxDepth: number;
+  private root: OctreeNode<T>;
+  private readonly entries = new Map<T, OctreeEntry<T>>();
+  private readonly outside: T[] = [];
+
+  /** squared distances of the items found so far by {@link Octree.queryNearest} */
+  private readonly nearestDistances: number[] = [];
+
+  /**
+   * Creates a new empty octree. The box is copied, not referenced.
+   * @param bounds region subdivided by the octree
+   * @param options options for subdivision
+   * 
+   * @example
+   * ```ts
+   * const world = new Box3(new Vector3(-100, -10, -100), new Vector3(100, 10, 100));
+   * const octree = new Octree<Agent>(world, {maxItems: 16});
+   * ```
+   */
+  constructor(bounds: Box3, options?: OctreeOptions) {
+    this.bounds = bounds.clone();
+    this.maxItems = Math.max(options?.maxItems ?? DEFAULT_MAX_ITEMS, 1);
+    this.maxDepth = Math.max(options?.maxDepth ?? DEFAULT_MAX_DEPTH, 0);
+    this.root = new OctreeNode(this.bounds.clone(), 0, null);
+  }
+
+  /**
+   * Gets the number of items.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Checks whether item is in this octree (pure)
+   * @param item item
+   * @returns `true` if item has been inserted and not removed
+   */
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  /**
+   * Inserts item at position, or moves it if already inserted (mutates this)
+   * @param item item
+   * @param position position of item, copied
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * for (const agent of agents) {
+   *   octree.insert(agent, agent.position);
+   * }
+   * ```
+   */
+  insert(item: T, position: Vector3): Octree<T> {
+    if (this.entries.has(item)) {
+      this.move(item, position);
+      return this;
+    }
+    const entry: OctreeEntry<T> = {position: position.clone(), node: null};
+    this.entries.set(item, entry);
+    this.place(item, entry);
+    return this;
+  }
+
+  /**
+   * Removes item (mutates this)
+   * @param item item
+   * @returns `true` if item was in this octree
+   */
+  remove(item: T): boolean {
+    const entry = this.entries.get(item);
+    if (!entry) {
+      return false;
+    }
+    this.unplace(item, entry);
+    this.entries.delete(item);
+    return true;
+  }
+
+  /**
+   * Moves item to position (mutates this)
+   * 
+   * Moving within the same leaf only updates the position, which is the common case for small steps.
+   * @param item item
+   * @param position new position of item, copied
+   * @returns `true` if item was in this octree
+   * 
+   * @example
+   * ```ts
+   * agent.position.add(velocity);
+   * octree.move(agent, agent.position);
+   * ```
+   */
+  move(item: T, position: Vector3): boolean {
+    const entry = this.entries.get(item);
+    if (!entry) {
+      return false;
+    }
+    if (entry.node && entry.node.bounds.containsPoint(position)) {
+      entry.position.copy(position);
+      return true;
+    }
+    this.unplace(item, entry);
+    entry.position.copy(position);
+    this.place(item, entry);
+    return true;
+  }
+
+  /**
+   * Removes all items (mutates this)
+   * @returns this instance, for method chaining
+   */
+  clear(): Octree<T> {
+    this.entries.clear();
+    this.outside.length = 0;
+    this.root = new OctreeNode(this.bounds.clone(), 0, null);
+    return this;
+  }
+
+  /**
+   * Collects the items within radius of center (mutates out)
+   * @param center center of the query sphere
+   * @param radius radius of the query sphere
+   * @param out array to receive the items, cleared first
+   * @returns out array
+   * 
+   * @example
+   * ```ts
+   * const neighbors: Agent[] = [];
+   * octree.queryRadius(agent.position, viewDistance, neighbors);
+   * ```
+   */
+  queryRadius(center: Vector3, radius: number, out: T[]): T[] {
+    out.length = 0;
+    if (radius < 0) {
+      return out;
+    }
+    const squaredRadius = radius ** 2;
+    this.collectInRadius(this.root, center, squaredRadius, out);
+    for (const item of this.outside) {
+      if (this.squaredDistanceToItem(item, center) <= squaredRadius) {
+        out.push(item);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Collects the items inside or on the surface of box (mutates out)
+   * @param box axis-aligned box
+   * @param out array to receive the items, cleared first
+   * @returns out array
+   */
+  queryBox(box: Box3, out: T[]): T[] {
+    out.length = 0;
+    if (box.isEmpty()) {
+      return out;
+    }
+    this.collectInBox(this.root, box, out);
+    for (const item of this.outside) {
+      if (box.containsPoint(this.entries.get(item)!.position)) {
+        out.push(item);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Collects the k items nearest to point, nearest first (mutates out)
+   * @param point query point
+   * @param k maximum number of items
+   * @param out array to receive the items, cleared first
+   * @returns out array, shorter than k if this octree has fewer items
+   * 
+   * @example
+   * ```ts
+   * const nearest: Agent[] = [];
+   * octree.queryNearest(target, 3, nearest);
+   * ```
+   */
+  queryNearest(point: Vector3, k: number, out: T[]): T[] {
+    out.length = 0;
+    this.nearestDistances.length = 0;
+    if (k <= 0) {
+      return out;
+    }
+    for (const item of this.outside) {
+      considerNearest(item, this.squaredDistanceToItem(item, point), k, out, this.nearestDistances);
+    }
+    this.searchNearest(this.root, point, k, out);
+    return out;
+  }
+
+  /**
+   * Adds item to the leaf containing its position, or to the outside list
+   */
+  private place(item: T, entry: OctreeEntry<T>): void {
+    const {position} = entry;
+    if (!this.root.bounds.containsPoint(position)) {
+      this.outside.push(item);
+      entry.node = null;
+      return;
+    }
+    let node = this.root;
+    node.count++;
+    while (node.children) {
+      node = node.children[node.octant(position)];
+      node.count++;
+    }
+    node.items.push(item);
+    entry.node = node;
+    if (node.items.length > this.maxItems && node.depth < this.maxDepth) {
+      this.split(node);
+    }
+  }
+
+  /**
+   * Removes item from its leaf or the outside list, merging leaves that became sparse
+   */
+  private unplace(item: T, entry: OctreeEntry<T>): void {
+    const {node} = entry;
+    if (!node) {
+      removeFromArray(this.outside, item);
+      return;
+    }
+    removeFromArray(node.items, item);
+    entry.node = null;
+
+    let merged: OctreeNode<T> | null = null;
+    for (let ancestor: OctreeNode<T> | null = node; ancestor; ancestor = ancestor.parent) {
+      ancestor.count--;
+      if (ancestor.children && ancestor.count <= this.maxItems) {
+        merged = ancestor;
+      }
+    }
+    if (merged) {
+      this.merge(merged);
+    }
+  }
+
+  /**
+   * Turns leaf into an internal node, distributing its items among eight new children
+   */
+  private split(node: OctreeNode<T>): void {
+    const {bounds, center, depth} = node;
+    const children: OctreeNode<T>[] = [];
+    for (const octant of range(8)) {
+      const min = new Vector3(
+        octant & 1 ? center.x : bounds.min.x,
+        octant & 2 ? center.y : bounds.min.y,
+        octant & 4 ? center.z : bounds.min.z
+      );
+      const max = new Vector3(
+        octant & 1 ? bounds.max.x : center.x,
+        octant & 2 ? bounds.max.y : center.y,
+        octant & 4 ? bounds.max.z : center.z
+      );
+      children.push(new OctreeNode(new Box3(min, max), depth + 1, node));
+    }
+    node.children = children;
+
+    const {items} = node;
+    node.items = [];
+    for (const item of items) {
+      const entry = this.entries.get(item)!;
+      const child = children[node.octant(entry.position)];
+      child.items.push(item);
+      child.count++;
+      entry.node = child;
+    }
+    for (const child of children) {
+      if (child.items.length > this.maxItems && child.depth < this.maxDepth) {
+        this.split(child);
+      }
+    }
+  }
+
+  /**
+   * Turns internal node into a leaf holding all items of its subtree
+   */
+  private merge(node: OctreeNode<T>): void {
+    const items: T[] = [];
+    this.collectAll(node, items);
+    node.children = null;
+    node.items = items;
+    for (const item of items) {
+      this.entries.get(item)!.node = node;
+    }
+  }
+
+  /**
+   * Appends all items in the subtree of node to out
+   */
+  private collectAll(node: OctreeNode<T>, out: T[]): void {
+    if (!node.children) {
+      out.push(...node.items);
+      return;
+    }
+    for (const child of node.children) {
+      this.collectAll(child, out);
+    }
+  }
+
+  /**
+   * Appends the items in the subtree of node within the query sphere to out
+   */
+  private collectInRadius(node: OctreeNode<T>, center: Vector3, squaredRadius: number, out: T[]): void {
+    if (node.count === 0 || node.bounds.squaredDistanceToPoint(center) > squaredRadius) {
+      return;
+    }
+    if (!node.children) {
+      for (const item of node.items) {
+        if (this.squaredDistanceToItem(item, center) <= squaredRadius) {
+          out.push(item);
+        }
+      }
+      return;
+    }
+    for (const child of node.children) {
+      this.collectInRadius(child, center, squaredRadius, out);
+    }
+  }
+
+  /**
+   * Appends the items in the subtree of node inside box to out
+   */
+  private collectInBox(node: OctreeNode<T>, box: Box3, out: T[]): void {
+    if (node.count === 0 || !node.bounds.intersectsBox(box)) {
+      return;
+    }
+    if (!node.children) {
+      for (const item of node.items) {
+        if (box.containsPoint(this.entries.get(item)!.position)) {
+          out.push(item);
+        }
+      }
+      return;
+    }
+    for (const child of node.children) {
+      this.collectInBox(child, box, out);
+    }
+  }
+
+  /**
+   * Considers the items in the subtree of node as nearest items,
+   * visiting the child containing point first and skipping subtrees farther than the k-th item found so far
+   */
+  private searchNearest(node: OctreeNode<T>, point: Vector3, k: number, out: T[]): void {
+    if (node.count === 0) {
+      return;
+    }
+    const {nearestDistances} = this;
+    if (nearestDistances.length === k && node.bounds.squaredDistanceToPoint(point) >= nearestDistances[k - 1]) {
+      return;
+    }
+    if (!node.children) {
+      for (const item of node.items) {
+        considerNearest(item, this.squaredDistanceToItem(item, point), k, out, this.nearestDistances);
+      }
+      return;
+    }
+    const first = node.octant(point);
+    this.searchNearest(node.children[first], point, k, out);
+    for (const octant of range(8)) {
+      if (octant !== first) {
+        this.searchNearest(node.children[octant], point, k, out);
+      }
+    }
+  }
+
+  /**
+   * Calculates squared distance from point to the position of item
+   */
+  private squaredDistanceToItem(item: T, point: Vector3): number {
+    const {position} = this.entries.get(item)!;
+    return (position.x - point.x) ** 2 + (position.y - point.y) ** 2 + (position.z - point.z) ** 2;
+  }
+}
+
+/**
+ * Removes item from array by swapping in the last element, ignoring the order
+ */
+const removeFromArray = <T>(array: T[], item: T): void => {
+  const index = array.indexOf(item);
+  if (index < 0) {
+    return;
+  }
+  array[index] = array[array.length - 1];
+  array.pop();
+};
+
+export {Octree};
+export type {OctreeOptions};
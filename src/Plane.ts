@@ -0,0 +1,331 @@
+import type { Clonable } from "./Clonable";
+import { Matrix3 } from "./Matrix3";
+import type { Matrix4 } from "./Matrix4";
+import { Vector3 } from "./Vector3";
+
+const EPSILON = 1.0e-8;
+
+/**
+ * Infinite plane of points `p` satisfying `normal · p + constant = 0`.
+ * 
+ * The normal is expected to have unit length, so that `constant` is the signed distance
+ * from the plane to the origin, measured along `normal`. Call {@link Plane.normalize} after setting raw coefficients.
+ */
+class Plane implements Clonable<Plane> {
+  /**
+   * @example
+   * ```ts
+   * const p = new Plane(new Vector3(0, 1, 0), -2);
+   * console.log(p.normal); // (0, 1, 0)
+   * ```
+   */
+  readonly normal: Vector3;
+
+  private _constant: number;
+
+  private static _tmpVector?: Vector3;
+  private static get tmpVector(): Vector3 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector3.zero();
+    }
+    return this._tmpVector;
+  }
+
+  private static _tmpMatrix3?: Matrix3;
+  private static get tmpMatrix3(): Matrix3 {
+    if (!this._tmpMatrix3) {
+      this._tmpMatrix3 = Matrix3.identity();
+    }
+    return this._tmpMatrix3;
+  }
+
+  /**
+   * Creates a new plane. The normal vector is copied, not referenced, and used as it is.
+   * @param normal normal of the plane, should be normalized
+   * @param constant signed distance from the plane to the origin, measured along normal
+   * 
+   * @example
+   * ```ts
+   * // the plane y = 2
+   * const p = new Plane(new Vector3(0, 1, 0), -2);
+   * ```
+   */
+  constructor(normal: Vector3, constant: number) {
+    this.normal = normal.clone();
+    this._constant = constant;
+  }
+
+  /**
+   * Gets signed distance from the plane to the origin, measured along normal.
+   */
+  get constant(): number {
+    return this._constant;
+  }
+
+  /**
+   * Sets signed distance from the plane to the origin, measured along normal.
+   */
+  set constant(value: number) {
+    this._constant = value;
+  }
+
+  /**
+   * Creates a new plane from normal and a point on the plane
+   * @param normal normal of the plane, need not be normalized
+   * @param point point on the plane
+   * @returns new plane instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const p = Plane.fromNormalAndPoint(new Vector3(0, 2, 0), new Vector3(5, 2, 5));
+   * console.log(p.normal); // (0, 1, 0)
+   * console.log(p.constant); // -2
+   * ```
+   */
+  static fromNormalAndPoint(normal: Vector3, point: Vector3): Plane {
+    const plane = new Plane(normal, 0);
+    return plane.setFromNormalAndPoint(normal, point);
+  }
+
+  /**
+   * Creates a new plane through three points
+   * 
+   * The normal faces the side from which `a`, `b`, `c` are seen counter-clockwise.
+   * @param a first point
+   * @param b second point
+   * @param c third point
+   * @returns new plane instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const a = new Vector3(0, 0, 1);
+   * const b = new Vector3(1, 0, 1);
+   * const c = new Vector3(0, 1, 1);
+   * const p = Plane.fromPoints(a, b, c);
+   * console.log(p.normal); // (0, 0, 1)
+   * console.log(p.constant); // -1
+   * ```
+   */
+  static fromPoints(a: Vector3, b: Vector3, c: Vector3): Plane {
+    const plane = new Plane(Vector3.zero(), 0);
+    return plane.setFromPoints(a, b, c);
+  }
+
+  /**
+   * Creates new instance has same normal and constant (pure)
+   * @returns new cloned plane instance
+   */
+  clone(): Plane {
+    return new Plane(this.normal, this.constant);
+  }
+
+  /**
+   * Sets normal and constant (mutates this)
+   * @param normal normal of the plane, should be normalized
+   * @param constant signed distance from the plane to the origin, measured along normal
+   * @returns this instance, for method chaining
+   */
+  set(normal: Vector3, constant: number): Plane {
+    this.normal.copy(normal);
+    this.constant = constant;
+    return this;
+  }
+
+  /**
+   * Copies normal and constant from other plane (mutates this)
+   * @param other other plane
+   * @returns this instance, for method chaining
+   */
+  copy(other: Plane): Plane {
+    return this.set(other.normal, other.constant);
+  }
+
+  /**
+   * Sets plane from normal and a point on the plane (mutates this)
+   * @param normal normal of the plane, need not be normalized
+   * @param point point on the plane
+   * @returns this instance, for method chaining
+   */
+  setFromNormalAndPoint(normal: Vector3, point: Vector3): Plane {
+    this.normal.copy(normal).normalize();
+    this.constant = -this.normal.dot(point);
+    return this;
+  }
+
+  /**
+   * Sets plane through three points (mutates this)
+   * 
+   * The normal faces the side from which `a`, `b`, `c` are seen counter-clockwise.
+   * If the points are collinear, the normal becomes zero.
+   * @param a first point
+   * @param b second point
+   * @param c third point
+   * @returns this instance, for method chaining
+   */
+  setFromPoints(a: Vector3, b: Vector3, c: Vector3): Plane {
+    const {tmpVector} = Plane;
+    tmpVector.copy(c).subtract(a);
+    this.normal.copy(b).subtract(a).cross(tmpVector).normalize();
+    this.constant = -this.normal.dot(a);
+    return this;
+  }
+
+  /**
+   * Normalizes normal to length 1 and scales constant accordingly (mutates this)
+   * 
+   * Use this after setting coefficients which are not normalized, e.g. planes extracted from a matrix.
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const p = new Plane(new Vector3(0, 2, 0), -4);
+   * p.normalize();
+   * console.log(p.normal); // (0, 1, 0)
+   * console.log(p.constant); // -2
+   * ```
+   */
+  normalize(): Plane {
+    const length = this.normal.length();
+    if (length <= 0) {
+      return this;
+    }
+    this.normal.divideScalar(length);
+    this.constant /= length;
+    return this;
+  }
+
+  /**
+   * Flips the side the normal faces (mutates this)
+   * @returns this instance, for method chaining
+   */
+  negate(): Plane {
+    this.normal.negate();
+    this.constant = -this.constant;
+    return this;
+  }
+
+  /**
+   * Calculates signed distance from this plane to point (pure)
+   * @param point point
+   * @returns positive value if point is on the side normal faces, negative value if on the other side
+   * 
+   * @example
+   * ```ts
+   * const p = new Plane(new Vector3(0, 1, 0), -2);
+   * console.log(p.signedDistanceToPoint(new Vector3(0, 5, 0))); // 3
+   * ```
+   */
+  signedDistanceToPoint(point: Vector3): number {
+    return this.normal.dot(point) + this.constant;
+  }
+
+  /**
+   * Projects point onto this plane (mutates out)
+   * @param point point to project
+   * @param out vector instance to receive the closest point on this plane
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const p = new Plane(new Vector3(0, 1, 0), -2);
+   * const out = Vector3.zero();
+   * p.projectPoint(new Vector3(1, 5, 3), out);
+   * console.log(out); // (1, 2, 3)
+   * ```
+   */
+  projectPoint(point: Vector3, out: Vector3): Vector3 {
+    const distance = this.signedDistanceToPoint(point);
+    const {x, y, z} = this.normal;
+    return out.set(point.x - distance * x, point.y - distance * y, point.z - distance * z);
+  }
+
+  /**
+   * Calculates intersection with line segment (mutates out)
+   * @param start start point of the segment
+   * @param end end point of the segment
+   * @param out vector instance to receive the intersection point
+   * @returns parameter in range [0, 1] along the segment if it crosses this plane, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const p = new Plane(new Vector3(0, 1, 0), -2);
+   * const out = Vector3.zero();
+   * const t = p.intersectSegment(new Vector3(0, 0, 0), new Vector3(0, 4, 0), out);
+   * console.log(t); // 0.5
+   * console.log(out); // (0, 2, 0)
+   * ```
+   */
+  intersectSegment(start: Vector3, end: Vector3, out?: Vector3): number | null {
+    const startDistance = this.signedDistanceToPoint(start);
+    const endDistance = this.signedDistanceToPoint(end);
+    const denominator = startDistance - endDistance;
+    if (Math.abs(denominator) < EPSILON) {
+      // parallel segment, only reported when it lies on the plane
+      if (Math.abs(startDistance) >= EPSILON) {
+        return null;
+      }
+      out?.copy(start);
+      return 0;
+    }
+
+    const t = startDistance / denominator;
+    if (t < 0 || t > 1) {
+      return null;
+    }
+
+    out?.set(
+      start.x + t * (end.x - start.x),
+      start.y + t * (end.y - start.y),
+      start.z + t * (end.z - start.z)
+    );
+    return t;
+  }
+
+  /**
+   * Checks whether line segment crosses or touches this plane (pure)
+   * @param start start point of the segment
+   * @param end end point of the segment
+   * @returns `true` if the end points are not strictly on the same side
+   */
+  intersectsSegment(start: Vector3, end: Vector3): boolean {
+    const startDistance = this.signedDistanceToPoint(start);
+    const endDistance = this.signedDistanceToPoint(end);
+    return startDistance * endDistance <= 0;
+  }
+
+  /**
+   * Transforms this plane by matrix (mutates this)
+   * 
+   * The normal is transformed by the normal matrix, so that non-uniform scale is handled correctly.
+   * @param matrix transformation matrix
+   * @param normalMatrix precomputed normal matrix of `matrix`, computed when omitted
+   * @returns `this` instance for method chaining if the upper-left 3x3 part of matrix is invertible, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const p = new Plane(new Vector3(0, 1, 0), 0);
+   * const m = Matrix4.identity().setTranslation(new Vector3(0, 3, 0));
+   * p.applyMatrix4(m);
+   * console.log(p.constant); // -3
+   * ```
+   */
+  applyMatrix4(matrix: Matrix4, normalMatrix?: Matrix3): Plane | null {
+    const {tmpVector, tmpMatrix3} = Plane;
+    if (normalMatrix) {
+      tmpMatrix3.copy(normalMatrix);
+    } else if (!tmpMatrix3.setNormalMatrix(matrix)) {
+      return null;
+    }
+
+    // a point on the plane is transformed as a point, the normal by the normal matrix
+    const {normal} = this;
+    tmpVector.copy(normal).multiplyScalar(-this.constant).applyMatrix4(matrix);
+    normal.applyMatrix3(tmpMatrix3).normalize();
+    this.constant = -normal.dot(tmpVector);
+    return this;
+  }
+}
+
+export {Plane};
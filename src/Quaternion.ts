@@ -2,18 +2,25 @@ import type { AdditiveGroup } from "./AdditiveGroup";
 import type { PartialMultiplicativeGroup } from "./PartialMultiplicativeGroup";
 import type { Scalable } from "./Scalable";
 import type { Clonable } from "./Clonable";
+import type { Interpolatable } from "./Interpolatable";
+import type { Matrix3 } from "./Matrix3";
+import type { Matrix4 } from "./Matrix4";
 import { Vector3 } from "./Vector3";
 
+const EPSILON = 1.0e-8;
+
 /**
  * Represents a quaternion using Hamilton's notation: q = a + bi + cj + dk
  */
-class Quaternion implements AdditiveGroup<Quaternion>, PartialMultiplicativeGroup<Quaternion>, Scalable<Quaternion>, Clonable<Quaternion> {
+class Quaternion implements AdditiveGroup<Quaternion>, PartialMultiplicativeGroup<Quaternion>, Scalable<Quaternion>, Interpolatable<Quaternion>, Clonable<Quaternion> {
   private _a: number;
   private _b: number;
   private _c: number;
   private _d: number;
 
   private static temporary = Quaternion.identity();
+  private static temporaryPrevious = Quaternion.identity();
+  private static temporaryNext = Quaternion.identity();
 
    /**
    * Constructor of quaternion: q = a + bi + cj + dk
@@ -125,6 +132,42 @@ class Quaternion implements AdditiveGroup<Quaternion>, PartialMultiplicativeGrou
     return quaternion;
   }
 
+  /**
+   * @param matrix rotation matrix, scale in its columns is ignored
+   * @returns new normalized quaternion instance representing the rotation of matrix
+   * 
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix3.identity();
+   * const q = Quaternion.fromMatrix3(m);
+   * console.log(q); // (1, 0, 0, 0)
+   * ```
+   */
+  static fromMatrix3(matrix: Matrix3): Quaternion {
+    const quaternion = Quaternion.identity();
+    return quaternion.setFromMatrix3(matrix);
+  }
+
+  /**
+   * @param matrix transformation matrix, only the upper-left 3x3 rotation part is used and scale in its columns is ignored
+   * @returns new normalized quaternion instance representing the rotation of matrix
+   * 
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix4.identity();
+   * m.lookAt(position, target, up);
+   * const q = Quaternion.fromMatrix4(m);
+   * ```
+   */
+  static fromMatrix4(matrix: Matrix4): Quaternion {
+    const quaternion = Quaternion.identity();
+    return quaternion.setFromMatrix4(matrix);
+  }
+
   /**
    * @returns new cloned quaternion instance
    * 
@@ -224,6 +267,44 @@ class Quaternion implements AdditiveGroup<Quaternion>, PartialMultiplicativeGrou
     this.set(Math.cos(angle / 2), x * sin, y * sin, z * sin);
   }
 
+  /**
+   * Sets this quaternion from rotation matrix (mutates this)
+   * @param matrix rotation matrix, scale in its columns is ignored
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = new Matrix3(0, 1, 0, -1, 0, 0, 0, 0, 1);
+   * const q = Quaternion.identity();
+   * q.setFromMatrix3(m);
+   * console.log(q); // (0.7071, 0, 0, 0.7071)
+   * ```
+   */
+  setFromMatrix3(matrix: Matrix3): Quaternion {
+    const [e00, e01, e02, e10, e11, e12, e20, e21, e22] = matrix.elements;
+    return this.setFromRotation(e00, e01, e02, e10, e11, e12, e20, e21, e22);
+  }
+
+  /**
+   * Sets this quaternion from the upper-left 3x3 rotation part of matrix (mutates this)
+   * @param matrix transformation matrix, scale in its columns is ignored
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const axis = new Vector3(0, 0, 1);
+   * const m = Matrix4.identity();
+   * m.setRotation(Quaternion.fromAxisAndAngle(axis, Math.PI / 2));
+   * const q = Quaternion.identity();
+   * q.setFromMatrix4(m);
+   * console.log(q); // (0.7071, 0, 0, 0.7071)
+   * ```
+   */
+  setFromMatrix4(matrix: Matrix4): Quaternion {
+    const [e00, e01, e02, _e03, e10, e11, e12, _e13, e20, e21, e22] = matrix.elements;
+    return this.setFromRotation(e00, e01, e02, e10, e11, e12, e20, e21, e22);
+  }
+
   /**
    * Calculates squared norm of this quaternion (pure)
    * @returns squared norm of this quaternion
@@ -253,6 +334,42 @@ class Quaternion implements AdditiveGroup<Quaternion>, PartialMultiplicativeGrou
     return Math.sqrt(this.squaredNorm());
   }
 
+  /**
+   * Normalizes this quaternion to norm 1 (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const q = new Quaternion(1, 2, 2, 4);
+   * q.normalize();
+   * console.log(q); // (0.2, 0.4, 0.4, 0.8)
+   * ```
+   */
+  normalize(): Quaternion {
+    const norm = this.norm();
+    if (norm <= 0) {
+      return this;
+    }
+    return this.divideScalar(norm);
+  }
+
+  /**
+   * Calculates the dot product of this and other quaternion as 4D vectors (pure)
+   * @param other other quaternion
+   * @returns the dot product of this and other
+   * 
+   * @example
+   * ```ts
+   * const q1 = new Quaternion(1, 2, 3, 4);
+   * const q2 = new Quaternion(5, 6, 7, 8);
+   * console.log(q1.dot(q2)); // 70
+   * ```
+   */
+  dot(other: Quaternion): number {
+    const {a, b, c, d} = this;
+    return a * other.a + b * other.b + c * other.c + d * other.d;
+  }
+
   /**
    * Calculates conjugate of this quaternion (mutates this)
    * @returns this instance, for method chaining
@@ -479,6 +596,313 @@ class Quaternion implements AdditiveGroup<Quaternion>, PartialMultiplicativeGrou
     temporary.setAxisAndAngle(new Vector3(0, 0, 1), radian);
     return this.multiply(temporary);
   }
+
+  /**
+   * Calculates natural logarithm of this quaternion (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const q = new Quaternion(Math.SQRT1_2, 0, 0, Math.SQRT1_2);
+   * q.log();
+   * console.log(q); // (0, 0, 0, 0.7854)
+   * ```
+   */
+  log(): Quaternion {
+    const {a, b, c, d} = this;
+    const vectorNorm = Math.sqrt(b ** 2 + c ** 2 + d ** 2);
+    const norm = Math.sqrt(a ** 2 + vectorNorm ** 2);
+    if (norm <= 0) {
+      return this;
+    }
+    const scalar = vectorNorm > 0 ? Math.atan2(vectorNorm, a) / vectorNorm : 0;
+    return this.set(Math.log(norm), b * scalar, c * scalar, d * scalar);
+  }
+
+  /**
+   * Calculates exponential of this quaternion (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const q = new Quaternion(0, 0, 0, Math.PI / 4);
+   * q.exp();
+   * console.log(q); // (0.7071, 0, 0, 0.7071)
+   * ```
+   */
+  exp(): Quaternion {
+    const {a, b, c, d} = this;
+    const vectorNorm = Math.sqrt(b ** 2 + c ** 2 + d ** 2);
+    const exp = Math.exp(a);
+    const scalar = vectorNorm > 0 ? exp * Math.sin(vectorNorm) / vectorNorm : 0;
+    return this.set(exp * Math.cos(vectorNorm), b * scalar, c * scalar, d * scalar);
+  }
+
+  /**
+   * Linearly interpolates this quaternion toward other quaternion component-wise (mutates this)
+   * @param other target quaternion
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const q1 = new Quaternion(1, 2, 3, 4);
+   * const q2 = new Quaternion(3, 4, 5, 6);
+   * q1.lerp(q2, 0.5);
+   * console.log(q1); // (2, 3, 4, 5)
+   * ```
+   */
+  lerp(other: Quaternion, t: number): Quaternion {
+    const {a, b, c, d} = this;
+    return this.set(
+      a + (other.a - a) * t,
+      b + (other.b - b) * t,
+      c + (other.c - c) * t,
+      d + (other.d - d) * t
+    );
+  }
+
+  /**
+   * Interpolates this rotation toward other rotation along the shortest path by normalized linear interpolation (mutates this)
+   * 
+   * Cheaper than `slerp`, but the angular velocity is not constant.
+   * @param other target rotation
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const q1 = Quaternion.identity();
+   * const q2 = new Quaternion(0, 0, 0, 1);
+   * q1.nlerp(q2, 0.5);
+   * console.log(q1); // (0.7071, 0, 0, 0.7071)
+   * ```
+   */
+  nlerp(other: Quaternion, t: number): Quaternion {
+    const sign = this.dot(other) < 0 ? -1 : 1;
+    const thisScalar = 1 - t;
+    const otherScalar = sign * t;
+    this.set(
+      this.a * thisScalar + other.a * otherScalar,
+      this.b * thisScalar + other.b * otherScalar,
+      this.c * thisScalar + other.c * otherScalar,
+      this.d * thisScalar + other.d * otherScalar
+    );
+    return this.normalize();
+  }
+
+  /**
+   * Interpolates this rotation toward other rotation along the shortest path by normalized linear interpolation (mutates out)
+   * @param a start rotation
+   * @param b end rotation
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out quaternion instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static nlerpTo(a: Quaternion, b: Quaternion, t: number, out: Quaternion): Quaternion {
+    out.copy(a);
+    return out.nlerp(b, t);
+  }
+
+  /**
+   * Spherically interpolates this rotation toward other rotation along the shortest path (mutates this)
+   * 
+   * Both quaternions are expected to be normalized. Falls back to `nlerp` when they are nearly parallel.
+   * @param other target rotation
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const q1 = Quaternion.identity();
+   * const q2 = new Quaternion(0, 0, 0, 1);
+   * q1.slerp(q2, 1 / 3);
+   * console.log(q1); // (0.8660, 0, 0, 0.5)
+   * ```
+   */
+  slerp(other: Quaternion, t: number): Quaternion {
+    return this.slerpPath(other, t, true);
+  }
+
+  /**
+   * Spherically interpolates between rotations a and b along the shortest path (mutates out)
+   * @param a start rotation
+   * @param b end rotation
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out quaternion instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static slerpTo(a: Quaternion, b: Quaternion, t: number, out: Quaternion): Quaternion {
+    out.copy(a);
+    return out.slerp(b, t);
+  }
+
+  /**
+   * Interpolates this rotation toward other rotation by spherical cubic interpolation (mutates this)
+   * 
+   * Control points are usually calculated by `Quaternion.squadControlPoint()`.
+   * @param other target rotation
+   * @param control control point of this rotation
+   * @param otherControl control point of other rotation
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const keys = [q0, q1, q2, q3];
+   * const s1 = Quaternion.identity();
+   * const s2 = Quaternion.identity();
+   * Quaternion.squadControlPoint(q0, q1, q2, s1);
+   * Quaternion.squadControlPoint(q1, q2, q3, s2);
+   * 
+   * // interpolates between q1 and q2
+   * const q = q1.clone().squad(q2, s1, s2, 0.5);
+   * ```
+   */
+  squad(other: Quaternion, control: Quaternion, otherControl: Quaternion, t: number): Quaternion {
+    const {temporaryNext} = Quaternion;
+    temporaryNext.copy(control).slerpPath(otherControl, t, false);
+    this.slerpPath(other, t, true);
+    return this.slerpPath(temporaryNext, 2 * t * (1 - t), false);
+  }
+
+  /**
+   * Interpolates between rotations a and b by spherical cubic interpolation (mutates out)
+   * @param a start rotation
+   * @param b end rotation
+   * @param controlA control point of a
+   * @param controlB control point of b
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out quaternion instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static squadTo(
+    a: Quaternion,
+    b: Quaternion,
+    controlA: Quaternion,
+    controlB: Quaternion,
+    t: number,
+    out: Quaternion
+  ): Quaternion {
+    out.copy(a);
+    return out.squad(b, controlA, controlB, t);
+  }
+
+  /**
+   * Calculates the squad control point of current rotation from its neighbors (mutates out)
+   * 
+   * Neighbors in the opposite hemisphere of current are flipped so that the curve follows the shortest path.
+   * @param previous previous key rotation
+   * @param current current key rotation
+   * @param next next key rotation
+   * @param out quaternion instance to receive control point
+   * @returns out instance, for method chaining
+   */
+  static squadControlPoint(previous: Quaternion, current: Quaternion, next: Quaternion, out: Quaternion): Quaternion {
+    const {temporary: inverse, temporaryPrevious, temporaryNext} = Quaternion;
+    inverse.copy(current);
+    if (!inverse.invert()) {
+      return out.copy(current);
+    }
+
+    temporaryPrevious.copy(inverse).multiply(previous);
+    if (current.dot(previous) < 0) {
+      temporaryPrevious.multiplyScalar(-1);
+    }
+
+    temporaryNext.copy(inverse).multiply(next);
+    if (current.dot(next) < 0) {
+      temporaryNext.multiplyScalar(-1);
+    }
+
+    temporaryNext.log().add(temporaryPrevious.log()).multiplyScalar(-0.25).exp();
+    return out.copy(current).multiply(temporaryNext);
+  }
+
+  private slerpPath(other: Quaternion, t: number, shortestPath: boolean): Quaternion {
+    let cos = this.dot(other);
+    let sign = 1;
+    if (shortestPath && cos < 0) {
+      cos = -cos;
+      sign = -1;
+    }
+
+    if (1 - cos < EPSILON) {
+      return this.nlerp(other, t);
+    }
+    if (1 + cos < EPSILON) {
+      // the long arc toward the opposite quaternion passes through any perpendicular quaternion
+      const {a, b, c, d} = this;
+      const thisScalar = Math.cos(t * Math.PI);
+      const perpendicularScalar = Math.sin(t * Math.PI);
+      return this.set(
+        a * thisScalar - b * perpendicularScalar,
+        b * thisScalar + a * perpendicularScalar,
+        c * thisScalar - d * perpendicularScalar,
+        d * thisScalar + c * perpendicularScalar
+      );
+    }
+
+    const angle = Math.acos(cos);
+    const sin = Math.sin(angle);
+    const thisScalar = Math.sin((1 - t) * angle) / sin;
+    const otherScalar = sign * Math.sin(t * angle) / sin;
+    return this.set(
+      this.a * thisScalar + other.a * otherScalar,
+      this.b * thisScalar + other.b * otherScalar,
+      this.c * thisScalar + other.c * otherScalar,
+      this.d * thisScalar + other.d * otherScalar
+    );
+  }
+
+  /**
+   * Sets rotation from 3x3 matrix elements `e(column)(row)` by Shepperd's method, \
+   * which picks the largest of the four quaternion components to divide by for numerical stability.
+   */
+  private setFromRotation(
+    e00: number,
+    e01: number,
+    e02: number,
+    e10: number,
+    e11: number,
+    e12: number,
+    e20: number,
+    e21: number,
+    e22: number
+  ): Quaternion {
+    const lengthX = Math.sqrt(e00 ** 2 + e01 ** 2 + e02 ** 2);
+    const lengthY = Math.sqrt(e10 ** 2 + e11 ** 2 + e12 ** 2);
+    const lengthZ = Math.sqrt(e20 ** 2 + e21 ** 2 + e22 ** 2);
+    if (lengthX < EPSILON || lengthY < EPSILON || lengthZ < EPSILON) {
+      return this.set(1, 0, 0, 0);
+    }
+
+    const m00 = e00 / lengthX;
+    const m01 = e01 / lengthX;
+    const m02 = e02 / lengthX;
+    const m10 = e10 / lengthY;
+    const m11 = e11 / lengthY;
+    const m12 = e12 / lengthY;
+    const m20 = e20 / lengthZ;
+    const m21 = e21 / lengthZ;
+    const m22 = e22 / lengthZ;
+
+    const trace = m00 + m11 + m22;
+    if (trace > 0) {
+      const s = 2 * Math.sqrt(trace + 1);
+      this.set(0.25 * s, (m12 - m21) / s, (m20 - m02) / s, (m01 - m10) / s);
+    } else if (m00 > m11 && m00 > m22) {
+      const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+      this.set((m12 - m21) / s, 0.25 * s, (m10 + m01) / s, (m20 + m02) / s);
+    } else if (m11 > m22) {
+      const s = 2 * Math.sqrt(1 + m11 - m00 - m22);
+      this.set((m20 - m02) / s, (m10 + m01) / s, 0.25 * s, (m21 + m12) / s);
+    } else {
+      const s = 2 * Math.sqrt(1 + m22 - m00 - m11);
+      this.set((m01 - m10) / s, (m20 + m02) / s, (m21 + m12) / s, 0.25 * s);
+    }
+    return this.normalize();
+  }
 }
 
 export {Quaternion};
@@ -0,0 +1,447 @@
+import type { Clonable } from "./Clonable";
+import type { Matrix4 } from "./Matrix4";
+import type { ProjectionOptions } from "./Matrix4";
+import type { Viewport } from "./types";
+import { Vector3 } from "./Vector3";
+
+const EPSILON = 1.0e-8;
+const DEFAULT_CULL_BACKFACE = false;
+
+/**
+ * Options for intersecting a ray with a triangle.
+ */
+type RayTriangleOptions = {
+  /**
+   * Determines whether triangles facing away from the ray are ignored.
+   * 
+   * - `true`: Only hits on the front face (counter-clockwise seen from the ray origin) are reported.
+   * - `false` (default): Hits on both faces are reported.
+   * 
+   * @default false
+   */
+  cullBackface?: boolean;
+};
+
+/**
+ * Half-line starting at `origin` and extending along `direction`.
+ * 
+ * Points on the ray are `origin + t * direction` for `t >= 0`.
+ * The intersection methods return this `t`, which is the distance from the origin when the direction is normalized.
+ */
+class Ray implements Clonable<Ray> {
+  /**
+   * @example
+   * ```ts
+   * const r = new Ray(new Vector3(1, 2, 3), new Vector3(0, 0, -1));
+   * console.log(r.origin); // (1, 2, 3)
+   * ```
+   */
+  readonly origin: Vector3;
+
+  /**
+   * @example
+   * ```ts
+   * const r = new Ray(new Vector3(1, 2, 3), new Vector3(0, 0, -1));
+   * console.log(r.direction); // (0, 0, -1)
+   * ```
+   */
+  readonly direction: Vector3;
+
+  /**
+   * Creates a new ray. The vectors are copied, not referenced.
+   * @param origin start point of the ray
+   * @param direction direction of the ray, normalized in most cases
+   * 
+   * @example
+   * ```ts
+   * const r = new Ray(Vector3.zero(), new Vector3(0, 0, -1));
+   * ```
+   */
+  constructor(origin: Vector3, direction: Vector3) {
+    this.origin = origin.clone();
+    this.direction = direction.clone();
+  }
+
+  /**
+   * Creates a new ray at the origin pointing toward negative z-axis
+   * @returns new ray instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const r = Ray.zero();
+   * console.log(r.origin); // (0, 0, 0)
+   * console.log(r.direction); // (0, 0, -1)
+   * ```
+   */
+  static zero(): Ray {
+    return new Ray(Vector3.zero(), new Vector3(0, 0, -1));
+  }
+
+  /**
+   * Creates new instance has same origin and direction (pure)
+   * @returns new cloned ray instance
+   */
+  clone(): Ray {
+    return new Ray(this.origin, this.direction);
+  }
+
+  /**
+   * Sets origin and direction (mutates this)
+   * @param origin start point of the ray
+   * @param direction direction of the ray
+   * @returns this instance, for method chaining
+   */
+  set(origin: Vector3, direction: Vector3): Ray {
+    this.origin.copy(origin);
+    this.direction.copy(direction);
+    return this;
+  }
+
+  /**
+   * Copies origin and direction from other ray (mutates this)
+   * @param other other ray
+   * @returns this instance, for method chaining
+   */
+  copy(other: Ray): Ray {
+    return this.set(other.origin, other.direction);
+  }
+
+  /**
+   * Sets picking ray in world space through screen coordinate (mutates this)
+   * 
+   * See {@link Vector3.pickingRay} for the coordinate conventions.
+   * @param screenX x coordinate in pixels (e.g. `MouseEvent.offsetX`)
+   * @param screenY y coordinate in pixels (e.g. `MouseEvent.offsetY`)
+   * @param view view matrix
+   * @param projection projection matrix
+   * @param viewport viewport rectangle in pixels
+   * @param options options the projection matrix was generated with
+   * @returns `this` instance for method chaining if `projection * view` is invertible, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const viewport = {x: 0, y: 0, width: canvas.width, height: canvas.height};
+   * const ray = Ray.zero();
+   * ray.setFromScreen(event.offsetX, event.offsetY, view, projection, viewport);
+   * ```
+   */
+  setFromScreen(
+    screenX: number,
+    screenY: number,
+    view: Matrix4,
+    projection: Matrix4,
+    viewport: Viewport,
+    options?: ProjectionOptions
+  ): Ray | null {
+    const {origin, direction} = this;
+    if (!Vector3.pickingRay(screenX, screenY, view, projection, viewport, origin, direction, options)) {
+      return null;
+    }
+    return this;
+  }
+
+  /**
+   * Calculates the point at parameter `t` on this ray (mutates out)
+   * @param t parameter along the ray
+   * @param out vector instance to receive the point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const r = new Ray(new Vector3(1, 0, 0), new Vector3(0, 0, -1));
+   * const p = Vector3.zero();
+   * r.at(2, p);
+   * console.log(p); // (1, 0, -2)
+   * ```
+   */
+  at(t: number, out: Vector3): Vector3 {
+    const {origin, direction} = this;
+    return out.set(
+      origin.x + t * direction.x,
+      origin.y + t * direction.y,
+      origin.z + t * direction.z
+    );
+  }
+
+  /**
+   * Transforms this ray by matrix, and normalizes direction (mutates this)
+   * 
+   * Use the inverse of a model matrix to bring a world space ray into object space.
+   * Because direction is normalized, distances are measured in the transformed space.
+   * @param matrix transformation matrix
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const inverseModel = model.clone().invert();
+   * if (inverseModel) {
+   *   const localRay = worldRay.clone().applyMatrix4(inverseModel);
+   * }
+   * ```
+   */
+  applyMatrix4(matrix: Matrix4): Ray {
+    this.origin.applyMatrix4(matrix);
+    this.direction.applyMatrix4(matrix, {asDirection: true}).normalize();
+    return this;
+  }
+
+  /**
+   * Calculates intersection with sphere (mutates outPoint, outNormal)
+   * 
+   * If the origin is inside the sphere, the exit point is reported.
+   * @param center center of the sphere
+   * @param radius radius of the sphere
+   * @param outPoint vector instance to receive the hit point
+   * @param outNormal vector instance to receive the unit surface normal at the hit point
+   * @returns ray parameter `t` of the hit if the ray hits, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const r = new Ray(new Vector3(0, 0, 5), new Vector3(0, 0, -1));
+   * const t = r.intersectSphere(Vector3.zero(), 1);
+   * console.log(t); // 4
+   * ```
+   */
+  intersectSphere(center: Vector3, radius: number, outPoint?: Vector3, outNormal?: Vector3): number | null {
+    const {origin, direction} = this;
+    const ox = origin.x - center.x;
+    const oy = origin.y - center.y;
+    const oz = origin.z - center.z;
+    const {x: dx, y: dy, z: dz} = direction;
+
+    // solves a * t^2 + 2 * b * t + c = 0
+    const a = dx ** 2 + dy ** 2 + dz ** 2;
+    if (a < EPSILON) {
+      return null;
+    }
+    const b = ox * dx + oy * dy + oz * dz;
+    const c = ox ** 2 + oy ** 2 + oz ** 2 - radius ** 2;
+    const discriminant = b ** 2 - a * c;
+    if (discriminant < 0) {
+      return null;
+    }
+
+    const root = Math.sqrt(discriminant);
+    const near = (-b - root) / a;
+    const far = (-b + root) / a;
+    const t = near >= 0 ? near : far;
+    if (t < 0) {
+      return null;
+    }
+
+    if (outPoint) {
+      this.at(t, outPoint);
+    }
+    if (outNormal) {
+      outNormal.set(ox + t * dx, oy + t * dy, oz + t * dz).normalize();
+    }
+    return t;
+  }
+
+  /**
+   * Calculates intersection with plane `normal · p + constant = 0` (mutates outPoint, outNormal)
+   * @param normal normal of the plane
+   * @param constant signed distance from the origin to the plane along `-normal`, when normal is normalized
+   * @param outPoint vector instance to receive the hit point
+   * @param outNormal vector instance to receive the unit plane normal
+   * @returns ray parameter `t` of the hit if the ray hits, `null` if the ray is parallel or points away
+   * 
+   * @example
+   * ```ts
+   * const r = new Ray(new Vector3(0, 5, 0), new Vector3(0, -1, 0));
+   * const t = r.intersectPlane(new Vector3(0, 1, 0), 0);
+   * console.log(t); // 5
+   * ```
+   */
+  intersectPlane(normal: Vector3, constant: number, outPoint?: Vector3, outNormal?: Vector3): number | null {
+    const {origin, direction} = this;
+    const denominator = normal.dot(direction);
+    if (Math.abs(denominator) < EPSILON) {
+      return null;
+    }
+
+    const t = -(normal.dot(origin) + constant) / denominator;
+    if (t < 0) {
+      return null;
+    }
+
+    if (outPoint) {
+      this.at(t, outPoint);
+    }
+    if (outNormal) {
+      outNormal.copy(normal).normalize();
+    }
+    return t;
+  }
+
+  /**
+   * Calculates intersection with axis-aligned box by the slab method (mutates outPoint, outNormal)
+   * 
+   * If the origin is inside the box, the exit point is reported. A ray with zero direction never hits.
+   * @param min minimum corner of the box
+   * @param max maximum corner of the box
+   * @param outPoint vector instance to receive the hit point
+   * @param outNormal vector instance to receive the outward unit normal of the face hit
+   * @returns ray parameter `t` of the hit if the ray hits, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const r = new Ray(new Vector3(0, 0, 5), new Vector3(0, 0, -1));
+   * const t = r.intersectBox(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+   * console.log(t); // 4
+   * ```
+   */
+  intersectBox(min: Vector3, max: Vector3, outPoint?: Vector3, outNormal?: Vector3): number | null {
+    const {origin, direction} = this;
+    let tEnter = -Infinity;
+    let tExit = Infinity;
+    let enterAxis = -1;
+    let exitAxis = -1;
+
+    for (let axis = 0; axis < 3; axis++) {
+      const o = origin.elements[axis];
+      const d = direction.elements[axis];
+      const lower = min.elements[axis];
+      const upper = max.elements[axis];
+
+      if (Math.abs(d) < EPSILON) {
+        if (o < lower || o > upper) {
+          return null;
+        }
+        continue;
+      }
+
+      const t1 = (lower - o) / d;
+      const t2 = (upper - o) / d;
+      const tNear = Math.min(t1, t2);
+      const tFar = Math.max(t1, t2);
+      if (tNear > tEnter) {
+        tEnter = tNear;
+        enterAxis = axis;
+      }
+      if (tFar < tExit) {
+        tExit = tFar;
+        exitAxis = axis;
+      }
+      if (tEnter > tExit) {
+        return null;
+      }
+    }
+
+    // no slab bounded the ray, as the direction is zero
+    if (exitAxis < 0 || tExit < 0) {
+      return null;
+    }
+
+    const inside = tEnter < 0;
+    const t = inside ? tExit : tEnter;
+    const axis = inside ? exitAxis : enterAxis;
+
+    if (outPoint) {
+      this.at(t, outPoint);
+    }
+    if (outNormal) {
+      outNormal.set(0, 0, 0);
+      if (axis >= 0) {
+        // entering faces oppose the direction, exiting faces follow it
+        const sign = Math.sign(direction.elements[axis]);
+        outNormal.elements[axis] = inside ? sign : -sign;
+      }
+    }
+    return t;
+  }
+
+  /**
+   * Calculates intersection with triangle by Möller–Trumbore algorithm (mutates outPoint, outNormal)
+   * @param a first vertex of the triangle
+   * @param b second vertex of the triangle
+   * @param c third vertex of the triangle
+   * @param outPoint vector instance to receive the hit point
+   * @param outNormal vector instance to receive the unit normal of the front face, `(b - a) × (c - a)`
+   * @param options options for triangle intersection
+   * @returns ray parameter `t` of the hit if the ray hits, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const r = new Ray(new Vector3(0.2, 0.2, 5), new Vector3(0, 0, -1));
+   * const a = new Vector3(0, 0, 0);
+   * const b = new Vector3(1, 0, 0);
+   * const c = new Vector3(0, 1, 0);
+   * const t = r.intersectTriangle(a, b, c);
+   * console.log(t); // 5
+   * ```
+   */
+  intersectTriangle(
+    a: Vector3,
+    b: Vector3,
+    c: Vector3,
+    outPoint?: Vector3,
+    outNormal?: Vector3,
+    options?: RayTriangleOptions
+  ): number | null {
+    const cullBackface = options?.cullBackface ?? DEFAULT_CULL_BACKFACE;
+    const {origin, direction} = this;
+    const {x: dx, y: dy, z: dz} = direction;
+
+    const e1x = b.x - a.x;
+    const e1y = b.y - a.y;
+    const e1z = b.z - a.z;
+    const e2x = c.x - a.x;
+    const e2y = c.y - a.y;
+    const e2z = c.z - a.z;
+
+    // p = direction × edge2
+    const px = dy * e2z - dz * e2y;
+    const py = dz * e2x - dx * e2z;
+    const pz = dx * e2y - dy * e2x;
+    const determinant = e1x * px + e1y * py + e1z * pz;
+
+    // the determinant scales with both edges and the direction, so the parallel test is relative to them
+    const tolerance = EPSILON * Math.sqrt(
+      (e1x ** 2 + e1y ** 2 + e1z ** 2) * (e2x ** 2 + e2y ** 2 + e2z ** 2) * (dx ** 2 + dy ** 2 + dz ** 2)
+    );
+
+    // positive determinant means the ray hits the front face
+    if (cullBackface ? determinant <= tolerance : Math.abs(determinant) <= tolerance) {
+      return null;
+    }
+
+    const sx = origin.x - a.x;
+    const sy = origin.y - a.y;
+    const sz = origin.z - a.z;
+    const u = (sx * px + sy * py + sz * pz) / determinant;
+    if (u < 0 || u > 1) {
+      return null;
+    }
+
+    // q = s × edge1
+    const qx = sy * e1z - sz * e1y;
+    const qy = sz * e1x - sx * e1z;
+    const qz = sx * e1y - sy * e1x;
+    const v = (dx * qx + dy * qy + dz * qz) / determinant;
+    if (v < 0 || u + v > 1) {
+      return null;
+    }
+
+    const t = (e2x * qx + e2y * qy + e2z * qz) / determinant;
+    if (t < 0) {
+      return null;
+    }
+
+    if (outPoint) {
+      this.at(t, outPoint);
+    }
+    if (outNormal) {
+      outNormal.set(
+        e1y * e2z - e1z * e2y,
+        e1z * e2x - e1x * e2z,
+        e1x * e2y - e1y * e2x
+      ).normalize();
+    }
+    return t;
+  }
+}
+
+export {Ray};
+export type {RayTriangleOptions};
@@ -0,0 +1,296 @@
+import type { Clonable } from "./Clonable";
+import { clamp } from "./functions";
+import { Vector2 } from "./Vector2";
+
+const EPSILON = 1.0e-8;
+
+/**
+ * Line segment in 2D space from `start` to `end`.
+ * 
+ * Points on the segment are `start + t * (end - start)` for `t` in range [0, 1].
+ * The closest point queries between two segments receive both parameters in a `Vector2`,
+ * `x` for this segment and `y` for the other one.
+ */
+class Segment2 implements Clonable<Segment2> {
+  /**
+   * @example
+   * ```ts
+   * const s = new Segment2(new Vector2(1, 2), new Vector2(3, 4));
+   * console.log(s.start); // (1, 2)
+   * ```
+   */
+  readonly start: Vector2;
+
+  /**
+   * @example
+   * ```ts
+   * const s = new Segment2(new Vector2(1, 2), new Vector2(3, 4));
+   * console.log(s.end); // (3, 4)
+   * ```
+   */
+  readonly end: Vector2;
+
+  private static _tmpVector?: Vector2;
+  private static get tmpVector(): Vector2 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector2.zero();
+    }
+    return this._tmpVector;
+  }
+
+  /**
+   * Creates a new segment. The vectors are copied, not referenced.
+   * @param start start point
+   * @param end end point
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment2(new Vector2(0, 0), new Vector2(0, 1));
+   * ```
+   */
+  constructor(start: Vector2, end: Vector2) {
+    this.start = start.clone();
+    this.end = end.clone();
+  }
+
+  /**
+   * Creates new instance has same end points (pure)
+   * @returns new cloned segment instance
+   */
+  clone(): Segment2 {
+    return new Segment2(this.start, this.end);
+  }
+
+  /**
+   * Sets end points (mutates this)
+   * @param start start point
+   * @param end end point
+   * @returns this instance, for method chaining
+   */
+  set(start: Vector2, end: Vector2): Segment2 {
+    this.start.copy(start);
+    this.end.copy(end);
+    return this;
+  }
+
+  /**
+   * Copies end points from other segment (mutates this)
+   * @param other other segment
+   * @returns this instance, for method chaining
+   */
+  copy(other: Segment2): Segment2 {
+    return this.set(other.start, other.end);
+  }
+
+  /**
+   * Calculates length of this segment (pure)
+   * @returns length
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment2(new Vector2(0, 0), new Vector2(3, 4));
+   * console.log(s.length()); // 5
+   * ```
+   */
+  length(): number {
+    return Segment2.tmpVector.copy(this.end).subtract(this.start).length();
+  }
+
+  /**
+   * Calculates the point at parameter `t` on this segment (mutates out)
+   * @param t parameter, `0` at start and `1` at end
+   * @param out vector instance to receive the point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment2(new Vector2(0, 0), new Vector2(0, 4));
+   * const p = Vector2.zero();
+   * s.at(0.25, p);
+   * console.log(p); // (0, 1)
+   * ```
+   */
+  at(t: number, out: Vector2): Vector2 {
+    const {start, end} = this;
+    return out.set(
+      start.x + t * (end.x - start.x),
+      start.y + t * (end.y - start.y)
+    );
+  }
+
+  /**
+   * Calculates parameter of the closest point on this segment to point (pure)
+   * @param point point
+   * @returns parameter in range [0, 1]
+   */
+  closestParameterToPoint(point: Vector2): number {
+    const {start, end} = this;
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const squaredLength = dx ** 2 + dy ** 2;
+    if (squaredLength === 0) {
+      return 0;
+    }
+    const t = ((point.x - start.x) * dx + (point.y - start.y) * dy) / squaredLength;
+    return clamp(t, 0, 1);
+  }
+
+  /**
+   * Calculates the closest point on this segment to point (mutates out)
+   * @param point point
+   * @param out vector instance to receive the closest point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment2(new Vector2(0, 0), new Vector2(0, 4));
+   * const closest = Vector2.zero();
+   * s.closestPointToPoint(new Vector2(3, 1), closest);
+   * console.log(closest); // (0, 1)
+   * ```
+   */
+  closestPointToPoint(point: Vector2, out: Vector2): Vector2 {
+    return this.at(this.closestParameterToPoint(point), out);
+  }
+
+  /**
+   * Calculates squared distance from this segment to point (pure)
+   * @param point point
+   * @returns squared distance
+   */
+  squaredDistanceToPoint(point: Vector2): number {
+    const {tmpVector} = Segment2;
+    this.closestPointToPoint(point, tmpVector);
+    return tmpVector.subtract(point).dot(tmpVector);
+  }
+
+  /**
+   * Calculates distance from this segment to point (pure)
+   * @param point point
+   * @returns distance
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment2(new Vector2(0, 0), new Vector2(0, 4));
+   * console.log(s.distanceToPoint(new Vector2(3, 8))); // 5
+   * ```
+   */
+  distanceToPoint(point: Vector2): number {
+    return Math.sqrt(this.squaredDistanceToPoint(point));
+  }
+
+  /**
+   * Calculates the closest points between this and other segment (mutates outParameters, outPoint, outOtherPoint)
+   * 
+   * If the segments cross, the crossing point is reported with squared distance `0`.
+   * If the segments are parallel, one of the closest pairs is chosen.
+   * @param other other segment
+   * @param outParameters vector instance to receive parameters in range [0, 1], `x` on this segment and `y` on other segment
+   * @param outPoint vector instance to receive the closest point on this segment
+   * @param outOtherPoint vector instance to receive the closest point on other segment
+   * @returns squared distance between the closest points
+   * 
+   * @example
+   * ```ts
+   * const s1 = new Segment2(new Vector2(-1, 0), new Vector2(1, 0));
+   * const s2 = new Segment2(new Vector2(0, 1), new Vector2(0, 3));
+   * const parameters = Vector2.zero();
+   * const squaredDistance = s1.closestPointsToSegment(s2, parameters);
+   * console.log(parameters); // (0.5, 0)
+   * console.log(squaredDistance); // 1
+   * ```
+   */
+  closestPointsToSegment(other: Segment2, outParameters: Vector2, outPoint?: Vector2, outOtherPoint?: Vector2): number {
+    return this.closestPoints(other, 0, 1, outParameters, outPoint, outOtherPoint);
+  }
+
+  /**
+   * Calculates the closest points between the infinite lines through this and other segment (mutates outParameters, outPoint, outOtherPoint)
+   * 
+   * Non-parallel lines always cross, so the squared distance is `0` unless they are parallel.
+   * If the lines are parallel, the point at parameter `0` on this line is chosen.
+   * @param other other segment defining a line
+   * @param outParameters vector instance to receive unbounded parameters, `x` on this line and `y` on other line
+   * @param outPoint vector instance to receive the closest point on this line
+   * @param outOtherPoint vector instance to receive the closest point on other line
+   * @returns squared distance between the lines
+   * 
+   * @example
+   * ```ts
+   * const s1 = new Segment2(new Vector2(0, 0), new Vector2(1, 0));
+   * const s2 = new Segment2(new Vector2(3, -1), new Vector2(3, 1));
+   * const parameters = Vector2.zero();
+   * s1.closestPointsAsLines(s2, parameters);
+   * console.log(parameters); // (3, 0.5)
+   * ```
+   */
+  closestPointsAsLines(other: Segment2, outParameters: Vector2, outPoint?: Vector2, outOtherPoint?: Vector2): number {
+    return this.closestPoints(other, -Infinity, Infinity, outParameters, outPoint, outOtherPoint);
+  }
+
+  /**
+   * Minimizes the distance between `start + s * (end - start)` on this and `t` on other,
+   * with both parameters clamped into [min, max].
+   * 
+   * The unconstrained solution is clamped on `s` first, and `s` is recomputed whenever `t` had to be clamped.
+   */
+  private closestPoints(
+    other: Segment2,
+    min: number,
+    max: number,
+    outParameters: Vector2,
+    outPoint?: Vector2,
+    outOtherPoint?: Vector2
+  ): number {
+    const {start, end} = this;
+    const otherStart = other.start;
+    const d1x = end.x - start.x;
+    const d1y = end.y - start.y;
+    const d2x = other.end.x - otherStart.x;
+    const d2y = other.end.y - otherStart.y;
+    const rx = start.x - otherStart.x;
+    const ry = start.y - otherStart.y;
+    const a = d1x * d1x + d1y * d1y;
+    const e = d2x * d2x + d2y * d2y;
+    const f = d2x * rx + d2y * ry;
+
+    // tolerances are relative to the longer direction, so that short segments are not taken for points
+    const squaredScale = Math.max(a, e);
+    const degenerate = EPSILON * squaredScale;
+
+    let s: number;
+    let t: number;
+    if (a <= degenerate) {
+      // this segment degenerates into a point
+      s = clamp(0, min, max);
+      t = e <= degenerate ? clamp(0, min, max) : clamp(f / e, min, max);
+    } else {
+      const c = d1x * rx + d1y * ry;
+      if (e <= degenerate) {
+        // other degenerates into a point
+        t = clamp(0, min, max);
+        s = clamp(-c / a, min, max);
+      } else {
+        const b = d1x * d2x + d1y * d2y;
+        const denominator = a * e - b * b;
+        s = denominator > EPSILON * a * e ? clamp((b * f - c * e) / denominator, min, max) : clamp(0, min, max);
+        t = (b * s + f) / e;
+        if (t < min || t > max) {
+          t = clamp(t, min, max);
+          s = clamp((b * t - c) / a, min, max);
+        }
+      }
+    }
+
+    const px = start.x + s * d1x;
+    const py = start.y + s * d1y;
+    const qx = otherStart.x + t * d2x;
+    const qy = otherStart.y + t * d2y;
+    outParameters.set(s, t);
+    outPoint?.set(px, py);
+    outOtherPoint?.set(qx, qy);
+    return (px - qx) ** 2 + (py - qy) ** 2;
+  }
+}
+
+export {Segment2};
@@ -0,0 +1,337 @@
+import type { Clonable } from "./Clonable";
+import { clamp } from "./functions";
+import type { Ray } from "./Ray";
+import type { Vector2 } from "./Vector2";
+import { Vector3 } from "./Vector3";
+
+const EPSILON = 1.0e-8;
+
+/**
+ * Line segment in 3D space from `start` to `end`.
+ * 
+ * Points on the segment are `start + t * (end - start)` for `t` in range [0, 1].
+ * The closest point queries between two primitives receive both parameters in a `Vector2`,
+ * `x` for this segment and `y` for the other one.
+ */
+class Segment3 implements Clonable<Segment3> {
+  /**
+   * @example
+   * ```ts
+   * const s = new Segment3(new Vector3(1, 2, 3), new Vector3(4, 5, 6));
+   * console.log(s.start); // (1, 2, 3)
+   * ```
+   */
+  readonly start: Vector3;
+
+  /**
+   * @example
+   * ```ts
+   * const s = new Segment3(new Vector3(1, 2, 3), new Vector3(4, 5, 6));
+   * console.log(s.end); // (4, 5, 6)
+   * ```
+   */
+  readonly end: Vector3;
+
+  private static _tmpVector?: Vector3;
+  private static get tmpVector(): Vector3 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector3.zero();
+    }
+    return this._tmpVector;
+  }
+
+  private static _tmpDirection?: Vector3;
+  private static get tmpDirection(): Vector3 {
+    if (!this._tmpDirection) {
+      this._tmpDirection = Vector3.zero();
+    }
+    return this._tmpDirection;
+  }
+
+  /**
+   * Creates a new segment. The vectors are copied, not referenced.
+   * @param start start point
+   * @param end end point
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment3(new Vector3(0, 0, 0), new Vector3(0, 1, 0));
+   * ```
+   */
+  constructor(start: Vector3, end: Vector3) {
+    this.start = start.clone();
+    this.end = end.clone();
+  }
+
+  /**
+   * Creates new instance has same end points (pure)
+   * @returns new cloned segment instance
+   */
+  clone(): Segment3 {
+    return new Segment3(this.start, this.end);
+  }
+
+  /**
+   * Sets end points (mutates this)
+   * @param start start point
+   * @param end end point
+   * @returns this instance, for method chaining
+   */
+  set(start: Vector3, end: Vector3): Segment3 {
+    this.start.copy(start);
+    this.end.copy(end);
+    return this;
+  }
+
+  /**
+   * Copies end points from other segment (mutates this)
+   * @param other other segment
+   * @returns this instance, for method chaining
+   */
+  copy(other: Segment3): Segment3 {
+    return this.set(other.start, other.end);
+  }
+
+  /**
+   * Calculates length of this segment (pure)
+   * @returns length
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment3(new Vector3(0, 0, 0), new Vector3(0, 3, 4));
+   * console.log(s.length()); // 5
+   * ```
+   */
+  length(): number {
+    return Segment3.tmpVector.copy(this.end).subtract(this.start).length();
+  }
+
+  /**
+   * Calculates the point at parameter `t` on this segment (mutates out)
+   * @param t parameter, `0` at start and `1` at end
+   * @param out vector instance to receive the point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment3(new Vector3(0, 0, 0), new Vector3(0, 4, 0));
+   * const p = Vector3.zero();
+   * s.at(0.25, p);
+   * console.log(p); // (0, 1, 0)
+   * ```
+   */
+  at(t: number, out: Vector3): Vector3 {
+    const {start, end} = this;
+    return out.set(
+      start.x + t * (end.x - start.x),
+      start.y + t * (end.y - start.y),
+      start.z + t * (end.z - start.z)
+    );
+  }
+
+  /**
+   * Calculates parameter of the closest point on this segment to point (pure)
+   * @param point point
+   * @returns parameter in range [0, 1]
+   */
+  closestParameterToPoint(point: Vector3): number {
+    const {start, end} = this;
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const dz = end.z - start.z;
+    const squaredLength = dx ** 2 + dy ** 2 + dz ** 2;
+    if (squaredLength === 0) {
+      return 0;
+    }
+    const t = ((point.x - start.x) * dx + (point.y - start.y) * dy + (point.z - start.z) * dz) / squaredLength;
+    return clamp(t, 0, 1);
+  }
+
+  /**
+   * Calculates the closest point on this segment to point (mutates out)
+   * @param point point
+   * @param out vector instance to receive the closest point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment3(new Vector3(0, 0, 0), new Vector3(0, 4, 0));
+   * const closest = Vector3.zero();
+   * s.closestPointToPoint(new Vector3(3, 1, 0), closest);
+   * console.log(closest); // (0, 1, 0)
+   * ```
+   */
+  closestPointToPoint(point: Vector3, out: Vector3): Vector3 {
+    return this.at(this.closestParameterToPoint(point), out);
+  }
+
+  /**
+   * Calculates squared distance from this segment to point (pure)
+   * @param point point
+   * @returns squared distance
+   */
+  squaredDistanceToPoint(point: Vector3): number {
+    const {tmpVector} = Segment3;
+    this.closestPointToPoint(point, tmpVector);
+    return tmpVector.subtract(point).dot(tmpVector);
+  }
+
+  /**
+   * Calculates distance from this segment to point (pure)
+   * @param point point
+   * @returns distance
+   * 
+   * @example
+   * ```ts
+   * const s = new Segment3(new Vector3(0, 0, 0), new Vector3(0, 4, 0));
+   * console.log(s.distanceToPoint(new Vector3(0, 7, 4))); // 5
+   * ```
+   */
+  distanceToPoint(point: Vector3): number {
+    return Math.sqrt(this.squaredDistanceToPoint(point));
+  }
+
+  /**
+   * Calculates the closest points between this and other segment (mutates outParameters, outPoint, outOtherPoint)
+   * 
+   * If the segments are parallel, one of the closest pairs is chosen.
+   * @param other other segment
+   * @param outParameters vector instance to receive parameters in range [0, 1], `x` on this segment and `y` on other segment
+   * @param outPoint vector instance to receive the closest point on this segment
+   * @param outOtherPoint vector instance to receive the closest point on other segment
+   * @returns squared distance between the closest points
+   * 
+   * @example
+   * ```ts
+   * const s1 = new Segment3(new Vector3(-1, 0, 0), new Vector3(1, 0, 0));
+   * const s2 = new Segment3(new Vector3(0, -1, 2), new Vector3(0, 1, 2));
+   * const parameters = Vector2.zero();
+   * const squaredDistance = s1.closestPointsToSegment(s2, parameters);
+   * console.log(parameters); // (0.5, 0.5)
+   * console.log(squaredDistance); // 4
+   * ```
+   */
+  closestPointsToSegment(other: Segment3, outParameters: Vector2, outPoint?: Vector3, outOtherPoint?: Vector3): number {
+    const direction = Segment3.tmpDirection.copy(other.end).subtract(other.start);
+    return this.closestPoints(other.start, direction, 0, 1, 0, 1, outParameters, outPoint, outOtherPoint);
+  }
+
+  /**
+   * Calculates the closest points between the infinite lines through this and other segment (mutates outParameters, outPoint, outOtherPoint)
+   * 
+   * If the lines are parallel, the point at parameter `0` on this line is chosen.
+   * @param other other segment defining a line
+   * @param outParameters vector instance to receive unbounded parameters, `x` on this line and `y` on other line
+   * @param outPoint vector instance to receive the closest point on this line
+   * @param outOtherPoint vector instance to receive the closest point on other line
+   * @returns squared distance between the lines
+   * 
+   * @example
+   * ```ts
+   * const s1 = new Segment3(new Vector3(0, 0, 0), new Vector3(1, 0, 0));
+   * const s2 = new Segment3(new Vector3(3, -1, 1), new Vector3(3, 1, 1));
+   * const parameters = Vector2.zero();
+   * s1.closestPointsAsLines(s2, parameters);
+   * console.log(parameters); // (3, 0.5)
+   * ```
+   */
+  closestPointsAsLines(other: Segment3, outParameters: Vector2, outPoint?: Vector3, outOtherPoint?: Vector3): number {
+    const direction = Segment3.tmpDirection.copy(other.end).subtract(other.start);
+    return this.closestPoints(other.start, direction, -Infinity, Infinity, -Infinity, Infinity, outParameters, outPoint, outOtherPoint);
+  }
+
+  /**
+   * Calculates the closest points between this segment and ray (mutates outParameters, outPoint, outRayPoint)
+   * 
+   * Useful for dragging a transform gizmo axis with a picking ray.
+   * @param ray ray
+   * @param outParameters vector instance to receive parameters, `x` in range [0, 1] on this segment and `y` >= 0 on the ray
+   * @param outPoint vector instance to receive the closest point on this segment
+   * @param outRayPoint vector instance to receive the closest point on the ray
+   * @returns squared distance between the closest points
+   * 
+   * @example
+   * ```ts
+   * const axis = new Segment3(new Vector3(0, 0, 0), new Vector3(1, 0, 0));
+   * const parameters = Vector2.zero();
+   * const squaredDistance = axis.closestPointsToRay(pickingRay, parameters);
+   * if (squaredDistance < threshold ** 2) {
+   *   dragAxis(parameters.x);
+   * }
+   * ```
+   */
+  closestPointsToRay(ray: Ray, outParameters: Vector2, outPoint?: Vector3, outRayPoint?: Vector3): number {
+    return this.closestPoints(ray.origin, ray.direction, 0, 1, 0, Infinity, outParameters, outPoint, outRayPoint);
+  }
+
+  /**
+   * Minimizes the distance between `start + s * (end - start)` and `otherStart + t * otherDirection`,
+   * with `s` clamped into [sMin, sMax] and `t` clamped into [tMin, tMax].
+   * 
+   * The unconstrained solution is clamped on `s` first, and `s` is recomputed whenever `t` had to be clamped.
+   */
+  private closestPoints(
+    otherStart: Vector3,
+    otherDirection: Vector3,
+    sMin: number,
+    sMax: number,
+    tMin: number,
+    tMax: number,
+    outParameters: Vector2,
+    outPoint?: Vector3,
+    outOtherPoint?: Vector3
+  ): number {
+    const {start, end} = this;
+    const {x: d2x, y: d2y, z: d2z} = otherDirection;
+    const d1x = end.x - start.x;
+    const d1y = end.y - start.y;
+    const d1z = end.z - start.z;
+    const rx = start.x - otherStart.x;
+    const ry = start.y - otherStart.y;
+    const rz = start.z - otherStart.z;
+    const a = d1x * d1x + d1y * d1y + d1z * d1z;
+    const e = d2x * d2x + d2y * d2y + d2z * d2z;
+    const f = d2x * rx + d2y * ry + d2z * rz;
+
+    // tolerances are relative to the longer direction, so that short segments are not taken for points
+    const squaredScale = Math.max(a, e);
+    const degenerate = EPSILON * squaredScale;
+
+    let s: number;
+    let t: number;
+    if (a <= degenerate) {
+      // this segment degenerates into a point
+      s = clamp(0, sMin, sMax);
+      t = e <= degenerate ? clamp(0, tMin, tMax) : clamp(f / e, tMin, tMax);
+    } else {
+      const c = d1x * rx + d1y * ry + d1z * rz;
+      if (e <= degenerate) {
+        // other degenerates into a point
+        t = clamp(0, tMin, tMax);
+        s = clamp(-c / a, sMin, sMax);
+      } else {
+        const b = d1x * d2x + d1y * d2y + d1z * d2z;
+        const denominator = a * e - b * b;
+        s = denominator > EPSILON * a * e ? clamp((b * f - c * e) / denominator, sMin, sMax) : clamp(0, sMin, sMax);
+        t = (b * s + f) / e;
+        if (t < tMin || t > tMax) {
+          t = clamp(t, tMin, tMax);
+          s = clamp((b * t - c) / a, sMin, sMax);
+        }
+      }
+    }
+
+    const px = start.x + s * d1x;
+    const py = start.y + s * d1y;
+    const pz = start.z + s * d1z;
+    const qx = otherStart.x + t * d2x;
+    const qy = otherStart.y + t * d2y;
+    const qz = otherStart.z + t * d2z;
+    outParameters.set(s, t);
+    outPoint?.set(px, py, pz);
+    outOtherPoint?.set(qx, qy, qz);
+    return (px - qx) ** 2 + (py - qy) ** 2 + (pz - qz) ** 2;
+  }
+}
+
+export {Segment3};
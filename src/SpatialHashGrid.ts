@@ -0,0 +1,393 @@
+import type { Box3 } from "./Box3";
+import { range } from "./functions";
+import { considerNearest } from "./SpatialIndex";
+import type { SpatialIndex } from "./SpatialIndex";
+import type { Vector3 } from "./Vector3";
+
+/**
+ * Entry of an item, remembering the cell it is stored in.
+ */
+type SpatialHashGridEntry = {
+  position: Vector3;
+  x: number;
+  y: number;
+  z: number;
+  key: number;
+};
+
+/**
+ * Uniform grid of items keyed by their positions, hashing the occupied cells only, for broad-phase queries over moving points.
+ * 
+ * Works best when the items are spread evenly and the queries span a few cells,
+ * e.g. with the cell size around the typical query radius.
+ * Unlike {@link Octree}, the grid is unbounded.
+ * Items are identified by reference, so an item can be in the grid at most once.
+ */
+class SpatialHashGrid<T> implements SpatialIndex<T> {
+  private readonly _cellSize: number;
+  private readonly entries = new Map<T, SpatialHashGridEntry>();
+
+  /** items per hash of cell coordinates, distinct cells may share a bucket */
+  private readonly buckets = new Map<number, T[]>();
+
+  /** squared distances of the items found so far by {@link SpatialHashGrid.queryNearest} */
+  private readonly nearestDistances: number[] = [];
+
+  /**
+   * Creates a new empty grid.
+   * @param cellSize edge length of the cubic cells
+   * @throws {RangeError} if cellSize is not a positive finite number
+   * 
+   * @example
+   * ```ts
+   * const grid = new SpatialHashGrid<Agent>(viewDistance);
+   * ```
+   */
+  constructor(cellSize: number) {
+    if (!(cellSize > 0 && Number.isFinite(cellSize))) {
+      throw new RangeError(`cellSize must be a positive finite number, got ${cellSize}`);
+    }
+    this._cellSize = cellSize;
+  }
+
+  /**
+   * Gets the edge length of the cells.
+   */
+  get cellSize(): number {
+    return this._cellSize;
+  }
+
+  /**
+   * Gets the number of items.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Checks whether item is in this grid (pure)
+   * @param item item
+   * @returns `true` if item has been inserted and not removed
+   */
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  /**
+   * Inserts item at position, or moves it if already inserted (mutates this)
+   * @param item item
+   * @param position position of item, copied
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * for (const agent of agents) {
+   *   grid.insert(agent, agent.position);
+   * }
+   * ```
+   */
+  insert(item: T, position: Vector3): SpatialHashGrid<T> {
+    if (this.entries.has(item)) {
+      this.move(item, position);
+      return this;
+    }
+    const entry: SpatialHashGridEntry = {position: position.clone(), x: 0, y: 0, z: 0, key: 0};
+    this.entries.set(item, entry);
+    this.place(item, entry);
+    return this;
+  }
+
+  /**
+   * Removes item (mutates this)
+   * @param item item
+   * @returns `true` if item was in this grid
+   */
+  remove(item: T): boolean {
+    const entry = this.entries.get(item);
+    if (!entry) {
+      return false;
+    }
+    this.unplace(item, entry);
+    this.entries.delete(item);
+    return true;
+  }
+
+  /**
+   * Moves item to position (mutates this)
+   * 
+   * Moving within the same cell only updates the position, which is the common case for small steps.
+   * @param item item
+   * @param position new position of item, copied
+   * @returns `true` if item was in this grid
+   * 
+   * @example
+   * ```ts
+   * agent.position.add(velocity);
+   * grid.move(agent, agent.position);
+   * ```
+   */
+  move(item: T, position: Vector3): boolean {
+    const entry = this.entries.get(item);
+    if (!entry) {
+      return false;
+    }
+    const x = this.cellCoordinate(position.x);
+    const y = this.cellCoordinate(position.y);
+    const z = this.cellCoordinate(position.z);
+    entry.position.copy(position);
+    if (x === entry.x && y === entry.y && z === entry.z) {
+      return true;
+    }
+    this.unplace(item, entry);
+    this.place(item, entry);
+    return true;
+  }
+
+  /**
+   * Removes all items (mutates this)
+   * @returns this instance, for method chaining
+   */
+  clear(): SpatialHashGrid<T> {
+    this.entries.clear();
+    this.buckets.clear();
+    return this;
+  }
+
+  /**
+   * Collects the items within radius of center (mutates out)
+   * @param center center of the query sphere
+   * @param radius radius of the query sphere
+   * @param out array to receive the items, cleared first
+   * @returns out array
+   * 
+   * @example
+   * ```ts
+   * const neighbors: Agent[] = [];
+   * grid.queryRadius(agent.position, viewDistance, neighbors);
+   * ```
+   */
+  queryRadius(center: Vector3, radius: number, out: T[]): T[] {
+    out.length = 0;
+    if (radius < 0) {
+      return out;
+    }
+    const squaredRadius = radius ** 2;
+    const {x, y, z} = center;
+    const minX = this.cellCoordinate(x - radius);
+    const minY = this.cellCoordinate(y - radius);
+    const minZ = this.cellCoordinate(z - radius);
+    const maxX = this.cellCoordinate(x + radius);
+    const maxY = this.cellCoordinate(y + radius);
+    const maxZ = this.cellCoordinate(z + radius);
+
+    if (this.scansAll(minX, minY, minZ, maxX, maxY, maxZ)) {
+      for (const [item, {position}] of this.entries) {
+        if ((position.x - x) ** 2 + (position.y - y) ** 2 + (position.z - z) ** 2 <= squaredRadius) {
+          out.push(item);
+        }
+      }
+      return out;
+    }
+
+    for (const cellX of range(maxX + 1, {start: minX})) {
+      for (const cellY of range(maxY + 1, {start: minY})) {
+        for (const cellZ of range(maxZ + 1, {start: minZ})) {
+          const bucket = this.buckets.get(SpatialHashGrid.hash(cellX, cellY, cellZ));
+          if (!bucket) {
+            continue;
+          }
+          for (const item of bucket) {
+            const entry = this.entries.get(item)!;
+            const {position} = entry;
+            if (
+              entry.x === cellX && entry.y === cellY && entry.z === cellZ &&
+              (position.x - x) ** 2 + (position.y - y) ** 2 + (position.z - z) ** 2 <= squaredRadius
+            ) {
+              out.push(item);
+            }
+          }
+        }
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Collects the items inside or on the surface of box (mutates out)
+   * @param box axis-aligned box
+   * @param out array to receive the items, cleared first
+   * @returns out array
+   */
+  queryBox(box: Box3, out: T[]): T[] {
+    out.length = 0;
+    if (box.isEmpty()) {
+      return out;
+    }
+    const {min, max} = box;
+    const minX = this.cellCoordinate(min.x);
+    const minY = this.cellCoordinate(min.y);
+    const minZ = this.cellCoordinate(min.z);
+    const maxX = this.cellCoordinate(max.x);
+    const maxY = this.cellCoordinate(max.y);
+    const maxZ = this.cellCoordinate(max.z);
+
+    if (this.scansAll(minX, minY, minZ, maxX, maxY, maxZ)) {
+      for (const [item, {position}] of this.entries) {
+        if (box.containsPoint(position)) {
+          out.push(item);
+        }
+      }
+      return out;
+    }
+
+    for (const cellX of range(maxX + 1, {start: minX})) {
+      for (const cellY of range(maxY + 1, {start: minY})) {
+        for (const cellZ of range(maxZ + 1, {start: minZ})) {
+          const bucket = this.buckets.get(SpatialHashGrid.hash(cellX, cellY, cellZ));
+          if (!bucket) {
+            continue;
+          }
+          for (const item of bucket) {
+            const entry = this.entries.get(item)!;
+            if (entry.x === cellX && entry.y === cellY && entry.z === cellZ && box.containsPoint(entry.position)) {
+              out.push(item);
+            }
+          }
+        }
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Collects the k items nearest to point, nearest first (mutates out)
+   * 
+   * Searches shells of cells around the cell containing point, growing until the k-th item found
+   * is closer than any unvisited cell, and falls back to scanning all items when a shell has more cells than there are items.
+   * @param point query point
+   * @param k maximum number of items
+   * @param out array to receive the items, cleared first
+   * @returns out array, shorter than k if this grid has fewer items
+   * 
+   * @example
+   * ```ts
+   * const nearest: Agent[] = [];
+   * grid.queryNearest(target, 3, nearest);
+   * ```
+   */
+  queryNearest(point: Vector3, k: number, out: T[]): T[] {
+    out.length = 0;
+    const {nearestDistances, entries, cellSize} = this;
+    nearestDistances.length = 0;
+    if (k <= 0 || entries.size === 0) {
+      return out;
+    }
+    const {x, y, z} = point;
+    const centerX = this.cellCoordinate(x);
+    const centerY = this.cellCoordinate(y);
+    const centerZ = this.cellCoordinate(z);
+
+    let visited = 0;
+    for (let shell = 0; visited < entries.size; shell++) {
+      // any cell of this shell is at least (shell - 1) cells away from point
+      if (nearestDistances.length === k && nearestDistances[k - 1] <= ((shell - 1) * cellSize) ** 2) {
+        return out;
+      }
+      const cellCount = (2 * shell + 1) ** 3 - Math.max(2 * shell - 1, 0) ** 3;
+      if (cellCount > entries.size) {
+        break;
+      }
+      for (const cellX of range(centerX + shell + 1, {start: centerX - shell})) {
+        for (const cellY of range(centerY + shell + 1, {start: centerY - shell})) {
+          const onShell = Math.abs(cellX - centerX) === shell || Math.abs(cellY - centerY) === shell;
+          // cells strictly inside the shell are skipped by stepping over them along z
+          const step = onShell ? 1 : 2 * shell;
+          for (const cellZ of range(centerZ + shell + 1, {start: centerZ - shell, step})) {
+            const bucket = this.buckets.get(SpatialHashGrid.hash(cellX, cellY, cellZ));
+            if (!bucket) {
+              continue;
+            }
+            for (const item of bucket) {
+              const entry = entries.get(item)!;
+              if (entry.x !== cellX || entry.y !== cellY || entry.z !== cellZ) {
+                continue;
+              }
+              visited++;
+              const {position} = entry;
+              considerNearest(item, (position.x - x) ** 2 + (position.y - y) ** 2 + (position.z - z) ** 2, k, out, nearestDistances);
+            }
+          }
+        }
+      }
+    }
+    if (visited === entries.size) {
+      return out;
+    }
+
+    // the remaining shells are sparser than the items themselves
+    out.length = 0;
+    nearestDistances.length = 0;
+    for (const [item, {position}] of entries) {
+      considerNearest(item, (position.x - x) ** 2 + (position.y - y) ** 2 + (position.z - z) ** 2, k, out, nearestDistances);
+    }
+    return out;
+  }
+
+  /**
+   * Adds item to the bucket of the cell containing its position
+   */
+  private place(item: T, entry: SpatialHashGridEntry): void {
+    const {position} = entry;
+    entry.x = this.cellCoordinate(position.x);
+    entry.y = this.cellCoordinate(position.y);
+    entry.z = this.cellCoordinate(position.z);
+    entry.key = SpatialHashGrid.hash(entry.x, entry.y, entry.z);
+    const bucket = this.buckets.get(entry.key);
+    if (bucket) {
+      bucket.push(item);
+    } else {
+      this.buckets.set(entry.key, [item]);
+    }
+  }
+
+  /**
+   * Removes item from its bucket, dropping the bucket when it becomes empty
+   */
+  private unplace(item: T, entry: SpatialHashGridEntry): void {
+    const bucket = this.buckets.get(entry.key);
+    if (!bucket) {
+      return;
+    }
+    const index = bucket.indexOf(item);
+    if (index >= 0) {
+      bucket[index] = bucket[bucket.length - 1];
+      bucket.pop();
+    }
+    if (bucket.length === 0) {
+      this.buckets.delete(entry.key);
+    }
+  }
+
+  /**
+   * Checks whether a query over the range of cells visits more cells than there are items
+   */
+  private scansAll(minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number): boolean {
+    return (maxX - minX + 1) * (maxY - minY + 1) * (maxZ - minZ + 1) > this.entries.size;
+  }
+
+  /**
+   * Calculates the integer cell coordinate of a position component
+   */
+  private cellCoordinate(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  /**
+   * Hashes cell coordinates into a 32-bit integer, which may collide for distinct cells
+   */
+  private static hash(x: number, y: number, z: number): number {
+    return Math.imul(x, 73856093) ^ Math.imul(y, 19349663) ^ Math.imul(z, 83492791);
+  }
+}
+
+export {SpatialHashGrid};
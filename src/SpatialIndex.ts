@@ -0,0 +1,40 @@
+import type { Box3 } from "./Box3";
+import type { Vector3 } from "./Vector3";
+
+interface SpatialIndex<T> {
+  readonly size: number;
+  has(item: T): boolean;
+  insert(item: T, position: Vector3): SpatialIndex<T>;
+  remove(item: T): boolean;
+  move(item: T, position: Vector3): boolean;
+  clear(): SpatialIndex<T>;
+  queryRadius(center: Vector3, radius: number, out: T[]): T[];
+  queryBox(box: Box3, out: T[]): T[];
+  queryNearest(point: Vector3, k: number, out: T[]): T[];
+}
+
+/**
+ * Inserts item into the nearest items of a k-nearest query, keeping `out` and `squaredDistances` sorted
+ * by squared distance and at most k long
+ * @param item candidate item
+ * @param squaredDistance squared distance from the query point to the item
+ * @param k maximum number of nearest items
+ * @param out nearest items found so far
+ * @param squaredDistances squared distances of the nearest items found so far
+ */
+const considerNearest = <T>(item: T, squaredDistance: number, k: number, out: T[], squaredDistances: number[]): void => {
+  if (squaredDistances.length === k && squaredDistance >= squaredDistances[k - 1]) {
+    return;
+  }
+  let index = Math.min(squaredDistances.length, k - 1);
+  while (index > 0 && squaredDistances[index - 1] > squaredDistance) {
+    squaredDistances[index] = squaredDistances[index - 1];
+    out[index] = out[index - 1];
+    index--;
+  }
+  squaredDistances[index] = squaredDistance;
+  out[index] = item;
+};
+
+export {considerNearest};
+export type {SpatialIndex};
@@ -0,0 +1,757 @@
+import type { Box3 } from "./Box3";
+import type { Clonable } from "./Clonable";
+import type { Convex } from "./Convex";
+import { range } from "./functions";
+import type { Matrix4 } from "./Matrix4";
+import type { Plane } from "./Plane";
+import type { Triangle } from "./Triangle";
+import { Vector3 } from "./Vector3";
+
+const EPSILON = 1.0e-8;
+const CONTAINMENT_TOLERANCE = 1.0e-6;
+const DEFAULT_MINIMAL = false;
+
+/**
+ * Options for constructing a bounding sphere from positions.
+ */
+type SphereFromPositionsOptions = {
+  /**
+   * Determines the construction algorithm.
+   * 
+   * - `false` (default): **Ritter's** algorithm, a fast approximation which is typically 5 to 20 percent larger than minimal.
+   * - `true`: **Welzl's** algorithm, which gives the minimal enclosing sphere in expected linear time.
+   * 
+   * @default false
+   */
+  minimal?: boolean;
+};
+
+/**
+ * Sphere in 3D space, defined by `center` and `radius`.
+ * 
+ * A sphere with negative radius is empty. {@link Sphere.empty} creates the canonical empty sphere,
+ * which becomes the point itself when expanded by a point.
+ */
+class Sphere implements Clonable<Sphere>, Convex {
+  /**
+   * @example
+   * ```ts
+   * const s = new Sphere(new Vector3(1, 2, 3), 4);
+   * console.log(s.center); // (1, 2, 3)
+   * ```
+   */
+  readonly center: Vector3;
+
+  private _radius: number;
+
+  private static _tmpVector?: Vector3;
+  private static get tmpVector(): Vector3 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector3.zero();
+    }
+    return this._tmpVector;
+  }
+
+  /**
+   * Creates a new sphere. The center vector is copied, not referenced.
+   * @param center center of the sphere
+   * @param radius radius of the sphere, negative for empty sphere
+   * 
+   * @example
+   * ```ts
+   * const s = new Sphere(Vector3.zero(), 1);
+   * ```
+   */
+  constructor(center: Vector3, radius: number) {
+    this.center = center.clone();
+    this._radius = radius;
+  }
+
+  /**
+   * Gets radius of the sphere, negative for empty sphere.
+   */
+  get radius(): number {
+    return this._radius;
+  }
+
+  /**
+   * Sets radius of the sphere, negative for empty sphere.
+   */
+  set radius(value: number) {
+    this._radius = value;
+  }
+
+  /**
+   * Creates a new empty sphere
+   * @returns new empty sphere instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const s = Sphere.empty();
+   * console.log(s.isEmpty()); // true
+   * ```
+   */
+  static empty(): Sphere {
+    return new Sphere(Vector3.zero(), -1);
+  }
+
+  /**
+   * Creates a new sphere enclosing positions
+   * @param positions flat array of positions `[x0, y0, z0, x1, y1, z1, ...]`
+   * @param options options for construction
+   * @returns new sphere instance
+   * @group Factory Methods
+   * 
+   * @example
+   * ```ts
+   * const positions = Float32Array.of(-1, 0, 0, 1, 0, 0, 0, 0.5, 0);
+   * const s = Sphere.fromPositions(positions, {minimal: true});
+   * console.log(s.center); // (0, 0, 0)
+   * console.log(s.radius); // 1
+   * ```
+   */
+  static fromPositions(positions: Float32Array, options?: SphereFromPositionsOptions): Sphere {
+    const sphere = Sphere.empty();
+    return sphere.setFromPositions(positions, options);
+  }
+
+  /**
+   * Creates new instance has same center and radius (pure)
+   * @returns new cloned sphere instance
+   */
+  clone(): Sphere {
+    return new Sphere(this.center, this.radius);
+  }
+
+  /**
+   * Sets center and radius (mutates this)
+   * @param center center of the sphere
+   * @param radius radius of the sphere
+   * @returns this instance, for method chaining
+   */
+  set(center: Vector3, radius: number): Sphere {
+    this.center.copy(center);
+    this.radius = radius;
+    return this;
+  }
+
+  /**
+   * Copies center and radius from other sphere (mutates this)
+   * @param other other sphere
+   * @returns this instance, for method chaining
+   */
+  copy(other: Sphere): Sphere {
+    return this.set(other.center, other.radius);
+  }
+
+  /**
+   * Makes this sphere empty (mutates this)
+   * @returns this instance, for method chaining
+   */
+  setEmpty(): Sphere {
+    this.center.set(0, 0, 0);
+    this.radius = -1;
+    return this;
+  }
+
+  /**
+   * Checks whether this sphere is empty (pure)
+   * @returns `true` if radius is negative
+   */
+  isEmpty(): boolean {
+    return this.radius < 0;
+  }
+
+  /**
+   * Sets this sphere to enclose positions (mutates this)
+   * @param positions flat array of positions `[x0, y0, z0, x1, y1, z1, ...]`
+   * @param options options for construction
+   * @returns this instance, for method chaining
+   */
+  setFromPositions(positions: Float32Array, options?: SphereFromPositionsOptions): Sphere {
+    const minimal = options?.minimal ?? DEFAULT_MINIMAL;
+    const count = Math.floor(positions.length / 3);
+    if (count === 0) {
+      return this.setEmpty();
+    }
+    return minimal ? this.setFromPositionsWelzl(positions, count) : this.setFromPositionsRitter(positions, count);
+  }
+
+  /**
+   * Checks whether point is inside or on the surface of this sphere (pure)
+   * @param point point
+   * @returns `true` if this sphere contains point
+   */
+  containsPoint(point: Vector3): boolean {
+    if (this.isEmpty()) {
+      return false;
+    }
+    const {center, radius} = this;
+    const squaredDistance = (point.x - center.x) ** 2 + (point.y - center.y) ** 2 + (point.z - center.z) ** 2;
+    return squaredDistance <= radius ** 2;
+  }
+
+  /**
+   * Calculates signed distance from the surface of this sphere to point (pure)
+   * @param point point
+   * @returns positive value outside, negative value inside
+   */
+  distanceToPoint(point: Vector3): number {
+    const {center} = this;
+    const distance = Math.sqrt((point.x - center.x) ** 2 + (point.y - center.y) ** 2 + (point.z - center.z) ** 2);
+    return distance - this.radius;
+  }
+
+  /**
+   * Checks whether this and other sphere overlap or touch (pure)
+   * @param other other sphere
+   * @returns `true` if the spheres intersect
+   */
+  intersectsSphere(other: Sphere): boolean {
+    if (this.isEmpty() || other.isEmpty()) {
+      return false;
+    }
+    const radiusSum = this.radius + other.radius;
+    const {x, y, z} = this.center;
+    const squaredDistance = (other.center.x - x) ** 2 + (other.center.y - y) ** 2 + (other.center.z - z) ** 2;
+    return squaredDistance <= radiusSum ** 2;
+  }
+
+  /**
+   * Checks whether this sphere and axis-aligned box overlap or touch (pure)
+   * @param box axis-aligned box
+   * @returns `true` if this sphere intersects box
+   */
+  intersectsBox(box: Box3): boolean {
+    if (this.isEmpty() || box.isEmpty()) {
+      return false;
+    }
+    return box.squaredDistanceToPoint(this.center) <= this.radius ** 2;
+  }
+
+  /**
+   * Checks whether this sphere crosses or touches plane (pure)
+   * @param plane plane with normalized normal
+   * @returns `true` if this sphere intersects plane
+   */
+  intersectsPlane(plane: Plane): boolean {
+    if (this.isEmpty()) {
+      return false;
+    }
+    return Math.abs(plane.signedDistanceToPoint(this.center)) <= this.radius;
+  }
+
+  /**
+   * Calculates the first contact of this sphere moving by displacement with triangle (mutates outPoint, outNormal)
+   * 
+   * Both sides of the triangle are solid. The contact is searched on the face first, then on the vertices and edges.
+   * If this sphere already intersects the triangle, the contact at time `0` is the closest point on the triangle.
+   * @param displacement movement of the center during the sweep
+   * @param triangle triangle
+   * @param outPoint vector instance to receive the contact point on the triangle
+   * @param outNormal vector instance to receive the unit contact normal, pointing from the contact point to the center
+   * @returns time of impact in range [0, 1] as a fraction of displacement, `null` if there is no contact or this sphere is empty
+   * 
+   * @example
+   * ```ts
+   * const s = new Sphere(new Vector3(0, 3, 0), 1);
+   * const floor = new Triangle(new Vector3(-5, 0, 5), new Vector3(5, 0, 5), new Vector3(0, 0, -5));
+   * const t = s.sweepTriangle(new Vector3(0, -4, 0), floor);
+   * console.log(t); // 0.5
+   * ```
+   */
+  sweepTriangle(displacement: Vector3, triangle: Triangle, outPoint?: Vector3, outNormal?: Vector3): number | null {
+    if (this.isEmpty()) {
+      return null;
+    }
+    const {tmpVector} = Sphere;
+    const {center, radius} = this;
+    const {x: cx, y: cy, z: cz} = center;
+    const {x: dx, y: dy, z: dz} = displacement;
+
+    let time: number | null = null;
+    triangle.closestPointToPoint(center, tmpVector);
+    if ((tmpVector.x - cx) ** 2 + (tmpVector.y - cy) ** 2 + (tmpVector.z - cz) ** 2 <= radius ** 2) {
+      time = 0;
+    }
+
+    // face, which is hit before any vertex or edge when the contact point lies inside
+    if (time === null) {
+      const {a} = triangle;
+      const normal = triangle.normal(tmpVector);
+      const side = normal.x * (cx - a.x) + normal.y * (cy - a.y) + normal.z * (cz - a.z) < 0 ? -1 : 1;
+      const nx = side * normal.x;
+      const ny = side * normal.y;
+      const nz = side * normal.z;
+      const distance = nx * (cx - a.x) + ny * (cy - a.y) + nz * (cz - a.z);
+      const speed = nx * dx + ny * dy + nz * dz;
+      if (distance > radius && speed < -EPSILON) {
+        const t = (distance - radius) / -speed;
+        if (t <= 1) {
+          tmpVector.set(
+            cx + t * dx - radius * nx,
+            cy + t * dy - radius * ny,
+            cz + t * dz - radius * nz
+          );
+          if (triangle.containsPoint(tmpVector)) {
+            time = t;
+          }
+        }
+      }
+    }
+
+    // vertices and edges, each narrowing the time range for the following ones
+    if (time === null) {
+      const {a, b, c} = triangle;
+      time = this.sweepPoint(displacement, a, time ?? 1, tmpVector) ?? time;
+      time = this.sweepPoint(displacement, b, time ?? 1, tmpVector) ?? time;
+      time = this.sweepPoint(displacement, c, time ?? 1, tmpVector) ?? time;
+      time = this.sweepEdge(displacement, a, b, time ?? 1, tmpVector) ?? time;
+      time = this.sweepEdge(displacement, b, c, time ?? 1, tmpVector) ?? time;
+      time = this.sweepEdge(displacement, c, a, time ?? 1, tmpVector) ?? time;
+      if (time === null) {
+        return null;
+      }
+    }
+
+    outPoint?.copy(tmpVector);
+    if (outNormal) {
+      outNormal.set(
+        cx + time * dx - tmpVector.x,
+        cy + time * dy - tmpVector.y,
+        cz + time * dz - tmpVector.z
+      );
+      if (outNormal.length() < EPSILON) {
+        // center lies on the triangle
+        triangle.normal(outNormal);
+      } else {
+        outNormal.normalize();
+      }
+    }
+    return time;
+  }
+
+  /**
+   * Expands this sphere minimally to contain point (mutates this)
+   * @param point point to enclose
+   * @returns this instance, for method chaining
+   */
+  expandByPoint(point: Vector3): Sphere {
+    if (this.isEmpty()) {
+      return this.set(point, 0);
+    }
+    this.expandByCoordinates(point.x, point.y, point.z);
+    return this;
+  }
+
+  /**
+   * Sets the minimal sphere enclosing this and other sphere (mutates this)
+   * @param other other sphere
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const s = new Sphere(new Vector3(-1, 0, 0), 1);
+   * s.union(new Sphere(new Vector3(2, 0, 0), 1));
+   * console.log(s.center); // (0.5, 0, 0)
+   * console.log(s.radius); // 2.5
+   * ```
+   */
+  union(other: Sphere): Sphere {
+    if (other.isEmpty()) {
+      return this;
+    }
+    if (this.isEmpty()) {
+      return this.copy(other);
+    }
+
+    const {center, radius} = this;
+    const dx = other.center.x - center.x;
+    const dy = other.center.y - center.y;
+    const dz = other.center.z - center.z;
+    const distance = Math.sqrt(dx ** 2 + dy ** 2 + dz ** 2);
+    if (distance + other.radius <= radius) {
+      return this;
+    }
+    if (distance + radius <= other.radius) {
+      return this.copy(other);
+    }
+
+    const newRadius = (radius + distance + other.radius) / 2;
+    const shift = (newRadius - radius) / distance;
+    center.set(center.x + dx * shift, center.y + dy * shift, center.z + dz * shift);
+    this.radius = newRadius;
+    return this;
+  }
+
+  /**
+   * Transforms this sphere by matrix (mutates this)
+   * 
+   * The radius is scaled by the largest scale among the axes,
+   * so that the result encloses the transformed sphere even with non-uniform scale.
+   * @param matrix affine transformation matrix
+   * @returns this instance, for method chaining
+   */
+  applyMatrix4(matrix: Matrix4): Sphere {
+    if (this.isEmpty()) {
+      return this;
+    }
+    const [e00, e01, e02, _e03, e10, e11, e12, _e13, e20, e21, e22] = matrix.elements;
+    const squaredScale = Math.max(
+      e00 ** 2 + e01 ** 2 + e02 ** 2,
+      e10 ** 2 + e11 ** 2 + e12 ** 2,
+      e20 ** 2 + e21 ** 2 + e22 ** 2
+    );
+    this.center.applyMatrix4(matrix);
+    this.radius *= Math.sqrt(squaredScale);
+    return this;
+  }
+
+  /**
+   * Calculates the farthest point of this sphere in direction (mutates out)
+   * 
+   * Used as the support function of {@link GJK}.
+   * @param direction search direction, need not be normalized
+   * @param out vector instance to receive the support point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const s = new Sphere(new Vector3(1, 0, 0), 2);
+   * const p = Vector3.zero();
+   * s.support(new Vector3(0, 3, 0), p);
+   * console.log(p); // (1, 2, 0)
+   * ```
+   */
+  support(direction: Vector3, out: Vector3): Vector3 {
+    const length = direction.length();
+    if (length <= 0) {
+      return out.copy(this.center);
+    }
+    const scale = this.radius / length;
+    const {center} = this;
+    return out.set(
+      center.x + direction.x * scale,
+      center.y + direction.y * scale,
+      center.z + direction.z * scale
+    );
+  }
+
+  /**
+   * Calculates the first time in range [0, max] at which this sphere moving by displacement touches point,
+   * and copies point into out only if touched.
+   */
+  private sweepPoint(displacement: Vector3, point: Vector3, max: number, out: Vector3): number | null {
+    const {center, radius} = this;
+    const rx = center.x - point.x;
+    const ry = center.y - point.y;
+    const rz = center.z - point.z;
+    const t = Sphere.lowestRoot(
+      displacement.dot(displacement),
+      2 * (displacement.x * rx + displacement.y * ry + displacement.z * rz),
+      rx ** 2 + ry ** 2 + rz ** 2 - radius ** 2,
+      max,
+      0
+    );
+    if (t === null) {
+      return null;
+    }
+    out.copy(point);
+    return t;
+  }
+
+  /**
+   * Calculates the first time in range [0, max] at which this sphere moving by displacement touches
+   * the inside of the edge from start to end, and sets the contact point into out only if touched.
+   * 
+   * Solves for the time the center reaches the infinite cylinder around the edge,
+   * then rejects the contact if it lies beyond the end points.
+   */
+  private sweepEdge(displacement: Vector3, start: Vector3, end: Vector3, max: number, out: Vector3): number | null {
+    const {center, radius} = this;
+    const ex = end.x - start.x;
+    const ey = end.y - start.y;
+    const ez = end.z - start.z;
+    const bx = start.x - center.x;
+    const by = start.y - center.y;
+    const bz = start.z - center.z;
+    const {x: dx, y: dy, z: dz} = displacement;
+    const squaredEdge = ex ** 2 + ey ** 2 + ez ** 2;
+    const squaredDisplacement = dx ** 2 + dy ** 2 + dz ** 2;
+    const edgeDotDisplacement = ex * dx + ey * dy + ez * dz;
+    const edgeDotBase = ex * bx + ey * by + ez * bz;
+
+    // the quadratic term is -|edge × displacement|^2, negligible when moving along the edge
+    const t = Sphere.lowestRoot(
+      edgeDotDisplacement ** 2 - squaredEdge * squaredDisplacement,
+      2 * (squaredEdge * (dx * bx + dy * by + dz * bz) - edgeDotDisplacement * edgeDotBase),
+      edgeDotBase ** 2 + squaredEdge * (radius ** 2 - bx ** 2 - by ** 2 - bz ** 2),
+      max,
+      EPSILON * squaredEdge * squaredDisplacement
+    );
+    if (t === null) {
+      return null;
+    }
+    const f = (edgeDotDisplacement * t - edgeDotBase) / squaredEdge;
+    if (f < 0 || f > 1) {
+      return null;
+    }
+    out.set(start.x + f * ex, start.y + f * ey, start.z + f * ez);
+    return t;
+  }
+
+  /**
+   * Calculates the smaller root of `a * t^2 + b * t + c = 0` in range [0, max]
+   * @param tolerance largest `|a|` taken as no quadratic term, which the caller scales with its inputs
+   */
+  private static lowestRoot(a: number, b: number, c: number, max: number, tolerance: number): number | null {
+    if (Math.abs(a) <= tolerance) {
+      return null;
+    }
+    const discriminant = b ** 2 - 4 * a * c;
+    if (discriminant < 0) {
+      return null;
+    }
+    const root = Math.sqrt(discriminant);
+    const r1 = (-b - root) / (2 * a);
+    const r2 = (-b + root) / (2 * a);
+    const near = Math.min(r1, r2);
+    const far = Math.max(r1, r2);
+    if (near >= 0 && near <= max) {
+      return near;
+    }
+    if (far >= 0 && far <= max) {
+      return far;
+    }
+    return null;
+  }
+
+  /**
+   * Sets bounding sphere by Ritter's algorithm
+   */
+  private setFromPositionsRitter(positions: Float32Array, count: number): Sphere {
+    // the initial diameter approximates the farthest pair
+    const first = Sphere.farthestIndex(positions, count, 0);
+    const second = Sphere.farthestIndex(positions, count, first);
+    this.setFromBoundary(positions, [first, second]);
+
+    for (const index of range(count)) {
+      this.expandByPosition(positions, index);
+    }
+    return this;
+  }
+
+  /**
+   * Sets minimal bounding sphere by Welzl's algorithm with move-to-front heuristic
+   */
+  private setFromPositionsWelzl(positions: Float32Array, count: number): Sphere {
+    const order = new Uint32Array(count);
+    for (const index of range(count)) {
+      order[index] = index;
+    }
+
+    // random order makes the expected running time linear
+    for (const index of range(0, {start: count - 1, step: -1})) {
+      const swap = Math.floor(Math.random() * (index + 1));
+      const value = order[index];
+      order[index] = order[swap];
+      order[swap] = value;
+    }
+
+    // containment is tested relative to the extent of the positions, to work at any scale
+    const tolerance = CONTAINMENT_TOLERANCE * Sphere.extent(positions, count);
+    this.welzl(positions, order, count, [], tolerance);
+    return this;
+  }
+
+  /**
+   * Sets minimal sphere enclosing first `end` points of order, with boundary points on the surface
+   * 
+   * The recursion is at most 4 levels deep, because a sphere is determined by 4 boundary points.
+   */
+  private welzl(positions: Float32Array, order: Uint32Array, end: number, boundary: number[], tolerance: number): void {
+    this.setFromBoundary(positions, boundary);
+    if (boundary.length === 4) {
+      return;
+    }
+
+    for (const i of range(end)) {
+      const index = order[i];
+      if (this.containsPosition(positions, index, tolerance)) {
+        continue;
+      }
+
+      boundary.push(index);
+      this.welzl(positions, order, i, boundary, tolerance);
+      boundary.pop();
+
+      order.copyWithin(1, 0, i);
+      order[0] = index;
+    }
+  }
+
+  private containsPosition(positions: Float32Array, index: number, tolerance: number): boolean {
+    if (this.isEmpty()) {
+      return false;
+    }
+    const {center, radius} = this;
+    const offset = 3 * index;
+    const dx = positions[offset] - center.x;
+    const dy = positions[offset + 1] - center.y;
+    const dz = positions[offset + 2] - center.z;
+    const distance = Math.sqrt(dx ** 2 + dy ** 2 + dz ** 2);
+    return distance <= radius + tolerance;
+  }
+
+  /**
+   * Sets the smallest sphere having all boundary points on its surface
+   */
+  private setFromBoundary(positions: Float32Array, boundary: number[]): void {
+    const {center} = this;
+    if (boundary.length === 0) {
+      this.setEmpty();
+      return;
+    }
+
+    const offsetA = 3 * boundary[0];
+    const ax = positions[offsetA];
+    const ay = positions[offsetA + 1];
+    const az = positions[offsetA + 2];
+    if (boundary.length === 1) {
+      center.set(ax, ay, az);
+      this.radius = 0;
+      return;
+    }
+
+    const offsetB = 3 * boundary[1];
+    const bx = positions[offsetB] - ax;
+    const by = positions[offsetB + 1] - ay;
+    const bz = positions[offsetB + 2] - az;
+    if (boundary.length === 2) {
+      center.set(ax + bx / 2, ay + by / 2, az + bz / 2);
+      this.radius = Math.sqrt(bx ** 2 + by ** 2 + bz ** 2) / 2;
+      return;
+    }
+
+    // relative to a: center = (|b|^2 (c × n) + |c|^2 (n × b)) / (2 |n|^2), where n = b × c
+    const offsetC = 3 * boundary[2];
+    const cx = positions[offsetC] - ax;
+    const cy = positions[offsetC + 1] - ay;
+    const cz = positions[offsetC + 2] - az;
+    const b2 = bx ** 2 + by ** 2 + bz ** 2;
+    const c2 = cx ** 2 + cy ** 2 + cz ** 2;
+    const nx = by * cz - bz * cy;
+    const ny = bz * cx - bx * cz;
+    const nz = bx * cy - by * cx;
+    const n2 = nx ** 2 + ny ** 2 + nz ** 2;
+
+    // |n|^2 = |b|^2 |c|^2 sin^2, so the test is independent of the scale
+    if (n2 <= EPSILON * b2 * c2) {
+      // collinear points, the sphere over the first pair is expanded to the rest
+      this.setFromBoundary(positions, [boundary[0], boundary[1]]);
+      for (const index of boundary.slice(2)) {
+        this.expandByPosition(positions, index);
+      }
+      return;
+    }
+
+    if (boundary.length === 3) {
+      const ux = b2 * (cy * nz - cz * ny) + c2 * (ny * bz - nz * by);
+      const uy = b2 * (cz * nx - cx * nz) + c2 * (nz * bx - nx * bz);
+      const uz = b2 * (cx * ny - cy * nx) + c2 * (nx * by - ny * bx);
+      const scale = 1 / (2 * n2);
+      center.set(ax + ux * scale, ay + uy * scale, az + uz * scale);
+      this.radius = Math.sqrt(ux ** 2 + uy ** 2 + uz ** 2) * scale;
+      return;
+    }
+
+    // relative to a: center = (|b|^2 (c × d) + |c|^2 (d × b) + |d|^2 (b × c)) / (2 b · (c × d))
+    const offsetD = 3 * boundary[3];
+    const dx = positions[offsetD] - ax;
+    const dy = positions[offsetD + 1] - ay;
+    const dz = positions[offsetD + 2] - az;
+    const d2 = dx ** 2 + dy ** 2 + dz ** 2;
+    const cdx = cy * dz - cz * dy;
+    const cdy = cz * dx - cx * dz;
+    const cdz = cx * dy - cy * dx;
+    const determinant = 2 * (bx * cdx + by * cdy + bz * cdz);
+    if (Math.abs(determinant) <= 2 * EPSILON * Math.sqrt(b2 * c2 * d2)) {
+      // coplanar points, the circle through three of them is expanded to the fourth
+      this.setFromBoundary(positions, [boundary[0], boundary[1], boundary[2]]);
+      this.expandByPosition(positions, boundary[3]);
+      return;
+    }
+
+    const dbx = dy * bz - dz * by;
+    const dby = dz * bx - dx * bz;
+    const dbz = dx * by - dy * bx;
+    const ux = (b2 * cdx + c2 * dbx + d2 * nx) / determinant;
+    const uy = (b2 * cdy + c2 * dby + d2 * ny) / determinant;
+    const uz = (b2 * cdz + c2 * dbz + d2 * nz) / determinant;
+    center.set(ax + ux, ay + uy, az + uz);
+    this.radius = Math.sqrt(ux ** 2 + uy ** 2 + uz ** 2);
+  }
+
+  private expandByPosition(positions: Float32Array, index: number): void {
+    const offset = 3 * index;
+    this.expandByCoordinates(positions[offset], positions[offset + 1], positions[offset + 2]);
+  }
+
+  /**
+   * Moves center toward the point, so that the far side stays on the surface
+   */
+  private expandByCoordinates(x: number, y: number, z: number): void {
+    const {center, radius} = this;
+    const dx = x - center.x;
+    const dy = y - center.y;
+    const dz = z - center.z;
+    const distance = Math.sqrt(dx ** 2 + dy ** 2 + dz ** 2);
+    if (distance <= radius) {
+      return;
+    }
+    const newRadius = (radius + distance) / 2;
+    const shift = (newRadius - radius) / distance;
+    center.set(center.x + dx * shift, center.y + dy * shift, center.z + dz * shift);
+    this.radius = newRadius;
+  }
+
+  /**
+   * Calculates the diagonal length of the axis-aligned box enclosing positions
+   */
+  private static extent(positions: Float32Array, count: number): number {
+    let squaredLength = 0;
+    for (const axis of range(3)) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const index of range(count)) {
+        const value = positions[3 * index + axis];
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+      squaredLength += (max - min) ** 2;
+    }
+    return Math.sqrt(squaredLength);
+  }
+
+  private static farthestIndex(positions: Float32Array, count: number, from: number): number {
+    const offset = 3 * from;
+    const x = positions[offset];
+    const y = positions[offset + 1];
+    const z = positions[offset + 2];
+    let farthest = from;
+    let farthestSquaredDistance = -1;
+    for (const index of range(count)) {
+      const other = 3 * index;
+      const squaredDistance = (positions[other] - x) ** 2 + (positions[other + 1] - y) ** 2 + (positions[other + 2] - z) ** 2;
+      if (squaredDistance > farthestSquaredDistance) {
+        farthest = index;
+        farthestSquaredDistance = squaredDistance;
+      }
+    }
+    return farthest;
+  }
+}
+
+export {Sphere};
+export type {SphereFromPositionsOptions};
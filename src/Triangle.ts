@@ -0,0 +1,358 @@
+import type { Clonable } from "./Clonable";
+import { Vector3 } from "./Vector3";
+import type { Vector2 } from "./Vector2";
+
+const EPSILON = 1.0e-8;
+
+/**
+ * Triangle in 3D space with vertices `a`, `b` and `c`.
+ * 
+ * The front face is the side from which the vertices are seen counter-clockwise,
+ * which is the side {@link Triangle.normal} faces.
+ * Barycentric coordinates `(u, v, w)` express a point as `u * a + v * b + w * c` with `u + v + w = 1`.
+ */
+class Triangle implements Clonable<Triangle> {
+  /**
+   * @example
+   * ```ts
+   * const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(0, 1, 0));
+   * console.log(t.a); // (0, 0, 0)
+   * ```
+   */
+  readonly a: Vector3;
+
+  /**
+   * @example
+   * ```ts
+   * const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(0, 1, 0));
+   * console.log(t.b); // (1, 0, 0)
+   * ```
+   */
+  readonly b: Vector3;
+
+  /**
+   * @example
+   * ```ts
+   * const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(0, 1, 0));
+   * console.log(t.c); // (0, 1, 0)
+   * ```
+   */
+  readonly c: Vector3;
+
+  private static _tmpVector?: Vector3;
+  private static get tmpVector(): Vector3 {
+    if (!this._tmpVector) {
+      this._tmpVector = Vector3.zero();
+    }
+    return this._tmpVector;
+  }
+
+  /**
+   * Creates a new triangle. The vectors are copied, not referenced.
+   * @param a first vertex
+   * @param b second vertex
+   * @param c third vertex
+   * 
+   * @example
+   * ```ts
+   * const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(0, 1, 0));
+   * ```
+   */
+  constructor(a: Vector3, b: Vector3, c: Vector3) {
+    this.a = a.clone();
+    this.b = b.clone();
+    this.c = c.clone();
+  }
+
+  /**
+   * Creates new instance has same vertices (pure)
+   * @returns new cloned triangle instance
+   */
+  clone(): Triangle {
+    return new Triangle(this.a, this.b, this.c);
+  }
+
+  /**
+   * Sets vertices (mutates this)
+   * @param a first vertex
+   * @param b second vertex
+   * @param c third vertex
+   * @returns this instance, for method chaining
+   */
+  set(a: Vector3, b: Vector3, c: Vector3): Triangle {
+    this.a.copy(a);
+    this.b.copy(b);
+    this.c.copy(c);
+    return this;
+  }
+
+  /**
+   * Copies vertices from other triangle (mutates this)
+   * @param other other triangle
+   * @returns this instance, for method chaining
+   */
+  copy(other: Triangle): Triangle {
+    return this.set(other.a, other.b, other.c);
+  }
+
+  /**
+   * Calculates unit normal of this triangle (mutates out)
+   * 
+   * The normal faces the side from which the vertices are seen counter-clockwise.
+   * If the triangle is degenerate, the normal becomes zero.
+   * @param out vector instance to receive normal
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(0, 1, 0));
+   * const n = Vector3.zero();
+   * t.normal(n);
+   * console.log(n); // (0, 0, 1)
+   * ```
+   */
+  normal(out: Vector3): Vector3 {
+    const {tmpVector} = Triangle;
+    const {a, b, c} = this;
+    tmpVector.copy(c).subtract(a);
+    return out.copy(b).subtract(a).cross(tmpVector).normalize();
+  }
+
+  /**
+   * Calculates area of this triangle (pure)
+   * @returns area
+   * 
+   * @example
+   * ```ts
+   * const t = new Triangle(new Vector3(0, 0, 0), new Vector3(2, 0, 0), new Vector3(0, 3, 0));
+   * console.log(t.area()); // 3
+   * ```
+   */
+  area(): number {
+    const {tmpVector} = Triangle;
+    const {a, b, c} = this;
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const acx = c.x - a.x;
+    const acy = c.y - a.y;
+    const acz = c.z - a.z;
+    tmpVector.set(
+      aby * acz - abz * acy,
+      abz * acx - abx * acz,
+      abx * acy - aby * acx
+    );
+    return tmpVector.length() / 2;
+  }
+
+  /**
+   * Calculates barycentric coordinates of point (mutates out)
+   * 
+   * A point off the plane of this triangle is treated as its projection onto the plane.
+   * @param point point
+   * @param out vector instance to receive weights `(u, v, w)` of `a`, `b` and `c`
+   * @returns out vector if this triangle is not degenerate, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(0, 1, 0));
+   * const weights = Vector3.zero();
+   * t.barycentric(new Vector3(0.25, 0.5, 0), weights);
+   * console.log(weights); // (0.25, 0.25, 0.5)
+   * ```
+   */
+  barycentric(point: Vector3, out: Vector3): Vector3 | null {
+    const {a, b, c} = this;
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const acx = c.x - a.x;
+    const acy = c.y - a.y;
+    const acz = c.z - a.z;
+    const apx = point.x - a.x;
+    const apy = point.y - a.y;
+    const apz = point.z - a.z;
+
+    // solves the normal equations of ap = v * ab + w * ac by Cramer's rule
+    const d00 = abx * abx + aby * aby + abz * abz;
+    const d01 = abx * acx + aby * acy + abz * acz;
+    const d11 = acx * acx + acy * acy + acz * acz;
+    const d20 = apx * abx + apy * aby + apz * abz;
+    const d21 = apx * acx + apy * acy + apz * acz;
+    // equals the squared length of ab × ac, compared relative to the edge lengths to be scale independent
+    const denominator = d00 * d11 - d01 * d01;
+    if (denominator <= EPSILON * d00 * d11) {
+      return null;
+    }
+
+    const v = (d11 * d20 - d01 * d21) / denominator;
+    const w = (d00 * d21 - d01 * d20) / denominator;
+    return out.set(1 - v - w, v, w);
+  }
+
+  /**
+   * Checks whether the projection of point onto the plane of this triangle is inside or on the boundary of this triangle (pure)
+   * @param point point
+   * @returns `true` if this triangle contains point, always `false` for a degenerate triangle
+   * 
+   * @example
+   * ```ts
+   * const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(0, 1, 0));
+   * console.log(t.containsPoint(new Vector3(0.25, 0.25, 0))); // true
+   * console.log(t.containsPoint(new Vector3(1, 1, 0))); // false
+   * ```
+   */
+  containsPoint(point: Vector3): boolean {
+    const weights = this.barycentric(point, Triangle.tmpVector);
+    if (!weights) {
+      return false;
+    }
+    const {x: u, y: v, z: w} = weights;
+    return u >= 0 && v >= 0 && w >= 0;
+  }
+
+  /**
+   * Calculates the closest point on this triangle to point (mutates out)
+   * 
+   * Determines the Voronoi region of point among the vertices, edges and face of this triangle.
+   * @param point point
+   * @param out vector instance to receive the closest point
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(0, 1, 0));
+   * const closest = Vector3.zero();
+   * t.closestPointToPoint(new Vector3(2, -1, 3), closest);
+   * console.log(closest); // (1, 0, 0)
+   * ```
+   */
+  closestPointToPoint(point: Vector3, out: Vector3): Vector3 {
+    const {a, b, c} = this;
+    const abx = b.x - a.x;
+    const aby = b.y - a.y;
+    const abz = b.z - a.z;
+    const acx = c.x - a.x;
+    const acy = c.y - a.y;
+    const acz = c.z - a.z;
+
+    // vertex region of a
+    const apx = point.x - a.x;
+    const apy = point.y - a.y;
+    const apz = point.z - a.z;
+    const d1 = abx * apx + aby * apy + abz * apz;
+    const d2 = acx * apx + acy * apy + acz * apz;
+    if (d1 <= 0 && d2 <= 0) {
+      return out.copy(a);
+    }
+
+    // vertex region of b
+    const bpx = point.x - b.x;
+    const bpy = point.y - b.y;
+    const bpz = point.z - b.z;
+    const d3 = abx * bpx + aby * bpy + abz * bpz;
+    const d4 = acx * bpx + acy * bpy + acz * bpz;
+    if (d3 >= 0 && d4 <= d3) {
+      return out.copy(b);
+    }
+
+    // edge region of ab
+    const vc = d1 * d4 - d3 * d2;
+    if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+      const v = d1 / (d1 - d3);
+      return out.set(a.x + v * abx, a.y + v * aby, a.z + v * abz);
+    }
+
+    // vertex region of c
+    const cpx = point.x - c.x;
+    const cpy = point.y - c.y;
+    const cpz = point.z - c.z;
+    const d5 = abx * cpx + aby * cpy + abz * cpz;
+    const d6 = acx * cpx + acy * cpy + acz * cpz;
+    if (d6 >= 0 && d5 <= d6) {
+      return out.copy(c);
+    }
+
+    // edge region of ac
+    const vb = d5 * d2 - d1 * d6;
+    if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+      const w = d2 / (d2 - d6);
+      return out.set(a.x + w * acx, a.y + w * acy, a.z + w * acz);
+    }
+
+    // edge region of bc
+    const va = d3 * d6 - d5 * d4;
+    if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+      const w = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+      return out.set(
+        b.x + w * (c.x - b.x),
+        b.y + w * (c.y - b.y),
+        b.z + w * (c.z - b.z)
+      );
+    }
+
+    // face region
+    const denominator = 1 / (va + vb + vc);
+    const v = vb * denominator;
+    const w = vc * denominator;
+    return out.set(
+      a.x + v * abx + w * acx,
+      a.y + v * aby + w * acy,
+      a.z + v * abz + w * acz
+    );
+  }
+
+  /**
+   * Interpolates per-vertex 2D attributes such as texture coordinates by barycentric weights (mutates out)
+   * @param weights barycentric weights `(u, v, w)`, e.g. from {@link Triangle.barycentric}
+   * @param a attribute of first vertex
+   * @param b attribute of second vertex
+   * @param c attribute of third vertex
+   * @param out vector instance to receive the interpolated attribute
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const weights = Vector3.zero();
+   * if (triangle.barycentric(hitPoint, weights)) {
+   *   const uv = Vector2.zero();
+   *   Triangle.interpolateVector2(weights, uvA, uvB, uvC, uv);
+   * }
+   * ```
+   */
+  static interpolateVector2(weights: Vector3, a: Vector2, b: Vector2, c: Vector2, out: Vector2): Vector2 {
+    const {x: u, y: v, z: w} = weights;
+    return out.set(
+      u * a.x + v * b.x + w * c.x,
+      u * a.y + v * b.y + w * c.y
+    );
+  }
+
+  /**
+   * Interpolates per-vertex 3D attributes such as normals by barycentric weights (mutates out)
+   * 
+   * The result is not normalized; call `normalize()` on it when interpolating normals.
+   * @param weights barycentric weights `(u, v, w)`, e.g. from {@link Triangle.barycentric}
+   * @param a attribute of first vertex
+   * @param b attribute of second vertex
+   * @param c attribute of third vertex
+   * @param out vector instance to receive the interpolated attribute
+   * @returns out vector
+   * 
+   * @example
+   * ```ts
+   * const normal = Vector3.zero();
+   * Triangle.interpolateVector3(weights, normalA, normalB, normalC, normal).normalize();
+   * ```
+   */
+  static interpolateVector3(weights: Vector3, a: Vector3, b: Vector3, c: Vector3, out: Vector3): Vector3 {
+    const {x: u, y: v, z: w} = weights;
+    return out.set(
+      u * a.x + v * b.x + w * c.x,
+      u * a.y + v * b.y + w * c.y,
+      u * a.z + v * b.z + w * c.z
+    );
+  }
+}
+
+export {Triangle};
@@ -1,15 +1,17 @@
 import type { Vector } from "./Vector";
 import type { AdditiveGroup } from "./AdditiveGroup";
 import type { Scalable } from "./Scalable";
-import type { Normalizable } from "./Normalizable";
+import type { Interpolatable } from "./Interpolatable";
+import type { InnerProductSpace } from "./InnerProductSpace";
 import type { Clonable } from "./Clonable";
 import { Matrix4 } from "./Matrix4";
 import type { Quaternion } from "./Quaternion";
+import { clamp } from "./functions";
 import { Matrix3 } from "./Matrix3";
 
 const INDEX_X = 0;
 
-class Vector1 implements Vector<1>, AdditiveGroup<Vector1>, Scalable<Vector1>, Normalizable<Vector1>, Clonable<Vector1> {
+class Vector1 implements Vector<1>, AdditiveGroup<Vector1>, Scalable<Vector1>, Interpolatable<Vector1>, InnerProductSpace<Vector1>, Clonable<Vector1> {
   /**
    * @example
    * ```ts
@@ -287,6 +289,177 @@ class Vector1 implements Vector<1>, AdditiveGroup<Vector1>, Scalable<Vector1>, N
     return this;
   }
 
+  /**
+   * Calculates the dot product of this and other vector (pure)
+   * @param other other vector
+   * @returns the dot product of this and other
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector1(2);
+   * const v2 = new Vector1(3);
+   * console.log(v1.dot(v2)); // 6
+   * ```
+   */
+  dot(other: Vector1): number {
+    return this.x * other.x;
+  }
+
+  /**
+   * Calculates the angle between this and other vector (pure)
+   * @param other other vector
+   * @returns the angle in radians in range [0, π], or `0` if either vector is zero
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector1(1);
+   * const v2 = new Vector1(-1);
+   * console.log(v1.angleTo(v2)); // Math.PI
+   * ```
+   */
+  angleTo(other: Vector1): number {
+    const denominator = this.length() * other.length();
+    if (denominator <= 0) {
+      return 0;
+    }
+    return Math.acos(clamp(this.dot(other) / denominator, -1, 1));
+  }
+
+  /**
+   * Projects this vector onto other vector (mutates this)
+   * @param other vector to project onto
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector1(2);
+   * const v2 = new Vector1(-3);
+   * v1.projectOnto(v2);
+   * console.log(v1.x); // 2
+   * ```
+   */
+  projectOnto(other: Vector1): Vector1 {
+    const squaredLength = other.dot(other);
+    if (squaredLength <= 0) {
+      this.set(0);
+      return this;
+    }
+    const scalar = this.dot(other) / squaredLength;
+    this.copy(other);
+    return this.multiplyScalar(scalar);
+  }
+
+  /**
+   * Projects this vector onto other vector (mutates out)
+   * @param other vector to project onto
+   * @param out vector instance to receive projection
+   * @returns out instance, for method chaining
+   */
+  projectOntoTo(other: Vector1, out: Vector1): Vector1 {
+    out.copy(this);
+    return out.projectOnto(other);
+  }
+
+  /**
+   * Removes the component of this vector parallel to other vector (mutates this)
+   * @param other vector to reject from
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector1(2);
+   * const v2 = new Vector1(-3);
+   * v1.rejectFrom(v2);
+   * console.log(v1.x); // 0
+   * ```
+   */
+  rejectFrom(other: Vector1): Vector1 {
+    const squaredLength = other.dot(other);
+    if (squaredLength <= 0) {
+      return this;
+    }
+    const scalar = this.dot(other) / squaredLength;
+    this.x -= other.x * scalar;
+    return this;
+  }
+
+  /**
+   * Removes the component of this vector parallel to other vector (mutates out)
+   * @param other vector to reject from
+   * @param out vector instance to receive rejection
+   * @returns out instance, for method chaining
+   */
+  rejectFromTo(other: Vector1, out: Vector1): Vector1 {
+    out.copy(this);
+    return out.rejectFrom(other);
+  }
+
+  /**
+   * Reflects this vector off the plane orthogonal to normal (mutates this)
+   * @param normal normal of the reflecting plane (need not be normalized)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector1(2);
+   * const n = new Vector1(1);
+   * v.reflect(n);
+   * console.log(v.x); // -2
+   * ```
+   */
+  reflect(normal: Vector1): Vector1 {
+    const squaredLength = normal.dot(normal);
+    if (squaredLength <= 0) {
+      return this;
+    }
+    const scalar = 2 * this.dot(normal) / squaredLength;
+    this.x -= normal.x * scalar;
+    return this;
+  }
+
+  /**
+   * Reflects this vector off the plane orthogonal to normal (mutates out)
+   * @param normal normal of the reflecting plane (need not be normalized)
+   * @param out vector instance to receive reflection
+   * @returns out instance, for method chaining
+   */
+  reflectTo(normal: Vector1, out: Vector1): Vector1 {
+    out.copy(this);
+    return out.reflect(normal);
+  }
+
+  /**
+   * Linearly interpolates this vector toward other vector (mutates this)
+   * @param other target vector
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector1(2);
+   * const v2 = new Vector1(4);
+   * v1.lerp(v2, 0.5);
+   * console.log(v1.x); // 3
+   * ```
+   */
+  lerp(other: Vector1, t: number): Vector1 {
+    this.x += (other.x - this.x) * t;
+    return this;
+  }
+
+  /**
+   * Linearly interpolates between vectors a and b (mutates out)
+   * @param a start vector
+   * @param b end vector
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static lerpTo(a: Vector1, b: Vector1, t: number, out: Vector1): Vector1 {
+    out.copy(a);
+    return out.lerp(b, t);
+  }
+
   /**
    * Applies matrix to this vector (mutates this)
    * @param matrix 
@@ -1,16 +1,36 @@
 import type { Vector } from "./Vector";
 import type { AdditiveGroup } from "./AdditiveGroup";
 import type { Scalable } from "./Scalable";
-import type { Normalizable } from "./Normalizable";
+import type { Interpolatable } from "./Interpolatable";
+import type { InnerProductSpace } from "./InnerProductSpace";
 import type { Clonable } from "./Clonable";
 import { Matrix4 } from "./Matrix4";
 import type { Quaternion } from "./Quaternion";
+import { clamp } from "./functions";
+import type { Matrix2 } from "./Matrix2";
 import { Matrix3 } from "./Matrix3";
 
 const INDEX_X = 0;
 const INDEX_Y = 1;
 
-class Vector2 implements Vector<2>, AdditiveGroup<Vector2>, Scalable<Vector2>, Normalizable<Vector2>, Clonable<Vector2> {
+const DEFAULT_AS_DIRECTION = false;
+
+/**
+ * Options for transforming a 2D vector by a 3x3 matrix.
+ */
+type ApplyMatrix3Options = {
+  /**
+   * Determines whether the vector is treated as a direction or a point.
+   * 
+   * - `true`: Treated as a **direction** (z = 0), translation is ignored.
+   * - `false` (default): Treated as a **point** (z = 1), translation is applied.
+   * 
+   * @default false
+   */
+  asDirection?: boolean;
+};
+
+class Vector2 implements Vector<2>, AdditiveGroup<Vector2>, Scalable<Vector2>, Interpolatable<Vector2>, InnerProductSpace<Vector2>, Clonable<Vector2> {
   /**
    * @example
    * ```ts
@@ -296,6 +316,321 @@ class Vector2 implements Vector<2>, AdditiveGroup<Vector2>, Scalable<Vector2>, N
     return this;
   }
 
+  /**
+   * Multiplies each element by the corresponding element of other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(2, -3);
+   * const v2 = new Vector2(4, 2);
+   * v1.multiply(v2);
+   * console.log(v1); // (8, -6)
+   * ```
+   */
+  multiply(other: Vector2): Vector2 {
+    this.x = this.x * other.x;
+    this.y = this.y * other.y;
+    return this;
+  }
+
+  /**
+   * Multiplies each element by the corresponding element of other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  multiplyTo(other: Vector2, out: Vector2): Vector2 {
+    out.copy(this);
+    return out.multiply(other);
+  }
+
+  /**
+   * Divides each element by the corresponding element of other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(2, -3);
+   * const v2 = new Vector2(4, 2);
+   * v1.divide(v2);
+   * console.log(v1); // (0.5, -1.5)
+   * ```
+   */
+  divide(other: Vector2): Vector2 {
+    this.x = this.x / other.x;
+    this.y = this.y / other.y;
+    return this;
+  }
+
+  /**
+   * Divides each element by the corresponding element of other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  divideTo(other: Vector2, out: Vector2): Vector2 {
+    out.copy(this);
+    return out.divide(other);
+  }
+
+  /**
+   * Sets each element to the smaller of this and other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(2, -3);
+   * const v2 = new Vector2(4, 2);
+   * v1.min(v2);
+   * console.log(v1); // (2, -3)
+   * ```
+   */
+  min(other: Vector2): Vector2 {
+    this.x = Math.min(this.x, other.x);
+    this.y = Math.min(this.y, other.y);
+    return this;
+  }
+
+  /**
+   * Sets each element to the smaller of this and other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  minTo(other: Vector2, out: Vector2): Vector2 {
+    out.copy(this);
+    return out.min(other);
+  }
+
+  /**
+   * Sets each element to the larger of this and other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(2, -3);
+   * const v2 = new Vector2(4, 2);
+   * v1.max(v2);
+   * console.log(v1); // (4, 2)
+   * ```
+   */
+  max(other: Vector2): Vector2 {
+    this.x = Math.max(this.x, other.x);
+    this.y = Math.max(this.y, other.y);
+    return this;
+  }
+
+  /**
+   * Sets each element to the larger of this and other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  maxTo(other: Vector2, out: Vector2): Vector2 {
+    out.copy(this);
+    return out.max(other);
+  }
+
+  /**
+   * Clamps each element into the range given by min and max vectors (mutates this)
+   * @param min vector of lower bounds
+   * @param max vector of upper bounds
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector2(2, -3);
+   * const min = new Vector2(0, 0);
+   * const max = new Vector2(1, 1);
+   * v.clamp(min, max);
+   * console.log(v); // (1, 0)
+   * ```
+   */
+  clamp(min: Vector2, max: Vector2): Vector2 {
+    this.x = clamp(this.x, min.x, max.x);
+    this.y = clamp(this.y, min.y, max.y);
+    return this;
+  }
+
+  /**
+   * Clamps each element into the range given by min and max vectors (mutates out)
+   * @param min vector of lower bounds
+   * @param max vector of upper bounds
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  clampTo(min: Vector2, max: Vector2, out: Vector2): Vector2 {
+    out.copy(this);
+    return out.clamp(min, max);
+  }
+
+  /**
+   * Sets each element to its absolute value (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector2(1.5, -2.5);
+   * v.abs();
+   * console.log(v); // (1.5, 2.5)
+   * ```
+   */
+  abs(): Vector2 {
+    this.x = Math.abs(this.x);
+    this.y = Math.abs(this.y);
+    return this;
+  }
+
+  /**
+   * Sets each element to its absolute value (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  absTo(out: Vector2): Vector2 {
+    out.copy(this);
+    return out.abs();
+  }
+
+  /**
+   * Rounds each element down to the nearest integer (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector2(1.5, -2.5);
+   * v.floor();
+   * console.log(v); // (1, -3)
+   * ```
+   */
+  floor(): Vector2 {
+    this.x = Math.floor(this.x);
+    this.y = Math.floor(this.y);
+    return this;
+  }
+
+  /**
+   * Rounds each element down to the nearest integer (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  floorTo(out: Vector2): Vector2 {
+    out.copy(this);
+    return out.floor();
+  }
+
+  /**
+   * Rounds each element up to the nearest integer (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector2(1.5, -2.5);
+   * v.ceil();
+   * console.log(v); // (2, -2)
+   * ```
+   */
+  ceil(): Vector2 {
+    this.x = Math.ceil(this.x);
+    this.y = Math.ceil(this.y);
+    return this;
+  }
+
+  /**
+   * Rounds each element up to the nearest integer (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  ceilTo(out: Vector2): Vector2 {
+    out.copy(this);
+    return out.ceil();
+  }
+
+  /**
+   * Rounds each element to the nearest integer (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector2(1.5, -2.5);
+   * v.round();
+   * console.log(v); // (2, -2)
+   * ```
+   */
+  round(): Vector2 {
+    this.x = Math.round(this.x);
+    this.y = Math.round(this.y);
+    return this;
+  }
+
+  /**
+   * Rounds each element to the nearest integer (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  roundTo(out: Vector2): Vector2 {
+    out.copy(this);
+    return out.round();
+  }
+
+  /**
+   * Sets each element to its sign (`-1`, `0` or `1`) (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector2(1.5, -2.5);
+   * v.sign();
+   * console.log(v); // (1, -1)
+   * ```
+   */
+  sign(): Vector2 {
+    this.x = Math.sign(this.x);
+    this.y = Math.sign(this.y);
+    return this;
+  }
+
+  /**
+   * Sets each element to its sign (`-1`, `0` or `1`) (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  signTo(out: Vector2): Vector2 {
+    out.copy(this);
+    return out.sign();
+  }
+
+  /**
+   * Negates each element (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector2(1.5, -2.5);
+   * v.negate();
+   * console.log(v); // (-1.5, 2.5)
+   * ```
+   */
+  negate(): Vector2 {
+    this.x = -this.x;
+    this.y = -this.y;
+    return this;
+  }
+
+  /**
+   * Negates each element (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  negateTo(out: Vector2): Vector2 {
+    out.copy(this);
+    return out.negate();
+  }
+
   /**
    * Calculates the length of this vector (pure)
    * @returns the length of this vector (always non-negative)
@@ -330,6 +665,228 @@ class Vector2 implements Vector<2>, AdditiveGroup<Vector2>, Scalable<Vector2>, N
     return this.divideScalar(length);
   }
 
+  /**
+   * Calculates the dot product of this and other vector (pure)
+   * @param other other vector
+   * @returns the dot product of this and other
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(1, 2);
+   * const v2 = new Vector2(3, 4);
+   * console.log(v1.dot(v2)); // 11
+   * ```
+   */
+  dot(other: Vector2): number {
+    return this.x * other.x + this.y * other.y;
+  }
+
+  /**
+   * Calculates the angle between this and other vector (pure)
+   * @param other other vector
+   * @returns the angle in radians in range [0, π], or `0` if either vector is zero
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(1, 0);
+   * const v2 = new Vector2(0, 1);
+   * console.log(v1.angleTo(v2)); // Math.PI / 2
+   * ```
+   */
+  angleTo(other: Vector2): number {
+    const denominator = this.length() * other.length();
+    if (denominator <= 0) {
+      return 0;
+    }
+    return Math.acos(clamp(this.dot(other) / denominator, -1, 1));
+  }
+
+  /**
+   * Calculates the signed angle from this to other vector (pure)
+   * @param other other vector
+   * @returns the angle in radians in range [-π, π], positive when counter-clockwise
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(1, 0);
+   * const v2 = new Vector2(0, -1);
+   * console.log(v1.signedAngleTo(v2)); // -Math.PI / 2
+   * ```
+   */
+  signedAngleTo(other: Vector2): number {
+    const cross = this.x * other.y - this.y * other.x;
+    return Math.atan2(cross, this.dot(other));
+  }
+
+  /**
+   * Projects this vector onto other vector (mutates this)
+   * @param other vector to project onto
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(2, 3);
+   * const v2 = new Vector2(1, 0);
+   * v1.projectOnto(v2);
+   * console.log(v1); // (2, 0)
+   * ```
+   */
+  projectOnto(other: Vector2): Vector2 {
+    const squaredLength = other.dot(other);
+    if (squaredLength <= 0) {
+      this.set(0, 0);
+      return this;
+    }
+    const scalar = this.dot(other) / squaredLength;
+    this.copy(other);
+    return this.multiplyScalar(scalar);
+  }
+
+  /**
+   * Projects this vector onto other vector (mutates out)
+   * @param other vector to project onto
+   * @param out vector instance to receive projection
+   * @returns out instance, for method chaining
+   */
+  projectOntoTo(other: Vector2, out: Vector2): Vector2 {
+    out.copy(this);
+    return out.projectOnto(other);
+  }
+
+  /**
+   * Removes the component of this vector parallel to other vector (mutates this)
+   * @param other vector to reject from
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(2, 3);
+   * const v2 = new Vector2(1, 0);
+   * v1.rejectFrom(v2);
+   * console.log(v1); // (0, 3)
+   * ```
+   */
+  rejectFrom(other: Vector2): Vector2 {
+    const squaredLength = other.dot(other);
+    if (squaredLength <= 0) {
+      return this;
+    }
+    const scalar = this.dot(other) / squaredLength;
+    this.x -= other.x * scalar;
+    this.y -= other.y * scalar;
+    return this;
+  }
+
+  /**
+   * Removes the component of this vector parallel to other vector (mutates out)
+   * @param other vector to reject from
+   * @param out vector instance to receive rejection
+   * @returns out instance, for method chaining
+   */
+  rejectFromTo(other: Vector2, out: Vector2): Vector2 {
+    out.copy(this);
+    return out.rejectFrom(other);
+  }
+
+  /**
+   * Reflects this vector off the plane orthogonal to normal (mutates this)
+   * @param normal normal of the reflecting plane (need not be normalized)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector2(1, -1);
+   * const n = new Vector2(0, 1);
+   * v.reflect(n);
+   * console.log(v); // (1, 1)
+   * ```
+   */
+  reflect(normal: Vector2): Vector2 {
+    const squaredLength = normal.dot(normal);
+    if (squaredLength <= 0) {
+      return this;
+    }
+    const scalar = 2 * this.dot(normal) / squaredLength;
+    this.x -= normal.x * scalar;
+    this.y -= normal.y * scalar;
+    return this;
+  }
+
+  /**
+   * Reflects this vector off the plane orthogonal to normal (mutates out)
+   * @param normal normal of the reflecting plane (need not be normalized)
+   * @param out vector instance to receive reflection
+   * @returns out instance, for method chaining
+   */
+  reflectTo(normal: Vector2, out: Vector2): Vector2 {
+    out.copy(this);
+    return out.reflect(normal);
+  }
+
+  /**
+   * Linearly interpolates this vector toward other vector (mutates this)
+   * @param other target vector
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(0, 2);
+   * const v2 = new Vector2(4, 6);
+   * v1.lerp(v2, 0.5);
+   * console.log(v1); // (2, 4)
+   * ```
+   */
+  lerp(other: Vector2, t: number): Vector2 {
+    this.x += (other.x - this.x) * t;
+    this.y += (other.y - this.y) * t;
+    return this;
+  }
+
+  /**
+   * Linearly interpolates between vectors a and b (mutates out)
+   * @param a start vector
+   * @param b end vector
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static lerpTo(a: Vector2, b: Vector2, t: number, out: Vector2): Vector2 {
+    out.copy(a);
+    return out.lerp(b, t);
+  }
+
+  /**
+   * Linearly interpolates this vector toward other vector, then normalizes the result (mutates this)
+   * @param other target vector
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector2(1, 0);
+   * const v2 = new Vector2(0, 1);
+   * v1.nlerp(v2, 0.5);
+   * console.log(v1); // (√2/2, √2/2)
+   * ```
+   */
+  nlerp(other: Vector2, t: number): Vector2 {
+    return this.lerp(other, t).normalize();
+  }
+
+  /**
+   * Linearly interpolates between vectors a and b, then normalizes the result (mutates out)
+   * @param a start vector
+   * @param b end vector
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static nlerpTo(a: Vector2, b: Vector2, t: number, out: Vector2): Vector2 {
+    out.copy(a);
+    return out.nlerp(b, t);
+  }
+
   /**
    * Rotates vector by given angle in radians (mutates this)
    * @param radian angle in radians, measured counter-clockwise from the positive x-axis
@@ -355,12 +912,51 @@ class Vector2 implements Vector<2>, AdditiveGroup<Vector2>, Scalable<Vector2>, N
    * Applies matrix to this vector (mutates this)
    * @param matrix 
    * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector2(1, 2);
+   * const m = new Matrix2(1, 2, 3, 4);
+   * v.applyMatrix2(m);
+   * console.log(v); // (7, 10)
+   * ```
+   */
+  applyMatrix2(matrix: Matrix2): Vector2 {
+    const [e00, e01, e10, e11] = matrix.elements;
+    const {x, y} = this;
+    return this.set(e00 * x + e10 * y, e01 * x + e11 * y);
+  }
+
+  /**
+   * Applies matrix to this vector (mutates this)
+   * @param matrix 
+   * @param options 
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const m = Matrix3.identity();
+   * m.setTranslation2D(new Vector2(2, 3));
+   * const point = new Vector2(1, 1);
+   * point.applyMatrix3(m);
+   * console.log(point); // (3, 4)
+   * const direction = new Vector2(1, 1);
+   * direction.applyMatrix3(m, {asDirection: true});
+   * console.log(direction); // (1, 1)
+   * ```
    */
-  applyMatrix3(matrix: Matrix3): Vector2 {
+  applyMatrix3(matrix: Matrix3, options?: ApplyMatrix3Options): Vector2 {
     const {tmpMatrix3} = Vector2;
     tmpMatrix3.copy(matrix);
-    const {x, y} = tmpMatrix3._applyVector(this.x, this.y, 0);
-    this.set(x, y);
+
+    const asDirection = options?.asDirection ?? DEFAULT_AS_DIRECTION;
+    const beforeZ = asDirection ? 0 : 1;
+
+    const {x, y, z} = tmpMatrix3._applyVector(this.x, this.y, beforeZ);
+
+    const afterX = asDirection || z === 0 ? x : x / z;
+    const afterY = asDirection || z === 0 ? y : y / z;
+    this.set(afterX, afterY);
     return this;
   }
 
@@ -392,3 +988,4 @@ class Vector2 implements Vector<2>, AdditiveGroup<Vector2>, Scalable<Vector2>, N
 }
 
 export {Vector2};
+export type {ApplyMatrix3Options};
@@ -1,16 +1,22 @@
 import type { Vector } from "./Vector";
 import type { AdditiveGroup } from "./AdditiveGroup";
 import type { Scalable } from "./Scalable";
-import type { Normalizable } from "./Normalizable";
+import type { Interpolatable } from "./Interpolatable";
+import type { InnerProductSpace } from "./InnerProductSpace";
 import type { Clonable } from "./Clonable";
-import { Matrix4 } from "./Matrix4";
+import { DEFAULT_DEPTH_ZERO_TO_ONE, DEFAULT_REVERSED_Z, Matrix4 } from "./Matrix4";
+import type { ProjectionOptions } from "./Matrix4";
 import type { Quaternion } from "./Quaternion";
+import { clamp } from "./functions";
 import { Matrix3 } from "./Matrix3";
+import type { Viewport } from "./types";
 
 const INDEX_X = 0;
 const INDEX_Y = 1;
 const INDEX_Z = 2;
 
+const EPSILON = 1.0e-8;
+
 const DEFAULT_AS_DIRECTION = false;
 
 /**
@@ -28,7 +34,7 @@ type ApplyMatrix4Options = {
   asDirection?: boolean;
 };
 
-class Vector3 implements Vector<3>, AdditiveGroup<Vector3>, Scalable<Vector3>, Normalizable<Vector3>, Clonable<Vector3> {
+class Vector3 implements Vector<3>, AdditiveGroup<Vector3>, Scalable<Vector3>, Interpolatable<Vector3>, InnerProductSpace<Vector3>, Clonable<Vector3> {
   /**
    * @example
    * ```ts
@@ -63,6 +69,14 @@ class Vector3 implements Vector<3>, AdditiveGroup<Vector3>, Scalable<Vector3>, N
     return this._tmpMatrix4;
   }
 
+  private static _tmpInverseMatrix4?: Matrix4;
+  private static get tmpInverseMatrix4(): Matrix4 {
+    if (!this._tmpInverseMatrix4) {
+      this._tmpInverseMatrix4 = Matrix4.identity();
+    }
+    return this._tmpInverseMatrix4;
+  }
+
   /**
    * @example
    * ```ts
@@ -355,6 +369,332 @@ class Vector3 implements Vector<3>, AdditiveGroup<Vector3>, Scalable<Vector3>, N
     return this;
   }
 
+  /**
+   * Multiplies each element by the corresponding element of other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(2, -3, 4);
+   * const v2 = new Vector3(4, 2, 8);
+   * v1.multiply(v2);
+   * console.log(v1); // (8, -6, 32)
+   * ```
+   */
+  multiply(other: Vector3): Vector3 {
+    this.x = this.x * other.x;
+    this.y = this.y * other.y;
+    this.z = this.z * other.z;
+    return this;
+  }
+
+  /**
+   * Multiplies each element by the corresponding element of other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  multiplyTo(other: Vector3, out: Vector3): Vector3 {
+    out.copy(this);
+    return out.multiply(other);
+  }
+
+  /**
+   * Divides each element by the corresponding element of other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(2, -3, 4);
+   * const v2 = new Vector3(4, 2, 8);
+   * v1.divide(v2);
+   * console.log(v1); // (0.5, -1.5, 0.5)
+   * ```
+   */
+  divide(other: Vector3): Vector3 {
+    this.x = this.x / other.x;
+    this.y = this.y / other.y;
+    this.z = this.z / other.z;
+    return this;
+  }
+
+  /**
+   * Divides each element by the corresponding element of other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  divideTo(other: Vector3, out: Vector3): Vector3 {
+    out.copy(this);
+    return out.divide(other);
+  }
+
+  /**
+   * Sets each element to the smaller of this and other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(2, -3, 4);
+   * const v2 = new Vector3(4, 2, 8);
+   * v1.min(v2);
+   * console.log(v1); // (2, -3, 4)
+   * ```
+   */
+  min(other: Vector3): Vector3 {
+    this.x = Math.min(this.x, other.x);
+    this.y = Math.min(this.y, other.y);
+    this.z = Math.min(this.z, other.z);
+    return this;
+  }
+
+  /**
+   * Sets each element to the smaller of this and other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  minTo(other: Vector3, out: Vector3): Vector3 {
+    out.copy(this);
+    return out.min(other);
+  }
+
+  /**
+   * Sets each element to the larger of this and other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(2, -3, 4);
+   * const v2 = new Vector3(4, 2, 8);
+   * v1.max(v2);
+   * console.log(v1); // (4, 2, 8)
+   * ```
+   */
+  max(other: Vector3): Vector3 {
+    this.x = Math.max(this.x, other.x);
+    this.y = Math.max(this.y, other.y);
+    this.z = Math.max(this.z, other.z);
+    return this;
+  }
+
+  /**
+   * Sets each element to the larger of this and other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  maxTo(other: Vector3, out: Vector3): Vector3 {
+    out.copy(this);
+    return out.max(other);
+  }
+
+  /**
+   * Clamps each element into the range given by min and max vectors (mutates this)
+   * @param min vector of lower bounds
+   * @param max vector of upper bounds
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector3(2, -3, 4);
+   * const min = new Vector3(0, 0, 0);
+   * const max = new Vector3(1, 1, 1);
+   * v.clamp(min, max);
+   * console.log(v); // (1, 0, 1)
+   * ```
+   */
+  clamp(min: Vector3, max: Vector3): Vector3 {
+    this.x = clamp(this.x, min.x, max.x);
+    this.y = clamp(this.y, min.y, max.y);
+    this.z = clamp(this.z, min.z, max.z);
+    return this;
+  }
+
+  /**
+   * Clamps each element into the range given by min and max vectors (mutates out)
+   * @param min vector of lower bounds
+   * @param max vector of upper bounds
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  clampTo(min: Vector3, max: Vector3, out: Vector3): Vector3 {
+    out.copy(this);
+    return out.clamp(min, max);
+  }
+
+  /**
+   * Sets each element to its absolute value (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector3(1.5, -2.5, 0);
+   * v.abs();
+   * console.log(v); // (1.5, 2.5, 0)
+   * ```
+   */
+  abs(): Vector3 {
+    this.x = Math.abs(this.x);
+    this.y = Math.abs(this.y);
+    this.z = Math.abs(this.z);
+    return this;
+  }
+
+  /**
+   * Sets each element to its absolute value (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  absTo(out: Vector3): Vector3 {
+    out.copy(this);
+    return out.abs();
+  }
+
+  /**
+   * Rounds each element down to the nearest integer (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector3(1.5, -2.5, 0);
+   * v.floor();
+   * console.log(v); // (1, -3, 0)
+   * ```
+   */
+  floor(): Vector3 {
+    this.x = Math.floor(this.x);
+    this.y = Math.floor(this.y);
+    this.z = Math.floor(this.z);
+    return this;
+  }
+
+  /**
+   * Rounds each element down to the nearest integer (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  floorTo(out: Vector3): Vector3 {
+    out.copy(this);
+    return out.floor();
+  }
+
+  /**
+   * Rounds each element up to the nearest integer (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector3(1.5, -2.5, 0);
+   * v.ceil();
+   * console.log(v); // (2, -2, 0)
+   * ```
+   */
+  ceil(): Vector3 {
+    this.x = Math.ceil(this.x);
+    this.y = Math.ceil(this.y);
+    this.z = Math.ceil(this.z);
+    return this;
+  }
+
+  /**
+   * Rounds each element up to the nearest integer (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  ceilTo(out: Vector3): Vector3 {
+    out.copy(this);
+    return out.ceil();
+  }
+
+  /**
+   * Rounds each element to the nearest integer (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector3(1.5, -2.5, 0);
+   * v.round();
+   * console.log(v); // (2, -2, 0)
+   * ```
+   */
+  round(): Vector3 {
+    this.x = Math.round(this.x);
+    this.y = Math.round(this.y);
+    this.z = Math.round(this.z);
+    return this;
+  }
+
+  /**
+   * Rounds each element to the nearest integer (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  roundTo(out: Vector3): Vector3 {
+    out.copy(this);
+    return out.round();
+  }
+
+  /**
+   * Sets each element to its sign (`-1`, `0` or `1`) (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector3(1.5, -2.5, 0);
+   * v.sign();
+   * console.log(v); // (1, -1, 0)
+   * ```
+   */
+  sign(): Vector3 {
+    this.x = Math.sign(this.x);
+    this.y = Math.sign(this.y);
+    this.z = Math.sign(this.z);
+    return this;
+  }
+
+  /**
+   * Sets each element to its sign (`-1`, `0` or `1`) (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  signTo(out: Vector3): Vector3 {
+    out.copy(this);
+    return out.sign();
+  }
+
+  /**
+   * Negates each element (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector3(1.5, -2.5, 0);
+   * v.negate();
+   * console.log(v); // (-1.5, 2.5, -0)
+   * ```
+   */
+  negate(): Vector3 {
+    this.x = -this.x;
+    this.y = -this.y;
+    this.z = -this.z;
+    return this;
+  }
+
+  /**
+   * Negates each element (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  negateTo(out: Vector3): Vector3 {
+    out.copy(this);
+    return out.negate();
+  }
+
   /**
    * Calculates the length of this vector (pure)
    * @returns the length of this vector (always non-negative)
@@ -389,6 +729,300 @@ class Vector3 implements Vector<3>, AdditiveGroup<Vector3>, Scalable<Vector3>, N
     return this.divideScalar(length);
   }
 
+  /**
+   * Calculates the dot product of this and other vector (pure)
+   * @param other other vector
+   * @returns the dot product of this and other
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(1, 2, 3);
+   * const v2 = new Vector3(4, 5, 6);
+   * console.log(v1.dot(v2)); // 32
+   * ```
+   */
+  dot(other: Vector3): number {
+    return this.x * other.x + this.y * other.y + this.z * other.z;
+  }
+
+  /**
+   * Calculates the angle between this and other vector (pure)
+   * @param other other vector
+   * @returns the angle in radians in range [0, π], or `0` if either vector is zero
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(1, 0, 0);
+   * const v2 = new Vector3(0, 1, 0);
+   * console.log(v1.angleTo(v2)); // Math.PI / 2
+   * ```
+   */
+  angleTo(other: Vector3): number {
+    const denominator = this.length() * other.length();
+    if (denominator <= 0) {
+      return 0;
+    }
+    return Math.acos(clamp(this.dot(other) / denominator, -1, 1));
+  }
+
+  /**
+   * Calculates the signed angle from this to other vector around axis (pure)
+   * @param other other vector
+   * @param axis reference axis, the angle is positive when counter-clockwise seen from its tip
+   * @returns the angle in radians in range [-π, π], or `0` if either vector is zero
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(1, 0, 0);
+   * const v2 = new Vector3(0, 1, 0);
+   * const axis = new Vector3(0, 0, -1);
+   * console.log(v1.signedAngleTo(v2, axis)); // -Math.PI / 2
+   * ```
+   */
+  signedAngleTo(other: Vector3, axis: Vector3): number {
+    const angle = this.angleTo(other);
+    const {x: tx, y: ty, z: tz} = this;
+    const {x: ox, y: oy, z: oz} = other;
+    const x = ty * oz - tz * oy;
+    const y = tz * ox - tx * oz;
+    const z = tx * oy - ty * ox;
+    const sign = x * axis.x + y * axis.y + z * axis.z;
+    return sign < 0 ? -angle : angle;
+  }
+
+  /**
+   * Projects this vector onto other vector (mutates this)
+   * @param other vector to project onto
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(2, 3, 4);
+   * const v2 = new Vector3(1, 0, 0);
+   * v1.projectOnto(v2);
+   * console.log(v1); // (2, 0, 0)
+   * ```
+   */
+  projectOnto(other: Vector3): Vector3 {
+    const squaredLength = other.dot(other);
+    if (squaredLength <= 0) {
+      this.set(0, 0, 0);
+      return this;
+    }
+    const scalar = this.dot(other) / squaredLength;
+    this.copy(other);
+    return this.multiplyScalar(scalar);
+  }
+
+  /**
+   * Projects this vector onto other vector (mutates out)
+   * @param other vector to project onto
+   * @param out vector instance to receive projection
+   * @returns out instance, for method chaining
+   */
+  projectOntoTo(other: Vector3, out: Vector3): Vector3 {
+    out.copy(this);
+    return out.projectOnto(other);
+  }
+
+  /**
+   * Removes the component of this vector parallel to other vector (mutates this)
+   * @param other vector to reject from
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(2, 3, 4);
+   * const v2 = new Vector3(1, 0, 0);
+   * v1.rejectFrom(v2);
+   * console.log(v1); // (0, 3, 4)
+   * ```
+   */
+  rejectFrom(other: Vector3): Vector3 {
+    const squaredLength = other.dot(other);
+    if (squaredLength <= 0) {
+      return this;
+    }
+    const scalar = this.dot(other) / squaredLength;
+    this.x -= other.x * scalar;
+    this.y -= other.y * scalar;
+    this.z -= other.z * scalar;
+    return this;
+  }
+
+  /**
+   * Removes the component of this vector parallel to other vector (mutates out)
+   * @param other vector to reject from
+   * @param out vector instance to receive rejection
+   * @returns out instance, for method chaining
+   */
+  rejectFromTo(other: Vector3, out: Vector3): Vector3 {
+    out.copy(this);
+    return out.rejectFrom(other);
+  }
+
+  /**
+   * Reflects this vector off the plane orthogonal to normal (mutates this)
+   * @param normal normal of the reflecting plane (need not be normalized)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector3(1, -1, 0);
+   * const n = new Vector3(0, 1, 0);
+   * v.reflect(n);
+   * console.log(v); // (1, 1, 0)
+   * ```
+   */
+  reflect(normal: Vector3): Vector3 {
+    const squaredLength = normal.dot(normal);
+    if (squaredLength <= 0) {
+      return this;
+    }
+    const scalar = 2 * this.dot(normal) / squaredLength;
+    this.x -= normal.x * scalar;
+    this.y -= normal.y * scalar;
+    this.z -= normal.z * scalar;
+    return this;
+  }
+
+  /**
+   * Reflects this vector off the plane orthogonal to normal (mutates out)
+   * @param normal normal of the reflecting plane (need not be normalized)
+   * @param out vector instance to receive reflection
+   * @returns out instance, for method chaining
+   */
+  reflectTo(normal: Vector3, out: Vector3): Vector3 {
+    out.copy(this);
+    return out.reflect(normal);
+  }
+
+  /**
+   * Linearly interpolates this vector toward other vector (mutates this)
+   * @param other target vector
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(0, 2, 4);
+   * const v2 = new Vector3(4, 6, 8);
+   * v1.lerp(v2, 0.5);
+   * console.log(v1); // (2, 4, 6)
+   * ```
+   */
+  lerp(other: Vector3, t: number): Vector3 {
+    this.x += (other.x - this.x) * t;
+    this.y += (other.y - this.y) * t;
+    this.z += (other.z - this.z) * t;
+    return this;
+  }
+
+  /**
+   * Linearly interpolates between vectors a and b (mutates out)
+   * @param a start vector
+   * @param b end vector
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static lerpTo(a: Vector3, b: Vector3, t: number, out: Vector3): Vector3 {
+    out.copy(a);
+    return out.lerp(b, t);
+  }
+
+  /**
+   * Linearly interpolates this vector toward other vector, then normalizes the result (mutates this)
+   * @param other target vector
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(1, 0, 0);
+   * const v2 = new Vector3(0, 1, 0);
+   * v1.nlerp(v2, 0.5);
+   * console.log(v1); // (√2/2, √2/2, 0)
+   * ```
+   */
+  nlerp(other: Vector3, t: number): Vector3 {
+    return this.lerp(other, t).normalize();
+  }
+
+  /**
+   * Linearly interpolates between vectors a and b, then normalizes the result (mutates out)
+   * @param a start vector
+   * @param b end vector
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static nlerpTo(a: Vector3, b: Vector3, t: number, out: Vector3): Vector3 {
+    out.copy(a);
+    return out.nlerp(b, t);
+  }
+
+  /**
+   * Spherically interpolates this direction toward other direction (mutates this)
+   * 
+   * Both vectors are expected to be normalized. Falls back to normalized linear interpolation
+   * when they are nearly parallel, and rotates about an arbitrary perpendicular axis when they are nearly opposite.
+   * @param other target direction
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector3(1, 0, 0);
+   * const v2 = new Vector3(0, 1, 0);
+   * v1.slerp(v2, 1 / 3);
+   * console.log(v1); // (√3/2, 1/2, 0)
+   * ```
+   */
+  slerp(other: Vector3, t: number): Vector3 {
+    const angle = Math.acos(clamp(this.dot(other), -1, 1));
+    const sin = Math.sin(angle);
+    if (sin < EPSILON && angle < Math.PI / 2) {
+      return this.nlerp(other, t);
+    }
+    if (sin < EPSILON) {
+      // every half circle from this to other is a shortest arc, so heads toward a perpendicular taken from the axis of the smallest component
+      const {x, y, z} = this;
+      const ax = Math.abs(x);
+      const ay = Math.abs(y);
+      const az = Math.abs(z);
+      const smallestX = ax <= ay && ax <= az;
+      const smallestY = !smallestX && ay <= az;
+      const px = smallestX ? 0 : smallestY ? -z : y;
+      const py = smallestX ? z : smallestY ? 0 : -x;
+      const pz = smallestX ? -y : smallestY ? x : 0;
+      const length = Math.sqrt(px * px + py * py + pz * pz);
+      const cos = Math.cos(t * Math.PI);
+      const perpendicularScalar = Math.sin(t * Math.PI) / length;
+      return this.set(x * cos + px * perpendicularScalar, y * cos + py * perpendicularScalar, z * cos + pz * perpendicularScalar);
+    }
+
+    const thisScalar = Math.sin((1 - t) * angle) / sin;
+    const otherScalar = Math.sin(t * angle) / sin;
+    this.x = this.x * thisScalar + other.x * otherScalar;
+    this.y = this.y * thisScalar + other.y * otherScalar;
+    this.z = this.z * thisScalar + other.z * otherScalar;
+    return this;
+  }
+
+  /**
+   * Spherically interpolates between directions a and b (mutates out)
+   * @param a start direction
+   * @param b end direction
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static slerpTo(a: Vector3, b: Vector3, t: number, out: Vector3): Vector3 {
+    out.copy(a);
+    return out.slerp(b, t);
+  }
+
   /**
    * Calculates the cross product of this and other (mutates this)
    * @param other other vector
@@ -464,6 +1098,118 @@ class Vector3 implements Vector<3>, AdditiveGroup<Vector3>, Scalable<Vector3>, N
     return this;
   }
 
+  /**
+   * Projects this point from world space to screen space (mutates this)
+   * 
+   * The result has pixel coordinates in x and y (origin at top-left, Y down)
+   * and window depth in **[0, 1]** in z.
+   * @param view view matrix
+   * @param projection projection matrix
+   * @param viewport viewport rectangle in pixels
+   * @param options options the projection matrix was generated with
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const viewport = {x: 0, y: 0, width: 800, height: 600};
+   * const p = new Vector3(0, 1, 0);
+   * p.project(view, projection, viewport);
+   * console.log(p.x, p.y); // pixel coordinates of the point
+   * ```
+   */
+  project(view: Matrix4, projection: Matrix4, viewport: Viewport, options?: ProjectionOptions): Vector3 {
+    this.applyMatrix4(view).applyMatrix4(projection);
+
+    const depthZeroToOne = options?.depthZeroToOne ?? DEFAULT_DEPTH_ZERO_TO_ONE;
+    const {x, y, width, height} = viewport;
+    const screenX = x + (this.x + 1) * width / 2;
+    const screenY = y + (1 - this.y) * height / 2;
+    const depth = depthZeroToOne ? this.z : (this.z + 1) / 2;
+    return this.set(screenX, screenY, depth);
+  }
+
+  /**
+   * Unprojects this point from screen space to world space (mutates this)
+   * 
+   * This vector is interpreted as pixel coordinates in x and y (origin at top-left, Y down)
+   * and window depth in **[0, 1]** in z, which is the inverse of {@link Vector3.project}.
+   * @param view view matrix
+   * @param projection projection matrix
+   * @param viewport viewport rectangle in pixels
+   * @param options options the projection matrix was generated with
+   * @returns `this` instance for method chaining if `projection * view` is invertible, `null` otherwise
+   * 
+   * @example
+   * ```ts
+   * const viewport = {x: 0, y: 0, width: 800, height: 600};
+   * const p = new Vector3(mouseX, mouseY, 0);
+   * p.unproject(view, projection, viewport); // point on the near plane
+   * ```
+   */
+  unproject(view: Matrix4, projection: Matrix4, viewport: Viewport, options?: ProjectionOptions): Vector3 | null {
+    const {tmpInverseMatrix4} = Vector3;
+    tmpInverseMatrix4.copy(projection);
+    if (!tmpInverseMatrix4.multiply(view).invert()) {
+      return null;
+    }
+
+    const depthZeroToOne = options?.depthZeroToOne ?? DEFAULT_DEPTH_ZERO_TO_ONE;
+    const {x, y, width, height} = viewport;
+    const ndcX = 2 * (this.x - x) / width - 1;
+    const ndcY = 1 - 2 * (this.y - y) / height;
+    const ndcZ = depthZeroToOne ? this.z : 2 * this.z - 1;
+    this.set(ndcX, ndcY, ndcZ);
+    return this.applyMatrix4(tmpInverseMatrix4);
+  }
+
+  /**
+   * Calculates picking ray in world space through screen coordinate (mutates outOrigin, outDirection)
+   * 
+   * The origin is placed on the near plane, so that it works for both perspective and orthographic cameras.
+   * @param screenX x coordinate in pixels (e.g. `MouseEvent.offsetX`)
+   * @param screenY y coordinate in pixels (e.g. `MouseEvent.offsetY`)
+   * @param view view matrix
+   * @param projection projection matrix
+   * @param viewport viewport rectangle in pixels
+   * @param outOrigin vector instance to receive ray origin
+   * @param outDirection vector instance to receive normalized ray direction
+   * @param options options the projection matrix was generated with
+   * @returns `true` if `projection * view` is invertible, `false` otherwise
+   * 
+   * @example
+   * ```ts
+   * const viewport = {x: 0, y: 0, width: canvas.width, height: canvas.height};
+   * const origin = Vector3.zero();
+   * const direction = Vector3.zero();
+   * Vector3.pickingRay(event.offsetX, event.offsetY, view, projection, viewport, origin, direction);
+   * ```
+   */
+  static pickingRay(
+    screenX: number,
+    screenY: number,
+    view: Matrix4,
+    projection: Matrix4,
+    viewport: Viewport,
+    outOrigin: Vector3,
+    outDirection: Vector3,
+    options?: ProjectionOptions
+  ): boolean {
+    // a point between near and far planes stays finite even for infinite far plane
+    const reversedZ = options?.reversedZ ?? DEFAULT_REVERSED_Z;
+    const nearDepth = reversedZ ? 1 : 0;
+    const middleDepth = 0.5;
+
+    outOrigin.set(screenX, screenY, nearDepth);
+    if (!outOrigin.unproject(view, projection, viewport, options)) {
+      return false;
+    }
+
+    outDirection.set(screenX, screenY, middleDepth);
+    outDirection.unproject(view, projection, viewport, options);
+    outDirection.subtract(outOrigin).normalize();
+    return true;
+  }
+
   /**
    * Applies quaternion to this vector (mutates this)
    * @param quaternion 
@@ -1,17 +1,19 @@
 import type { Vector } from "./Vector";
 import type { AdditiveGroup } from "./AdditiveGroup";
 import type { Scalable } from "./Scalable";
-import type { Normalizable } from "./Normalizable";
+import type { Interpolatable } from "./Interpolatable";
+import type { InnerProductSpace } from "./InnerProductSpace";
 import type { Clonable } from "./Clonable";
 import { Matrix4 } from "./Matrix4";
 import type { Quaternion } from "./Quaternion";
+import { clamp } from "./functions";
 
 const INDEX_X = 0;
 const INDEX_Y = 1;
 const INDEX_Z = 2;
 const INDEX_W = 3;
 
-class Vector4 implements Vector<4>, AdditiveGroup<Vector4>, Scalable<Vector4>, Normalizable<Vector4>, Clonable<Vector4> {
+class Vector4 implements Vector<4>, AdditiveGroup<Vector4>, Scalable<Vector4>, Interpolatable<Vector4>, InnerProductSpace<Vector4>, Clonable<Vector4> {
   /**
    * @example
    * ```ts
@@ -367,6 +369,343 @@ class Vector4 implements Vector<4>, AdditiveGroup<Vector4>, Scalable<Vector4>, N
     return this;
   }
 
+  /**
+   * Multiplies each element by the corresponding element of other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(2, -3, 4, 1);
+   * const v2 = new Vector4(4, 2, 8, 2);
+   * v1.multiply(v2);
+   * console.log(v1); // (8, -6, 32, 2)
+   * ```
+   */
+  multiply(other: Vector4): Vector4 {
+    this.x = this.x * other.x;
+    this.y = this.y * other.y;
+    this.z = this.z * other.z;
+    this.w = this.w * other.w;
+    return this;
+  }
+
+  /**
+   * Multiplies each element by the corresponding element of other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  multiplyTo(other: Vector4, out: Vector4): Vector4 {
+    out.copy(this);
+    return out.multiply(other);
+  }
+
+  /**
+   * Divides each element by the corresponding element of other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(2, -3, 4, 1);
+   * const v2 = new Vector4(4, 2, 8, 2);
+   * v1.divide(v2);
+   * console.log(v1); // (0.5, -1.5, 0.5, 0.5)
+   * ```
+   */
+  divide(other: Vector4): Vector4 {
+    this.x = this.x / other.x;
+    this.y = this.y / other.y;
+    this.z = this.z / other.z;
+    this.w = this.w / other.w;
+    return this;
+  }
+
+  /**
+   * Divides each element by the corresponding element of other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  divideTo(other: Vector4, out: Vector4): Vector4 {
+    out.copy(this);
+    return out.divide(other);
+  }
+
+  /**
+   * Sets each element to the smaller of this and other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(2, -3, 4, 1);
+   * const v2 = new Vector4(4, 2, 8, 2);
+   * v1.min(v2);
+   * console.log(v1); // (2, -3, 4, 1)
+   * ```
+   */
+  min(other: Vector4): Vector4 {
+    this.x = Math.min(this.x, other.x);
+    this.y = Math.min(this.y, other.y);
+    this.z = Math.min(this.z, other.z);
+    this.w = Math.min(this.w, other.w);
+    return this;
+  }
+
+  /**
+   * Sets each element to the smaller of this and other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  minTo(other: Vector4, out: Vector4): Vector4 {
+    out.copy(this);
+    return out.min(other);
+  }
+
+  /**
+   * Sets each element to the larger of this and other vector (mutates this)
+   * @param other other vector
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(2, -3, 4, 1);
+   * const v2 = new Vector4(4, 2, 8, 2);
+   * v1.max(v2);
+   * console.log(v1); // (4, 2, 8, 2)
+   * ```
+   */
+  max(other: Vector4): Vector4 {
+    this.x = Math.max(this.x, other.x);
+    this.y = Math.max(this.y, other.y);
+    this.z = Math.max(this.z, other.z);
+    this.w = Math.max(this.w, other.w);
+    return this;
+  }
+
+  /**
+   * Sets each element to the larger of this and other vector (mutates out)
+   * @param other other vector
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  maxTo(other: Vector4, out: Vector4): Vector4 {
+    out.copy(this);
+    return out.max(other);
+  }
+
+  /**
+   * Clamps each element into the range given by min and max vectors (mutates this)
+   * @param min vector of lower bounds
+   * @param max vector of upper bounds
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector4(2, -3, 4, 1);
+   * const min = new Vector4(0, 0, 0, 0);
+   * const max = new Vector4(1, 1, 1, 1);
+   * v.clamp(min, max);
+   * console.log(v); // (1, 0, 1, 1)
+   * ```
+   */
+  clamp(min: Vector4, max: Vector4): Vector4 {
+    this.x = clamp(this.x, min.x, max.x);
+    this.y = clamp(this.y, min.y, max.y);
+    this.z = clamp(this.z, min.z, max.z);
+    this.w = clamp(this.w, min.w, max.w);
+    return this;
+  }
+
+  /**
+   * Clamps each element into the range given by min and max vectors (mutates out)
+   * @param min vector of lower bounds
+   * @param max vector of upper bounds
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  clampTo(min: Vector4, max: Vector4, out: Vector4): Vector4 {
+    out.copy(this);
+    return out.clamp(min, max);
+  }
+
+  /**
+   * Sets each element to its absolute value (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector4(1.5, -2.5, 0, 3);
+   * v.abs();
+   * console.log(v); // (1.5, 2.5, 0, 3)
+   * ```
+   */
+  abs(): Vector4 {
+    this.x = Math.abs(this.x);
+    this.y = Math.abs(this.y);
+    this.z = Math.abs(this.z);
+    this.w = Math.abs(this.w);
+    return this;
+  }
+
+  /**
+   * Sets each element to its absolute value (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  absTo(out: Vector4): Vector4 {
+    out.copy(this);
+    return out.abs();
+  }
+
+  /**
+   * Rounds each element down to the nearest integer (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector4(1.5, -2.5, 0, 3);
+   * v.floor();
+   * console.log(v); // (1, -3, 0, 3)
+   * ```
+   */
+  floor(): Vector4 {
+    this.x = Math.floor(this.x);
+    this.y = Math.floor(this.y);
+    this.z = Math.floor(this.z);
+    this.w = Math.floor(this.w);
+    return this;
+  }
+
+  /**
+   * Rounds each element down to the nearest integer (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  floorTo(out: Vector4): Vector4 {
+    out.copy(this);
+    return out.floor();
+  }
+
+  /**
+   * Rounds each element up to the nearest integer (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector4(1.5, -2.5, 0, 3);
+   * v.ceil();
+   * console.log(v); // (2, -2, 0, 3)
+   * ```
+   */
+  ceil(): Vector4 {
+    this.x = Math.ceil(this.x);
+    this.y = Math.ceil(this.y);
+    this.z = Math.ceil(this.z);
+    this.w = Math.ceil(this.w);
+    return this;
+  }
+
+  /**
+   * Rounds each element up to the nearest integer (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  ceilTo(out: Vector4): Vector4 {
+    out.copy(this);
+    return out.ceil();
+  }
+
+  /**
+   * Rounds each element to the nearest integer (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector4(1.5, -2.5, 0, 3);
+   * v.round();
+   * console.log(v); // (2, -2, 0, 3)
+   * ```
+   */
+  round(): Vector4 {
+    this.x = Math.round(this.x);
+    this.y = Math.round(this.y);
+    this.z = Math.round(this.z);
+    this.w = Math.round(this.w);
+    return this;
+  }
+
+  /**
+   * Rounds each element to the nearest integer (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  roundTo(out: Vector4): Vector4 {
+    out.copy(this);
+    return out.round();
+  }
+
+  /**
+   * Sets each element to its sign (`-1`, `0` or `1`) (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector4(1.5, -2.5, 0, 3);
+   * v.sign();
+   * console.log(v); // (1, -1, 0, 1)
+   * ```
+   */
+  sign(): Vector4 {
+    this.x = Math.sign(this.x);
+    this.y = Math.sign(this.y);
+    this.z = Math.sign(this.z);
+    this.w = Math.sign(this.w);
+    return this;
+  }
+
+  /**
+   * Sets each element to its sign (`-1`, `0` or `1`) (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  signTo(out: Vector4): Vector4 {
+    out.copy(this);
+    return out.sign();
+  }
+
+  /**
+   * Negates each element (mutates this)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector4(1.5, -2.5, 0, 3);
+   * v.negate();
+   * console.log(v); // (-1.5, 2.5, -0, -3)
+   * ```
+   */
+  negate(): Vector4 {
+    this.x = -this.x;
+    this.y = -this.y;
+    this.z = -this.z;
+    this.w = -this.w;
+    return this;
+  }
+
+  /**
+   * Negates each element (mutates out)
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  negateTo(out: Vector4): Vector4 {
+    out.copy(this);
+    return out.negate();
+  }
+
   /**
    * Calculates the length of this vector (pure)
    * @returns the length of this vector (always non-negative)
@@ -401,6 +740,217 @@ class Vector4 implements Vector<4>, AdditiveGroup<Vector4>, Scalable<Vector4>, N
     return this.divideScalar(length);
   }
 
+  /**
+   * Calculates the dot product of this and other vector (pure)
+   * @param other other vector
+   * @returns the dot product of this and other
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(1, 2, 3, 4);
+   * const v2 = new Vector4(5, 6, 7, 8);
+   * console.log(v1.dot(v2)); // 70
+   * ```
+   */
+  dot(other: Vector4): number {
+    return this.x * other.x + this.y * other.y + this.z * other.z + this.w * other.w;
+  }
+
+  /**
+   * Calculates the angle between this and other vector (pure)
+   * @param other other vector
+   * @returns the angle in radians in range [0, π], or `0` if either vector is zero
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(1, 0, 0, 0);
+   * const v2 = new Vector4(0, 1, 0, 0);
+   * console.log(v1.angleTo(v2)); // Math.PI / 2
+   * ```
+   */
+  angleTo(other: Vector4): number {
+    const denominator = this.length() * other.length();
+    if (denominator <= 0) {
+      return 0;
+    }
+    return Math.acos(clamp(this.dot(other) / denominator, -1, 1));
+  }
+
+  /**
+   * Projects this vector onto other vector (mutates this)
+   * @param other vector to project onto
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(2, 3, 4, 5);
+   * const v2 = new Vector4(1, 0, 0, 0);
+   * v1.projectOnto(v2);
+   * console.log(v1); // (2, 0, 0, 0)
+   * ```
+   */
+  projectOnto(other: Vector4): Vector4 {
+    const squaredLength = other.dot(other);
+    if (squaredLength <= 0) {
+      this.set(0, 0, 0, 0);
+      return this;
+    }
+    const scalar = this.dot(other) / squaredLength;
+    this.copy(other);
+    return this.multiplyScalar(scalar);
+  }
+
+  /**
+   * Projects this vector onto other vector (mutates out)
+   * @param other vector to project onto
+   * @param out vector instance to receive projection
+   * @returns out instance, for method chaining
+   */
+  projectOntoTo(other: Vector4, out: Vector4): Vector4 {
+    out.copy(this);
+    return out.projectOnto(other);
+  }
+
+  /**
+   * Removes the component of this vector parallel to other vector (mutates this)
+   * @param other vector to reject from
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(2, 3, 4, 5);
+   * const v2 = new Vector4(1, 0, 0, 0);
+   * v1.rejectFrom(v2);
+   * console.log(v1); // (0, 3, 4, 5)
+   * ```
+   */
+  rejectFrom(other: Vector4): Vector4 {
+    const squaredLength = other.dot(other);
+    if (squaredLength <= 0) {
+      return this;
+    }
+    const scalar = this.dot(other) / squaredLength;
+    this.x -= other.x * scalar;
+    this.y -= other.y * scalar;
+    this.z -= other.z * scalar;
+    this.w -= other.w * scalar;
+    return this;
+  }
+
+  /**
+   * Removes the component of this vector parallel to other vector (mutates out)
+   * @param other vector to reject from
+   * @param out vector instance to receive rejection
+   * @returns out instance, for method chaining
+   */
+  rejectFromTo(other: Vector4, out: Vector4): Vector4 {
+    out.copy(this);
+    return out.rejectFrom(other);
+  }
+
+  /**
+   * Reflects this vector off the plane orthogonal to normal (mutates this)
+   * @param normal normal of the reflecting plane (need not be normalized)
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v = new Vector4(1, -1, 0, 0);
+   * const n = new Vector4(0, 1, 0, 0);
+   * v.reflect(n);
+   * console.log(v); // (1, 1, 0, 0)
+   * ```
+   */
+  reflect(normal: Vector4): Vector4 {
+    const squaredLength = normal.dot(normal);
+    if (squaredLength <= 0) {
+      return this;
+    }
+    const scalar = 2 * this.dot(normal) / squaredLength;
+    this.x -= normal.x * scalar;
+    this.y -= normal.y * scalar;
+    this.z -= normal.z * scalar;
+    this.w -= normal.w * scalar;
+    return this;
+  }
+
+  /**
+   * Reflects this vector off the plane orthogonal to normal (mutates out)
+   * @param normal normal of the reflecting plane (need not be normalized)
+   * @param out vector instance to receive reflection
+   * @returns out instance, for method chaining
+   */
+  reflectTo(normal: Vector4, out: Vector4): Vector4 {
+    out.copy(this);
+    return out.reflect(normal);
+  }
+
+  /**
+   * Linearly interpolates this vector toward other vector (mutates this)
+   * @param other target vector
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(0, 2, 4, 6);
+   * const v2 = new Vector4(4, 6, 8, 10);
+   * v1.lerp(v2, 0.5);
+   * console.log(v1); // (2, 4, 6, 8)
+   * ```
+   */
+  lerp(other: Vector4, t: number): Vector4 {
+    this.x += (other.x - this.x) * t;
+    this.y += (other.y - this.y) * t;
+    this.z += (other.z - this.z) * t;
+    this.w += (other.w - this.w) * t;
+    return this;
+  }
+
+  /**
+   * Linearly interpolates between vectors a and b (mutates out)
+   * @param a start vector
+   * @param b end vector
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static lerpTo(a: Vector4, b: Vector4, t: number, out: Vector4): Vector4 {
+    out.copy(a);
+    return out.lerp(b, t);
+  }
+
+  /**
+   * Linearly interpolates this vector toward other vector, then normalizes the result (mutates this)
+   * @param other target vector
+   * @param t interpolation factor, `0` gives this and `1` gives other
+   * @returns this instance, for method chaining
+   * 
+   * @example
+   * ```ts
+   * const v1 = new Vector4(1, 0, 0, 0);
+   * const v2 = new Vector4(0, 1, 0, 0);
+   * v1.nlerp(v2, 0.5);
+   * console.log(v1); // (√2/2, √2/2, 0, 0)
+   * ```
+   */
+  nlerp(other: Vector4, t: number): Vector4 {
+    return this.lerp(other, t).normalize();
+  }
+
+  /**
+   * Linearly interpolates between vectors a and b, then normalizes the result (mutates out)
+   * @param a start vector
+   * @param b end vector
+   * @param t interpolation factor, `0` gives a and `1` gives b
+   * @param out vector instance to receive result
+   * @returns out instance, for method chaining
+   */
+  static nlerpTo(a: Vector4, b: Vector4, t: number, out: Vector4): Vector4 {
+    out.copy(a);
+    return out.nlerp(b, t);
+  }
+
   /**
    * Applies matrix to this vector (mutates this)
    * @param matrix 
@@ -93,5 +93,23 @@ function sumMap<T>(values: Iterable<T>, callback: (value: T) => number | null):
   return result;
 }
 
+/**
+ * Clamps a value into the closed interval `[min, max]`
+ * @param value value to clamp
+ * @param min lower bound
+ * @param max upper bound
+ * @returns `min` if value is less than `min`, `max` if value is greater than `max`, value otherwise
+ * 
+ * @example
+ * ```ts
+ * clamp(1.5, -1, 1); // 1
+ * clamp(-2, -1, 1); // -1
+ * clamp(0.5, -1, 1); // 0.5
+ * ```
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
 export type {RangeOptions};
-export {range, sum, sumMap};
+export {range, sum, sumMap, clamp};
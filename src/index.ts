@@ -1,53 +1,115 @@
+import type { ApplyMatrix3Options } from "./Vector2";
 import type { ApplyMatrix4Options } from "./Vector3";
+import type { BVHOptions, BVHRaycastOptions } from "./BVH";
+import type { EulerOrder } from "./Euler";
+import type { FrustumIntersection } from "./Frustum";
+import type { OctreeOptions } from "./Octree";
 import type { RangeOptions } from "./functions";
-import type { VectorDimension, MatrixOrder, TupleOf } from "./types";
+import type { RayTriangleOptions } from "./Ray";
+import type { SphereFromPositionsOptions } from "./Sphere";
+import type { VectorDimension, MatrixOrder, TupleOf, Viewport } from "./types";
 import type { AdditiveGroup } from "./AdditiveGroup";
 import type { Clonable } from "./Clonable";
+import type { Convex } from "./Convex";
 import type { Matrix } from "./Matrix";
 import type { MultiplicativeMonoid } from "./MultiplicativeMonoid";
 import type { Normalizable } from "./Normalizable";
+import type { InnerProductSpace } from "./InnerProductSpace";
+import type { Interpolatable } from "./Interpolatable";
 import type { PartialMultiplicativeGroup } from "./PartialMultiplicativeGroup";
-import type { ProjectionOptions } from "./Matrix4";
+import type { Handedness, LookAtOptions, ProjectionOptions } from "./Matrix4";
 import type { Scalable } from "./Scalable";
+import type { SpatialIndex } from "./SpatialIndex";
 import type { Vector } from "./Vector";
+import { BVH } from "./BVH";
+import { Box2 } from "./Box2";
+import { Box3 } from "./Box3";
+import { Capsule } from "./Capsule";
+import { ConvexHull } from "./ConvexHull";
+import { Euler } from "./Euler";
+import { Frustum } from "./Frustum";
+import { GJK } from "./GJK";
+import { Matrix2 } from "./Matrix2";
 import { Matrix3 } from "./Matrix3";
 import { Matrix4 } from "./Matrix4";
+import { OBB } from "./OBB";
+import { Octree } from "./Octree";
+import { Plane } from "./Plane";
 import { PolarCoordinate3 } from "./PolarCoordinate3";
 import { Quaternion } from "./Quaternion";
+import { Ray } from "./Ray";
+import { Segment2 } from "./Segment2";
+import { Segment3 } from "./Segment3";
+import { SpatialHashGrid } from "./SpatialHashGrid";
+import { Sphere } from "./Sphere";
+import { Triangle } from "./Triangle";
 import { Vector1 } from "./Vector1";
 import { Vector2 } from "./Vector2";
 import { Vector3 } from "./Vector3";
 import { Vector4 } from "./Vector4";
-import { range, sum, sumMap } from "./functions";
+import { range, sum, sumMap, clamp } from "./functions";
 
 // types
 export type {
+  ApplyMatrix3Options,
   ApplyMatrix4Options,
+  BVHOptions,
+  BVHRaycastOptions,
+  EulerOrder,
+  FrustumIntersection,
+  Handedness,
+  LookAtOptions,
+  OctreeOptions,
   VectorDimension,
   MatrixOrder,
   ProjectionOptions,
   RangeOptions,
+  RayTriangleOptions,
+  SphereFromPositionsOptions,
   TupleOf,
+  Viewport,
 };
 
 // interfaces
 export type {
   AdditiveGroup,
   Clonable,
+  Convex,
+  InnerProductSpace,
+  Interpolatable,
   Matrix,
   MultiplicativeMonoid,
   Normalizable,
   PartialMultiplicativeGroup,
   Scalable,
+  SpatialIndex,
   Vector,
 };
 
 // classes
 export {
+  BVH,
+  Box2,
+  Box3,
+  Capsule,
+  ConvexHull,
+  Euler,
+  Frustum,
+  GJK,
+  Matrix2,
   Matrix3,
   Matrix4,
+  OBB,
+  Octree,
+  Plane,
   PolarCoordinate3,
   Quaternion,
+  Ray,
+  Segment2,
+  Segment3,
+  SpatialHashGrid,
+  Sphere,
+  Triangle,
   Vector1,
   Vector2,
   Vector3,
@@ -58,4 +120,5 @@ export {
   range,
   sum,
   sumMap,
+  clamp,
 };
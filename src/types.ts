@@ -1,6 +1,6 @@
 type VectorDimension = 1 | 2 | 3 | 4;
 
-type MatrixOrder = 3 | 4;
+type MatrixOrder = 2 | 3 | 4;
 
 /**
  * @example
@@ -11,4 +11,26 @@ type MatrixOrder = 3 | 4;
 type TupleOf<Ele, Len extends number, Tup extends Ele[] = []> =
   Tup['length'] extends Len ? Tup : TupleOf<Ele, Len, [...Tup, Ele]>;
 
-export type {VectorDimension, MatrixOrder, TupleOf};
+/**
+ * Rectangle of the render target in pixels, used to map between NDC and screen space.
+ * 
+ * Screen space has its origin at the top-left corner with Y pointing down,
+ * which matches DOM mouse and pointer event coordinates.
+ * 
+ * @example
+ * ```ts
+ * const viewport: Viewport = {x: 0, y: 0, width: canvas.width, height: canvas.height};
+ * ```
+ */
+type Viewport = {
+  /** left edge in pixels */
+  x: number;
+  /** top edge in pixels */
+  y: number;
+  /** width in pixels */
+  width: number;
+  /** height in pixels */
+  height: number;
+};
+
+export type {VectorDimension, MatrixOrder, TupleOf, Viewport};
@@ -0,0 +1,205 @@
+import { describe, it, expect } from "vitest";
+import { BVH } from '../src/BVH';
+import { Box3 } from '../src/Box3';
+import { Ray } from '../src/Ray';
+import { Sphere } from '../src/Sphere';
+import { Triangle } from '../src/Triangle';
+import { Vector3 } from '../src/Vector3';
+import { range } from '../src/functions';
+
+const PRECISION = 6;
+
+/** deterministic pseudo random values in range [-1, 1) */
+const randomValues = (count: number, seed: number): Float32Array => {
+  const values = new Float32Array(count);
+  let state = seed;
+  for (const index of range(count)) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    values[index] = state / 2147483648 * 2 - 1;
+  }
+  return values;
+};
+
+/** small random triangles scattered in a cube of half size 5 */
+const triangleSoup = (count: number, seed: number): Float32Array => {
+  const values = randomValues(12 * count, seed);
+  const positions = new Float32Array(9 * count);
+  for (const triangle of range(count)) {
+    for (const corner of range(3)) {
+      for (const axis of range(3)) {
+        positions[9 * triangle + 3 * corner + axis] = 5 * values[12 * triangle + axis] + 0.5 * values[12 * triangle + 3 + 3 * corner + axis];
+      }
+    }
+  }
+  return positions;
+};
+
+const triangleAt = (positions: Float32Array, triangle: number): Triangle => {
+  const vertex = (corner: number) => {
+    const offset = 9 * triangle + 3 * corner;
+    return new Vector3(positions[offset], positions[offset + 1], positions[offset + 2]);
+  };
+  return new Triangle(vertex(0), vertex(1), vertex(2));
+};
+
+const bruteForceRaycast = (positions: Float32Array, ray: Ray): {triangle: number | null; t: number} => {
+  let closest = {triangle: null as number | null, t: Infinity};
+  for (const triangle of range(positions.length / 9)) {
+    const {a, b, c} = triangleAt(positions, triangle);
+    const t = ray.intersectTriangle(a, b, c);
+    if (t !== null && t < closest.t) {
+      closest = {triangle, t};
+    }
+  }
+  return closest;
+};
+
+describe('BVH', () => {
+  it('raycast() finds the closest hit', () => {
+    const bvh = new BVH(Float32Array.of(
+      0, 0, 0, 1, 0, 0, 0, 1, 0,
+      0, 0, 2, 1, 0, 2, 0, 1, 2,
+      0, 0, 1, 1, 0, 1, 0, 1, 1
+    ));
+    const ray = new Ray(new Vector3(0.2, 0.2, 5), new Vector3(0, 0, -1));
+    const point = Vector3.zero();
+    const normal = Vector3.zero();
+    expect(bvh.raycast(ray, point, normal)).toBe(1);
+    expect(point.z).toBeCloseTo(2, PRECISION);
+    expect(normal.z).toBeCloseTo(1, PRECISION);
+    expect(bvh.raycast(ray, point, undefined, {maxDistance: 2})).toBeNull();
+    expect(bvh.raycast(new Ray(new Vector3(0.2, 0.2, 5), new Vector3(0, 0, 1)))).toBeNull();
+    // the back faces seen from below
+    ray.set(new Vector3(0.2, 0.2, -5), new Vector3(0, 0, 1));
+    expect(bvh.raycast(ray)).toBe(0);
+    expect(bvh.raycast(ray, undefined, undefined, {cullBackface: true})).toBeNull();
+  });
+
+  it('raycast() agrees with brute force', () => {
+    const positions = triangleSoup(500, 3);
+    const bvh = new BVH(positions);
+    const values = randomValues(600, 5);
+    const point = Vector3.zero();
+    let hits = 0;
+    for (const index of range(100)) {
+      const origin = new Vector3(values[6 * index], values[6 * index + 1], values[6 * index + 2]).multiplyScalar(8);
+      const direction = new Vector3(values[6 * index + 3], values[6 * index + 4], values[6 * index + 5]).normalize();
+      const ray = new Ray(origin, direction);
+      const expected = bruteForceRaycast(positions, ray);
+      const actual = bvh.raycast(ray, point);
+      expect(actual).toBe(expected.triangle);
+      expect(bvh.raycastAny(ray)).toBe(expected.triangle !== null);
+      if (actual !== null) {
+        hits++;
+        expect(point.clone().subtract(origin).length()).toBeCloseTo(expected.t, 4);
+      }
+    }
+    expect(hits).toBeGreaterThan(0);
+  });
+
+  it('raycast() hits small-scale meshes', () => {
+    for (const scale of [1.0e-5, 1.0e-9]) {
+      const positions = triangleSoup(200, 9).map((value) => value * scale);
+      const bvh = new BVH(positions);
+      const origin = new Vector3(0, 0, 10 * scale);
+      const point = Vector3.zero();
+      for (const triangle of range(200, {step: 10})) {
+        const {a, b, c} = triangleAt(positions, triangle);
+        const centroid = a.clone().add(b).add(c).multiplyScalar(1 / 3);
+        const ray = new Ray(origin, centroid.subtract(origin).normalize());
+        const expected = bruteForceRaycast(positions, ray);
+        expect(expected.triangle).not.toBeNull();
+
+        // the soup has coincident triangles, so the hit is compared by distance
+        expect(bvh.raycast(ray, point)).not.toBeNull();
+        expect(point.subtract(origin).length() / scale).toBeCloseTo(expected.t / scale, 4);
+        expect(bvh.raycastAny(ray)).toBe(true);
+      }
+    }
+  });
+
+  it('raycastAny() respects maxDistance', () => {
+    const bvh = new BVH(Float32Array.of(0, 0, 0, 1, 0, 0, 0, 1, 0));
+    const ray = new Ray(new Vector3(0.2, 0.2, 5), new Vector3(0, 0, -1));
+    expect(bvh.raycastAny(ray)).toBe(true);
+    expect(bvh.raycastAny(ray, {maxDistance: 4.9})).toBe(false);
+    expect(bvh.raycastAny(ray, {maxDistance: 5})).toBe(true);
+  });
+
+  it('indexed mesh', () => {
+    // unit square in the xy plane from two triangles sharing an edge
+    const positions = Float32Array.of(0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0);
+    const bvh = new BVH(positions, Uint16Array.of(0, 1, 2, 0, 2, 3));
+    expect(bvh.triangleCount).toBe(2);
+    expect(bvh.raycast(new Ray(new Vector3(0.8, 0.2, 1), new Vector3(0, 0, -1)))).toBe(0);
+    expect(bvh.raycast(new Ray(new Vector3(0.2, 0.8, 1), new Vector3(0, 0, -1)))).toBe(1);
+    const box = bvh.boundingBox(Box3.empty());
+    expect(box.min.x).toBeCloseTo(0, PRECISION);
+    expect(box.max.y).toBeCloseTo(1, PRECISION);
+  });
+
+  it('empty', () => {
+    const bvh = new BVH(new Float32Array(0));
+    expect(bvh.triangleCount).toBe(0);
+    expect(bvh.raycast(new Ray(Vector3.zero(), new Vector3(0, 0, 1)))).toBeNull();
+    expect(bvh.raycastAny(new Ray(Vector3.zero(), new Vector3(0, 0, 1)))).toBe(false);
+    expect(bvh.overlapSphere(new Sphere(Vector3.zero(), 1), [])).toEqual([]);
+    expect(bvh.boundingBox(new Box3(Vector3.zero(), Vector3.zero())).isEmpty()).toBe(true);
+  });
+
+  it('overlapBox() detects a triangle crossing the box without a vertex inside', () => {
+    const bvh = new BVH(Float32Array.of(
+      -5, 0, -5, 5, 0, -5, 0, 0, 5,
+      2, 2, 2, 3, 2, 2, 2, 3, 2,
+      // diagonal triangle whose bounds overlap the box corner but whose plane misses it
+      0.9, 2, 0, 2, 0.9, 0, 2, 2, 0
+    ));
+    const box = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+    expect(bvh.overlapBox(box, [])).toEqual([0]);
+    expect(bvh.overlapBox(Box3.empty(), [])).toEqual([]);
+    box.max.set(2, 2, 2);
+    expect(bvh.overlapBox(box, []).sort()).toEqual([0, 1, 2]);
+  });
+
+  it('overlapBox() and overlapSphere() agree with brute force', () => {
+    const positions = triangleSoup(300, 7);
+    const bvh = new BVH(positions, undefined, {maxLeafSize: 2, binCount: 8});
+    const center = new Vector3(1, -1, 0.5);
+    const sphere = new Sphere(center, 2);
+    const closest = Vector3.zero();
+    const expectedSphere = [...range(300)].filter((triangle) =>
+      triangleAt(positions, triangle).closestPointToPoint(center, closest).subtract(center).length() <= 2
+    );
+    const result: number[] = [];
+    expect(bvh.overlapSphere(sphere, result).sort((a, b) => a - b)).toEqual(expectedSphere);
+    expect(expectedSphere.length).toBeGreaterThan(0);
+
+    // a box overlaps at least the triangles with a vertex inside, and at most those with overlapping bounds
+    const box = new Box3(new Vector3(-2, -1, -3), new Vector3(1, 2, 0));
+    const actual = new Set(bvh.overlapBox(box, result));
+    for (const triangle of range(300)) {
+      const {a, b, c} = triangleAt(positions, triangle);
+      const bounds = Box3.empty().expandByPoint(a).expandByPoint(b).expandByPoint(c);
+      if (box.containsPoint(a) || box.containsPoint(b) || box.containsPoint(c)) {
+        expect(actual.has(triangle)).toBe(true);
+      }
+      if (!box.intersectsBox(bounds)) {
+        expect(actual.has(triangle)).toBe(false);
+      }
+    }
+  });
+
+  it('refit() follows moved vertices', () => {
+    const positions = triangleSoup(100, 11);
+    const bvh = new BVH(positions);
+    const ray = new Ray(new Vector3(20.2, 20.2, 50), new Vector3(0, 0, -1));
+    // moves the last triangle far away from everything else, right under the ray
+    positions.set([20, 20, 20, 21, 20, 20, 20, 21, 20], 9 * 99);
+    expect(bvh.raycast(ray)).toBeNull();
+    const point = Vector3.zero();
+    expect(bvh.refit().raycast(ray, point)).toBe(99);
+    expect(point.z).toBeCloseTo(20, PRECISION);
+    const box = bvh.boundingBox(Box3.empty());
+    expect(box.max.z).toBeCloseTo(20, PRECISION);
+  });
+});
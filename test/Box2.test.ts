@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { Box2 } from '../src/Box2';
+import { Vector2 } from '../src/Vector2';
+import { Matrix3 } from '../src/Matrix3';
+
+const PRECISION = 6;
+
+describe('Box2', () => {
+  it('empty()', () => {
+    const b = Box2.empty();
+    expect(b.isEmpty()).toBe(true);
+    expect(b.containsPoint(Vector2.zero())).toBe(false);
+  });
+
+  it('fromPositions()', () => {
+    const b = Box2.fromPositions(Float32Array.of(0, 0, 1, 2, -1, 0));
+    expect([b.min.x, b.min.y]).toEqual([-1, 0]);
+    expect([b.max.x, b.max.y]).toEqual([1, 2]);
+  });
+
+  it('clone() and copy()', () => {
+    const b = new Box2(new Vector2(-1, -2), new Vector2(1, 2));
+    const c = b.clone();
+    b.setEmpty();
+    expect(c.max.y).toBe(2);
+    b.copy(c);
+    expect(b.min.x).toBe(-1);
+  });
+
+  it('center() and size()', () => {
+    const b = new Box2(new Vector2(0, 0), new Vector2(2, 4));
+    const c = Vector2.zero();
+    const s = Vector2.zero();
+    b.center(c);
+    b.size(s);
+    expect([c.x, c.y]).toEqual([1, 2]);
+    expect([s.x, s.y]).toEqual([2, 4]);
+  });
+
+  it('expandByPoint() and union()', () => {
+    const b = Box2.empty();
+    b.expandByPoint(new Vector2(1, 2)).expandByPoint(new Vector2(-1, 5));
+    expect([b.min.x, b.min.y]).toEqual([-1, 2]);
+    expect([b.max.x, b.max.y]).toEqual([1, 5]);
+
+    b.union(new Box2(new Vector2(0, 0), new Vector2(3, 1)));
+    expect([b.min.x, b.min.y]).toEqual([-1, 0]);
+    expect([b.max.x, b.max.y]).toEqual([3, 5]);
+  });
+
+  it('intersect()', () => {
+    const b = new Box2(new Vector2(0, 0), new Vector2(2, 2));
+    b.intersect(new Box2(new Vector2(1, -1), new Vector2(3, 1)));
+    expect([b.min.x, b.min.y]).toEqual([1, 0]);
+    expect([b.max.x, b.max.y]).toEqual([2, 1]);
+
+    b.intersect(new Box2(new Vector2(5, 5), new Vector2(6, 6)));
+    expect(b.isEmpty()).toBe(true);
+  });
+
+  it('containsPoint(), containsBox() and intersectsBox()', () => {
+    const b = new Box2(new Vector2(0, 0), new Vector2(2, 2));
+    expect(b.containsPoint(new Vector2(1, 2))).toBe(true);
+    expect(b.containsPoint(new Vector2(1, 2.1))).toBe(false);
+    expect(b.containsBox(new Box2(new Vector2(0.5, 0.5), new Vector2(1, 1)))).toBe(true);
+    expect(b.intersectsBox(new Box2(new Vector2(2, 2), new Vector2(3, 3)))).toBe(true);
+    expect(b.intersectsBox(new Box2(new Vector2(2.5, 0), new Vector2(3, 3)))).toBe(false);
+  });
+
+  it('clampPoint() and distanceToPoint()', () => {
+    const b = new Box2(new Vector2(0, 0), new Vector2(1, 1));
+    const out = Vector2.zero();
+    b.clampPoint(new Vector2(-1, 0.5), out);
+    expect([out.x, out.y]).toEqual([0, 0.5]);
+    expect(b.distanceToPoint(new Vector2(4, 5))).toBeCloseTo(5, PRECISION);
+    expect(b.distanceToPoint(new Vector2(0.5, 0.5))).toBe(0);
+  });
+
+  it('applyMatrix3()', () => {
+    const b = new Box2(new Vector2(-1, -1), new Vector2(1, 1));
+    const m = Matrix3.identity().setRotation2D(Math.PI / 4);
+    b.applyMatrix3(m);
+    expect(b.min.x).toBeCloseTo(-Math.SQRT2, PRECISION);
+    expect(b.min.y).toBeCloseTo(-Math.SQRT2, PRECISION);
+    expect(b.max.x).toBeCloseTo(Math.SQRT2, PRECISION);
+    expect(b.max.y).toBeCloseTo(Math.SQRT2, PRECISION);
+  });
+
+  it('applyMatrix3() agrees with transforming four corners', () => {
+    const b = new Box2(new Vector2(-1, 2), new Vector2(3, 5));
+    const m = Matrix3.identity()
+      .multiplyTranslation2D(new Vector2(1, -2))
+      .multiplyRotation2D(0.7)
+      .multiplyScale2D(new Vector2(2, -0.5));
+
+    const expected = Box2.empty();
+    const corner = Vector2.zero();
+    for (const x of [b.min.x, b.max.x]) {
+      for (const y of [b.min.y, b.max.y]) {
+        expected.expandByPoint(corner.set(x, y).applyMatrix3(m));
+      }
+    }
+
+    b.applyMatrix3(m);
+    expect(b.min.x).toBeCloseTo(expected.min.x, 5);
+    expect(b.min.y).toBeCloseTo(expected.min.y, 5);
+    expect(b.max.x).toBeCloseTo(expected.max.x, 5);
+    expect(b.max.y).toBeCloseTo(expected.max.y, 5);
+  });
+
+  it('translate()', () => {
+    const b = new Box2(new Vector2(0, 0), new Vector2(1, 1));
+    b.translate(new Vector2(1, 2));
+    expect([b.min.x, b.min.y]).toEqual([1, 2]);
+    expect([b.max.x, b.max.y]).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { Box3 } from '../src/Box3';
+import { Vector3 } from '../src/Vector3';
+import { Matrix4 } from '../src/Matrix4';
+import { Quaternion } from '../src/Quaternion';
+
+const PRECISION = 6;
+
+describe('Box3', () => {
+  it('constructor copies vectors', () => {
+    const min = new Vector3(-1, -2, -3);
+    const b = new Box3(min, new Vector3(1, 2, 3));
+    min.set(0, 0, 0);
+    expect(b.min.x).toBe(-1);
+    expect(b.max.z).toBe(3);
+  });
+
+  it('empty()', () => {
+    const b = Box3.empty();
+    expect(b.isEmpty()).toBe(true);
+    expect(b.containsPoint(Vector3.zero())).toBe(false);
+  });
+
+  it('fromPositions()', () => {
+    const b = Box3.fromPositions(Float32Array.of(0, 0, 0, 1, 2, 3, -1, 0, 1));
+    expect(b.min.x).toBe(-1);
+    expect(b.min.y).toBe(0);
+    expect(b.min.z).toBe(0);
+    expect(b.max.x).toBe(1);
+    expect(b.max.y).toBe(2);
+    expect(b.max.z).toBe(3);
+  });
+
+  it('fromPositions() with no positions is empty', () => {
+    expect(Box3.fromPositions(new Float32Array(0)).isEmpty()).toBe(true);
+  });
+
+  it('clone() and copy()', () => {
+    const b = new Box3(new Vector3(-1, -2, -3), new Vector3(1, 2, 3));
+    const c = b.clone();
+    b.setEmpty();
+    expect(c.max.y).toBe(2);
+    b.copy(c);
+    expect(b.min.z).toBe(-3);
+  });
+
+  it('center() and size()', () => {
+    const b = new Box3(new Vector3(0, 0, 0), new Vector3(2, 4, 6));
+    const c = Vector3.zero();
+    const s = Vector3.zero();
+    b.center(c);
+    b.size(s);
+    expect([c.x, c.y, c.z]).toEqual([1, 2, 3]);
+    expect([s.x, s.y, s.z]).toEqual([2, 4, 6]);
+
+    Box3.empty().size(s);
+    expect([s.x, s.y, s.z]).toEqual([0, 0, 0]);
+  });
+
+  it('expandByPoint()', () => {
+    const b = Box3.empty();
+    b.expandByPoint(new Vector3(1, 2, 3)).expandByPoint(new Vector3(-1, 5, 0));
+    expect([b.min.x, b.min.y, b.min.z]).toEqual([-1, 2, 0]);
+    expect([b.max.x, b.max.y, b.max.z]).toEqual([1, 5, 3]);
+  });
+
+  it('union()', () => {
+    const b = new Box3(new Vector3(0, 0, 0), new Vector3(1, 1, 1));
+    b.union(new Box3(new Vector3(-1, 0.5, 0.5), new Vector3(0.5, 2, 0.5)));
+    expect([b.min.x, b.min.y, b.min.z]).toEqual([-1, 0, 0]);
+    expect([b.max.x, b.max.y, b.max.z]).toEqual([1, 2, 1]);
+  });
+
+  it('intersect()', () => {
+    const b = new Box3(new Vector3(0, 0, 0), new Vector3(2, 2, 2));
+    b.intersect(new Box3(new Vector3(1, -1, 1), new Vector3(3, 1, 3)));
+    expect([b.min.x, b.min.y, b.min.z]).toEqual([1, 0, 1]);
+    expect([b.max.x, b.max.y, b.max.z]).toEqual([2, 1, 2]);
+
+    b.intersect(new Box3(new Vector3(5, 5, 5), new Vector3(6, 6, 6)));
+    expect(b.isEmpty()).toBe(true);
+  });
+
+  it('containsPoint() and containsBox()', () => {
+    const b = new Box3(new Vector3(0, 0, 0), new Vector3(2, 2, 2));
+    expect(b.containsPoint(new Vector3(1, 2, 0))).toBe(true);
+    expect(b.containsPoint(new Vector3(1, 2.1, 0))).toBe(false);
+    expect(b.containsBox(new Box3(new Vector3(0.5, 0.5, 0.5), new Vector3(1, 1, 1)))).toBe(true);
+    expect(b.containsBox(new Box3(new Vector3(0.5, 0.5, 0.5), new Vector3(3, 1, 1)))).toBe(false);
+  });
+
+  it('intersectsBox()', () => {
+    const b = new Box3(new Vector3(0, 0, 0), new Vector3(2, 2, 2));
+    expect(b.intersectsBox(new Box3(new Vector3(2, 2, 2), new Vector3(3, 3, 3)))).toBe(true);
+    expect(b.intersectsBox(new Box3(new Vector3(1, 1, 2.5), new Vector3(3, 3, 3)))).toBe(false);
+  });
+
+  it('clampPoint()', () => {
+    const b = new Box3(new Vector3(0, 0, 0), new Vector3(2, 2, 2));
+    const out = Vector3.zero();
+    b.clampPoint(new Vector3(-1, 1, 5), out);
+    expect([out.x, out.y, out.z]).toEqual([0, 1, 2]);
+  });
+
+  it('distanceToPoint()', () => {
+    const b = new Box3(new Vector3(0, 0, 0), new Vector3(1, 1, 1));
+    expect(b.distanceToPoint(new Vector3(4, 5, 1))).toBeCloseTo(5, PRECISION);
+    expect(b.distanceToPoint(new Vector3(0.5, 0.5, 0.5))).toBe(0);
+    expect(b.squaredDistanceToPoint(new Vector3(-1, 0, 3))).toBeCloseTo(5, PRECISION);
+  });
+
+  it('applyMatrix4()', () => {
+    const b = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+    const m = Matrix4.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 4));
+    b.applyMatrix4(m);
+    expect(b.min.x).toBeCloseTo(-Math.SQRT2, PRECISION);
+    expect(b.min.y).toBeCloseTo(-Math.SQRT2, PRECISION);
+    expect(b.min.z).toBeCloseTo(-1, PRECISION);
+    expect(b.max.x).toBeCloseTo(Math.SQRT2, PRECISION);
+    expect(b.max.y).toBeCloseTo(Math.SQRT2, PRECISION);
+    expect(b.max.z).toBeCloseTo(1, PRECISION);
+  });
+
+  it('applyMatrix4() agrees with transforming eight corners', () => {
+    const b = new Box3(new Vector3(-1, 0, 2), new Vector3(3, 1, 5));
+    const m = Matrix4.identity()
+      .multiplyTranslation(new Vector3(1, -2, 3))
+      .multiplyRotation(Quaternion.fromAxisAndAngle(new Vector3(1, 2, 3), 0.7))
+      .multiplyScale(new Vector3(2, -1, 0.5));
+
+    const expected = Box3.empty();
+    const corner = Vector3.zero();
+    for (const x of [b.min.x, b.max.x]) {
+      for (const y of [b.min.y, b.max.y]) {
+        for (const z of [b.min.z, b.max.z]) {
+          expected.expandByPoint(corner.set(x, y, z).applyMatrix4(m));
+        }
+      }
+    }
+
+    b.applyMatrix4(m);
+    expect(b.min.x).toBeCloseTo(expected.min.x, 5);
+    expect(b.min.y).toBeCloseTo(expected.min.y, 5);
+    expect(b.min.z).toBeCloseTo(expected.min.z, 5);
+    expect(b.max.x).toBeCloseTo(expected.max.x, 5);
+    expect(b.max.y).toBeCloseTo(expected.max.y, 5);
+    expect(b.max.z).toBeCloseTo(expected.max.z, 5);
+  });
+
+  it('applyMatrix4() keeps empty box empty', () => {
+    const b = Box3.empty();
+    b.applyMatrix4(Matrix4.identity().setTranslation(new Vector3(1, 2, 3)));
+    expect(b.isEmpty()).toBe(true);
+  });
+
+  it('translate()', () => {
+    const b = new Box3(new Vector3(0, 0, 0), new Vector3(1, 1, 1));
+    b.translate(new Vector3(1, 2, 3));
+    expect([b.min.x, b.min.y, b.min.z]).toEqual([1, 2, 3]);
+    expect([b.max.x, b.max.y, b.max.z]).toEqual([2, 3, 4]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { Capsule } from '../src/Capsule';
+import { Plane } from '../src/Plane';
+import { Sphere } from '../src/Sphere';
+import { Triangle } from '../src/Triangle';
+import { Vector3 } from '../src/Vector3';
+
+const PRECISION = 6;
+
+const expectVector3 = (actual: Vector3, x: number, y: number, z: number) => {
+  expect(actual.x).toBeCloseTo(x, PRECISION);
+  expect(actual.y).toBeCloseTo(y, PRECISION);
+  expect(actual.z).toBeCloseTo(z, PRECISION);
+};
+
+describe('Capsule', () => {
+  it('clone(), set() and copy()', () => {
+    const c = new Capsule(new Vector3(1, 2, 3), new Vector3(4, 5, 6), 0.5);
+    const cloned = c.clone();
+    c.set(Vector3.zero(), Vector3.zero(), 2);
+    expectVector3(cloned.end, 4, 5, 6);
+    expect(cloned.radius).toBe(0.5);
+    c.copy(cloned);
+    expectVector3(c.start, 1, 2, 3);
+    expect(c.radius).toBe(0.5);
+  });
+
+  it('containsPoint()', () => {
+    const c = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+    expect(c.containsPoint(new Vector3(0.5, 1, 0))).toBe(true);
+    expect(c.containsPoint(new Vector3(0, 2.5, 0))).toBe(true);
+    expect(c.containsPoint(new Vector3(0, 2.6, 0))).toBe(false);
+    expect(c.containsPoint(new Vector3(0.4, 2.4, 0))).toBe(false);
+  });
+
+  it('intersectsCapsule()', () => {
+    const c = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+    expect(c.intersectsCapsule(new Capsule(new Vector3(0.9, 1, -1), new Vector3(0.9, 1, 1), 0.5))).toBe(true);
+    expect(c.intersectsCapsule(new Capsule(new Vector3(1.1, 1, -1), new Vector3(1.1, 1, 1), 0.5))).toBe(false);
+    // parallel, touching at the rounded ends
+    expect(c.intersectsCapsule(new Capsule(new Vector3(0, 3, 0), new Vector3(0, 5, 0), 0.5))).toBe(true);
+    expect(c.intersectsCapsule(new Capsule(new Vector3(0, 3.1, 0), new Vector3(0, 5, 0), 0.5))).toBe(false);
+  });
+
+  it('intersectsSphere()', () => {
+    const c = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+    expect(c.intersectsSphere(new Sphere(new Vector3(1, 3, 0), 1))).toBe(true);
+    expect(c.intersectsSphere(new Sphere(new Vector3(2, 1, 0), 1))).toBe(false);
+    expect(c.intersectsSphere(new Sphere(new Vector3(0, -1.4, 0), 1))).toBe(true);
+    expect(c.intersectsSphere(Sphere.empty())).toBe(false);
+  });
+
+  it('intersectsTriangle()', () => {
+    const t = new Triangle(new Vector3(-1, 0, -1), new Vector3(1, 0, -1), new Vector3(0, 0, 1));
+    // standing on the face
+    expect(new Capsule(new Vector3(0, 0.5, 0), new Vector3(0, 1.5, 0), 0.5).intersectsTriangle(t)).toBe(true);
+    expect(new Capsule(new Vector3(0, 0.6, 0), new Vector3(0, 1.6, 0), 0.5).intersectsTriangle(t)).toBe(false);
+    // piercing the face with the ends far away
+    expect(new Capsule(new Vector3(0, -5, 0), new Vector3(0, 5, 0), 0.1).intersectsTriangle(t)).toBe(true);
+    // lying across an edge, beyond the vertices
+    expect(new Capsule(new Vector3(-3, 0.3, -1.2), new Vector3(3, 0.3, -1.2), 0.4).intersectsTriangle(t)).toBe(true);
+    expect(new Capsule(new Vector3(-3, 0.3, -1.2), new Vector3(3, 0.3, -1.2), 0.3).intersectsTriangle(t)).toBe(false);
+    // lying in the plane of the triangle
+    expect(new Capsule(new Vector3(-0.1, 0, 0), new Vector3(0.1, 0, 0), 0.01).intersectsTriangle(t)).toBe(true);
+  });
+
+  it('intersectsPlane()', () => {
+    const p = new Plane(new Vector3(0, 1, 0), 0);
+    expect(new Capsule(new Vector3(0, 0.5, 0), new Vector3(0, 1.5, 0), 0.5).intersectsPlane(p)).toBe(true);
+    expect(new Capsule(new Vector3(0, 1.5, 0), new Vector3(0, 0.6, 0), 0.5).intersectsPlane(p)).toBe(false);
+    expect(new Capsule(new Vector3(0, -3, 0), new Vector3(0, -0.4, 0), 0.5).intersectsPlane(p)).toBe(true);
+    expect(new Capsule(new Vector3(0, -1, 0), new Vector3(0, 1, 0), 0).intersectsPlane(p)).toBe(true);
+  });
+
+  it('support()', () => {
+    const c = new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5);
+    expectVector3(c.support(new Vector3(0, 1, 0), Vector3.zero()), 0, 2.5, 0);
+    expectVector3(c.support(new Vector3(3, -4, 0), Vector3.zero()), 0.3, -0.4, 0);
+  });
+});
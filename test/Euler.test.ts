@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { Euler } from '../src/Euler';
+import type { EulerOrder } from '../src/Euler';
+import { Matrix3 } from '../src/Matrix3';
+import { Matrix4 } from '../src/Matrix4';
+import { Quaternion } from '../src/Quaternion';
+import { Vector3 } from '../src/Vector3';
+
+const PRECISION = 5;
+
+const ORDERS: EulerOrder[] = ['XYZ', 'YXZ', 'ZXY', 'ZYX', 'YZX', 'XZY'];
+
+describe('Euler', () => {
+  it('gets and sets angles', () => {
+    const e = new Euler(1, 2, 3);
+    expect(e.x).toBe(1);
+    expect(e.y).toBe(2);
+    expect(e.z).toBe(3);
+    e.x = 4;
+    e.y = 5;
+    e.z = 6;
+    expect(e.x).toBe(4);
+    expect(e.y).toBe(5);
+    expect(e.z).toBe(6);
+  });
+
+  it('defaults to intrinsic XYZ', () => {
+    const e = Euler.zero();
+    expect(e.order).toBe('XYZ');
+    expect(e.intrinsic).toBe(true);
+  });
+
+  it('clone()', () => {
+    const e = new Euler(1, 2, 3, 'ZYX', false);
+    const c = e.clone();
+    expect(c.x).toBe(1);
+    expect(c.y).toBe(2);
+    expect(c.z).toBe(3);
+    expect(c.order).toBe('ZYX');
+    expect(c.intrinsic).toBe(false);
+  });
+
+  it('copy()', () => {
+    const e1 = Euler.zero();
+    const e2 = new Euler(1, 2, 3, 'YZX', false);
+    e1.copy(e2);
+    expect(e1.x).toBe(1);
+    expect(e1.y).toBe(2);
+    expect(e1.z).toBe(3);
+    expect(e1.order).toBe('YZX');
+    expect(e1.intrinsic).toBe(false);
+  });
+
+  it('toQuaternion() of single axis rotation', () => {
+    const e = new Euler(0, Math.PI / 2, 0);
+    const q = Quaternion.identity();
+    e.toQuaternion(q);
+    expect(q.a).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(q.b).toBeCloseTo(0, PRECISION);
+    expect(q.c).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(q.d).toBeCloseTo(0, PRECISION);
+  });
+
+  it('toMatrix4() applies intrinsic XYZ as Rx * Ry * Rz', () => {
+    const e = new Euler(Math.PI / 2, Math.PI / 2, 0);
+    const m = Matrix4.identity();
+    e.toMatrix4(m);
+
+    // Ry maps x to -z, then Rx maps -z to y
+    const v = new Vector3(1, 0, 0);
+    v.applyMatrix4(m);
+    expect(v.x).toBeCloseTo(0, PRECISION);
+    expect(v.y).toBeCloseTo(1, PRECISION);
+    expect(v.z).toBeCloseTo(0, PRECISION);
+  });
+
+  it('toMatrix4() applies extrinsic XYZ as Rz * Ry * Rx', () => {
+    const e = new Euler(Math.PI / 2, Math.PI / 2, 0, 'XYZ', false);
+    const m = Matrix4.identity();
+    e.toMatrix4(m);
+
+    // Rx keeps x, then Ry maps x to -z
+    const v = new Vector3(1, 0, 0);
+    v.applyMatrix4(m);
+    expect(v.x).toBeCloseTo(0, PRECISION);
+    expect(v.y).toBeCloseTo(0, PRECISION);
+    expect(v.z).toBeCloseTo(-1, PRECISION);
+  });
+
+  it('toMatrix3() agrees with toMatrix4()', () => {
+    const e = new Euler(0.1, 0.2, 0.3, 'ZXY');
+    const m3 = Matrix3.identity();
+    const m4 = Matrix4.identity();
+    e.toMatrix3(m3);
+    e.toMatrix4(m4);
+    const v3 = new Vector3(1, 2, 3).applyMatrix3(m3);
+    const v4 = new Vector3(1, 2, 3).applyMatrix4(m4);
+    expect(v3.x).toBeCloseTo(v4.x, PRECISION);
+    expect(v3.y).toBeCloseTo(v4.y, PRECISION);
+    expect(v3.z).toBeCloseTo(v4.z, PRECISION);
+  });
+
+  for (const order of ORDERS) {
+    for (const intrinsic of [true, false]) {
+      it(`round trip through Matrix3 (${order}, ${intrinsic ? 'intrinsic' : 'extrinsic'})`, () => {
+        const e = new Euler(0.3, -0.7, 1.1, order, intrinsic);
+        const m = Matrix3.identity();
+        e.toMatrix3(m);
+        const restored = Euler.zero(order, intrinsic).setFromMatrix3(m);
+        expect(restored.x).toBeCloseTo(0.3, PRECISION);
+        expect(restored.y).toBeCloseTo(-0.7, PRECISION);
+        expect(restored.z).toBeCloseTo(1.1, PRECISION);
+      });
+
+      it(`round trip through Quaternion (${order}, ${intrinsic ? 'intrinsic' : 'extrinsic'})`, () => {
+        const e = new Euler(-1.2, 0.4, 1.3, order, intrinsic);
+        const q = Quaternion.identity();
+        e.toQuaternion(q);
+        const restored = Euler.zero(order, intrinsic).setFromQuaternion(q);
+        expect(restored.x).toBeCloseTo(-1.2, PRECISION);
+        expect(restored.y).toBeCloseTo(0.4, PRECISION);
+        expect(restored.z).toBeCloseTo(1.3, PRECISION);
+      });
+
+      it(`gimbal lock keeps rotation (${order}, ${intrinsic ? 'intrinsic' : 'extrinsic'})`, () => {
+        // the middle axis of the intrinsic order is rotated by π/2
+        const angles = {X: 0.5, Y: 0.5, Z: 0.5};
+        const middle = (intrinsic ? order : [...order].reverse().join(''))[1] as 'X' | 'Y' | 'Z';
+        angles[middle] = Math.PI / 2;
+        const e = new Euler(angles.X, angles.Y, angles.Z, order, intrinsic);
+        const m = Matrix4.identity();
+        e.toMatrix4(m);
+
+        const restored = Euler.zero(order, intrinsic).setFromMatrix4(m);
+        const restoredMatrix = Matrix4.identity();
+        restored.toMatrix4(restoredMatrix);
+
+        const v1 = new Vector3(1, 2, 3).applyMatrix4(m);
+        const v2 = new Vector3(1, 2, 3).applyMatrix4(restoredMatrix);
+        expect(v2.x).toBeCloseTo(v1.x, 3);
+        expect(v2.y).toBeCloseTo(v1.y, 3);
+        expect(v2.z).toBeCloseTo(v1.z, 3);
+      });
+    }
+  }
+
+  it('setFromMatrix4() ignores scale and translation', () => {
+    const e = new Euler(0.3, 0.2, 0.1, 'YXZ');
+    const q = Quaternion.identity();
+    e.toQuaternion(q);
+    const m = Matrix4.identity();
+    m.multiplyTranslation(new Vector3(1, 2, 3))
+      .multiplyRotation(q)
+      .multiplyScale(new Vector3(2, 2, 2));
+    const restored = Euler.zero('YXZ').setFromMatrix4(m);
+    expect(restored.x).toBeCloseTo(0.3, PRECISION);
+    expect(restored.y).toBeCloseTo(0.2, PRECISION);
+    expect(restored.z).toBeCloseTo(0.1, PRECISION);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { Frustum } from '../src/Frustum';
+import { Vector3 } from '../src/Vector3';
+import { Matrix4 } from '../src/Matrix4';
+import { Sphere } from '../src/Sphere';
+import { Box3 } from '../src/Box3';
+import type { ProjectionOptions } from '../src/Matrix4';
+
+const PRECISION = 4;
+
+/** camera at (0, 0, 5) looking at the origin, 90 degrees vertical fov, near 1, far 10 */
+const createViewProjection = (options?: ProjectionOptions): Matrix4 => {
+  const view = Matrix4.identity().lookAt(new Vector3(0, 0, 5), Vector3.zero(), new Vector3(0, 1, 0));
+  const projection = Matrix4.identity().perspective(Math.PI / 2, 1, 10, 2, options);
+  return projection.multiply(view);
+};
+
+describe('Frustum', () => {
+  it('fromMatrix4()', () => {
+    const f = Frustum.fromMatrix4(createViewProjection());
+    const [left, right, bottom, top, near, far] = f.planes;
+    expect(near.normal.z).toBeCloseTo(-1, PRECISION);
+    expect(near.constant).toBeCloseTo(4, PRECISION);
+    expect(far.normal.z).toBeCloseTo(1, PRECISION);
+    expect(far.constant).toBeCloseTo(5, PRECISION);
+    expect(top.normal.y).toBeCloseTo(-Math.SQRT1_2, PRECISION);
+    expect(bottom.normal.y).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(left.normal.x).toBeGreaterThan(0);
+    expect(right.normal.x).toBeLessThan(0);
+  });
+
+  it('fromMatrix4() respects depthZeroToOne and reversedZ', () => {
+    const variants: ProjectionOptions[] = [
+      {depthZeroToOne: true},
+      {reversedZ: true},
+      {depthZeroToOne: true, reversedZ: true},
+    ];
+    for (const options of variants) {
+      const f = Frustum.fromMatrix4(createViewProjection(options), options);
+      const near = f.planes[4];
+      const far = f.planes[5];
+      expect(near.normal.z).toBeCloseTo(-1, PRECISION);
+      expect(near.constant).toBeCloseTo(4, PRECISION);
+      expect(far.normal.z).toBeCloseTo(1, PRECISION);
+      expect(far.constant).toBeCloseTo(5, PRECISION);
+    }
+  });
+
+  it('clone() and copy()', () => {
+    const f = Frustum.fromMatrix4(createViewProjection());
+    const c = f.clone();
+    f.planes[4].negate();
+    expect(c.planes[4].normal.z).toBeCloseTo(-1, PRECISION);
+    f.copy(c);
+    expect(f.planes[4].normal.z).toBeCloseTo(-1, PRECISION);
+  });
+
+  it('containsPoint()', () => {
+    const f = Frustum.fromMatrix4(createViewProjection());
+    expect(f.containsPoint(Vector3.zero())).toBe(true);
+    expect(f.containsPoint(new Vector3(0, 0, 4.5))).toBe(false);
+    expect(f.containsPoint(new Vector3(0, 0, -5.5))).toBe(false);
+    expect(f.containsPoint(new Vector3(9, 0, 0))).toBe(true);
+    expect(f.containsPoint(new Vector3(0, 5.5, 0))).toBe(false);
+  });
+
+  it('classifySphere()', () => {
+    const f = Frustum.fromMatrix4(createViewProjection());
+    expect(f.classifySphere(new Sphere(Vector3.zero(), 1))).toBe('inside');
+    expect(f.classifySphere(new Sphere(new Vector3(0, 0, -5), 1))).toBe('intersecting');
+    expect(f.classifySphere(new Sphere(new Vector3(0, 0, 10), 1))).toBe('outside');
+    expect(f.classifySphere(Sphere.empty())).toBe('outside');
+    expect(f.intersectsSphere(new Sphere(new Vector3(0, 8, 0), 1))).toBe(false);
+  });
+
+  it('classifyBox()', () => {
+    const f = Frustum.fromMatrix4(createViewProjection());
+    const box = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+    expect(f.classifyBox(box)).toBe('inside');
+    box.translate(new Vector3(0, 0, -5));
+    expect(f.classifyBox(box)).toBe('intersecting');
+    box.translate(new Vector3(0, 0, 15));
+    expect(f.classifyBox(box)).toBe('outside');
+    expect(f.intersectsBox(box)).toBe(false);
+    expect(f.classifyBox(Box3.empty())).toBe('outside');
+  });
+
+  it('corners()', () => {
+    const f = Frustum.fromMatrix4(createViewProjection());
+    const corners = Array.from({length: 8}, () => Vector3.zero());
+    f.corners(corners);
+
+    // near plane at z = 4 has half height 1 and half width 2
+    const expected = [
+      [-2, -1, 4], [2, -1, 4], [2, 1, 4], [-2, 1, 4],
+      [-20, -10, -5], [20, -10, -5], [20, 10, -5], [-20, 10, -5],
+    ];
+    for (const [index, [x, y, z]] of expected.entries()) {
+      expect(corners[index].x).toBeCloseTo(x, 3);
+      expect(corners[index].y).toBeCloseTo(y, 3);
+      expect(corners[index].z).toBeCloseTo(z, 3);
+    }
+  });
+
+  it('corners() fills a short array and leaves infinite far corners NaN', () => {
+    const view = Matrix4.identity().lookAt(new Vector3(0, 0, 5), Vector3.zero(), new Vector3(0, 1, 0));
+    const projection = Matrix4.identity().perspective(Math.PI / 2, 1, Infinity, 2);
+    const f = Frustum.fromMatrix4(projection.multiply(view));
+    const corners: Vector3[] = [];
+    f.corners(corners);
+    expect(corners.length).toBe(8);
+    expect(corners[0].x).toBeCloseTo(-2, 3);
+    expect(corners[0].y).toBeCloseTo(-1, 3);
+    expect(corners[0].z).toBeCloseTo(4, 3);
+    for (const corner of corners.slice(4)) {
+      expect(corner.x).toBeNaN();
+    }
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import { GJK } from '../src/GJK';
+import { Box3 } from '../src/Box3';
+import { Capsule } from '../src/Capsule';
+import { ConvexHull } from '../src/ConvexHull';
+import { Matrix3 } from '../src/Matrix3';
+import { OBB } from '../src/OBB';
+import { Quaternion } from '../src/Quaternion';
+import { Sphere } from '../src/Sphere';
+import { Vector3 } from '../src/Vector3';
+
+const PRECISION = 4;
+
+const expectVector3 = (actual: Vector3, x: number, y: number, z: number, precision = PRECISION) => {
+  expect(actual.x).toBeCloseTo(x, precision);
+  expect(actual.y).toBeCloseTo(y, precision);
+  expect(actual.z).toBeCloseTo(z, precision);
+};
+
+const cube = (x: number, y: number, z: number, half: number): ConvexHull => {
+  const values: number[] = [];
+  for (const sx of [-1, 1]) {
+    for (const sy of [-1, 1]) {
+      for (const sz of [-1, 1]) {
+        values.push(x + sx * half, y + sy * half, z + sz * half);
+      }
+    }
+  }
+  return new ConvexHull(Float32Array.from(values));
+};
+
+describe('GJK', () => {
+  it('intersects() spheres', () => {
+    const s1 = new Sphere(new Vector3(0, 0, 0), 1);
+    expect(GJK.intersects(s1, new Sphere(new Vector3(1.5, 0, 0), 1))).toBe(true);
+    expect(GJK.intersects(s1, new Sphere(new Vector3(1.5, 1.5, 0), 1))).toBe(false);
+    expect(GJK.intersects(s1, new Sphere(new Vector3(0, 0, 0), 0.5))).toBe(true);
+  });
+
+  it('intersects() mixed shapes', () => {
+    const sphere = new Sphere(new Vector3(0, 0, 0), 1);
+    const box = new Box3(new Vector3(0.5, 0.5, 0.5), new Vector3(2, 2, 2));
+    expect(GJK.intersects(sphere, box)).toBe(true);
+
+    // the corner of the box is at distance √3 * 0.7 > 1
+    box.set(new Vector3(0.7, 0.7, 0.7), new Vector3(2, 2, 2));
+    expect(GJK.intersects(sphere, box)).toBe(false);
+
+    const capsule = new Capsule(new Vector3(-3, 1.4, 0), new Vector3(3, 1.4, 0), 0.5);
+    expect(GJK.intersects(sphere, capsule)).toBe(true);
+    capsule.radius = 0.3;
+    expect(GJK.intersects(sphere, capsule)).toBe(false);
+
+    const rotation = Matrix3.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 4));
+    const obb = new OBB(new Vector3(2.3, 0, 0), Vector3.one(), rotation);
+    expect(GJK.intersects(obb, cube(0, 0, 0, 1))).toBe(true);
+    obb.center.set(2.5, 0, 0);
+    expect(GJK.intersects(obb, cube(0, 0, 0, 1))).toBe(false);
+  });
+
+  it('distance()', () => {
+    const s1 = new Sphere(new Vector3(0, 0, 0), 1);
+    const s2 = new Sphere(new Vector3(5, 0, 0), 1);
+    const p1 = Vector3.zero();
+    const p2 = Vector3.zero();
+    expect(GJK.distance(s1, s2, p1, p2)).toBeCloseTo(3, PRECISION);
+    expectVector3(p1, 1, 0, 0, 3);
+    expectVector3(p2, 4, 0, 0, 3);
+
+    expect(GJK.distance(s1, new Sphere(new Vector3(0.5, 0, 0), 1))).toBe(0);
+  });
+
+  it('distance() between polytopes', () => {
+    // edge of a against face of b
+    const a = cube(0, 0, 0, 1);
+    const b = new Box3(new Vector3(3, -0.5, -5), new Vector3(4, 0.5, 5));
+    const p1 = Vector3.zero();
+    const p2 = Vector3.zero();
+    expect(GJK.distance(a, b, p1, p2)).toBeCloseTo(2, PRECISION);
+    expect(p1.x).toBeCloseTo(1, PRECISION);
+    expect(p2.x).toBeCloseTo(3, PRECISION);
+    expect(p1.y).toBeCloseTo(p2.y, PRECISION);
+    expect(p1.z).toBeCloseTo(p2.z, PRECISION);
+
+    // vertex against vertex
+    const c = cube(3, 3, 3, 1);
+    expect(GJK.distance(a, c, p1, p2)).toBeCloseTo(Math.sqrt(3), PRECISION);
+    expectVector3(p1, 1, 1, 1);
+    expectVector3(p2, 2, 2, 2);
+  });
+
+  it('intersects() and distance() for small shapes close to each other', () => {
+    const s1 = new Sphere(new Vector3(0, 0, 0), 0.01);
+    const s2 = new Sphere(new Vector3(0.02005, 0, 0), 0.01);
+    expect(GJK.intersects(s1, s2)).toBe(false);
+    expect(GJK.distance(s1, s2)).toBeCloseTo(5.0e-5, 7);
+
+    const a = new Box3(new Vector3(-0.001, -0.001, -0.001), new Vector3(0.001, 0.001, 0.001));
+    const b = new Box3(new Vector3(0.00101, -0.001, -0.001), new Vector3(0.003, 0.001, 0.001));
+    expect(GJK.intersects(a, b)).toBe(false);
+    expect(GJK.distance(a, b)).toBeCloseTo(1.0e-5, 8);
+  });
+
+  it('distance() between capsules', () => {
+    const c1 = new Capsule(new Vector3(-1, 0, 0), new Vector3(1, 0, 0), 0.25);
+    const c2 = new Capsule(new Vector3(0, -1, 2), new Vector3(0, 1, 2), 0.25);
+    expect(GJK.distance(c1, c2)).toBeCloseTo(1.5, 3);
+  });
+
+  it('penetration() spheres', () => {
+    const s1 = new Sphere(new Vector3(0, 0, 0), 1);
+    const s2 = new Sphere(new Vector3(1.5, 0, 0), 1);
+    const normal = Vector3.zero();
+    const p1 = Vector3.zero();
+    const p2 = Vector3.zero();
+    const depth = GJK.penetration(s1, s2, normal, p1, p2);
+    expect(depth).toBeCloseTo(0.5, 2);
+    expectVector3(normal, 1, 0, 0, 2);
+    expectVector3(p1, 1, 0, 0, 2);
+    expectVector3(p2, 0.5, 0, 0, 2);
+  });
+
+  it('penetration() boxes', () => {
+    const a = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+    const b = new Box3(new Vector3(-0.5, 0.8, -0.5), new Vector3(0.5, 2.8, 0.5));
+    const normal = Vector3.zero();
+    const p1 = Vector3.zero();
+    const p2 = Vector3.zero();
+    const depth = GJK.penetration(a, b, normal, p1, p2);
+    expect(depth).toBeCloseTo(0.2, PRECISION);
+    expectVector3(normal, 0, 1, 0);
+    expect(p1.y).toBeCloseTo(1, PRECISION);
+    expect(p2.y).toBeCloseTo(0.8, PRECISION);
+
+    // translating b by normal * depth makes them touch
+    b.translate(normal.multiplyScalar(depth! + 1.0e-3));
+    expect(GJK.intersects(a, b)).toBe(false);
+  });
+
+  it('penetration() deep overlap', () => {
+    const a = cube(0, 0, 0, 1);
+    const b = new OBB(
+      new Vector3(0.3, 0, 0),
+      new Vector3(0.5, 0.5, 0.5),
+      Matrix3.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 1, 0), Math.PI / 6))
+    );
+    const normal = Vector3.zero();
+    const depth = GJK.penetration(a, b, normal);
+    expect(depth).not.toBeNull();
+
+    // pushing b out along the normal separates the shapes
+    b.center.add(normal.multiplyScalar(depth! + 1.0e-3));
+    expect(GJK.intersects(a, b)).toBe(false);
+  });
+
+  it('penetration() witness points lie on the nearest face', () => {
+    const a = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+    const b = new Box3(new Vector3(0.9, -0.5, 0.3), new Vector3(1.9, 0.5, 1.3));
+    const normal = Vector3.zero();
+    const p1 = Vector3.zero();
+    const p2 = Vector3.zero();
+    const depth = GJK.penetration(a, b, normal, p1, p2);
+    expect(depth).toBeCloseTo(0.1, PRECISION);
+    expectVector3(normal, 1, 0, 0);
+    expect(p1.x).toBeCloseTo(1, PRECISION);
+    expect(p2.x).toBeCloseTo(0.9, PRECISION);
+    expect(p1.y).toBeCloseTo(p2.y, PRECISION);
+    expect(p1.z).toBeCloseTo(p2.z, PRECISION);
+  });
+
+  it('penetration() returns null when apart', () => {
+    const s1 = new Sphere(new Vector3(0, 0, 0), 1);
+    const s2 = new Sphere(new Vector3(3, 0, 0), 1);
+    expect(GJK.penetration(s1, s2, Vector3.zero())).toBeNull();
+  });
+
+  it('support()', () => {
+    const p = Vector3.zero();
+    new Sphere(new Vector3(1, 0, 0), 2).support(new Vector3(0, 3, 0), p);
+    expectVector3(p, 1, 2, 0);
+
+    new Box3(new Vector3(-1, -2, -3), new Vector3(1, 2, 3)).support(new Vector3(1, -1, 1), p);
+    expectVector3(p, 1, -2, 3);
+
+    const rotation = Matrix3.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 4));
+    new OBB(Vector3.zero(), Vector3.one(), rotation).support(new Vector3(1, 0, 0), p);
+    expect(p.x).toBeCloseTo(Math.SQRT2, PRECISION);
+    expect(p.y).toBeCloseTo(0, PRECISION);
+
+    new Capsule(new Vector3(0, 0, 0), new Vector3(0, 2, 0), 0.5).support(new Vector3(0, -1, 0), p);
+    expectVector3(p, 0, -0.5, 0);
+
+    new ConvexHull(Float32Array.of(0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1)).support(new Vector3(-1, 1, 0.5), p);
+    expectVector3(p, 0, 1, 0);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import { Matrix2 } from '../src/Matrix2';
+import { Vector2 } from '../src/Vector2';
+import { range } from "../src/functions";
+
+const PRECISION = 6;
+
+describe('Matrix2', () => {
+  it('identity()', () => {
+    const m = Matrix2.identity();
+
+    const {order} = m;
+    for (const row of range(order)) {
+      for (const column of range(order)) {
+        const index = row * order + column;
+        if (row === column) {
+          expect(m.elements[index]).toBe(1);
+        } else {
+          expect(m.elements[index]).toBe(0);
+        }
+      }
+    }
+  });
+
+  it('zero()', () => {
+    const m = Matrix2.zero();
+
+    const {order} = m;
+    for (const index of range(order ** 2)) {
+      expect(m.elements[index]).toBe(0);
+    }
+  });
+
+  it('clone()', () => {
+    const m = new Matrix2(1, 2, 3, 4);
+    const c = m.clone();
+
+    const {order} = m;
+    for (const index of range(order ** 2)) {
+      expect(c.elements[index]).toBe(index + 1);
+    }
+  });
+
+  it('set()', () => {
+    const m = Matrix2.zero();
+    m.set(1, 2, 3, 4);
+
+    const {order} = m;
+    for (const index of range(order ** 2)) {
+      expect(m.elements[index]).toBe(index + 1);
+    }
+  });
+
+  it('copy()', () => {
+    const m = Matrix2.zero();
+    m.copy(new Matrix2(1, 2, 3, 4));
+
+    const {order} = m;
+    for (const index of range(order ** 2)) {
+      expect(m.elements[index]).toBe(index + 1);
+    }
+  });
+
+  it('setRotation()', () => {
+    const m = Matrix2.zero();
+    m.setRotation(Math.PI / 2);
+    const v = new Vector2(1, 0);
+    v.applyMatrix2(m);
+    expect(v.x).toBeCloseTo(0, PRECISION);
+    expect(v.y).toBeCloseTo(1, PRECISION);
+  });
+
+  it('setScale()', () => {
+    const m = Matrix2.zero();
+    m.setScale(new Vector2(2, 3));
+    const v = new Vector2(1, 1);
+    v.applyMatrix2(m);
+    expect(v.x).toBe(2);
+    expect(v.y).toBe(3);
+  });
+
+  it('setShear()', () => {
+    const m = Matrix2.zero();
+    m.setShear(2, 3);
+    const v = new Vector2(1, 1);
+    v.applyMatrix2(m);
+    expect(v.x).toBe(3);
+    expect(v.y).toBe(4);
+  });
+
+  it('add()', () => {
+    const m1 = Matrix2.identity();
+    const m2 = new Matrix2(1, 2, 3, 4);
+    m1.add(m2);
+    expect(Array.from(m1.elements)).toEqual([2, 2, 3, 5]);
+  });
+
+  it('subtract()', () => {
+    const m1 = new Matrix2(1, 2, 3, 4);
+    const m2 = Matrix2.identity();
+    m1.subtract(m2);
+    expect(Array.from(m1.elements)).toEqual([0, 2, 3, 3]);
+  });
+
+  it('multiplyScalar()', () => {
+    const m = new Matrix2(1, 2, 3, 4);
+    m.multiplyScalar(2);
+    expect(Array.from(m.elements)).toEqual([2, 4, 6, 8]);
+  });
+
+  it('divideScalar()', () => {
+    const m = new Matrix2(1, 2, 3, 4);
+    m.divideScalar(2);
+    expect(Array.from(m.elements)).toEqual([0.5, 1, 1.5, 2]);
+  });
+
+  it('multiply()', () => {
+    const m1 = new Matrix2(1, 2, 3, 4);
+    const m2 = new Matrix2(5, 6, 7, 8);
+    m1.multiply(m2);
+    expect(Array.from(m1.elements)).toEqual([23, 34, 31, 46]);
+  });
+
+  it('determinant()', () => {
+    const m = new Matrix2(1, 2, 3, 4);
+    expect(m.determinant()).toBe(-2);
+  });
+
+  it('invert()', () => {
+    const m = new Matrix2(1, 2, 3, 4);
+    const i = m.clone().invert();
+
+    if (!i) {
+      expect.fail();
+    }
+
+    i.multiply(m);
+    const {order} = i;
+    for (const row of range(order)) {
+      for (const column of range(order)) {
+        const index = row * order + column;
+        expect(i.elements[index]).toBeCloseTo(row === column ? 1 : 0, PRECISION);
+      }
+    }
+  });
+
+  it('invert() does not calculates singular matrix', () => {
+    const m = new Matrix2(1, 2, 2, 4);
+    expect(m.invert()).toBeNull();
+  });
+
+  it('transpose()', () => {
+    const m = new Matrix2(1, 2, 3, 4);
+    m.transpose();
+    expect(Array.from(m.elements)).toEqual([1, 3, 2, 4]);
+  });
+
+  it('divide()', () => {
+    const m1 = new Matrix2(1, 2, 3, 4);
+    const m2 = new Matrix2(1, 2, 3, 4);
+    const result = m1.divide(m2);
+    expect(result).toBeTruthy();
+    expect(m1.elements[0]).toBeCloseTo(1, PRECISION);
+    expect(m1.elements[1]).toBeCloseTo(0, PRECISION);
+    expect(m1.elements[2]).toBeCloseTo(0, PRECISION);
+    expect(m1.elements[3]).toBeCloseTo(1, PRECISION);
+  });
+
+  it('divide() does not calculates zero matrix', () => {
+    const m1 = Matrix2.identity();
+    const m2 = Matrix2.zero();
+    expect(m1.divide(m2)).toBeNull();
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, it, expect } from "vitest";
 import { Matrix3 } from '../src/Matrix3';
 import { range } from "../src/functions";
+import { Matrix4 } from '../src/Matrix4';
+import { Vector3 } from '../src/Vector3';
+import { Quaternion } from '../src/Quaternion';
+import { Vector2 } from '../src/Vector2';
 
 const PRECISION = 8;
 
@@ -233,4 +237,99 @@ describe('Matrix3', () => {
     const result = m1.divide(m2);
     expect(result).toBeNull();
   });
-});
\ No newline at end of file
+
+  it('setFromMatrix4()', () => {
+    const m4 = new Matrix4(1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16);
+    const m3 = Matrix3.zero();
+    m3.setFromMatrix4(m4);
+    const expected = [1, 2, 3, 5, 6, 7, 9, 10, 11];
+    for (const index of range(9)) {
+      expect(m3.elements[index]).toBe(expected[index]);
+    }
+  });
+
+  it('setNormalMatrix()', () => {
+    const model = Matrix4.identity();
+    model
+      .multiplyTranslation(new Vector3(1, 2, 3))
+      .multiplyRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 4))
+      .multiplyScale(new Vector3(1, 4, 1));
+    const normalMatrix = Matrix3.identity();
+    const result = normalMatrix.setNormalMatrix(model);
+    expect(result).toBe(normalMatrix);
+
+    // normal stays perpendicular to a transformed tangent
+    const tangent = new Vector3(1, 1, 0).applyMatrix4(model, {asDirection: true});
+    const normal = new Vector3(1, -1, 0).applyMatrix3(normalMatrix);
+    expect(tangent.dot(normal)).toBeCloseTo(0, 5);
+  });
+
+  it('setNormalMatrix() returns null when singular', () => {
+    const model = Matrix4.identity();
+    model.setScale(new Vector3(1, 0, 1));
+    const normalMatrix = new Matrix3(1, 2, 3, 4, 5, 6, 7, 8, 9);
+    expect(normalMatrix.setNormalMatrix(model)).toBeNull();
+
+    // this is left untouched
+    for (const index of range(9)) {
+      expect(normalMatrix.elements[index]).toBe(index + 1);
+    }
+  });
+
+  it('setNormalMatrix() with small uniform scale', () => {
+    const model = Matrix4.identity().setScale(new Vector3(1.0e-3, 1.0e-3, 1.0e-3));
+    const normalMatrix = Matrix3.identity();
+    expect(normalMatrix.setNormalMatrix(model)).toBe(normalMatrix);
+    const expected = [1000, 0, 0, 0, 1000, 0, 0, 0, 1000];
+    for (const index of range(9)) {
+      expect(normalMatrix.elements[index]).toBeCloseTo(expected[index], 2);
+    }
+  });
+
+  it('setTranslation2D()', () => {
+    const m = Matrix3.zero();
+    m.setTranslation2D(new Vector2(2, 3));
+    expect(Array.from(m.elements)).toEqual([1, 0, 0, 0, 1, 0, 2, 3, 1]);
+  });
+
+  it('setRotation2D()', () => {
+    const m = Matrix3.zero();
+    m.setRotation2D(Math.PI / 2);
+    const v = new Vector2(1, 0);
+    v.applyMatrix3(m);
+    expect(v.x).toBeCloseTo(0, 6);
+    expect(v.y).toBeCloseTo(1, 6);
+  });
+
+  it('setScale2D()', () => {
+    const m = Matrix3.zero();
+    m.setScale2D(new Vector2(2, 3));
+    expect(Array.from(m.elements)).toEqual([2, 0, 0, 0, 3, 0, 0, 0, 1]);
+  });
+
+  it('multiplyTranslation2D(), multiplyRotation2D() and multiplyScale2D()', () => {
+    const m = Matrix3.identity();
+    m.multiplyTranslation2D(new Vector2(10, 0))
+      .multiplyRotation2D(Math.PI / 2)
+      .multiplyScale2D(new Vector2(2, 2));
+    const v = new Vector2(1, 0);
+    v.applyMatrix3(m);
+    expect(v.x).toBeCloseTo(10, 6);
+    expect(v.y).toBeCloseTo(2, 6);
+  });
+
+  it('setRotation()', () => {
+    const q = Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 2);
+    const m = Matrix3.zero().setRotation(q);
+    const v = new Vector3(1, 0, 0).applyMatrix3(m);
+    expect(v.x).toBeCloseTo(0, PRECISION);
+    expect(v.y).toBeCloseTo(1, PRECISION);
+    expect(v.z).toBeCloseTo(0, PRECISION);
+
+    const rotation4 = Matrix4.identity().setRotation(q);
+    const rotation3 = Matrix3.zero().setFromMatrix4(rotation4);
+    for (const index of range(9)) {
+      expect(m.elements[index]).toBeCloseTo(rotation3.elements[index], PRECISION);
+    }
+  });
+});
@@ -3,6 +3,7 @@ import {Matrix4} from '../src/Matrix4';
 import { Vector3 } from "../src/Vector3";
 import { range } from "../src/functions";
 import { Quaternion } from "../src/Quaternion";
+import { Matrix3 } from '../src/Matrix3';
 
 const PRECISION = 6;
 
@@ -500,5 +501,207 @@ describe('Matrix4', () => {
     expect(vertex.y).toBeCloseTo(4, PRECISION);
     expect(vertex.z).toBeCloseTo(7, PRECISION);
   });
-});
 
+  it('compose() equals translation * rotation * scale', () => {
+    const position = new Vector3(1, 2, 3);
+    const rotation = Quaternion.fromAxisAndAngle(new Vector3(1, 2, 3), 0.8);
+    const scale = new Vector3(2, 3, 4);
+
+    const expected = Matrix4.identity();
+    expected
+      .multiplyTranslation(position)
+      .multiplyRotation(rotation)
+      .multiplyScale(scale);
+
+    const m = Matrix4.zero();
+    m.compose(position, rotation, scale);
+
+    const {order} = m;
+    for (const index of range(order ** 2)) {
+      expect(m.elements[index]).toBeCloseTo(expected.elements[index], PRECISION);
+    }
+  });
+
+  it('decompose()', () => {
+    const rotation = Quaternion.fromAxisAndAngle(new Vector3(0, 1, 1), 1.2);
+    const m = Matrix4.identity();
+    m.compose(new Vector3(1, 2, 3), rotation, new Vector3(2, 3, 4));
+
+    const position = Vector3.zero();
+    const outRotation = Quaternion.identity();
+    const scale = Vector3.zero();
+    m.decompose(position, outRotation, scale);
+
+    expect(position.x).toBeCloseTo(1, PRECISION);
+    expect(position.y).toBeCloseTo(2, PRECISION);
+    expect(position.z).toBeCloseTo(3, PRECISION);
+    expect(outRotation.a).toBeCloseTo(rotation.a, 5);
+    expect(outRotation.b).toBeCloseTo(rotation.b, 5);
+    expect(outRotation.c).toBeCloseTo(rotation.c, 5);
+    expect(outRotation.d).toBeCloseTo(rotation.d, 5);
+    expect(scale.x).toBeCloseTo(2, 5);
+    expect(scale.y).toBeCloseTo(3, 5);
+    expect(scale.z).toBeCloseTo(4, 5);
+  });
+
+  it('decompose() mirrored matrix', () => {
+    const rotation = Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 3);
+    const m = Matrix4.identity();
+    m.compose(new Vector3(1, 2, 3), rotation, new Vector3(2, 3, -4));
+
+    const position = Vector3.zero();
+    const outRotation = Quaternion.identity();
+    const scale = Vector3.zero();
+    m.decompose(position, outRotation, scale);
+    expect(scale.x * scale.y * scale.z).toBeCloseTo(-24, 4);
+
+    // decomposed parts reproduce the original matrix
+    const recomposed = Matrix4.identity();
+    recomposed.compose(position, outRotation, scale);
+    const {order} = m;
+    for (const index of range(order ** 2)) {
+      expect(recomposed.elements[index]).toBeCloseTo(m.elements[index], 5);
+    }
+  });
+
+  it('setFromMatrix3()', () => {
+    const m3 = new Matrix3(1, 2, 3, 4, 5, 6, 7, 8, 9);
+    const m4 = new Matrix4(1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16);
+    m4.setFromMatrix3(m3);
+    const expected = [1, 2, 3, 0, 4, 5, 6, 0, 7, 8, 9, 0, 0, 0, 0, 1];
+    for (const index of range(16)) {
+      expect(m4.elements[index]).toBe(expected[index]);
+    }
+  });
+
+  it('frustum() agrees with perspective() when symmetric', () => {
+    const fov = Math.PI / 3;
+    const near = 0.1;
+    const far = 20;
+    const aspect = 1.5;
+    const top = near * Math.tan(fov / 2);
+    const right = top * aspect;
+    const p = Matrix4.zero().perspective(fov, near, far, aspect);
+    const f = Matrix4.zero().frustum(-right, right, -top, top, near, far);
+
+    for (const index of range(16)) {
+      expect(f.elements[index]).toBeCloseTo(p.elements[index], PRECISION);
+    }
+  });
+
+  it('frustum() maps asymmetric boundaries to NDC edges', () => {
+    const m = Matrix4.zero().frustum(-0.2, 0.1, -0.05, 0.15, 0.1, 10);
+
+    const bottomLeft = new Vector3(-0.2, -0.05, -0.1).applyMatrix4(m);
+    expect(bottomLeft.x).toBeCloseTo(-1, PRECISION);
+    expect(bottomLeft.y).toBeCloseTo(-1, PRECISION);
+    expect(bottomLeft.z).toBeCloseTo(-1, PRECISION);
+
+    const topRight = new Vector3(10, 15, -10).applyMatrix4(m);
+    expect(topRight.x).toBeCloseTo(1, PRECISION);
+    expect(topRight.y).toBeCloseTo(1, PRECISION);
+    expect(topRight.z).toBeCloseTo(1, 5);
+  });
+
+  it('perspective() with reversedZ maps near to 1 and far to 0', () => {
+    const m = Matrix4.zero().perspective(Math.PI / 2, 0.1, 10, 1, {depthZeroToOne: true, reversedZ: true});
+    expect(new Vector3(0, 0, -0.1).applyMatrix4(m).z).toBeCloseTo(1, PRECISION);
+    expect(new Vector3(0, 0, -10).applyMatrix4(m).z).toBeCloseTo(0, PRECISION);
+  });
+
+  it('perspective() with reversedZ for WebGL maps near to 1 and far to -1', () => {
+    const m = Matrix4.zero().perspective(Math.PI / 2, 0.1, 10, 1, {reversedZ: true});
+    expect(new Vector3(0, 0, -0.1).applyMatrix4(m).z).toBeCloseTo(1, PRECISION);
+    expect(new Vector3(0, 0, -10).applyMatrix4(m).z).toBeCloseTo(-1, 5);
+  });
+
+  it('perspective() with infinite reversedZ', () => {
+    const near = 0.1;
+    const m = Matrix4.zero().perspective(Math.PI / 2, near, Infinity, 1, {depthZeroToOne: true, reversedZ: true});
+    expect(m.elements[10]).toBeCloseTo(0, PRECISION);
+    expect(m.elements[11]).toBe(-1);
+    expect(m.elements[14]).toBeCloseTo(near, PRECISION);
+    expect(new Vector3(0, 0, -near).applyMatrix4(m).z).toBeCloseTo(1, PRECISION);
+    expect(new Vector3(0, 0, -1.0e6).applyMatrix4(m).z).toBeCloseTo(0, PRECISION);
+  });
+
+  it('orthographic() with reversedZ maps near to 1 and far to 0', () => {
+    const m = Matrix4.zero().orthographic(-1, 1, -1, 1, 0.1, 2, {depthZeroToOne: true, reversedZ: true});
+    expect(new Vector3(0, 0, -0.1).applyMatrix4(m).z).toBeCloseTo(1, PRECISION);
+    expect(new Vector3(0, 0, -2).applyMatrix4(m).z).toBeCloseTo(0, PRECISION);
+  });
+
+  it('frustum() with reversedZ maps near to 1 and far to 0', () => {
+    const m = Matrix4.zero().frustum(-0.2, 0.1, -0.05, 0.15, 0.1, 10, {depthZeroToOne: true, reversedZ: true});
+    expect(new Vector3(0, 0, -0.1).applyMatrix4(m).z).toBeCloseTo(1, PRECISION);
+    expect(new Vector3(0, 0, -10).applyMatrix4(m).z).toBeCloseTo(0, PRECISION);
+  });
+
+  it('lookAt() with left-handed view space looks toward +Z', () => {
+    const m = Matrix4.identity();
+    const position = new Vector3(1, 2, 3);
+    const target = new Vector3(1, 2, -5);
+    m.lookAt(position, target, new Vector3(0, 1, 0), {handedness: 'left'});
+
+    const v = new Vector3(1, 2, -1).applyMatrix4(m);
+    expect(v.x).toBeCloseTo(0, PRECISION);
+    expect(v.y).toBeCloseTo(0, PRECISION);
+    expect(v.z).toBeCloseTo(4, PRECISION);
+
+    // turning around in left-handed space puts world +X on the left
+    const left = new Vector3(2, 2, 3).applyMatrix4(m);
+    expect(left.x).toBeCloseTo(-1, PRECISION);
+  });
+
+  it('perspective() with left-handed view space', () => {
+    const options = {depthZeroToOne: true, handedness: 'left'} as const;
+    const m = Matrix4.zero().perspective(Math.PI / 2, 0.1, 10, 1, options);
+    expect(m.elements[10]).toBeCloseTo(10 / 9.9, PRECISION);
+    expect(m.elements[11]).toBe(1);
+    expect(m.elements[14]).toBeCloseTo(-1 / 9.9, PRECISION);
+    expect(new Vector3(0, 0, 0.1).applyMatrix4(m).z).toBeCloseTo(0, PRECISION);
+    expect(new Vector3(0, 0, 10).applyMatrix4(m).z).toBeCloseTo(1, PRECISION);
+  });
+
+  it('orthographic() with left-handed view space', () => {
+    const m = Matrix4.zero().orthographic(-1, 1, -1, 1, 0.1, 2, {handedness: 'left'});
+    expect(new Vector3(0, 0, 0.1).applyMatrix4(m).z).toBeCloseTo(-1, PRECISION);
+    expect(new Vector3(0, 0, 2).applyMatrix4(m).z).toBeCloseTo(1, PRECISION);
+  });
+
+  it('frustum() with left-handed view space', () => {
+    const m = Matrix4.zero().frustum(-0.2, 0.1, -0.05, 0.15, 0.1, 10, {handedness: 'left'});
+    const v = new Vector3(-0.2, -0.05, 0.1).applyMatrix4(m);
+    expect(v.x).toBeCloseTo(-1, PRECISION);
+    expect(v.y).toBeCloseTo(-1, PRECISION);
+    expect(v.z).toBeCloseTo(-1, PRECISION);
+  });
+
+  it('setYUpToZUp() and setZUpToYUp()', () => {
+    const v = new Vector3(1, 2, 3);
+    v.applyMatrix4(Matrix4.zero().setYUpToZUp());
+    expect(v.x).toBeCloseTo(1, PRECISION);
+    expect(v.y).toBeCloseTo(-3, PRECISION);
+    expect(v.z).toBeCloseTo(2, PRECISION);
+
+    v.applyMatrix4(Matrix4.zero().setZUpToYUp());
+    expect(v.x).toBeCloseTo(1, PRECISION);
+    expect(v.y).toBeCloseTo(2, PRECISION);
+    expect(v.z).toBeCloseTo(3, PRECISION);
+  });
+
+  it('setHandednessConversion()', () => {
+    const c = Matrix4.zero().setHandednessConversion();
+    expect(c.determinant()).toBeCloseTo(-1, PRECISION);
+
+    const v = new Vector3(1, 2, 3).applyMatrix4(c);
+    expect(v.x).toBeCloseTo(1, PRECISION);
+    expect(v.y).toBeCloseTo(2, PRECISION);
+    expect(v.z).toBeCloseTo(-3, PRECISION);
+
+    const i = c.clone().multiply(c);
+    for (const index of range(16)) {
+      expect(i.elements[index]).toBeCloseTo(index % 5 === 0 ? 1 : 0, PRECISION);
+    }
+  });
+});
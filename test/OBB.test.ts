@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { OBB } from '../src/OBB';
+import { Box3 } from '../src/Box3';
+import { Matrix3 } from '../src/Matrix3';
+import { Matrix4 } from '../src/Matrix4';
+import { Quaternion } from '../src/Quaternion';
+import { Vector3 } from '../src/Vector3';
+
+const PRECISION = 5;
+
+const rotationZ = (radian: number): Matrix3 => {
+  return Matrix3.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), radian));
+};
+
+const expectVector3 = (actual: Vector3, x: number, y: number, z: number) => {
+  expect(actual.x).toBeCloseTo(x, PRECISION);
+  expect(actual.y).toBeCloseTo(y, PRECISION);
+  expect(actual.z).toBeCloseTo(z, PRECISION);
+};
+
+describe('OBB', () => {
+  it('clone(), set() and copy()', () => {
+    const b = new OBB(new Vector3(1, 2, 3), new Vector3(4, 5, 6), rotationZ(1));
+    const c = b.clone();
+    b.set(Vector3.zero(), Vector3.one(), Matrix3.identity());
+    expectVector3(c.halfExtents, 4, 5, 6);
+    expect(c.rotation.elements[0]).toBeCloseTo(Math.cos(1), PRECISION);
+    b.copy(c);
+    expectVector3(b.center, 1, 2, 3);
+    expect(b.rotation.elements[1]).toBeCloseTo(Math.sin(1), PRECISION);
+  });
+
+  it('fromBox3()', () => {
+    const b = OBB.fromBox3(new Box3(new Vector3(0, 0, 0), new Vector3(2, 4, 6)));
+    expectVector3(b.center, 1, 2, 3);
+    expectVector3(b.halfExtents, 1, 2, 3);
+    expect(Array.from(b.rotation.elements)).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+  });
+
+  it('fromPositions() fits rotated box', () => {
+    // corners of a box with half extents (4, 1, 0.5) rotated by 30 degrees about z-axis, centered at (1, 2, 3)
+    const rotation = rotationZ(Math.PI / 6);
+    const center = new Vector3(1, 2, 3);
+    const values: number[] = [];
+    for (const sx of [-1, 1]) {
+      for (const sy of [-1, 1]) {
+        for (const sz of [-1, 1]) {
+          const p = new Vector3(4 * sx, sy, 0.5 * sz).applyMatrix3(rotation).add(center);
+          values.push(p.x, p.y, p.z);
+        }
+      }
+    }
+    const b = OBB.fromPositions(Float32Array.from(values));
+    expectVector3(b.center, 1, 2, 3);
+
+    // sort extents, since the order of axes is not specified
+    const extents = Array.from(b.halfExtents.elements).sort((a, b) => b - a);
+    expect(extents[0]).toBeCloseTo(4, 4);
+    expect(extents[1]).toBeCloseTo(1, 4);
+    expect(extents[2]).toBeCloseTo(0.5, 4);
+
+    // axes are orthonormal and right-handed
+    expect(b.rotation.determinant()).toBeCloseTo(1, PRECISION);
+
+    // all positions are inside
+    for (let index = 0; index < values.length; index += 3) {
+      const p = new Vector3(values[index], values[index + 1], values[index + 2]);
+      expect(b.distanceToPoint(p)).toBeCloseTo(0, 4);
+    }
+  });
+
+  it('fromPositions() empty positions', () => {
+    const b = OBB.fromPositions(new Float32Array(0));
+    expectVector3(b.center, 0, 0, 0);
+    expectVector3(b.halfExtents, 0, 0, 0);
+  });
+
+  it('containsPoint()', () => {
+    const b = new OBB(new Vector3(1, 0, 0), new Vector3(2, 0.5, 0.5), rotationZ(Math.PI / 2));
+    expect(b.containsPoint(new Vector3(1, 1.9, 0))).toBe(true);
+    expect(b.containsPoint(new Vector3(2.9, 0, 0))).toBe(false);
+    expect(b.containsPoint(new Vector3(1.4, -1.5, 0.4))).toBe(true);
+  });
+
+  it('closestPointToPoint() and distanceToPoint()', () => {
+    const b = new OBB(Vector3.zero(), Vector3.one(), rotationZ(Math.PI / 4));
+    const closest = Vector3.zero();
+    b.closestPointToPoint(new Vector3(3, 0, 0), closest);
+    expectVector3(closest, Math.SQRT2, 0, 0);
+    expect(b.distanceToPoint(new Vector3(3, 0, 0))).toBeCloseTo(3 - Math.SQRT2, PRECISION);
+    expect(b.distanceToPoint(new Vector3(0.5, 0, 0.5))).toBeCloseTo(0, PRECISION);
+  });
+
+  it('intersectsOBB()', () => {
+    const b1 = new OBB(Vector3.zero(), Vector3.one(), Matrix3.identity());
+    const rotated = rotationZ(Math.PI / 4);
+    expect(b1.intersectsOBB(new OBB(new Vector3(2.3, 0, 0), Vector3.one(), rotated))).toBe(true);
+    expect(b1.intersectsOBB(new OBB(new Vector3(2.5, 0, 0), Vector3.one(), rotated))).toBe(false);
+    expect(b1.intersectsOBB(new OBB(new Vector3(1.9, 1.9, 0), Vector3.one(), Matrix3.identity()))).toBe(true);
+    expect(b1.intersectsOBB(new OBB(new Vector3(0, 0, 2.1), Vector3.one(), rotated))).toBe(false);
+  });
+
+  it('intersectsOBB() separated only by edge-edge axis', () => {
+    // the top edge of b1 along z-axis crosses the bottom edge of b2 along x-axis, touching at y = 2√2
+    const b1 = new OBB(Vector3.zero(), Vector3.one(), rotationZ(Math.PI / 4));
+    const rotationX = Matrix3.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(1, 0, 0), Math.PI / 4));
+    const b2 = new OBB(new Vector3(0, 2 * Math.SQRT2 + 0.1, 0), Vector3.one(), rotationX);
+    expect(b1.intersectsOBB(b2)).toBe(false);
+    b2.center.set(0, 2 * Math.SQRT2 - 0.1, 0);
+    expect(b1.intersectsOBB(b2)).toBe(true);
+  });
+
+  it('intersectsBox()', () => {
+    const b = new OBB(Vector3.zero(), new Vector3(3, 0.1, 0.1), rotationZ(Math.PI / 4));
+    expect(b.intersectsBox(new Box3(new Vector3(1.5, 1.5, -1), new Vector3(2, 2, 1)))).toBe(true);
+
+    // inside the AABB of the OBB, but off the diagonal
+    expect(b.intersectsBox(new Box3(new Vector3(1.5, -2, -1), new Vector3(2, -1.5, 1)))).toBe(false);
+    expect(b.intersectsBox(Box3.empty())).toBe(false);
+  });
+
+  it('applyMatrix4()', () => {
+    const b = new OBB(new Vector3(1, 0, 0), new Vector3(1, 2, 3), Matrix3.identity());
+    const m = Matrix4.identity()
+      .setTranslation(new Vector3(0, 5, 0))
+      .multiply(Matrix4.identity().setRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), Math.PI / 2)))
+      .multiply(Matrix4.identity().setScale(new Vector3(2, 2, 2)));
+    b.applyMatrix4(m);
+    expectVector3(b.center, 0, 7, 0);
+    expectVector3(b.halfExtents, 2, 4, 6);
+    expect(b.rotation.elements[0]).toBeCloseTo(0, PRECISION);
+    expect(b.rotation.elements[1]).toBeCloseTo(1, PRECISION);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { Octree } from '../src/Octree';
+import { Box3 } from '../src/Box3';
+import { Vector3 } from '../src/Vector3';
+import { range } from '../src/functions';
+
+/** deterministic pseudo random values in range [-1, 1) */
+const randomValues = (count: number, seed: number): Float32Array => {
+  const values = new Float32Array(count);
+  let state = seed;
+  for (const index of range(count)) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    values[index] = state / 2147483648 * 2 - 1;
+  }
+  return values;
+};
+
+type Agent = {id: number; position: Vector3};
+
+const randomAgents = (count: number, seed: number, scale: number): Agent[] => {
+  const values = randomValues(3 * count, seed);
+  return [...range(count)].map((id) => ({
+    id,
+    position: new Vector3(values[3 * id], values[3 * id + 1], values[3 * id + 2]).multiplyScalar(scale),
+  }));
+};
+
+const ids = (agents: Agent[]) => agents.map(({id}) => id).sort((a, b) => a - b);
+
+const bruteForceRadius = (agents: Agent[], center: Vector3, radius: number) =>
+  agents.filter(({position}) => position.clone().subtract(center).length() <= radius);
+
+const bruteForceNearest = (agents: Agent[], point: Vector3, k: number) =>
+  [...agents]
+    .sort((a, b) => a.position.clone().subtract(point).length() - b.position.clone().subtract(point).length())
+    .slice(0, k);
+
+describe('Octree', () => {
+  it('insert(), has(), remove() and clear()', () => {
+    const index = new Octree<Agent>(new Box3(new Vector3(-20, -20, -20), new Vector3(20, 20, 20)), {maxItems: 4});
+    const a = {id: 0, position: new Vector3(1, 2, 3)};
+    const b = {id: 1, position: new Vector3(-4, 5, -6)};
+    index.insert(a, a.position).insert(b, b.position);
+    expect(index.size).toBe(2);
+    expect(index.has(a)).toBe(true);
+    // inserting again moves the item
+    index.insert(a, new Vector3(-1, -2, -3));
+    expect(index.size).toBe(2);
+    expect(index.queryRadius(new Vector3(-1, -2, -3), 0.1, [])).toEqual([a]);
+    expect(index.remove(a)).toBe(true);
+    expect(index.remove(a)).toBe(false);
+    expect(index.has(a)).toBe(false);
+    expect(index.move(a, Vector3.zero())).toBe(false);
+    expect(index.clear().size).toBe(0);
+    expect(index.queryRadius(b.position, 1, [])).toEqual([]);
+  });
+
+  it('position is copied, not referenced', () => {
+    const index = new Octree<Agent>(new Box3(new Vector3(-20, -20, -20), new Vector3(20, 20, 20)), {maxItems: 4});
+    const a = {id: 0, position: new Vector3(1, 2, 3)};
+    index.insert(a, a.position);
+    a.position.set(-30, -30, -30);
+    expect(index.queryRadius(new Vector3(1, 2, 3), 0.1, [])).toEqual([a]);
+    expect(index.queryRadius(a.position, 0.1, [])).toEqual([]);
+  });
+
+  it('queryRadius(), queryBox() and queryNearest() agree with brute force', () => {
+    const index = new Octree<Agent>(new Box3(new Vector3(-20, -20, -20), new Vector3(20, 20, 20)), {maxItems: 4});
+    const agents = randomAgents(500, 3, 20);
+    for (const agent of agents) {
+      index.insert(agent, agent.position);
+    }
+    const result: Agent[] = [];
+    const centers = randomAgents(20, 5, 22);
+    for (const {position: center} of centers) {
+      for (const radius of [0.5, 3, 10, 100]) {
+        expect(ids(index.queryRadius(center, radius, result))).toEqual(ids(bruteForceRadius(agents, center, radius)));
+      }
+      const box = new Box3(center, center.clone().add(new Vector3(4, 6, 8)));
+      expect(ids(index.queryBox(box, result))).toEqual(ids(agents.filter(({position}) => box.containsPoint(position))));
+      for (const k of [1, 5, 40]) {
+        expect(index.queryNearest(center, k, result).map(({id}) => id)).toEqual(bruteForceNearest(agents, center, k).map(({id}) => id));
+      }
+    }
+    expect(index.queryNearest(Vector3.zero(), 0, result)).toEqual([]);
+    expect(index.queryNearest(Vector3.zero(), 1000, result).length).toBe(500);
+    expect(index.queryBox(Box3.empty(), result)).toEqual([]);
+    expect(index.queryRadius(Vector3.zero(), -1, result)).toEqual([]);
+  });
+
+  it('move() and remove() keep queries consistent', () => {
+    const index = new Octree<Agent>(new Box3(new Vector3(-20, -20, -20), new Vector3(20, 20, 20)), {maxItems: 4});
+    const agents = randomAgents(300, 7, 20);
+    for (const agent of agents) {
+      index.insert(agent, agent.position);
+    }
+    const steps = randomValues(3 * agents.length, 11);
+    for (const step of range(10)) {
+      for (const agent of agents) {
+        // small steps within a cell, and every few steps a long jump
+        const scale = (agent.id + step) % 7 === 0 ? 15 : 0.3;
+        agent.position.x += scale * steps[3 * agent.id];
+        agent.position.y += scale * steps[3 * agent.id + 1];
+        agent.position.z += scale * steps[3 * agent.id + 2];
+        expect(index.move(agent, agent.position)).toBe(true);
+      }
+    }
+    const removed = agents.filter(({id}) => id % 3 === 0);
+    for (const agent of removed) {
+      index.remove(agent);
+    }
+    const remaining = agents.filter(({id}) => id % 3 !== 0);
+    expect(index.size).toBe(remaining.length);
+
+    const result: Agent[] = [];
+    for (const {position: center} of randomAgents(10, 13, 25)) {
+      expect(ids(index.queryRadius(center, 6, result))).toEqual(ids(bruteForceRadius(remaining, center, 6)));
+      expect(index.queryNearest(center, 8, result).map(({id}) => id)).toEqual(bruteForceNearest(remaining, center, 8).map(({id}) => id));
+    }
+  });
+
+  it('keeps items outside the bounds', () => {
+    const octree = new Octree<Agent>(new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1)), {maxItems: 1});
+    const inside = {id: 0, position: new Vector3(0.5, 0.5, 0.5)};
+    const outside = {id: 1, position: new Vector3(5, 0, 0)};
+    octree.insert(inside, inside.position).insert(outside, outside.position);
+    expect(octree.queryRadius(new Vector3(4, 0, 0), 1, [])).toEqual([outside]);
+    expect(octree.queryBox(new Box3(new Vector3(4, -1, -1), new Vector3(6, 1, 1)), [])).toEqual([outside]);
+    expect(octree.queryNearest(new Vector3(0.9, 0, 0), 2, [])).toEqual([inside, outside]);
+    octree.move(outside, new Vector3(-0.5, -0.5, -0.5));
+    expect(octree.queryRadius(new Vector3(-0.5, -0.5, -0.5), 0.1, [])).toEqual([outside]);
+    octree.move(inside, new Vector3(0, 10, 0));
+    expect(octree.queryNearest(new Vector3(0, 9, 0), 1, [])).toEqual([inside]);
+  });
+
+  it('splits beyond maxItems up to maxDepth', () => {
+    const octree = new Octree<Agent>(new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1)), {maxItems: 2, maxDepth: 3});
+    // coincident items cannot be separated, so they stay together in a leaf at maxDepth
+    const agents = [...range(10)].map((id) => ({id, position: new Vector3(0.3, 0.3, 0.3)}));
+    for (const agent of agents) {
+      octree.insert(agent, agent.position);
+    }
+    expect(ids(octree.queryRadius(new Vector3(0.3, 0.3, 0.3), 0, []))).toEqual([...range(10)]);
+    for (const agent of agents.slice(0, 9)) {
+      octree.remove(agent);
+    }
+    expect(octree.queryNearest(Vector3.zero(), 3, [])).toEqual([agents[9]]);
+  });
+});
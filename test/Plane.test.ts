@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { Plane } from '../src/Plane';
+import { Vector3 } from '../src/Vector3';
+import { Matrix3 } from '../src/Matrix3';
+import { Matrix4 } from '../src/Matrix4';
+import { Quaternion } from '../src/Quaternion';
+
+const PRECISION = 6;
+
+describe('Plane', () => {
+  it('constructor copies normal', () => {
+    const normal = new Vector3(0, 1, 0);
+    const p = new Plane(normal, -2);
+    normal.set(1, 0, 0);
+    expect(p.normal.y).toBe(1);
+    expect(p.constant).toBe(-2);
+  });
+
+  it('fromNormalAndPoint()', () => {
+    const p = Plane.fromNormalAndPoint(new Vector3(0, 2, 0), new Vector3(5, 2, 5));
+    expect(p.normal.x).toBeCloseTo(0, PRECISION);
+    expect(p.normal.y).toBeCloseTo(1, PRECISION);
+    expect(p.normal.z).toBeCloseTo(0, PRECISION);
+    expect(p.constant).toBeCloseTo(-2, PRECISION);
+  });
+
+  it('fromPoints()', () => {
+    const a = new Vector3(0, 0, 1);
+    const b = new Vector3(1, 0, 1);
+    const c = new Vector3(0, 1, 1);
+    const p = Plane.fromPoints(a, b, c);
+    expect(p.normal.z).toBeCloseTo(1, PRECISION);
+    expect(p.constant).toBeCloseTo(-1, PRECISION);
+    expect(p.signedDistanceToPoint(a)).toBeCloseTo(0, PRECISION);
+    expect(p.signedDistanceToPoint(b)).toBeCloseTo(0, PRECISION);
+    expect(p.signedDistanceToPoint(c)).toBeCloseTo(0, PRECISION);
+  });
+
+  it('clone() and copy()', () => {
+    const p = new Plane(new Vector3(0, 1, 0), -2);
+    const c = p.clone();
+    p.normal.set(1, 0, 0);
+    expect(c.normal.y).toBe(1);
+    expect(c.constant).toBe(-2);
+
+    c.copy(p);
+    expect(c.normal.x).toBe(1);
+  });
+
+  it('normalize()', () => {
+    const p = new Plane(new Vector3(0, 2, 0), -4);
+    p.normalize();
+    expect(p.normal.y).toBeCloseTo(1, PRECISION);
+    expect(p.constant).toBeCloseTo(-2, PRECISION);
+  });
+
+  it('negate()', () => {
+    const p = new Plane(new Vector3(0, 1, 0), -2);
+    p.negate();
+    expect(p.normal.y).toBe(-1);
+    expect(p.constant).toBe(2);
+    expect(p.signedDistanceToPoint(new Vector3(0, 5, 0))).toBeCloseTo(-3, PRECISION);
+  });
+
+  it('signedDistanceToPoint()', () => {
+    const p = new Plane(new Vector3(0, 1, 0), -2);
+    expect(p.signedDistanceToPoint(new Vector3(1, 5, 3))).toBeCloseTo(3, PRECISION);
+    expect(p.signedDistanceToPoint(new Vector3(1, -1, 3))).toBeCloseTo(-3, PRECISION);
+  });
+
+  it('projectPoint()', () => {
+    const p = new Plane(new Vector3(0, 1, 0), -2);
+    const out = Vector3.zero();
+    p.projectPoint(new Vector3(1, 5, 3), out);
+    expect(out.x).toBeCloseTo(1, PRECISION);
+    expect(out.y).toBeCloseTo(2, PRECISION);
+    expect(out.z).toBeCloseTo(3, PRECISION);
+  });
+
+  it('intersectSegment()', () => {
+    const p = new Plane(new Vector3(0, 1, 0), -2);
+    const out = Vector3.zero();
+    const t = p.intersectSegment(new Vector3(1, 0, 0), new Vector3(1, 4, 4), out);
+    expect(t).toBeCloseTo(0.5, PRECISION);
+    expect(out.x).toBeCloseTo(1, PRECISION);
+    expect(out.y).toBeCloseTo(2, PRECISION);
+    expect(out.z).toBeCloseTo(2, PRECISION);
+  });
+
+  it('intersectSegment() does not reach plane', () => {
+    const p = new Plane(new Vector3(0, 1, 0), -2);
+    expect(p.intersectSegment(new Vector3(0, 0, 0), new Vector3(0, 1, 0))).toBeNull();
+    expect(p.intersectSegment(new Vector3(0, 0, 0), new Vector3(1, 0, 0))).toBeNull();
+  });
+
+  it('intersectSegment() lying on plane', () => {
+    const p = new Plane(new Vector3(0, 1, 0), -2);
+    const out = Vector3.zero();
+    expect(p.intersectSegment(new Vector3(3, 2, 0), new Vector3(1, 2, 0), out)).toBe(0);
+    expect(out.x).toBe(3);
+  });
+
+  it('intersectsSegment()', () => {
+    const p = new Plane(new Vector3(0, 1, 0), -2);
+    expect(p.intersectsSegment(new Vector3(0, 0, 0), new Vector3(0, 4, 0))).toBe(true);
+    expect(p.intersectsSegment(new Vector3(0, 3, 0), new Vector3(0, 4, 0))).toBe(false);
+  });
+
+  it('applyMatrix4()', () => {
+    const p = new Plane(new Vector3(0, 1, 0), 0);
+    const m = Matrix4.identity().setTranslation(new Vector3(0, 3, 0));
+    expect(p.applyMatrix4(m)).toBe(p);
+    expect(p.normal.y).toBeCloseTo(1, PRECISION);
+    expect(p.constant).toBeCloseTo(-3, PRECISION);
+  });
+
+  it('applyMatrix4() with rotation and non-uniform scale', () => {
+    // plane x + y = 1, transformed points must stay on transformed plane
+    const p = Plane.fromNormalAndPoint(new Vector3(1, 1, 0), new Vector3(1, 0, 0));
+    const m = Matrix4.identity()
+      .multiplyTranslation(new Vector3(1, 2, 3))
+      .multiplyRotation(Quaternion.fromAxisAndAngle(new Vector3(0, 0, 1), 0.3))
+      .multiplyScale(new Vector3(2, 0.5, 3));
+    const a = new Vector3(1, 0, 0);
+    const b = new Vector3(0, 1, 5);
+    const c = new Vector3(2, -1, -2);
+    p.applyMatrix4(m);
+    for (const point of [a, b, c]) {
+      point.applyMatrix4(m);
+      expect(p.signedDistanceToPoint(point)).toBeCloseTo(0, 5);
+    }
+    expect(p.normal.length()).toBeCloseTo(1, PRECISION);
+  });
+
+  it('applyMatrix4() with precomputed normal matrix', () => {
+    const p = new Plane(new Vector3(0, 1, 0), 0);
+    const m = Matrix4.identity().setScale(new Vector3(1, 2, 1)).multiplyTranslation(new Vector3(0, 1, 0));
+    const normalMatrix = Matrix3.identity();
+    normalMatrix.setNormalMatrix(m);
+    p.applyMatrix4(m, normalMatrix);
+    expect(p.normal.y).toBeCloseTo(1, PRECISION);
+    expect(p.constant).toBeCloseTo(-2, PRECISION);
+  });
+
+  it('applyMatrix4() does not calculate singular matrix', () => {
+    const p = new Plane(new Vector3(0, 1, 0), 0);
+    expect(p.applyMatrix4(Matrix4.zero())).toBeNull();
+  });
+});
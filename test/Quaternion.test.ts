@@ -1,6 +1,8 @@
 import {describe, it, expect} from 'vitest';
 import {Quaternion} from '../src/Quaternion';
 import { Vector3 } from '../src/Vector3';
+import { Matrix3 } from '../src/Matrix3';
+import { Matrix4 } from '../src/Matrix4';
 
 const PRECISION = 8;
 
@@ -220,4 +222,199 @@ describe('Quaternion', () => {
     expect(q.c).toBeCloseTo(0, PRECISION);
     expect(q.d).toBeCloseTo(Math.SQRT1_2, PRECISION);
   });
+
+  it('normalize()', () => {
+    const q = new Quaternion(1, 2, 2, 4);
+    q.normalize();
+    expect(q.a).toBeCloseTo(0.2, PRECISION);
+    expect(q.b).toBeCloseTo(0.4, PRECISION);
+    expect(q.c).toBeCloseTo(0.4, PRECISION);
+    expect(q.d).toBeCloseTo(0.8, PRECISION);
+  });
+
+  it('dot()', () => {
+    const q1 = new Quaternion(1, 2, 3, 4);
+    const q2 = new Quaternion(5, 6, 7, 8);
+    expect(q1.dot(q2)).toBe(70);
+  });
+
+  it('log() and exp()', () => {
+    const q = Quaternion.fromAxisAndAngle(new Vector3(1, 2, 3), 1.2);
+    const expected = q.clone();
+    q.log();
+    expect(q.a).toBeCloseTo(0, PRECISION);
+    expect(Math.sqrt(q.b ** 2 + q.c ** 2 + q.d ** 2)).toBeCloseTo(0.6, PRECISION);
+    q.exp();
+    expect(q.a).toBeCloseTo(expected.a, PRECISION);
+    expect(q.b).toBeCloseTo(expected.b, PRECISION);
+    expect(q.c).toBeCloseTo(expected.c, PRECISION);
+    expect(q.d).toBeCloseTo(expected.d, PRECISION);
+  });
+
+  it('lerp()', () => {
+    const q1 = new Quaternion(1, 2, 3, 4);
+    const q2 = new Quaternion(3, 4, 5, 6);
+    q1.lerp(q2, 0.5);
+    expect(q1.a).toBe(2);
+    expect(q1.b).toBe(3);
+    expect(q1.c).toBe(4);
+    expect(q1.d).toBe(5);
+  });
+
+  it('nlerp()', () => {
+    const q1 = Quaternion.identity();
+    const q2 = new Quaternion(0, 0, 0, 1);
+    q1.nlerp(q2, 0.5);
+    expect(q1.a).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(q1.b).toBeCloseTo(0, PRECISION);
+    expect(q1.c).toBeCloseTo(0, PRECISION);
+    expect(q1.d).toBeCloseTo(Math.SQRT1_2, PRECISION);
+  });
+
+  it('nlerp() takes the shortest path', () => {
+    const q1 = Quaternion.identity();
+    const q2 = new Quaternion(-Math.SQRT1_2, 0, 0, -Math.SQRT1_2);
+    const out = Quaternion.identity();
+    Quaternion.nlerpTo(q1, q2, 1, out);
+    expect(out.a).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(out.d).toBeCloseTo(Math.SQRT1_2, PRECISION);
+  });
+
+  it('slerp()', () => {
+    const q1 = Quaternion.identity();
+    const q2 = Quaternion.fromAxisAndAngle(new Vector3(0, 1, 0), Math.PI / 2);
+    q1.slerp(q2, 1 / 3);
+    const expected = Quaternion.fromAxisAndAngle(new Vector3(0, 1, 0), Math.PI / 6);
+    expect(q1.a).toBeCloseTo(expected.a, PRECISION);
+    expect(q1.b).toBeCloseTo(expected.b, PRECISION);
+    expect(q1.c).toBeCloseTo(expected.c, PRECISION);
+    expect(q1.d).toBeCloseTo(expected.d, PRECISION);
+  });
+
+  it('slerp() takes the shortest path', () => {
+    const q1 = Quaternion.identity();
+    const q2 = Quaternion.fromAxisAndAngle(new Vector3(1, 0, 0), Math.PI / 2).multiplyScalar(-1);
+    const out = Quaternion.identity();
+    Quaternion.slerpTo(q1, q2, 0.5, out);
+    const expected = Quaternion.fromAxisAndAngle(new Vector3(1, 0, 0), Math.PI / 4);
+    expect(out.a).toBeCloseTo(expected.a, PRECISION);
+    expect(out.b).toBeCloseTo(expected.b, PRECISION);
+    expect(out.c).toBeCloseTo(expected.c, PRECISION);
+    expect(out.d).toBeCloseTo(expected.d, PRECISION);
+  });
+
+  it('slerp() when rotations are nearly parallel', () => {
+    const q1 = Quaternion.identity();
+    const q2 = Quaternion.identity();
+    q1.slerp(q2, 0.5);
+    expect(q1.a).toBeCloseTo(1, PRECISION);
+    expect(q1.b).toBeCloseTo(0, PRECISION);
+    expect(q1.c).toBeCloseTo(0, PRECISION);
+    expect(q1.d).toBeCloseTo(0, PRECISION);
+  });
+
+  it('squad() passes through key rotations', () => {
+    const axis = new Vector3(0, 0, 1);
+    const keys = [0, 1, 2, 3].map((i) => Quaternion.fromAxisAndAngle(axis, i * Math.PI / 4));
+    const s1 = Quaternion.identity();
+    const s2 = Quaternion.identity();
+    Quaternion.squadControlPoint(keys[0], keys[1], keys[2], s1);
+    Quaternion.squadControlPoint(keys[1], keys[2], keys[3], s2);
+
+    const start = Quaternion.identity();
+    Quaternion.squadTo(keys[1], keys[2], s1, s2, 0, start);
+    expect(start.a).toBeCloseTo(keys[1].a, PRECISION);
+    expect(start.d).toBeCloseTo(keys[1].d, PRECISION);
+
+    const end = Quaternion.identity();
+    Quaternion.squadTo(keys[1], keys[2], s1, s2, 1, end);
+    expect(end.a).toBeCloseTo(keys[2].a, PRECISION);
+    expect(end.d).toBeCloseTo(keys[2].d, PRECISION);
+
+    // uniform rotation about a single axis is interpolated uniformly
+    const middle = keys[1].clone().squad(keys[2], s1, s2, 0.5);
+    const expected = Quaternion.fromAxisAndAngle(axis, 3 * Math.PI / 8);
+    expect(middle.a).toBeCloseTo(expected.a, PRECISION);
+    expect(middle.b).toBeCloseTo(expected.b, PRECISION);
+    expect(middle.c).toBeCloseTo(expected.c, PRECISION);
+    expect(middle.d).toBeCloseTo(expected.d, PRECISION);
+  });
+
+  it('squad() keeps the long arc between opposite control points', () => {
+    const q = Quaternion.identity();
+    q.squad(Quaternion.identity(), new Quaternion(1, 0, 0, 0), new Quaternion(-1, 0, 0, 0), 0.5);
+    expect(q.norm()).toBeCloseTo(1, PRECISION);
+    expect(q.a).toBeCloseTo(Math.SQRT1_2, PRECISION);
+  });
+
+  it('fromMatrix3()', () => {
+    const m = new Matrix3(0, 1, 0, -1, 0, 0, 0, 0, 1);
+    const q = Quaternion.fromMatrix3(m);
+    expect(q.a).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(q.b).toBeCloseTo(0, PRECISION);
+    expect(q.c).toBeCloseTo(0, PRECISION);
+    expect(q.d).toBeCloseTo(Math.SQRT1_2, PRECISION);
+  });
+
+  it('fromMatrix4() restores rotation set by Matrix4.setRotation()', () => {
+    const axes = [
+      new Vector3(1, 2, 3),
+      new Vector3(1, 0, 0),
+      new Vector3(0, 1, 0),
+      new Vector3(0, 0, 1),
+      new Vector3(-2, 1, 0.5),
+    ];
+    const angles = [0.3, 2.5, Math.PI * 0.99];
+    for (const axis of axes) {
+      for (const angle of angles) {
+        const expected = Quaternion.fromAxisAndAngle(axis, angle);
+        const m = Matrix4.identity();
+        m.setRotation(expected);
+        const q = Quaternion.fromMatrix4(m);
+        // q and -q represent the same rotation
+        const sign = q.dot(expected) < 0 ? -1 : 1;
+        expect(sign * q.a).toBeCloseTo(expected.a, 5);
+        expect(sign * q.b).toBeCloseTo(expected.b, 5);
+        expect(sign * q.c).toBeCloseTo(expected.c, 5);
+        expect(sign * q.d).toBeCloseTo(expected.d, 5);
+      }
+    }
+  });
+
+  it('setFromMatrix4() ignores scale and translation', () => {
+    const rotation = Quaternion.fromAxisAndAngle(new Vector3(0, 1, 1), 1.0);
+    const m = Matrix4.identity();
+    m.multiplyTranslation(new Vector3(4, 5, 6))
+      .multiplyRotation(rotation)
+      .multiplyScale(new Vector3(2, 3, 0.5));
+    const q = Quaternion.identity();
+    q.setFromMatrix4(m);
+    expect(q.a).toBeCloseTo(rotation.a, 5);
+    expect(q.b).toBeCloseTo(rotation.b, 5);
+    expect(q.c).toBeCloseTo(rotation.c, 5);
+    expect(q.d).toBeCloseTo(rotation.d, 5);
+  });
+
+  it('setFromMatrix3() returns identity when matrix is degenerate', () => {
+    const q = new Quaternion(0, 1, 0, 0);
+    q.setFromMatrix3(Matrix3.zero());
+    expect(q.a).toBe(1);
+    expect(q.b).toBe(0);
+    expect(q.c).toBe(0);
+    expect(q.d).toBe(0);
+  });
+
+  it('Matrix4.setRotation() agrees with quaternion rotation', () => {
+    const q = Quaternion.fromAxisAndAngle(new Vector3(1, 1, 0), 1.0);
+    const m = Matrix4.identity();
+    m.setRotation(q);
+    const v = new Vector3(1, 0, 0);
+    v.applyMatrix4(m);
+
+    const p = new Quaternion(0, 1, 0, 0);
+    const r = q.clone().multiply(p).multiply(q.clone().conjugate());
+    expect(v.x).toBeCloseTo(r.b, 6);
+    expect(v.y).toBeCloseTo(r.c, 6);
+    expect(v.z).toBeCloseTo(r.d, 6);
+  });
 });
@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import { Ray } from '../src/Ray';
+import { Vector3 } from '../src/Vector3';
+import { Matrix4 } from '../src/Matrix4';
+
+const PRECISION = 6;
+
+describe('Ray', () => {
+  it('constructor copies vectors', () => {
+    const origin = new Vector3(1, 2, 3);
+    const direction = new Vector3(0, 0, -1);
+    const r = new Ray(origin, direction);
+    origin.set(0, 0, 0);
+    expect(r.origin.x).toBe(1);
+    expect(r.origin.y).toBe(2);
+    expect(r.origin.z).toBe(3);
+    expect(r.direction.z).toBe(-1);
+  });
+
+  it('zero()', () => {
+    const r = Ray.zero();
+    expect(r.origin.length()).toBe(0);
+    expect(r.direction.z).toBe(-1);
+  });
+
+  it('clone()', () => {
+    const r = new Ray(new Vector3(1, 2, 3), new Vector3(0, 1, 0));
+    const c = r.clone();
+    r.origin.set(0, 0, 0);
+    expect(c.origin.x).toBe(1);
+    expect(c.direction.y).toBe(1);
+  });
+
+  it('copy()', () => {
+    const r = Ray.zero();
+    r.copy(new Ray(new Vector3(1, 2, 3), new Vector3(0, 1, 0)));
+    expect(r.origin.z).toBe(3);
+    expect(r.direction.y).toBe(1);
+  });
+
+  it('at()', () => {
+    const r = new Ray(new Vector3(1, 0, 0), new Vector3(0, 0, -1));
+    const p = Vector3.zero();
+    r.at(2, p);
+    expect(p.x).toBe(1);
+    expect(p.y).toBe(0);
+    expect(p.z).toBe(-2);
+  });
+
+  it('setFromScreen()', () => {
+    const view = Matrix4.identity().lookAt(new Vector3(0, 0, 5), Vector3.zero(), new Vector3(0, 1, 0));
+    const projection = Matrix4.identity().perspective(Math.PI / 2, 1, 100, 1);
+    const viewport = {x: 0, y: 0, width: 100, height: 100};
+    const r = Ray.zero();
+    expect(r.setFromScreen(50, 50, view, projection, viewport)).toBe(r);
+    expect(r.origin.z).toBeCloseTo(4, 4);
+    expect(r.direction.z).toBeCloseTo(-1, 4);
+    expect(r.intersectSphere(Vector3.zero(), 1)).toBeCloseTo(3, 4);
+  });
+
+  it('applyMatrix4()', () => {
+    const r = new Ray(new Vector3(1, 0, 0), new Vector3(1, 0, 0));
+    const m = Matrix4.identity().multiplyTranslation(new Vector3(0, 0, 5)).multiplyScale(new Vector3(2, 2, 2));
+    r.applyMatrix4(m);
+    expect(r.origin.x).toBeCloseTo(2, PRECISION);
+    expect(r.origin.z).toBeCloseTo(5, PRECISION);
+    expect(r.direction.x).toBeCloseTo(1, PRECISION);
+    expect(r.direction.length()).toBeCloseTo(1, PRECISION);
+  });
+
+  it('intersectSphere()', () => {
+    const r = new Ray(new Vector3(0, 0, 5), new Vector3(0, 0, -1));
+    const point = Vector3.zero();
+    const normal = Vector3.zero();
+    const t = r.intersectSphere(new Vector3(0, 0, 1), 2, point, normal);
+    expect(t).toBeCloseTo(2, PRECISION);
+    expect(point.z).toBeCloseTo(3, PRECISION);
+    expect(normal.z).toBeCloseTo(1, PRECISION);
+  });
+
+  it('intersectSphere() from inside reports exit point', () => {
+    const r = new Ray(Vector3.zero(), new Vector3(1, 0, 0));
+    const normal = Vector3.zero();
+    expect(r.intersectSphere(Vector3.zero(), 3, undefined, normal)).toBeCloseTo(3, PRECISION);
+    expect(normal.x).toBeCloseTo(1, PRECISION);
+  });
+
+  it('intersectSphere() misses', () => {
+    const r = new Ray(new Vector3(0, 0, 5), new Vector3(0, 0, 1));
+    expect(r.intersectSphere(Vector3.zero(), 1)).toBeNull();
+    r.direction.set(0, 1, 0);
+    expect(r.intersectSphere(Vector3.zero(), 1)).toBeNull();
+  });
+
+  it('intersectPlane()', () => {
+    const r = new Ray(new Vector3(1, 5, 2), new Vector3(0, -1, 0));
+    const point = Vector3.zero();
+    const normal = Vector3.zero();
+    const t = r.intersectPlane(new Vector3(0, 2, 0), -2, point, normal);
+    expect(t).toBeCloseTo(4, PRECISION);
+    expect(point.x).toBeCloseTo(1, PRECISION);
+    expect(point.y).toBeCloseTo(1, PRECISION);
+    expect(point.z).toBeCloseTo(2, PRECISION);
+    expect(normal.y).toBeCloseTo(1, PRECISION);
+  });
+
+  it('intersectPlane() does not hit parallel or behind', () => {
+    const normal = new Vector3(0, 1, 0);
+    expect(new Ray(new Vector3(0, 5, 0), new Vector3(1, 0, 0)).intersectPlane(normal, 0)).toBeNull();
+    expect(new Ray(new Vector3(0, 5, 0), new Vector3(0, 1, 0)).intersectPlane(normal, 0)).toBeNull();
+  });
+
+  it('intersectBox()', () => {
+    const r = new Ray(new Vector3(0.5, 0.5, 5), new Vector3(0, 0, -1));
+    const min = new Vector3(-1, -1, -1);
+    const max = new Vector3(1, 1, 1);
+    const point = Vector3.zero();
+    const normal = Vector3.zero();
+    expect(r.intersectBox(min, max, point, normal)).toBeCloseTo(4, PRECISION);
+    expect(point.z).toBeCloseTo(1, PRECISION);
+    expect(normal.x).toBe(0);
+    expect(normal.y).toBe(0);
+    expect(normal.z).toBe(1);
+  });
+
+  it('intersectBox() with diagonal ray', () => {
+    const direction = new Vector3(1, 1, 1).normalize();
+    const r = new Ray(new Vector3(-5, -5, -4.5), direction);
+    const normal = Vector3.zero();
+    const t = r.intersectBox(new Vector3(-1, -1, -1), new Vector3(1, 1, 1), undefined, normal);
+    expect(t).toBeCloseTo(4 * Math.sqrt(3), PRECISION);
+    expect(normal.x + normal.y).toBe(-1);
+  });
+
+  it('intersectBox() from inside reports exit face', () => {
+    const r = new Ray(Vector3.zero(), new Vector3(0, -1, 0));
+    const normal = Vector3.zero();
+    expect(r.intersectBox(new Vector3(-1, -2, -1), new Vector3(1, 1, 1), undefined, normal)).toBeCloseTo(2, PRECISION);
+    expect(normal.y).toBe(-1);
+  });
+
+  it('intersectBox() misses', () => {
+    const min = new Vector3(-1, -1, -1);
+    const max = new Vector3(1, 1, 1);
+    expect(new Ray(new Vector3(2, 0, 5), new Vector3(0, 0, -1)).intersectBox(min, max)).toBeNull();
+    expect(new Ray(new Vector3(0, 0, 5), new Vector3(0, 0, 1)).intersectBox(min, max)).toBeNull();
+    expect(new Ray(new Vector3(0, 3, 5), new Vector3(0, 1, -1).normalize()).intersectBox(min, max)).toBeNull();
+  });
+
+  it('intersectBox() with zero direction', () => {
+    const r = new Ray(new Vector3(0, 0, 0), new Vector3(0, 0, 0));
+    expect(r.intersectBox(new Vector3(-1, -1, -1), new Vector3(1, 1, 1))).toBeNull();
+  });
+
+  it('intersectTriangle()', () => {
+    const r = new Ray(new Vector3(0.2, 0.3, 5), new Vector3(0, 0, -1));
+    const a = new Vector3(0, 0, 1);
+    const b = new Vector3(1, 0, 1);
+    const c = new Vector3(0, 1, 1);
+    const point = Vector3.zero();
+    const normal = Vector3.zero();
+    expect(r.intersectTriangle(a, b, c, point, normal)).toBeCloseTo(4, PRECISION);
+    expect(point.x).toBeCloseTo(0.2, PRECISION);
+    expect(point.y).toBeCloseTo(0.3, PRECISION);
+    expect(point.z).toBeCloseTo(1, PRECISION);
+    expect(normal.z).toBeCloseTo(1, PRECISION);
+  });
+
+  it('intersectTriangle() misses outside of edges', () => {
+    const r = new Ray(new Vector3(0.6, 0.6, 5), new Vector3(0, 0, -1));
+    const a = new Vector3(0, 0, 0);
+    const b = new Vector3(1, 0, 0);
+    const c = new Vector3(0, 1, 0);
+    expect(r.intersectTriangle(a, b, c)).toBeNull();
+  });
+
+  it('intersectTriangle() with small triangle', () => {
+    const r = new Ray(new Vector3(2.0e-6, 3.0e-6, 5), new Vector3(0, 0, -1));
+    const a = new Vector3(0, 0, 1);
+    const b = new Vector3(1.0e-5, 0, 1);
+    const c = new Vector3(0, 1.0e-5, 1);
+    expect(r.intersectTriangle(a, b, c)).toBeCloseTo(4, PRECISION);
+
+    // parallel rays still miss
+    const parallel = new Ray(new Vector3(0, 0, 1), new Vector3(1, 0, 0));
+    expect(parallel.intersectTriangle(a, b, c)).toBeNull();
+  });
+
+  it('intersectTriangle() with cullBackface', () => {
+    const r = new Ray(new Vector3(0.2, 0.2, 5), new Vector3(0, 0, -1));
+    const a = new Vector3(0, 0, 0);
+    const b = new Vector3(1, 0, 0);
+    const c = new Vector3(0, 1, 0);
+    const options = {cullBackface: true};
+    expect(r.intersectTriangle(a, b, c, undefined, undefined, options)).toBeCloseTo(5, PRECISION);
+    expect(r.intersectTriangle(a, c, b, undefined, undefined, options)).toBeNull();
+    expect(r.intersectTriangle(a, c, b)).toBeCloseTo(5, PRECISION);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { Segment2 } from '../src/Segment2';
+import { Vector2 } from '../src/Vector2';
+
+const PRECISION = 6;
+
+describe('Segment2', () => {
+  it('clone(), set() and copy()', () => {
+    const s = new Segment2(new Vector2(1, 2), new Vector2(3, 4));
+    const c = s.clone();
+    s.set(Vector2.zero(), Vector2.zero());
+    expect(c.end.x).toBe(3);
+    s.copy(c);
+    expect(s.start.y).toBe(2);
+  });
+
+  it('length() and at()', () => {
+    const s = new Segment2(new Vector2(0, 0), new Vector2(3, 4));
+    expect(s.length()).toBeCloseTo(5, PRECISION);
+    const p = s.at(0.5, Vector2.zero());
+    expect(p.x).toBeCloseTo(1.5, PRECISION);
+    expect(p.y).toBeCloseTo(2, PRECISION);
+  });
+
+  it('closestPointToPoint() and distanceToPoint()', () => {
+    const s = new Segment2(new Vector2(0, 0), new Vector2(0, 4));
+    expect(s.closestParameterToPoint(new Vector2(3, 1))).toBeCloseTo(0.25, PRECISION);
+    const closest = s.closestPointToPoint(new Vector2(3, 1), Vector2.zero());
+    expect(closest.x).toBeCloseTo(0, PRECISION);
+    expect(closest.y).toBeCloseTo(1, PRECISION);
+    expect(s.distanceToPoint(new Vector2(3, 8))).toBeCloseTo(5, PRECISION);
+    expect(s.squaredDistanceToPoint(new Vector2(-2, -1))).toBeCloseTo(5, PRECISION);
+  });
+
+  it('closestPointsToSegment()', () => {
+    const s1 = new Segment2(new Vector2(-1, 0), new Vector2(1, 0));
+    const parameters = Vector2.zero();
+    const p1 = Vector2.zero();
+    const p2 = Vector2.zero();
+
+    const crossing = new Segment2(new Vector2(0, -1), new Vector2(0, 3));
+    expect(s1.closestPointsToSegment(crossing, parameters, p1, p2)).toBeCloseTo(0, PRECISION);
+    expect(parameters.x).toBeCloseTo(0.5, PRECISION);
+    expect(parameters.y).toBeCloseTo(0.25, PRECISION);
+
+    const apart = new Segment2(new Vector2(0, 1), new Vector2(0, 3));
+    expect(s1.closestPointsToSegment(apart, parameters, p1, p2)).toBeCloseTo(1, PRECISION);
+    expect(parameters.x).toBeCloseTo(0.5, PRECISION);
+    expect(parameters.y).toBeCloseTo(0, PRECISION);
+    expect(p2.y).toBeCloseTo(1, PRECISION);
+
+    const parallel = new Segment2(new Vector2(3, 2), new Vector2(5, 2));
+    expect(s1.closestPointsToSegment(parallel, parameters, p1, p2)).toBeCloseTo(8, PRECISION);
+    expect(p1.x).toBeCloseTo(1, PRECISION);
+    expect(p2.x).toBeCloseTo(3, PRECISION);
+  });
+
+  it('closestPointsToSegment() for centimetre-sized segments', () => {
+    const s1 = new Segment2(new Vector2(-0.005, 0), new Vector2(0.005, 0));
+    const s2 = new Segment2(new Vector2(0, -0.005), new Vector2(0, 0.005));
+    const parameters = Vector2.zero();
+    expect(s1.closestPointsToSegment(s2, parameters)).toBeCloseTo(0, PRECISION);
+    expect(parameters.x).toBeCloseTo(0.5, PRECISION);
+    expect(parameters.y).toBeCloseTo(0.5, PRECISION);
+  });
+
+  it('closestPointsAsLines()', () => {
+    const s1 = new Segment2(new Vector2(0, 0), new Vector2(1, 0));
+    const s2 = new Segment2(new Vector2(3, -1), new Vector2(3, 1));
+    const parameters = Vector2.zero();
+    expect(s1.closestPointsAsLines(s2, parameters)).toBeCloseTo(0, PRECISION);
+    expect(parameters.x).toBeCloseTo(3, PRECISION);
+    expect(parameters.y).toBeCloseTo(0.5, PRECISION);
+
+    const parallel = new Segment2(new Vector2(5, 2), new Vector2(6, 2));
+    expect(s1.closestPointsAsLines(parallel, parameters)).toBeCloseTo(4, PRECISION);
+    expect(parameters.x).toBe(0);
+  });
+});
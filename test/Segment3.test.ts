@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { Segment3 } from '../src/Segment3';
+import { Ray } from '../src/Ray';
+import { Vector2 } from '../src/Vector2';
+import { Vector3 } from '../src/Vector3';
+
+const PRECISION = 6;
+
+const expectVector3 = (actual: Vector3, x: number, y: number, z: number) => {
+  expect(actual.x).toBeCloseTo(x, PRECISION);
+  expect(actual.y).toBeCloseTo(y, PRECISION);
+  expect(actual.z).toBeCloseTo(z, PRECISION);
+};
+
+describe('Segment3', () => {
+  it('clone(), set() and copy()', () => {
+    const s = new Segment3(new Vector3(1, 2, 3), new Vector3(4, 5, 6));
+    const c = s.clone();
+    s.set(Vector3.zero(), Vector3.zero());
+    expectVector3(c.end, 4, 5, 6);
+    s.copy(c);
+    expectVector3(s.start, 1, 2, 3);
+  });
+
+  it('length() and at()', () => {
+    const s = new Segment3(new Vector3(0, 0, 0), new Vector3(0, 3, 4));
+    expect(s.length()).toBeCloseTo(5, PRECISION);
+    expectVector3(s.at(0.5, Vector3.zero()), 0, 1.5, 2);
+  });
+
+  it('closestParameterToPoint()', () => {
+    const s = new Segment3(new Vector3(0, 0, 0), new Vector3(0, 4, 0));
+    expect(s.closestParameterToPoint(new Vector3(1, 1, 1))).toBeCloseTo(0.25, PRECISION);
+    expect(s.closestParameterToPoint(new Vector3(1, -3, 1))).toBe(0);
+    expect(s.closestParameterToPoint(new Vector3(1, 9, 1))).toBe(1);
+
+    const degenerate = new Segment3(Vector3.one(), Vector3.one());
+    expect(degenerate.closestParameterToPoint(Vector3.zero())).toBe(0);
+  });
+
+  it('closestPointToPoint() and distanceToPoint()', () => {
+    const s = new Segment3(new Vector3(0, 0, 0), new Vector3(0, 4, 0));
+    expectVector3(s.closestPointToPoint(new Vector3(3, 1, 0), Vector3.zero()), 0, 1, 0);
+    expect(s.distanceToPoint(new Vector3(0, 7, 4))).toBeCloseTo(5, PRECISION);
+    expect(s.squaredDistanceToPoint(new Vector3(3, 2, 0))).toBeCloseTo(9, PRECISION);
+  });
+
+  it('closestPointsToSegment() crossing segments', () => {
+    const s1 = new Segment3(new Vector3(-1, 0, 0), new Vector3(1, 0, 0));
+    const s2 = new Segment3(new Vector3(0, -1, 2), new Vector3(0, 1, 2));
+    const parameters = Vector2.zero();
+    const p1 = Vector3.zero();
+    const p2 = Vector3.zero();
+    expect(s1.closestPointsToSegment(s2, parameters, p1, p2)).toBeCloseTo(4, PRECISION);
+    expect(parameters.x).toBeCloseTo(0.5, PRECISION);
+    expect(parameters.y).toBeCloseTo(0.5, PRECISION);
+    expectVector3(p1, 0, 0, 0);
+    expectVector3(p2, 0, 0, 2);
+  });
+
+  it('closestPointsToSegment() for centimetre-sized segments', () => {
+    const s1 = new Segment3(new Vector3(-0.005, 0, 0), new Vector3(0.005, 0, 0));
+    const s2 = new Segment3(new Vector3(0, -0.005, 0.001), new Vector3(0, 0.005, 0.001));
+    const parameters = Vector2.zero();
+    const squaredDistance = s1.closestPointsToSegment(s2, parameters);
+    expect(parameters.x).toBeCloseTo(0.5, PRECISION);
+    expect(parameters.y).toBeCloseTo(0.5, PRECISION);
+    expect(Math.sqrt(squaredDistance)).toBeCloseTo(0.001, PRECISION);
+  });
+
+  it('closestPointsToSegment() clamps to end points', () => {
+    const s1 = new Segment3(new Vector3(0, 0, 0), new Vector3(1, 0, 0));
+    const s2 = new Segment3(new Vector3(3, 1, 0), new Vector3(3, 2, 0));
+    const parameters = Vector2.zero();
+    const p1 = Vector3.zero();
+    const p2 = Vector3.zero();
+    expect(s1.closestPointsToSegment(s2, parameters, p1, p2)).toBeCloseTo(5, PRECISION);
+    expect(parameters.x).toBeCloseTo(1, PRECISION);
+    expect(parameters.y).toBeCloseTo(0, PRECISION);
+    expectVector3(p1, 1, 0, 0);
+    expectVector3(p2, 3, 1, 0);
+  });
+
+  it('closestPointsToSegment() parallel and degenerate segments', () => {
+    const parameters = Vector2.zero();
+    const s1 = new Segment3(new Vector3(0, 0, 0), new Vector3(2, 0, 0));
+    const parallel = new Segment3(new Vector3(1, 1, 0), new Vector3(3, 1, 0));
+    expect(s1.closestPointsToSegment(parallel, parameters)).toBeCloseTo(1, PRECISION);
+
+    const point = new Segment3(new Vector3(1, 0, 3), new Vector3(1, 0, 3));
+    expect(s1.closestPointsToSegment(point, parameters)).toBeCloseTo(9, PRECISION);
+    expect(parameters.x).toBeCloseTo(0.5, PRECISION);
+    expect(point.closestPointsToSegment(s1, parameters)).toBeCloseTo(9, PRECISION);
+    expect(parameters.y).toBeCloseTo(0.5, PRECISION);
+  });
+
+  it('closestPointsAsLines()', () => {
+    const s1 = new Segment3(new Vector3(0, 0, 0), new Vector3(1, 0, 0));
+    const s2 = new Segment3(new Vector3(3, -1, 1), new Vector3(3, 1, 1));
+    const parameters = Vector2.zero();
+    const p2 = Vector3.zero();
+    expect(s1.closestPointsAsLines(s2, parameters, undefined, p2)).toBeCloseTo(1, PRECISION);
+    expect(parameters.x).toBeCloseTo(3, PRECISION);
+    expect(parameters.y).toBeCloseTo(0.5, PRECISION);
+    expectVector3(p2, 3, 0, 1);
+  });
+
+  it('closestPointsToRay()', () => {
+    const axis = new Segment3(new Vector3(0, 0, 0), new Vector3(4, 0, 0));
+    const parameters = Vector2.zero();
+    const p1 = Vector3.zero();
+    const p2 = Vector3.zero();
+
+    const ray = new Ray(new Vector3(1, 1, 5), new Vector3(0, 0, -1));
+    expect(axis.closestPointsToRay(ray, parameters, p1, p2)).toBeCloseTo(1, PRECISION);
+    expect(parameters.x).toBeCloseTo(0.25, PRECISION);
+    expect(parameters.y).toBeCloseTo(5, PRECISION);
+    expectVector3(p1, 1, 0, 0);
+    expectVector3(p2, 1, 1, 0);
+
+    // pointing away, the closest point is the ray origin
+    const away = new Ray(new Vector3(1, 1, 5), new Vector3(0, 0, 1));
+    expect(axis.closestPointsToRay(away, parameters)).toBeCloseTo(26, PRECISION);
+    expect(parameters.y).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { SpatialHashGrid } from '../src/SpatialHashGrid';
+import { Box3 } from '../src/Box3';
+import { Vector3 } from '../src/Vector3';
+import { range } from '../src/functions';
+
+/** deterministic pseudo random values in range [-1, 1) */
+const randomValues = (count: number, seed: number): Float32Array => {
+  const values = new Float32Array(count);
+  let state = seed;
+  for (const index of range(count)) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    values[index] = state / 2147483648 * 2 - 1;
+  }
+  return values;
+};
+
+type Agent = {id: number; position: Vector3};
+
+const randomAgents = (count: number, seed: number, scale: number): Agent[] => {
+  const values = randomValues(3 * count, seed);
+  return [...range(count)].map((id) => ({
+    id,
+    position: new Vector3(values[3 * id], values[3 * id + 1], values[3 * id + 2]).multiplyScalar(scale),
+  }));
+};
+
+const ids = (agents: Agent[]) => agents.map(({id}) => id).sort((a, b) => a - b);
+
+const bruteForceRadius = (agents: Agent[], center: Vector3, radius: number) =>
+  agents.filter(({position}) => position.clone().subtract(center).length() <= radius);
+
+const bruteForceNearest = (agents: Agent[], point: Vector3, k: number) =>
+  [...agents]
+    .sort((a, b) => a.position.clone().subtract(point).length() - b.position.clone().subtract(point).length())
+    .slice(0, k);
+
+describe('SpatialHashGrid', () => {
+  it('insert(), has(), remove() and clear()', () => {
+    const index = new SpatialHashGrid<Agent>(2);
+    const a = {id: 0, position: new Vector3(1, 2, 3)};
+    const b = {id: 1, position: new Vector3(-4, 5, -6)};
+    index.insert(a, a.position).insert(b, b.position);
+    expect(index.size).toBe(2);
+    expect(index.has(a)).toBe(true);
+    // inserting again moves the item
+    index.insert(a, new Vector3(-1, -2, -3));
+    expect(index.size).toBe(2);
+    expect(index.queryRadius(new Vector3(-1, -2, -3), 0.1, [])).toEqual([a]);
+    expect(index.remove(a)).toBe(true);
+    expect(index.remove(a)).toBe(false);
+    expect(index.has(a)).toBe(false);
+    expect(index.move(a, Vector3.zero())).toBe(false);
+    expect(index.clear().size).toBe(0);
+    expect(index.queryRadius(b.position, 1, [])).toEqual([]);
+  });
+
+  it('position is copied, not referenced', () => {
+    const index = new SpatialHashGrid<Agent>(2);
+    const a = {id: 0, position: new Vector3(1, 2, 3)};
+    index.insert(a, a.position);
+    a.position.set(-30, -30, -30);
+    expect(index.queryRadius(new Vector3(1, 2, 3), 0.1, [])).toEqual([a]);
+    expect(index.queryRadius(a.position, 0.1, [])).toEqual([]);
+  });
+
+  it('queryRadius(), queryBox() and queryNearest() agree with brute force', () => {
+    const index = new SpatialHashGrid<Agent>(2);
+    const agents = randomAgents(500, 3, 20);
+    for (const agent of agents) {
+      index.insert(agent, agent.position);
+    }
+    const result: Agent[] = [];
+    const centers = randomAgents(20, 5, 22);
+    for (const {position: center} of centers) {
+      for (const radius of [0.5, 3, 10, 100]) {
+        expect(ids(index.queryRadius(center, radius, result))).toEqual(ids(bruteForceRadius(agents, center, radius)));
+      }
+      const box = new Box3(center, center.clone().add(new Vector3(4, 6, 8)));
+      expect(ids(index.queryBox(box, result))).toEqual(ids(agents.filter(({position}) => box.containsPoint(position))));
+      for (const k of [1, 5, 40]) {
+        expect(index.queryNearest(center, k, result).map(({id}) => id)).toEqual(bruteForceNearest(agents, center, k).map(({id}) => id));
+      }
+    }
+    expect(index.queryNearest(Vector3.zero(), 0, result)).toEqual([]);
+    expect(index.queryNearest(Vector3.zero(), 1000, result).length).toBe(500);
+    expect(index.queryBox(Box3.empty(), result)).toEqual([]);
+    expect(index.queryRadius(Vector3.zero(), -1, result)).toEqual([]);
+  });
+
+  it('move() and remove() keep queries consistent', () => {
+    const index = new SpatialHashGrid<Agent>(2);
+    const agents = randomAgents(300, 7, 20);
+    for (const agent of agents) {
+      index.insert(agent, agent.position);
+    }
+    const steps = randomValues(3 * agents.length, 11);
+    for (const step of range(10)) {
+      for (const agent of agents) {
+        // small steps within a cell, and every few steps a long jump
+        const scale = (agent.id + step) % 7 === 0 ? 15 : 0.3;
+        agent.position.x += scale * steps[3 * agent.id];
+        agent.position.y += scale * steps[3 * agent.id + 1];
+        agent.position.z += scale * steps[3 * agent.id + 2];
+        expect(index.move(agent, agent.position)).toBe(true);
+      }
+    }
+    const removed = agents.filter(({id}) => id % 3 === 0);
+    for (const agent of removed) {
+      index.remove(agent);
+    }
+    const remaining = agents.filter(({id}) => id % 3 !== 0);
+    expect(index.size).toBe(remaining.length);
+
+    const result: Agent[] = [];
+    for (const {position: center} of randomAgents(10, 13, 25)) {
+      expect(ids(index.queryRadius(center, 6, result))).toEqual(ids(bruteForceRadius(remaining, center, 6)));
+      expect(index.queryNearest(center, 8, result).map(({id}) => id)).toEqual(bruteForceNearest(remaining, center, 8).map(({id}) => id));
+    }
+  });
+
+  it('cellSize', () => {
+    expect(new SpatialHashGrid<Agent>(2.5).cellSize).toBe(2.5);
+  });
+
+  it('constructor rejects non-positive cellSize', () => {
+    expect(() => new SpatialHashGrid<Agent>(0)).toThrow(RangeError);
+    expect(() => new SpatialHashGrid<Agent>(-1)).toThrow(RangeError);
+    expect(() => new SpatialHashGrid<Agent>(NaN)).toThrow(RangeError);
+  });
+
+  it('queryNearest() with items far apart', () => {
+    const grid = new SpatialHashGrid<Agent>(1);
+    const near = {id: 0, position: new Vector3(-1000, 0, 0)};
+    const far = {id: 1, position: new Vector3(3000, 2000, -1000)};
+    grid.insert(near, near.position).insert(far, far.position);
+    expect(grid.queryNearest(Vector3.zero(), 1, [])).toEqual([near]);
+    expect(grid.queryNearest(new Vector3(2999, 2000, -1000), 2, [])).toEqual([far, near]);
+  });
+});
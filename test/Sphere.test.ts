@@ -0,0 +1,277 @@
+import { describe, it, expect } from "vitest";
+import { Sphere } from '../src/Sphere';
+import { Vector3 } from '../src/Vector3';
+import { Box3 } from '../src/Box3';
+import { Plane } from '../src/Plane';
+import { Triangle } from '../src/Triangle';
+import { Matrix4 } from '../src/Matrix4';
+import { range } from '../src/functions';
+
+const PRECISION = 6;
+
+/** deterministic pseudo random positions in a unit cube */
+const randomPositions = (count: number, seed: number): Float32Array => {
+  const positions = new Float32Array(3 * count);
+  let state = seed;
+  for (const index of range(positions.length)) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    positions[index] = state / 2147483648 * 2 - 1;
+  }
+  return positions;
+};
+
+const expectEnclosing = (sphere: Sphere, positions: Float32Array) => {
+  const point = Vector3.zero();
+  for (const index of range(positions.length / 3)) {
+    point.set(positions[3 * index], positions[3 * index + 1], positions[3 * index + 2]);
+    expect(sphere.distanceToPoint(point)).toBeLessThanOrEqual(1.0e-5);
+  }
+};
+
+describe('Sphere', () => {
+  it('constructor copies center', () => {
+    const center = new Vector3(1, 2, 3);
+    const s = new Sphere(center, 4);
+    center.set(0, 0, 0);
+    expect(s.center.x).toBe(1);
+    expect(s.radius).toBe(4);
+  });
+
+  it('empty()', () => {
+    const s = Sphere.empty();
+    expect(s.isEmpty()).toBe(true);
+    expect(s.containsPoint(Vector3.zero())).toBe(false);
+  });
+
+  it('clone() and copy()', () => {
+    const s = new Sphere(new Vector3(1, 2, 3), 4);
+    const c = s.clone();
+    s.setEmpty();
+    expect(c.center.z).toBe(3);
+    expect(c.radius).toBe(4);
+    s.copy(c);
+    expect(s.radius).toBe(4);
+  });
+
+  it('containsPoint() and distanceToPoint()', () => {
+    const s = new Sphere(new Vector3(1, 0, 0), 2);
+    expect(s.containsPoint(new Vector3(3, 0, 0))).toBe(true);
+    expect(s.containsPoint(new Vector3(3.1, 0, 0))).toBe(false);
+    expect(s.distanceToPoint(new Vector3(1, 5, 0))).toBeCloseTo(3, PRECISION);
+    expect(s.distanceToPoint(new Vector3(1, 0, 0))).toBeCloseTo(-2, PRECISION);
+  });
+
+  it('intersectsSphere()', () => {
+    const s = new Sphere(Vector3.zero(), 1);
+    expect(s.intersectsSphere(new Sphere(new Vector3(3, 0, 0), 2))).toBe(true);
+    expect(s.intersectsSphere(new Sphere(new Vector3(3, 0, 0), 1.9))).toBe(false);
+    expect(s.intersectsSphere(Sphere.empty())).toBe(false);
+  });
+
+  it('intersectsBox()', () => {
+    const s = new Sphere(Vector3.zero(), 1);
+    const box = new Box3(new Vector3(0.5, 0.5, -1), new Vector3(2, 2, 1));
+    expect(s.intersectsBox(box)).toBe(true);
+    box.translate(new Vector3(0.3, 0.3, 0));
+    expect(s.intersectsBox(box)).toBe(false);
+  });
+
+  it('intersectsPlane()', () => {
+    const s = new Sphere(new Vector3(0, 3, 0), 1);
+    expect(s.intersectsPlane(new Plane(new Vector3(0, 1, 0), -2))).toBe(true);
+    expect(s.intersectsPlane(new Plane(new Vector3(0, 1, 0), -4.5))).toBe(false);
+  });
+
+  it('expandByPoint()', () => {
+    const s = Sphere.empty();
+    s.expandByPoint(new Vector3(1, 0, 0));
+    expect(s.radius).toBe(0);
+    s.expandByPoint(new Vector3(-1, 0, 0));
+    expect(s.center.x).toBeCloseTo(0, PRECISION);
+    expect(s.radius).toBeCloseTo(1, PRECISION);
+    s.expandByPoint(new Vector3(0, 0.5, 0));
+    expect(s.radius).toBeCloseTo(1, PRECISION);
+  });
+
+  it('union()', () => {
+    const s = new Sphere(new Vector3(-1, 0, 0), 1);
+    s.union(new Sphere(new Vector3(2, 0, 0), 1));
+    expect(s.center.x).toBeCloseTo(0.5, PRECISION);
+    expect(s.radius).toBeCloseTo(2.5, PRECISION);
+
+    s.union(new Sphere(new Vector3(0, 0, 0), 0.5));
+    expect(s.radius).toBeCloseTo(2.5, PRECISION);
+
+    s.union(new Sphere(new Vector3(0, 0, 0), 10));
+    expect(s.center.x).toBeCloseTo(0, PRECISION);
+    expect(s.radius).toBeCloseTo(10, PRECISION);
+  });
+
+  it('applyMatrix4() scales radius by the largest axis scale', () => {
+    const s = new Sphere(new Vector3(1, 0, 0), 1);
+    const m = Matrix4.identity()
+      .multiplyTranslation(new Vector3(0, 0, 5))
+      .multiplyScale(new Vector3(2, 3, -4));
+    s.applyMatrix4(m);
+    expect(s.center.x).toBeCloseTo(2, PRECISION);
+    expect(s.center.z).toBeCloseTo(5, PRECISION);
+    expect(s.radius).toBeCloseTo(4, PRECISION);
+  });
+
+  it('fromPositions() with no positions is empty', () => {
+    expect(Sphere.fromPositions(new Float32Array(0)).isEmpty()).toBe(true);
+    expect(Sphere.fromPositions(new Float32Array(0), {minimal: true}).isEmpty()).toBe(true);
+  });
+
+  it('fromPositions() by Ritter encloses all points', () => {
+    const positions = randomPositions(200, 1);
+    const s = Sphere.fromPositions(positions);
+    expectEnclosing(s, positions);
+    expect(s.radius).toBeLessThan(Math.sqrt(3) * 1.2);
+  });
+
+  it('fromPositions() by Welzl gives minimal sphere', () => {
+    const positions = Float32Array.of(-1, 0, 0, 1, 0, 0, 0, 0.5, 0, 0, 0, 0.9);
+    const s = Sphere.fromPositions(positions, {minimal: true});
+    expect(s.center.x).toBeCloseTo(0, PRECISION);
+    expect(s.center.y).toBeCloseTo(0, PRECISION);
+    expect(s.center.z).toBeCloseTo(0, PRECISION);
+    expect(s.radius).toBeCloseTo(1, PRECISION);
+  });
+
+  it('fromPositions() by Welzl for regular tetrahedron', () => {
+    const positions = Float32Array.of(1, 1, 1, 1, -1, -1, -1, 1, -1, -1, -1, 1, 0, 0, 0, 0.5, 0.5, 0.5);
+    const s = Sphere.fromPositions(positions, {minimal: true});
+    expect(s.center.length()).toBeCloseTo(0, 5);
+    expect(s.radius).toBeCloseTo(Math.sqrt(3), 5);
+  });
+
+  it('fromPositions() by Welzl for triangle with obtuse angle', () => {
+    // the minimal sphere is spanned by the longest edge, not the circumcircle
+    const positions = Float32Array.of(-2, 0, 0, 2, 0, 0, 0, 0.5, 0);
+    const s = Sphere.fromPositions(positions, {minimal: true});
+    expect(s.center.x).toBeCloseTo(0, PRECISION);
+    expect(s.center.y).toBeCloseTo(0, PRECISION);
+    expect(s.radius).toBeCloseTo(2, PRECISION);
+  });
+
+  it('fromPositions() by Welzl with collinear and coplanar points', () => {
+    const collinear = Float32Array.of(0, 0, 0, 1, 1, 1, 2, 2, 2, 3, 3, 3);
+    const s = Sphere.fromPositions(collinear, {minimal: true});
+    expect(s.radius).toBeCloseTo(1.5 * Math.sqrt(3), 5);
+
+    const coplanar = Float32Array.of(1, 0, 0, 0, 1, 0, -1, 0, 0, 0, -1, 0, 0.5, 0.5, 0);
+    s.setFromPositions(coplanar, {minimal: true});
+    expect(s.radius).toBeCloseTo(1, 5);
+    expect(s.center.length()).toBeCloseTo(0, 5);
+  });
+
+  it('fromPositions() by Welzl is not larger than Ritter', () => {
+    const positions = randomPositions(500, 7);
+    const ritter = Sphere.fromPositions(positions);
+    const welzl = Sphere.fromPositions(positions, {minimal: true});
+    expectEnclosing(welzl, positions);
+    expect(welzl.radius).toBeLessThanOrEqual(ritter.radius + 1.0e-6);
+  });
+
+  it('fromPositions() by Welzl is independent of the scale', () => {
+    const positions = randomPositions(300, 11);
+    const radius = Sphere.fromPositions(positions, {minimal: true}).radius;
+    const small = positions.map((value) => value * 1.0e-3);
+    for (const _run of range(3)) {
+      const welzl = Sphere.fromPositions(small, {minimal: true});
+      expect(welzl.radius / 1.0e-3).toBeCloseTo(radius, 4);
+      expect(welzl.radius).toBeLessThanOrEqual(Sphere.fromPositions(small).radius);
+    }
+  });
+
+  it('sweepTriangle() hits the face', () => {
+    const s = new Sphere(new Vector3(0, 3, 0), 1);
+    const t = new Triangle(new Vector3(-5, 0, 5), new Vector3(5, 0, 5), new Vector3(0, 0, -5));
+    const point = Vector3.zero();
+    const normal = Vector3.zero();
+    expect(s.sweepTriangle(new Vector3(0, -4, 0), t, point, normal)).toBeCloseTo(0.5, PRECISION);
+    expect(point.x).toBeCloseTo(0, PRECISION);
+    expect(point.y).toBeCloseTo(0, PRECISION);
+    expect(normal.y).toBeCloseTo(1, PRECISION);
+    // from the back side
+    s.center.set(1, -3, 1);
+    expect(s.sweepTriangle(new Vector3(0, 4, 0), t, point, normal)).toBeCloseTo(0.5, PRECISION);
+    expect(normal.y).toBeCloseTo(-1, PRECISION);
+    // stops short, moves away, or moves parallel
+    expect(s.sweepTriangle(new Vector3(0, 1, 0), t)).toBeNull();
+    expect(s.sweepTriangle(new Vector3(0, -1, 0), t)).toBeNull();
+    expect(s.sweepTriangle(new Vector3(3, 0, 0), t)).toBeNull();
+  });
+
+  it('sweepTriangle() hits a vertex and an edge', () => {
+    const t = new Triangle(new Vector3(-1, 0, -1), new Vector3(1, 0, -1), new Vector3(0, 0, 1));
+    const point = Vector3.zero();
+    const normal = Vector3.zero();
+    // toward the vertex c along the z axis
+    const s = new Sphere(new Vector3(0, 0, 4), 1);
+    expect(s.sweepTriangle(new Vector3(0, 0, -4), t, point, normal)).toBeCloseTo(0.5, PRECISION);
+    expect(point.z).toBeCloseTo(1, PRECISION);
+    expect(normal.z).toBeCloseTo(1, PRECISION);
+    // toward the edge ab
+    s.center.set(0.5, 0, -4);
+    expect(s.sweepTriangle(new Vector3(0, 0, 4), t, point, normal)).toBeCloseTo(0.5, PRECISION);
+    expect(point.x).toBeCloseTo(0.5, PRECISION);
+    expect(point.z).toBeCloseTo(-1, PRECISION);
+    expect(normal.z).toBeCloseTo(-1, PRECISION);
+  });
+
+  it('sweepTriangle() hits an edge of a small triangle', () => {
+    const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1.0e-3, 0, 0), new Vector3(0, 1.0e-3, 0));
+    const s = new Sphere(new Vector3(0.5e-3, -2.0e-3, 0), 0.8e-3);
+    const point = Vector3.zero();
+
+    // the edge is touched at t = 0.6, before the vertices at t ≈ 0.6878
+    expect(s.sweepTriangle(new Vector3(0, 2.0e-3, 0), t, point)).toBeCloseTo(0.6, PRECISION);
+    expect(point.x).toBeCloseTo(0.5e-3, PRECISION);
+    expect(point.y).toBeCloseTo(0, PRECISION);
+  });
+
+  it('sweepTriangle() returns 0 when already intersecting', () => {
+    const t = new Triangle(new Vector3(-1, 0, -1), new Vector3(1, 0, -1), new Vector3(0, 0, 1));
+    const s = new Sphere(new Vector3(0, 0.5, 0), 1);
+    const point = Vector3.zero();
+    const normal = Vector3.zero();
+    expect(s.sweepTriangle(new Vector3(0, 5, 0), t, point, normal)).toBe(0);
+    expect(point.y).toBeCloseTo(0, PRECISION);
+    expect(normal.y).toBeCloseTo(1, PRECISION);
+    expect(Sphere.empty().sweepTriangle(new Vector3(0, 5, 0), t)).toBeNull();
+  });
+
+  it('sweepTriangle() agrees with sampling the sweep', () => {
+    const t = new Triangle(new Vector3(-1, 0, -1), new Vector3(1, 0.5, -1), new Vector3(0, -0.5, 1));
+    const positions = randomPositions(200, 11);
+    const center = Vector3.zero();
+    const closest = Vector3.zero();
+    const samples = 200;
+    for (const index of range(positions.length / 6)) {
+      const s = new Sphere(new Vector3(3 * positions[6 * index], 3 * positions[6 * index + 1], 3 * positions[6 * index + 2]), 0.5);
+      if (s.distanceToPoint(t.closestPointToPoint(s.center, closest)) <= 0) {
+        continue;
+      }
+      const displacement = new Vector3(-4 * positions[6 * index + 3], -4 * positions[6 * index + 4], -4 * positions[6 * index + 5])
+        .subtract(s.center);
+      let sampled: number | null = null;
+      for (const step of range(samples + 1)) {
+        center.copy(displacement).multiplyScalar(step / samples).add(s.center);
+        if (t.closestPointToPoint(center, closest).subtract(center).length() <= s.radius) {
+          sampled = step / samples;
+          break;
+        }
+      }
+      const time = s.sweepTriangle(displacement, t);
+      if (sampled === null) {
+        expect(time === null || time > 1 - 1 / samples).toBe(true);
+      } else {
+        expect(time).not.toBeNull();
+        expect(time!).toBeLessThanOrEqual(sampled + 1.0e-6);
+        expect(time!).toBeGreaterThan(sampled - 1 / samples - 1.0e-6);
+      }
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { Triangle } from '../src/Triangle';
+import { Vector2 } from '../src/Vector2';
+import { Vector3 } from '../src/Vector3';
+
+const PRECISION = 6;
+
+const createTriangle = (): Triangle => new Triangle(
+  new Vector3(0, 0, 0),
+  new Vector3(2, 0, 0),
+  new Vector3(0, 2, 0)
+);
+
+const expectVector3 = (actual: Vector3, x: number, y: number, z: number) => {
+  expect(actual.x).toBeCloseTo(x, PRECISION);
+  expect(actual.y).toBeCloseTo(y, PRECISION);
+  expect(actual.z).toBeCloseTo(z, PRECISION);
+};
+
+describe('Triangle', () => {
+  it('constructor copies vertices', () => {
+    const a = new Vector3(1, 2, 3);
+    const t = new Triangle(a, Vector3.zero(), Vector3.zero());
+    a.set(0, 0, 0);
+    expectVector3(t.a, 1, 2, 3);
+  });
+
+  it('clone(), set() and copy()', () => {
+    const t = createTriangle();
+    const c = t.clone();
+    t.set(Vector3.zero(), Vector3.zero(), Vector3.one());
+    expectVector3(c.c, 0, 2, 0);
+    t.copy(c);
+    expectVector3(t.c, 0, 2, 0);
+  });
+
+  it('normal()', () => {
+    const n = Vector3.zero();
+    expectVector3(createTriangle().normal(n), 0, 0, 1);
+
+    const clockwise = new Triangle(new Vector3(0, 0, 0), new Vector3(0, 1, 0), new Vector3(1, 0, 0));
+    expectVector3(clockwise.normal(n), 0, 0, -1);
+
+    const degenerate = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 1, 1), new Vector3(2, 2, 2));
+    expectVector3(degenerate.normal(n), 0, 0, 0);
+  });
+
+  it('area()', () => {
+    expect(createTriangle().area()).toBeCloseTo(2, PRECISION);
+    const t = new Triangle(new Vector3(0, 0, 0), new Vector3(0, 3, 0), new Vector3(0, 0, 4));
+    expect(t.area()).toBeCloseTo(6, PRECISION);
+  });
+
+  it('barycentric()', () => {
+    const t = createTriangle();
+    const out = Vector3.zero();
+    expectVector3(t.barycentric(new Vector3(0, 0, 0), out)!, 1, 0, 0);
+    expectVector3(t.barycentric(new Vector3(2, 0, 0), out)!, 0, 1, 0);
+    expectVector3(t.barycentric(new Vector3(0.5, 1, 0), out)!, 0.25, 0.25, 0.5);
+
+    // off the plane
+    expectVector3(t.barycentric(new Vector3(0.5, 1, 7), out)!, 0.25, 0.25, 0.5);
+
+    // outside
+    expectVector3(t.barycentric(new Vector3(4, 0, 0), out)!, -1, 2, 0);
+  });
+
+  it('barycentric() returns null for degenerate triangle', () => {
+    const t = new Triangle(new Vector3(0, 0, 0), new Vector3(1, 1, 1), new Vector3(2, 2, 2));
+    expect(t.barycentric(Vector3.zero(), Vector3.zero())).toBeNull();
+  });
+
+  it('barycentric() and containsPoint() for millimetre-sized triangle', () => {
+    const t = new Triangle(new Vector3(0, 0, 0), new Vector3(0.005, 0, 0), new Vector3(0, 0.005, 0));
+    const out = Vector3.zero();
+    expectVector3(t.barycentric(new Vector3(0.001, 0.002, 0), out)!, 0.4, 0.2, 0.4);
+    expect(t.containsPoint(new Vector3(0.001, 0.001, 0))).toBe(true);
+    expect(t.containsPoint(new Vector3(0.004, 0.004, 0))).toBe(false);
+  });
+
+  it('containsPoint()', () => {
+    const t = createTriangle();
+    expect(t.containsPoint(new Vector3(0.5, 0.5, 0))).toBe(true);
+    expect(t.containsPoint(new Vector3(1, 1, 0))).toBe(true);
+    expect(t.containsPoint(new Vector3(0.5, 0.5, -3))).toBe(true);
+    expect(t.containsPoint(new Vector3(1.5, 1.5, 0))).toBe(false);
+    expect(t.containsPoint(new Vector3(-0.1, 0.5, 0))).toBe(false);
+  });
+
+  it('closestPointToPoint()', () => {
+    const t = createTriangle();
+    const out = Vector3.zero();
+
+    // face
+    expectVector3(t.closestPointToPoint(new Vector3(0.5, 0.5, 3), out), 0.5, 0.5, 0);
+
+    // vertices
+    expectVector3(t.closestPointToPoint(new Vector3(-1, -1, 1), out), 0, 0, 0);
+    expectVector3(t.closestPointToPoint(new Vector3(3, -1, 0), out), 2, 0, 0);
+    expectVector3(t.closestPointToPoint(new Vector3(-1, 3, 0), out), 0, 2, 0);
+
+    // edges
+    expectVector3(t.closestPointToPoint(new Vector3(1, -1, 0), out), 1, 0, 0);
+    expectVector3(t.closestPointToPoint(new Vector3(-1, 1, 2), out), 0, 1, 0);
+    expectVector3(t.closestPointToPoint(new Vector3(2, 2, 0), out), 1, 1, 0);
+  });
+
+  it('interpolateVector2()', () => {
+    const uv = Triangle.interpolateVector2(
+      new Vector3(0.25, 0.25, 0.5),
+      new Vector2(0, 0),
+      new Vector2(1, 0),
+      new Vector2(0, 1),
+      Vector2.zero()
+    );
+    expect(uv.x).toBeCloseTo(0.25, PRECISION);
+    expect(uv.y).toBeCloseTo(0.5, PRECISION);
+  });
+
+  it('interpolateVector3()', () => {
+    const t = createTriangle();
+    const weights = t.barycentric(new Vector3(1, 1, 0), Vector3.zero())!;
+    const normal = Triangle.interpolateVector3(
+      weights,
+      new Vector3(0, 0, 1),
+      new Vector3(1, 0, 0),
+      new Vector3(0, 1, 0),
+      Vector3.zero()
+    );
+    expectVector3(normal, 0.5, 0.5, 0);
+  });
+});
@@ -121,4 +121,41 @@ describe('Vector1', () => {
     v.applyQuaternion(q);
     expect(v.x).toBeCloseTo(0, PRECISION);
   });
+
+  it('dot()', () => {
+    const v1 = new Vector1(2);
+    const v2 = new Vector1(3);
+    expect(v1.dot(v2)).toBe(6);
+  });
+
+  it('angleTo()', () => {
+    const v1 = new Vector1(2);
+    expect(v1.angleTo(new Vector1(3))).toBeCloseTo(0, PRECISION);
+    expect(v1.angleTo(new Vector1(-3))).toBeCloseTo(Math.PI, PRECISION);
+  });
+
+  it('projectOnto()', () => {
+    const v = new Vector1(2);
+    v.projectOnto(new Vector1(-3));
+    expect(v.x).toBeCloseTo(2, PRECISION);
+  });
+
+  it('rejectFrom()', () => {
+    const v = new Vector1(2);
+    v.rejectFrom(new Vector1(-3));
+    expect(v.x).toBeCloseTo(0, PRECISION);
+  });
+
+  it('reflect()', () => {
+    const v = new Vector1(2);
+    v.reflect(new Vector1(1));
+    expect(v.x).toBeCloseTo(-2, PRECISION);
+  });
+
+  it('lerp()', () => {
+    const v1 = new Vector1(2);
+    const v2 = new Vector1(4);
+    v1.lerp(v2, 0.5);
+    expect(v1.x).toBe(3);
+  });
 });
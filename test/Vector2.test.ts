@@ -4,6 +4,7 @@ import { Matrix3 } from '../src/Matrix3';
 import { Matrix4 } from '../src/Matrix4';
 import { Vector3 } from '../src/Vector3';
 import { Quaternion } from '../src/Quaternion';
+import { Matrix2 } from '../src/Matrix2';
 
 const PRECISION = 8;
 
@@ -144,11 +145,29 @@ describe('Vector2', () => {
   it('applyMatrix3()', () => {
     const v = Vector2.one();
     const m = new Matrix3(1, 2, 3, 4, 5, 6, 7, 8, 9);
-    v.applyMatrix3(m);
+    v.applyMatrix3(m, {asDirection: true});
     expect(v.x).toBeCloseTo(5, PRECISION);
     expect(v.y).toBeCloseTo(7, PRECISION);
   });
 
+  it('applyMatrix3() translates point', () => {
+    const v = Vector2.one();
+    const m = Matrix3.identity();
+    m.setTranslation2D(new Vector2(2, 3));
+    v.applyMatrix3(m);
+    expect(v.x).toBeCloseTo(3, PRECISION);
+    expect(v.y).toBeCloseTo(4, PRECISION);
+  });
+
+  it('applyMatrix3() does not translate direction', () => {
+    const v = Vector2.one();
+    const m = Matrix3.identity();
+    m.setTranslation2D(new Vector2(2, 3));
+    v.applyMatrix3(m, {asDirection: true});
+    expect(v.x).toBeCloseTo(1, PRECISION);
+    expect(v.y).toBeCloseTo(1, PRECISION);
+  });
+
   it('applyMatrix4()', () => {
     const v = Vector2.one();
     const m = new Matrix4(1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16);
@@ -166,4 +185,136 @@ describe('Vector2', () => {
     expect(v.x).toBeCloseTo(-1, PRECISION);
     expect(v.y).toBeCloseTo(1, PRECISION);
   });
+
+  it('dot()', () => {
+    const v1 = new Vector2(1, 2);
+    const v2 = new Vector2(3, 4);
+    expect(v1.dot(v2)).toBe(11);
+  });
+
+  it('angleTo()', () => {
+    const v1 = new Vector2(1, 0);
+    const v2 = new Vector2(-1, 1);
+    expect(v1.angleTo(v2)).toBeCloseTo(3 * Math.PI / 4, PRECISION);
+  });
+
+  it('signedAngleTo()', () => {
+    const v1 = new Vector2(1, 0);
+    expect(v1.signedAngleTo(new Vector2(0, 1))).toBeCloseTo(Math.PI / 2, PRECISION);
+    expect(v1.signedAngleTo(new Vector2(0, -1))).toBeCloseTo(-Math.PI / 2, PRECISION);
+  });
+
+  it('projectOnto()', () => {
+    const v1 = new Vector2(2, 3);
+    const v2 = new Vector2(2, 0);
+    v1.projectOnto(v2);
+    expect(v1.x).toBeCloseTo(2, PRECISION);
+    expect(v1.y).toBeCloseTo(0, PRECISION);
+  });
+
+  it('rejectFrom()', () => {
+    const v1 = new Vector2(2, 3);
+    const v2 = new Vector2(2, 0);
+    v1.rejectFrom(v2);
+    expect(v1.x).toBeCloseTo(0, PRECISION);
+    expect(v1.y).toBeCloseTo(3, PRECISION);
+  });
+
+  it('reflectTo()', () => {
+    const v = new Vector2(1, -1);
+    const n = new Vector2(0, 1);
+    const out = Vector2.zero();
+    v.reflectTo(n, out);
+    expect(out.x).toBeCloseTo(1, PRECISION);
+    expect(out.y).toBeCloseTo(1, PRECISION);
+  });
+
+  it('multiply()', () => {
+    const v1 = new Vector2(2, -3);
+    const v2 = new Vector2(4, 2);
+    v1.multiply(v2);
+    expect(v1.x).toBe(8);
+    expect(v1.y).toBe(-6);
+  });
+
+  it('divide()', () => {
+    const v1 = new Vector2(2, -3);
+    const v2 = new Vector2(4, 2);
+    v1.divide(v2);
+    expect(v1.x).toBe(0.5);
+    expect(v1.y).toBe(-1.5);
+  });
+
+  it('min() and max()', () => {
+    const v1 = new Vector2(2, -3);
+    const v2 = new Vector2(4, 2);
+    const min = Vector2.zero();
+    const max = Vector2.zero();
+    v1.minTo(v2, min);
+    v1.maxTo(v2, max);
+    expect(min.x).toBe(2);
+    expect(min.y).toBe(-3);
+    expect(max.x).toBe(4);
+    expect(max.y).toBe(2);
+  });
+
+  it('clamp()', () => {
+    const v = new Vector2(2, -3);
+    v.clamp(Vector2.zero(), Vector2.one());
+    expect(v.x).toBe(1);
+    expect(v.y).toBe(0);
+  });
+
+  it('floor(), ceil() and round()', () => {
+    const v = new Vector2(1.5, -2.5);
+    const out = Vector2.zero();
+    v.floorTo(out);
+    expect(out.x).toBe(1);
+    expect(out.y).toBe(-3);
+    v.ceilTo(out);
+    expect(out.x).toBe(2);
+    expect(out.y).toBe(-2);
+    v.roundTo(out);
+    expect(out.x).toBe(2);
+    expect(out.y).toBe(-2);
+  });
+
+  it('abs(), sign() and negate()', () => {
+    const v = new Vector2(1.5, -2.5);
+    const out = Vector2.zero();
+    v.absTo(out);
+    expect(out.x).toBe(1.5);
+    expect(out.y).toBe(2.5);
+    v.signTo(out);
+    expect(out.x).toBe(1);
+    expect(out.y).toBe(-1);
+    v.negate();
+    expect(v.x).toBe(-1.5);
+    expect(v.y).toBe(2.5);
+  });
+
+  it('lerp()', () => {
+    const v1 = new Vector2(0, 2);
+    const v2 = new Vector2(4, 6);
+    v1.lerp(v2, 0.5);
+    expect(v1.x).toBe(2);
+    expect(v1.y).toBe(4);
+  });
+
+  it('nlerpTo()', () => {
+    const v1 = new Vector2(1, 0);
+    const v2 = new Vector2(0, 1);
+    const out = Vector2.zero();
+    Vector2.nlerpTo(v1, v2, 0.5, out);
+    expect(out.x).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(out.y).toBeCloseTo(Math.SQRT1_2, PRECISION);
+  });
+
+  it('applyMatrix2()', () => {
+    const v = new Vector2(1, 2);
+    const m = new Matrix2(1, 2, 3, 4);
+    v.applyMatrix2(m);
+    expect(v.x).toBe(7);
+    expect(v.y).toBe(10);
+  });
 });
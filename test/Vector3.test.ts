@@ -197,4 +197,374 @@ describe('Vector3', () => {
     expect(v.y).toBeCloseTo(4, PRECISION);
     expect(v.z).toBeCloseTo(9, PRECISION);
   });
+
+  it('dot()', () => {
+    const v1 = new Vector3(1, 2, 3);
+    const v2 = new Vector3(4, 5, 6);
+    expect(v1.dot(v2)).toBe(32);
+  });
+
+  it('angleTo()', () => {
+    const v1 = new Vector3(1, 0, 0);
+    const v2 = new Vector3(1, 1, 0);
+    expect(v1.angleTo(v2)).toBeCloseTo(Math.PI / 4, PRECISION);
+  });
+
+  it('angleTo() returns 0 when either vector is zero', () => {
+    const v1 = new Vector3(1, 0, 0);
+    const v2 = Vector3.zero();
+    expect(v1.angleTo(v2)).toBe(0);
+  });
+
+  it('signedAngleTo()', () => {
+    const v1 = new Vector3(1, 0, 0);
+    const v2 = new Vector3(0, 1, 0);
+    expect(v1.signedAngleTo(v2, new Vector3(0, 0, 1))).toBeCloseTo(Math.PI / 2, PRECISION);
+    expect(v1.signedAngleTo(v2, new Vector3(0, 0, -1))).toBeCloseTo(-Math.PI / 2, PRECISION);
+  });
+
+  it('projectOnto()', () => {
+    const v1 = new Vector3(2, 3, 4);
+    const v2 = new Vector3(0, 2, 0);
+    v1.projectOnto(v2);
+    expect(v1.x).toBeCloseTo(0, PRECISION);
+    expect(v1.y).toBeCloseTo(3, PRECISION);
+    expect(v1.z).toBeCloseTo(0, PRECISION);
+  });
+
+  it('projectOnto() zero vector', () => {
+    const v = new Vector3(2, 3, 4);
+    v.projectOnto(Vector3.zero());
+    expect(v.isZero()).toBeTruthy();
+  });
+
+  it('projectOntoTo()', () => {
+    const v1 = new Vector3(2, 3, 4);
+    const v2 = new Vector3(0, 0, 1);
+    const out = Vector3.zero();
+    v1.projectOntoTo(v2, out);
+    expect(v1.x).toBe(2);
+    expect(out.x).toBeCloseTo(0, PRECISION);
+    expect(out.y).toBeCloseTo(0, PRECISION);
+    expect(out.z).toBeCloseTo(4, PRECISION);
+  });
+
+  it('rejectFrom()', () => {
+    const v1 = new Vector3(2, 3, 4);
+    const v2 = new Vector3(0, 2, 0);
+    v1.rejectFrom(v2);
+    expect(v1.x).toBeCloseTo(2, PRECISION);
+    expect(v1.y).toBeCloseTo(0, PRECISION);
+    expect(v1.z).toBeCloseTo(4, PRECISION);
+  });
+
+  it('rejectFromTo()', () => {
+    const v1 = new Vector3(2, 3, 4);
+    const v2 = new Vector3(0, 0, 1);
+    const out = Vector3.zero();
+    v1.rejectFromTo(v2, out);
+    expect(v1.z).toBe(4);
+    expect(out.x).toBeCloseTo(2, PRECISION);
+    expect(out.y).toBeCloseTo(3, PRECISION);
+    expect(out.z).toBeCloseTo(0, PRECISION);
+  });
+
+  it('reflect()', () => {
+    const v = new Vector3(1, -1, 2);
+    const n = new Vector3(0, 3, 0);
+    v.reflect(n);
+    expect(v.x).toBeCloseTo(1, PRECISION);
+    expect(v.y).toBeCloseTo(1, PRECISION);
+    expect(v.z).toBeCloseTo(2, PRECISION);
+  });
+
+  it('reflectTo()', () => {
+    const v = new Vector3(1, -1, 2);
+    const n = new Vector3(0, 1, 0);
+    const out = Vector3.zero();
+    v.reflectTo(n, out);
+    expect(v.y).toBe(-1);
+    expect(out.x).toBeCloseTo(1, PRECISION);
+    expect(out.y).toBeCloseTo(1, PRECISION);
+    expect(out.z).toBeCloseTo(2, PRECISION);
+  });
+
+  it('multiply()', () => {
+    const v1 = new Vector3(2, -3, 4);
+    const v2 = new Vector3(4, 2, 8);
+    v1.multiply(v2);
+    expect(v1.x).toBe(8);
+    expect(v1.y).toBe(-6);
+    expect(v1.z).toBe(32);
+  });
+
+  it('multiplyTo()', () => {
+    const v1 = new Vector3(2, -3, 4);
+    const v2 = new Vector3(4, 2, 8);
+    const out = Vector3.zero();
+    v1.multiplyTo(v2, out);
+    expect(v1.x).toBe(2);
+    expect(out.x).toBe(8);
+    expect(out.y).toBe(-6);
+    expect(out.z).toBe(32);
+  });
+
+  it('divide()', () => {
+    const v1 = new Vector3(2, -3, 4);
+    const v2 = new Vector3(4, 2, 8);
+    v1.divide(v2);
+    expect(v1.x).toBe(0.5);
+    expect(v1.y).toBe(-1.5);
+    expect(v1.z).toBe(0.5);
+  });
+
+  it('min()', () => {
+    const v1 = new Vector3(2, -3, 9);
+    const v2 = new Vector3(4, 2, 8);
+    v1.min(v2);
+    expect(v1.x).toBe(2);
+    expect(v1.y).toBe(-3);
+    expect(v1.z).toBe(8);
+  });
+
+  it('max()', () => {
+    const v1 = new Vector3(2, -3, 9);
+    const v2 = new Vector3(4, 2, 8);
+    v1.max(v2);
+    expect(v1.x).toBe(4);
+    expect(v1.y).toBe(2);
+    expect(v1.z).toBe(9);
+  });
+
+  it('clamp()', () => {
+    const v = new Vector3(2, -3, 0.5);
+    v.clamp(Vector3.zero(), Vector3.one());
+    expect(v.x).toBe(1);
+    expect(v.y).toBe(0);
+    expect(v.z).toBe(0.5);
+  });
+
+  it('clampTo()', () => {
+    const v = new Vector3(2, -3, 0.5);
+    const out = Vector3.zero();
+    v.clampTo(Vector3.zero(), Vector3.one(), out);
+    expect(v.x).toBe(2);
+    expect(out.x).toBe(1);
+    expect(out.y).toBe(0);
+    expect(out.z).toBe(0.5);
+  });
+
+  it('abs()', () => {
+    const v = new Vector3(1.5, -2.5, 0);
+    v.abs();
+    expect(v.x).toBe(1.5);
+    expect(v.y).toBe(2.5);
+    expect(v.z).toBe(0);
+  });
+
+  it('floor()', () => {
+    const v = new Vector3(1.5, -2.5, 3);
+    v.floor();
+    expect(v.x).toBe(1);
+    expect(v.y).toBe(-3);
+    expect(v.z).toBe(3);
+  });
+
+  it('ceil()', () => {
+    const v = new Vector3(1.5, -2.5, 3);
+    v.ceil();
+    expect(v.x).toBe(2);
+    expect(v.y).toBe(-2);
+    expect(v.z).toBe(3);
+  });
+
+  it('round()', () => {
+    const v = new Vector3(1.4, -2.6, 3.5);
+    v.round();
+    expect(v.x).toBe(1);
+    expect(v.y).toBe(-3);
+    expect(v.z).toBe(4);
+  });
+
+  it('sign()', () => {
+    const v = new Vector3(1.5, -2.5, 0);
+    v.sign();
+    expect(v.x).toBe(1);
+    expect(v.y).toBe(-1);
+    expect(v.z).toBe(0);
+  });
+
+  it('negate()', () => {
+    const v = new Vector3(1.5, -2.5, 3);
+    v.negate();
+    expect(v.x).toBe(-1.5);
+    expect(v.y).toBe(2.5);
+    expect(v.z).toBe(-3);
+  });
+
+  it('negateTo()', () => {
+    const v = new Vector3(1.5, -2.5, 3);
+    const out = Vector3.zero();
+    v.negateTo(out);
+    expect(v.x).toBe(1.5);
+    expect(out.x).toBe(-1.5);
+    expect(out.y).toBe(2.5);
+    expect(out.z).toBe(-3);
+  });
+
+  it('lerp()', () => {
+    const v1 = new Vector3(0, 2, 4);
+    const v2 = new Vector3(4, 6, 8);
+    v1.lerp(v2, 0.25);
+    expect(v1.x).toBe(1);
+    expect(v1.y).toBe(3);
+    expect(v1.z).toBe(5);
+  });
+
+  it('lerpTo()', () => {
+    const v1 = new Vector3(0, 2, 4);
+    const v2 = new Vector3(4, 6, 8);
+    const out = Vector3.zero();
+    Vector3.lerpTo(v1, v2, 0.5, out);
+    expect(v1.x).toBe(0);
+    expect(out.x).toBe(2);
+    expect(out.y).toBe(4);
+    expect(out.z).toBe(6);
+  });
+
+  it('nlerp()', () => {
+    const v1 = new Vector3(1, 0, 0);
+    const v2 = new Vector3(0, 1, 0);
+    v1.nlerp(v2, 0.5);
+    expect(v1.x).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(v1.y).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(v1.z).toBeCloseTo(0, PRECISION);
+  });
+
+  it('slerp()', () => {
+    const v1 = new Vector3(1, 0, 0);
+    const v2 = new Vector3(0, 1, 0);
+    v1.slerp(v2, 1 / 3);
+    expect(v1.x).toBeCloseTo(Math.sqrt(3) / 2, PRECISION);
+    expect(v1.y).toBeCloseTo(0.5, PRECISION);
+    expect(v1.z).toBeCloseTo(0, PRECISION);
+    expect(v1.length()).toBeCloseTo(1, PRECISION);
+  });
+
+  it('slerp() when directions are parallel', () => {
+    const v1 = new Vector3(0, 0, 1);
+    const v2 = new Vector3(0, 0, 1);
+    v1.slerp(v2, 0.5);
+    expect(v1.x).toBeCloseTo(0, PRECISION);
+    expect(v1.y).toBeCloseTo(0, PRECISION);
+    expect(v1.z).toBeCloseTo(1, PRECISION);
+  });
+
+  it('slerp() when directions are opposite', () => {
+    const v1 = new Vector3(1, 0, 0);
+    const v2 = new Vector3(-1, 0, 0);
+    v1.slerp(v2, 0.5);
+    expect(v1.length()).toBeCloseTo(1, PRECISION);
+    expect(v1.x).toBeCloseTo(0, PRECISION);
+
+    const v3 = new Vector3(0, 0.6, 0.8);
+    v3.slerp(new Vector3(0, -0.6, -0.8), 0.25);
+    expect(v3.length()).toBeCloseTo(1, PRECISION);
+    expect(v3.dot(new Vector3(0, 0.6, 0.8))).toBeCloseTo(Math.SQRT1_2, PRECISION);
+
+    const v4 = new Vector3(1, 0, 0);
+    v4.slerp(new Vector3(-1, 0, 0), 1);
+    expect(v4.x).toBeCloseTo(-1, PRECISION);
+  });
+
+  it('slerpTo()', () => {
+    const v1 = new Vector3(1, 0, 0);
+    const v2 = new Vector3(0, 0, 1);
+    const out = Vector3.zero();
+    Vector3.slerpTo(v1, v2, 0.5, out);
+    expect(v1.x).toBe(1);
+    expect(out.x).toBeCloseTo(Math.SQRT1_2, PRECISION);
+    expect(out.y).toBeCloseTo(0, PRECISION);
+    expect(out.z).toBeCloseTo(Math.SQRT1_2, PRECISION);
+  });
+
+  it('project()', () => {
+    const view = Matrix4.identity().lookAt(new Vector3(0, 0, 5), Vector3.zero(), new Vector3(0, 1, 0));
+    const projection = Matrix4.identity().perspective(Math.PI / 2, 1, 10, 2);
+    const viewport = {x: 10, y: 20, width: 200, height: 100};
+
+    const center = Vector3.zero().project(view, projection, viewport);
+    expect(center.x).toBeCloseTo(110, 4);
+    expect(center.y).toBeCloseTo(70, 4);
+
+    const nearTopRight = new Vector3(2, 1, 4).project(view, projection, viewport);
+    expect(nearTopRight.x).toBeCloseTo(210, 4);
+    expect(nearTopRight.y).toBeCloseTo(20, 4);
+    expect(nearTopRight.z).toBeCloseTo(0, 5);
+  });
+
+  it('project() for WebGPU maps far plane to depth 1', () => {
+    const view = Matrix4.identity();
+    const projection = Matrix4.identity().perspective(Math.PI / 2, 1, 10, 1, {depthZeroToOne: true});
+    const viewport = {x: 0, y: 0, width: 100, height: 100};
+    const v = new Vector3(0, 0, -10).project(view, projection, viewport, {depthZeroToOne: true});
+    expect(v.z).toBeCloseTo(1, 5);
+  });
+
+  it('unproject() inverts project()', () => {
+    const view = Matrix4.identity().lookAt(new Vector3(3, 4, 5), Vector3.zero(), new Vector3(0, 1, 0));
+    const options = {depthZeroToOne: true};
+    const projection = Matrix4.identity().perspective(Math.PI / 3, 0.5, 50, 1.5, options);
+    const viewport = {x: 0, y: 0, width: 300, height: 200};
+
+    const v = new Vector3(0.5, -1, 0.25);
+    v.project(view, projection, viewport, options);
+    const result = v.unproject(view, projection, viewport, options);
+    expect(result).toBe(v);
+    expect(v.x).toBeCloseTo(0.5, 3);
+    expect(v.y).toBeCloseTo(-1, 3);
+    expect(v.z).toBeCloseTo(0.25, 3);
+  });
+
+  it('unproject() does not calculate singular matrix', () => {
+    const v = Vector3.zero();
+    const viewport = {x: 0, y: 0, width: 100, height: 100};
+    expect(v.unproject(Matrix4.identity(), Matrix4.zero(), viewport)).toBeNull();
+  });
+
+  it('pickingRay()', () => {
+    const view = Matrix4.identity().lookAt(new Vector3(0, 0, 5), Vector3.zero(), new Vector3(0, 1, 0));
+    const projection = Matrix4.identity().perspective(Math.PI / 2, 1, 100, 1);
+    const viewport = {x: 0, y: 0, width: 100, height: 100};
+    const origin = Vector3.zero();
+    const direction = Vector3.zero();
+
+    expect(Vector3.pickingRay(50, 50, view, projection, viewport, origin, direction)).toBe(true);
+    expect(origin.x).toBeCloseTo(0, 4);
+    expect(origin.y).toBeCloseTo(0, 4);
+    expect(origin.z).toBeCloseTo(4, 4);
+    expect(direction.x).toBeCloseTo(0, 4);
+    expect(direction.y).toBeCloseTo(0, 4);
+    expect(direction.z).toBeCloseTo(-1, 4);
+
+    Vector3.pickingRay(100, 0, view, projection, viewport, origin, direction);
+    expect(direction.x).toBeCloseTo(1 / Math.sqrt(3), 4);
+    expect(direction.y).toBeCloseTo(1 / Math.sqrt(3), 4);
+    expect(direction.z).toBeCloseTo(-1 / Math.sqrt(3), 4);
+  });
+
+  it('pickingRay() with infinite reversed-Z projection', () => {
+    const options = {depthZeroToOne: true, reversedZ: true};
+    const view = Matrix4.identity();
+    const projection = Matrix4.identity().perspective(Math.PI / 2, 0.1, Infinity, 1, options);
+    const viewport = {x: 0, y: 0, width: 100, height: 100};
+    const origin = Vector3.zero();
+    const direction = Vector3.zero();
+
+    Vector3.pickingRay(50, 50, view, projection, viewport, origin, direction, options);
+    expect(origin.z).toBeCloseTo(-0.1, 5);
+    expect(direction.x).toBeCloseTo(0, 5);
+    expect(direction.y).toBeCloseTo(0, 5);
+    expect(direction.z).toBeCloseTo(-1, 5);
+  });
 });
@@ -210,4 +210,115 @@ describe('Vector4', () => {
     expect(v.z).toBeCloseTo(1, PRECISION);
     expect(v.w).toBeCloseTo(1, PRECISION);
   });
+
+  it('dot()', () => {
+    const v1 = new Vector4(1, 2, 3, 4);
+    const v2 = new Vector4(5, 6, 7, 8);
+    expect(v1.dot(v2)).toBe(70);
+  });
+
+  it('angleTo()', () => {
+    const v1 = new Vector4(1, 0, 0, 0);
+    const v2 = new Vector4(0, 0, 0, 2);
+    expect(v1.angleTo(v2)).toBeCloseTo(Math.PI / 2, PRECISION);
+  });
+
+  it('projectOnto()', () => {
+    const v1 = new Vector4(2, 3, 4, 5);
+    const v2 = new Vector4(0, 0, 0, 1);
+    v1.projectOnto(v2);
+    expect(v1.x).toBeCloseTo(0, PRECISION);
+    expect(v1.y).toBeCloseTo(0, PRECISION);
+    expect(v1.z).toBeCloseTo(0, PRECISION);
+    expect(v1.w).toBeCloseTo(5, PRECISION);
+  });
+
+  it('rejectFrom()', () => {
+    const v1 = new Vector4(2, 3, 4, 5);
+    const v2 = new Vector4(0, 0, 0, 1);
+    v1.rejectFrom(v2);
+    expect(v1.x).toBeCloseTo(2, PRECISION);
+    expect(v1.y).toBeCloseTo(3, PRECISION);
+    expect(v1.z).toBeCloseTo(4, PRECISION);
+    expect(v1.w).toBeCloseTo(0, PRECISION);
+  });
+
+  it('reflect()', () => {
+    const v = new Vector4(1, -1, 0, 0);
+    const n = new Vector4(0, 1, 0, 0);
+    v.reflect(n);
+    expect(v.x).toBeCloseTo(1, PRECISION);
+    expect(v.y).toBeCloseTo(1, PRECISION);
+    expect(v.z).toBeCloseTo(0, PRECISION);
+    expect(v.w).toBeCloseTo(0, PRECISION);
+  });
+
+  it('multiply()', () => {
+    const v1 = new Vector4(2, -3, 4, 1);
+    const v2 = new Vector4(4, 2, 8, 2);
+    v1.multiply(v2);
+    expect(v1.x).toBe(8);
+    expect(v1.y).toBe(-6);
+    expect(v1.z).toBe(32);
+    expect(v1.w).toBe(2);
+  });
+
+  it('divide()', () => {
+    const v1 = new Vector4(2, -3, 4, 1);
+    const v2 = new Vector4(4, 2, 8, 2);
+    v1.divide(v2);
+    expect(v1.x).toBe(0.5);
+    expect(v1.y).toBe(-1.5);
+    expect(v1.z).toBe(0.5);
+    expect(v1.w).toBe(0.5);
+  });
+
+  it('clamp()', () => {
+    const v = new Vector4(2, -3, 0.5, 1);
+    v.clamp(Vector4.zero(), Vector4.one());
+    expect(v.x).toBe(1);
+    expect(v.y).toBe(0);
+    expect(v.z).toBe(0.5);
+    expect(v.w).toBe(1);
+  });
+
+  it('floor()', () => {
+    const v = new Vector4(1.5, -2.5, 0, 3);
+    v.floor();
+    expect(v.x).toBe(1);
+    expect(v.y).toBe(-3);
+    expect(v.z).toBe(0);
+    expect(v.w).toBe(3);
+  });
+
+  it('negateTo()', () => {
+    const v = new Vector4(1.5, -2.5, 1, 3);
+    const out = Vector4.zero();
+    v.negateTo(out);
+    expect(out.x).toBe(-1.5);
+    expect(out.y).toBe(2.5);
+    expect(out.z).toBe(-1);
+    expect(out.w).toBe(-3);
+  });
+
+  it('lerp()', () => {
+    const v1 = new Vector4(0, 2, 4, 6);
+    const v2 = new Vector4(4, 6, 8, 10);
+    v1.lerp(v2, 0.5);
+    expect(v1.x).toBe(2);
+    expect(v1.y).toBe(4);
+    expect(v1.z).toBe(6);
+    expect(v1.w).toBe(8);
+  });
+
+  it('lerpTo()', () => {
+    const v1 = new Vector4(0, 2, 4, 6);
+    const v2 = new Vector4(4, 6, 8, 10);
+    const out = Vector4.zero();
+    Vector4.lerpTo(v1, v2, 1, out);
+    expect(out.x).toBe(4);
+    expect(out.y).toBe(6);
+    expect(out.z).toBe(8);
+    expect(out.w).toBe(10);
+  });
 });
@@ -1,5 +1,5 @@
 import {describe, expect, it} from "vitest";
-import {range, sum, sumMap} from '../src/functions';
+import {range, sum, sumMap, clamp} from '../src/functions';
 
 describe('functions', () => {
   describe('range()', () => {
@@ -56,4 +56,18 @@ describe('functions', () => {
       expect(sumMap(humans, (h) => h.age)).toBe(30);
     });
   });
+
+  describe('clamp()', () => {
+    it('returns min when value is less than min', () => {
+      expect(clamp(-2, -1, 1)).toBe(-1);
+    });
+
+    it('returns max when value is greater than max', () => {
+      expect(clamp(2, -1, 1)).toBe(1);
+    });
+
+    it('returns value when value is in range', () => {
+      expect(clamp(0.5, -1, 1)).toBe(0.5);
+    });
+  });
 });